@@ -1,6 +1,7 @@
-import { AlertTriangle, Info, AlertCircle, Clock, ExternalLink } from "lucide-react";
+import { useState } from "react";
+import { AlertTriangle, Info, AlertCircle, Clock, ExternalLink, Languages } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import type { Alert } from "@/types/gtfs";
+import type { Alert, AlertTranslation } from "@/types/gtfs";
 
 interface AlertsListProps {
   alerts: Alert[];
@@ -42,7 +43,26 @@ const formatPeriod = (start?: number, end?: number) => {
   return null;
 };
 
+// Translation shown for an alert: the one picked by the user, otherwise the
+// proxy's choice for the browser language (already in the top-level fields)
+const getDisplayedText = (alert: Alert, language?: string): AlertTranslation => {
+  const chosen = language !== undefined
+    ? alert.translations?.find((t) => (t.language || '') === language)
+    : undefined;
+
+  return chosen || {
+    language: alert.language,
+    headerText: alert.headerText,
+    descriptionText: alert.descriptionText,
+    url: alert.url,
+    causeDetail: alert.causeDetail,
+    effectDetail: alert.effectDetail,
+  };
+};
+
 export function AlertsList({ alerts, isLoading }: AlertsListProps) {
+  const [selectedLanguages, setSelectedLanguages] = useState<Record<string, string>>({});
+
   if (isLoading && alerts.length === 0) {
     return (
       <div className="flex items-center justify-center h-48">
@@ -70,6 +90,8 @@ export function AlertsList({ alerts, isLoading }: AlertsListProps) {
         const severity = getSeverityInfo(alert.severityLevel);
         const Icon = severity.icon;
         const activePeriod = alert.activePeriods[0];
+        const text = getDisplayedText(alert, selectedLanguages[alert.id]);
+        const translations = alert.translations || [];
 
         return (
           <div
@@ -79,15 +101,46 @@ export function AlertsList({ alerts, isLoading }: AlertsListProps) {
             <div className="flex items-start gap-3">
               <Icon className="h-5 w-5 flex-shrink-0 mt-0.5" />
               <div className="flex-1 min-w-0">
-                <h3 className="font-medium text-sm">
-                  {alert.headerText || 'Ειδοποίηση'}
-                </h3>
-                {alert.descriptionText && (
-                  <p className="text-sm mt-1 opacity-90">
-                    {alert.descriptionText}
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="font-medium text-sm" lang={text.language}>
+                    {text.headerText || 'Ειδοποίηση'}
+                  </h3>
+                  {translations.length > 1 && (
+                    <div className="flex items-center gap-1 flex-shrink-0" title="Γλώσσα ειδοποίησης">
+                      <Languages className="h-3 w-3 opacity-75" />
+                      {translations.map((translation) => {
+                        const language = translation.language || '';
+                        const isActive = language === (text.language || '');
+                        return (
+                          <button
+                            key={language || 'default'}
+                            type="button"
+                            onClick={() => setSelectedLanguages((prev) => ({ ...prev, [alert.id]: language }))}
+                            className={`px-1.5 py-0.5 rounded text-[10px] font-medium uppercase transition-colors ${
+                              isActive ? 'bg-background/70' : 'opacity-60 hover:opacity-100'
+                            }`}
+                          >
+                            {language || '—'}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+                {text.descriptionText && (
+                  <p className="text-sm mt-1 opacity-90" lang={text.language}>
+                    {text.descriptionText}
                   </p>
                 )}
 
+                {alert.image?.url && (!alert.image.mediaType || alert.image.mediaType.startsWith('image/')) && (
+                  <img
+                    src={alert.image.url}
+                    alt={alert.imageAlternativeText || ''}
+                    className="mt-2 max-h-48 rounded border border-border/50"
+                  />
+                )}
+
                 <div className="flex flex-wrap items-center gap-2 mt-3">
                   {activePeriod && (
                     <div className="flex items-center gap-1 text-xs opacity-75">
@@ -96,15 +149,15 @@ export function AlertsList({ alerts, isLoading }: AlertsListProps) {
                     </div>
                   )}
 
-                  {alert.cause && (
-                    <Badge variant="secondary" className="text-xs">
-                      {alert.cause}
+                  {(text.causeDetail || alert.cause) && (
+                    <Badge variant="secondary" className="text-xs" title={alert.cause}>
+                      {text.causeDetail || alert.cause}
                     </Badge>
                   )}
 
-                  {alert.effect && (
-                    <Badge variant="outline" className="text-xs">
-                      {alert.effect}
+                  {(text.effectDetail || alert.effect) && (
+                    <Badge variant="outline" className="text-xs" title={alert.effect}>
+                      {text.effectDetail || alert.effect}
                     </Badge>
                   )}
                 </div>
@@ -122,9 +175,9 @@ export function AlertsList({ alerts, isLoading }: AlertsListProps) {
                   </div>
                 )}
 
-                {alert.url && (
+                {text.url && (
                   <a
-                    href={alert.url}
+                    href={text.url}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-flex items-center gap-1 text-xs mt-2 hover:underline"
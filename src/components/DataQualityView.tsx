@@ -0,0 +1,124 @@
+import { AlertCircle, AlertTriangle, CheckCircle2, RefreshCw, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useFeedValidation, useOperatorName } from "@/hooks/useGtfsData";
+import type { OperatorValidation, ValidationNotice } from "@/types/gtfs";
+
+interface DataQualityViewProps {
+  operatorId?: string;
+  enabled: boolean;
+}
+
+const formatTime = (timestamp?: number) => {
+  if (!timestamp) return '--:--:--';
+  return new Date(timestamp).toLocaleTimeString('el-GR', { hour12: false });
+};
+
+function NoticeRow({ notice }: { notice: ValidationNotice }) {
+  const isError = notice.severity === 'ERROR';
+  const Icon = isError ? AlertCircle : AlertTriangle;
+
+  return (
+    <div className="p-3 flex items-start gap-3">
+      <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isError ? 'text-destructive' : 'text-transit-delay'}`} />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <Badge variant={isError ? 'destructive' : 'secondary'} className="font-mono">
+            {notice.code}
+          </Badge>
+          <span className="text-sm font-medium">{notice.title}</span>
+        </div>
+        <div className="mt-1 text-xs text-muted-foreground flex flex-wrap gap-1">
+          <span>Παραδείγματα:</span>
+          {notice.examples.map((example) => (
+            <span key={example} className="font-mono bg-muted/50 px-1 rounded">{example}</span>
+          ))}
+        </div>
+      </div>
+      <span className="font-mono text-sm text-muted-foreground">×{notice.occurrences}</span>
+    </div>
+  );
+}
+
+function OperatorReport({ report }: { report: OperatorValidation }) {
+  const operatorName = useOperatorName();
+
+  return (
+    <div className="border-b border-border">
+      <div className="p-4 flex flex-wrap items-center gap-3 bg-muted/20">
+        <span className="font-semibold">{operatorName(report.operatorId)}</span>
+        <span className="text-xs text-muted-foreground">
+          {report.entityCount} οντότητες · {formatTime(report.fetchedAt)}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <Badge variant={report.errors > 0 ? 'destructive' : 'outline'}>{report.errors} σφάλματα</Badge>
+          <Badge variant="secondary">{report.warnings} προειδοποιήσεις</Badge>
+        </div>
+      </div>
+
+      {report.error && (
+        <div className="px-4 py-2 text-sm text-destructive">{report.error}</div>
+      )}
+      {!report.staticChecked && !report.error && (
+        <div className="px-4 py-2 text-xs text-muted-foreground">
+          Το στατικό GTFS δεν ήταν διαθέσιμο· οι έλεγχοι που το απαιτούν παραλείφθηκαν
+        </div>
+      )}
+
+      {report.notices.length > 0 ? (
+        <div className="divide-y divide-border">
+          {report.notices.map((notice) => (
+            <NoticeRow key={notice.code} notice={notice} />
+          ))}
+        </div>
+      ) : !report.error && (
+        <div className="p-4 flex items-center gap-2 text-sm text-transit-ontime">
+          <CheckCircle2 className="h-4 w-4" />
+          Δεν βρέθηκαν προβλήματα
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DataQualityView({ operatorId, enabled }: DataQualityViewProps) {
+  const validationQuery = useFeedValidation(operatorId, enabled);
+  const reports = validationQuery.data?.data || [];
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b border-border flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-primary" />
+        <span className="text-sm text-muted-foreground">
+          Έλεγχος της ροής πραγματικού χρόνου έναντι του στατικού GTFS
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={() => validationQuery.refetch()}
+          disabled={validationQuery.isFetching}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${validationQuery.isFetching ? 'animate-spin' : ''}`} />
+          Επανέλεγχος
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto scrollbar-thin">
+        {validationQuery.isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : validationQuery.isError ? (
+          <div className="flex items-center justify-center h-48 text-destructive">
+            Αποτυχία ελέγχου ποιότητας δεδομένων
+          </div>
+        ) : (
+          reports.map((report) => (
+            <OperatorReport key={report.operatorId} report={report} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react";
+import { Search, MapPin, Clock, Radio, Bus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useStopDepartures } from "@/hooks/useGtfsData";
+import type { RouteInfo, StaticStop, StopDeparture } from "@/types/gtfs";
+
+interface DeparturesViewProps {
+  stops: StaticStop[];
+  operatorId?: string;
+  routeNamesMap?: Map<string, RouteInfo>;
+  refreshInterval: number;
+}
+
+const MAX_STOP_RESULTS = 50;
+
+const formatTime = (timestamp?: number) => {
+  if (!timestamp) return '--:--';
+  return new Date(timestamp * 1000).toLocaleTimeString('el-GR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+};
+
+const formatDelay = (seconds?: number) => {
+  if (seconds === undefined || seconds === null) return null;
+  const mins = Math.round(seconds / 60);
+  if (mins === 0) return { text: 'Στην ώρα', className: 'text-transit-ontime' };
+  if (mins > 0) return { text: `+${mins}'`, className: 'text-transit-delay' };
+  return { text: `${mins}'`, className: 'text-transit-early' };
+};
+
+const minutesUntil = (timestamp?: number) => {
+  if (!timestamp) return null;
+  const mins = Math.round((timestamp * 1000 - Date.now()) / 60000);
+  return mins <= 0 ? 'Τώρα' : `${mins} λεπτά`;
+};
+
+function DepartureRow({ departure, routeInfo }: { departure: StopDeparture; routeInfo?: RouteInfo }) {
+  const expectedTime = departure.predictedTime ?? departure.scheduledTime;
+  const delayInfo = departure.cancelled ? null : formatDelay(departure.delay);
+
+  return (
+    <div className="p-4 flex items-center gap-4 hover:bg-muted/30 transition-colors">
+      <span
+        className="font-bold px-2 py-1 rounded text-white text-sm min-w-[3rem] text-center"
+        style={{ backgroundColor: routeInfo?.route_color ? `#${routeInfo.route_color}` : 'hsl(var(--primary))' }}
+      >
+        {routeInfo?.route_short_name || departure.routeId || '?'}
+      </span>
+      <div className="flex-1 min-w-0">
+        <div className={`font-medium truncate ${departure.cancelled ? 'line-through text-muted-foreground' : ''}`}>
+          {departure.headsign || routeInfo?.route_long_name || departure.tripId}
+        </div>
+        <div className="text-xs text-muted-foreground flex items-center gap-2 mt-0.5">
+          {departure.scheduledTime !== undefined && (
+            <span>Προγρ. {formatTime(departure.scheduledTime)}</span>
+          )}
+          {departure.vehicleLabel || departure.vehicleId ? (
+            <span className="flex items-center gap-1">
+              <Bus className="h-3 w-3" />
+              {departure.vehicleLabel || departure.vehicleId}
+            </span>
+          ) : null}
+        </div>
+      </div>
+      <div className="text-right">
+        <div className="flex items-center justify-end gap-1 font-mono font-medium">
+          {departure.predictedTime !== undefined && !departure.cancelled && (
+            <Radio className="h-3 w-3 text-transit-ontime" aria-label="Σε πραγματικό χρόνο" />
+          )}
+          <span className={departure.cancelled ? 'line-through text-muted-foreground' : ''}>
+            {formatTime(expectedTime)}
+          </span>
+        </div>
+        <div className="text-xs mt-0.5">
+          {departure.cancelled ? (
+            <span className="text-destructive font-medium">Ακυρώθηκε</span>
+          ) : (
+            <>
+              <span className="text-muted-foreground">{minutesUntil(expectedTime)}</span>
+              {delayInfo && <span className={`ml-2 ${delayInfo.className}`}>{delayInfo.text}</span>}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function DeparturesView({ stops, operatorId, routeNamesMap, refreshInterval }: DeparturesViewProps) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedStop, setSelectedStop] = useState<StaticStop | null>(null);
+
+  const departuresQuery = useStopDepartures(refreshInterval, operatorId, selectedStop?.stop_id, 20);
+  const departures = departuresQuery.data?.data || [];
+
+  const matchingStops = useMemo(() => {
+    if (!searchTerm) return [];
+    const term = searchTerm.toLowerCase();
+    return stops
+      .filter((stop) =>
+        stop.stop_name?.toLowerCase().includes(term) ||
+        stop.stop_code?.toLowerCase().includes(term) ||
+        stop.stop_id.toLowerCase().includes(term)
+      )
+      .slice(0, MAX_STOP_RESULTS);
+  }, [stops, searchTerm]);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b border-border">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Αναζήτηση στάσης (όνομα ή κωδικός)..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {selectedStop && (
+          <div className="mt-3 flex items-center gap-2 text-sm">
+            <MapPin className="h-4 w-4 text-primary" />
+            <span className="font-medium">{selectedStop.stop_name || selectedStop.stop_id}</span>
+            {selectedStop.stop_code && (
+              <span className="font-mono text-xs text-muted-foreground">{selectedStop.stop_code}</span>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto scrollbar-thin">
+        {searchTerm && matchingStops.length > 0 ? (
+          <div className="divide-y divide-border">
+            {matchingStops.map((stop) => (
+              <button
+                key={stop.stop_id}
+                className="w-full p-3 text-left flex items-center gap-3 hover:bg-muted/30 transition-colors"
+                onClick={() => {
+                  setSelectedStop(stop);
+                  setSearchTerm("");
+                }}
+              >
+                <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm">{stop.stop_name || stop.stop_id}</span>
+                <span className="font-mono text-xs text-muted-foreground ml-auto">{stop.stop_code || stop.stop_id}</span>
+              </button>
+            ))}
+          </div>
+        ) : searchTerm ? (
+          <div className="flex flex-col items-center justify-center h-48 text-muted-foreground">
+            <MapPin className="h-12 w-12 mb-2 opacity-50" />
+            <p>Δεν βρέθηκαν στάσεις</p>
+          </div>
+        ) : !selectedStop ? (
+          <div className="flex flex-col items-center justify-center h-48 text-muted-foreground">
+            <Clock className="h-12 w-12 mb-2 opacity-50" />
+            <p>Επιλέξτε στάση για να δείτε τις επόμενες αναχωρήσεις</p>
+          </div>
+        ) : departuresQuery.isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : departuresQuery.isError ? (
+          <div className="flex items-center justify-center h-48 text-destructive">
+            Αποτυχία φόρτωσης αναχωρήσεων
+          </div>
+        ) : departures.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-48 text-muted-foreground">
+            <Clock className="h-12 w-12 mb-2 opacity-50" />
+            <p>Δεν υπάρχουν προγραμματισμένες αναχωρήσεις</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {departures.map((departure) => (
+              <DepartureRow
+                key={`${departure.tripId}-${departure.serviceDate}-${departure.stopSequence}`}
+                departure={departure}
+                routeInfo={departure.routeId ? routeNamesMap?.get(departure.routeId) : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
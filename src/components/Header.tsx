@@ -11,6 +11,7 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { OperatorSelector } from "@/components/OperatorSelector";
 import { RouteSelector } from "@/components/RouteSelector";
+import { ProxyHealthPopover } from "@/components/ProxyHealthPopover";
 import type { RouteInfo } from "@/types/gtfs";
 import motionLogo from "@/assets/motion-logo.svg";
 import designerPhoto from "@/assets/designer-photo.jpeg";
@@ -22,6 +23,7 @@ interface HeaderProps {
   onRefreshIntervalChange: (interval: number) => void;
   lastUpdate: number | null;
   isLoading: boolean;
+  isStale?: boolean;
   selectedOperator: string;
   onOperatorChange: (operator: string) => void;
   selectedRoute: string;
@@ -41,6 +43,7 @@ export function Header({
   onRefreshIntervalChange,
   lastUpdate,
   isLoading,
+  isStale,
   selectedOperator,
   onOperatorChange,
   selectedRoute,
@@ -143,12 +146,18 @@ export function Header({
                   )}
                 </Button>
               </div>
-              {lastUpdate && (
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <div className={`w-2 h-2 rounded-full ${isLoading ? 'bg-warning animate-pulse' : 'bg-success'}`} />
-                  <span>Updated: {formatLastUpdate(lastUpdate)}</span>
-                </div>
-              )}
+              <div className="flex items-center gap-2">
+                <ProxyHealthPopover />
+                {lastUpdate && (
+                  <div
+                    className="flex items-center gap-2 text-sm text-muted-foreground"
+                    title={isStale ? 'Η πηγή δεδομένων δεν αποκρίνεται - εμφανίζονται τα τελευταία διαθέσιμα δεδομένα' : undefined}
+                  >
+                    <div className={`w-2 h-2 rounded-full ${isLoading ? 'bg-warning animate-pulse' : isStale ? 'bg-warning' : 'bg-success'}`} />
+                    <span>Updated: {formatLastUpdate(lastUpdate)}{isStale && ' (cached)'}</span>
+                  </div>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,116 @@
+import { Gauge } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useOperatorName, useRouteHeadways } from "@/hooks/useGtfsData";
+import { HEADWAY_STATUS, formatHeadway } from "@/lib/headways";
+import type { RouteHeadways, RouteInfo } from "@/types/gtfs";
+
+interface HeadwaysViewProps {
+  operatorId?: string;
+  routeNamesMap?: Map<string, RouteInfo>;
+  refreshInterval: number;
+  enabled: boolean;
+}
+
+function RouteHeadwaysRow({ route, routeInfo, showOperator }: { route: RouteHeadways; routeInfo?: RouteInfo; showOperator: boolean }) {
+  const operatorName = useOperatorName();
+
+  return (
+    <div className="p-4 space-y-2">
+      <div className="flex items-center gap-3">
+        <span
+          className="font-bold px-2 py-0.5 rounded text-white text-xs min-w-[2.5rem] text-center"
+          style={{ backgroundColor: routeInfo?.route_color ? `#${routeInfo.route_color}` : 'hsl(var(--primary))' }}
+        >
+          {routeInfo?.route_short_name || route.routeId}
+        </span>
+        <span className="flex-1 truncate text-sm">
+          {routeInfo?.route_long_name || `Γραμμή ${route.routeId}`}
+          {route.directionId !== undefined && (
+            <span className="text-muted-foreground"> · Κατεύθυνση {route.directionId}</span>
+          )}
+          {showOperator && <span className="text-muted-foreground"> · {operatorName(route.operatorId)}</span>}
+        </span>
+        {route.scheduledHeadway !== undefined && (
+          <span className="text-xs text-muted-foreground">Πρόγραμμα: κάθε {formatHeadway(route.scheduledHeadway)}</span>
+        )}
+        <Badge className={`text-[10px] px-1.5 py-0 h-5 ${HEADWAY_STATUS[route.status].className}`}>
+          {HEADWAY_STATUS[route.status].label}
+        </Badge>
+      </div>
+
+      {/* Vehicles from the front of the route; each gap is to the vehicle ahead */}
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        {route.vehicles.map((vehicle, index) => (
+          <span key={vehicle.vehicleId} className="flex items-center gap-1">
+            {index > 0 && (
+              <span
+                className={`font-mono ${
+                  vehicle.status === 'bunched' ? 'text-transit-delay font-bold' :
+                  vehicle.status === 'gap' ? 'text-transit-early font-bold' :
+                  'text-muted-foreground'
+                }`}
+                title={vehicle.gapMeters !== undefined ? `${vehicle.gapMeters} m` : undefined}
+              >
+                ← {formatHeadway(vehicle.headway)} ←
+              </span>
+            )}
+            <span className="px-1.5 py-0.5 rounded bg-muted font-mono">{vehicle.label || vehicle.vehicleId}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function HeadwaysView({ operatorId, routeNamesMap, refreshInterval, enabled }: HeadwaysViewProps) {
+  const headwaysQuery = useRouteHeadways(refreshInterval, operatorId, undefined, enabled);
+  // A single vehicle has no headway to measure
+  const routes = (headwaysQuery.data?.data || []).filter((route) => route.vehicles.length > 1);
+  const bunchedRoutes = routes.filter((route) => route.status === 'bunched').length;
+  const gapRoutes = routes.filter((route) => route.status === 'gap').length;
+
+  if (headwaysQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (headwaysQuery.isError) {
+    return (
+      <div className="flex items-center justify-center h-full text-destructive">
+        Αποτυχία φόρτωσης διαστημάτων διέλευσης
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b border-border flex flex-wrap items-center gap-3 text-sm">
+        <Gauge className="h-4 w-4 text-primary" />
+        <span>{routes.length} γραμμές με 2+ οχήματα</span>
+        <span className="text-transit-delay">{bunchedRoutes} με συνωστισμό</span>
+        <span className="text-transit-early">{gapRoutes} με κενά</span>
+      </div>
+
+      {routes.length === 0 ? (
+        <div className="flex flex-col items-center justify-center flex-1 text-muted-foreground">
+          <Gauge className="h-12 w-12 mb-2 opacity-50" />
+          <p>Δεν υπάρχουν γραμμές με αρκετά οχήματα για σύγκριση</p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto scrollbar-thin divide-y divide-border">
+          {routes.map((route) => (
+            <RouteHeadwaysRow
+              key={`${route.operatorId}-${route.routeId}-${route.directionId}`}
+              route={route}
+              routeInfo={routeNamesMap?.get(route.routeId)}
+              showOperator={!operatorId || operatorId === 'all'}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Bus } from "lucide-react";
+import { AlertTriangle, Bus } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -6,40 +6,67 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { OPERATORS } from "@/types/gtfs";
+import { useOperators } from "@/hooks/useGtfsData";
+import { ALL_OPERATORS, ALL_OPERATORS_LABEL, FEED_VALIDITY_WARNINGS, formatGtfsDate } from "@/lib/operators";
+import type { OperatorInfo } from "@/types/gtfs";
 
 interface OperatorSelectorProps {
   value: string;
   onChange: (value: string) => void;
 }
 
+function feedWarning(operator?: OperatorInfo) {
+  const warning = operator && FEED_VALIDITY_WARNINGS[operator.validity];
+  if (!operator || !warning) return undefined;
+  const dates = operator.validity === 'not_yet_valid'
+    ? `από ${formatGtfsDate(operator.validFrom)}`
+    : `έως ${formatGtfsDate(operator.validUntil)}`;
+  return { ...warning, title: `${warning.label} (${dates})` };
+}
+
 export function OperatorSelector({ value, onChange }: OperatorSelectorProps) {
-  const selectedOperator = OPERATORS.find(op => op.id === value);
-  
+  const operatorsQuery = useOperators();
+  const operators = operatorsQuery.data?.data || [];
+  const selectedOperator = operators.find(op => op.id === value);
+  const selectedWarning = feedWarning(selectedOperator);
+
   return (
     <div className="flex items-center gap-2">
       <Bus className="h-4 w-4 text-muted-foreground" />
       <Select value={value} onValueChange={onChange}>
         <SelectTrigger className="w-[160px] h-8 text-xs">
           <SelectValue>
-            {selectedOperator?.name || 'Όλοι οι φορείς'}
+            {selectedOperator?.name || ALL_OPERATORS_LABEL}
           </SelectValue>
         </SelectTrigger>
         <SelectContent>
-          {OPERATORS.map((operator) => (
-            <SelectItem key={operator.id} value={operator.id}>
-              <span className="flex items-center gap-2">
-                {operator.name}
-                {operator.city && (
-                  <span className="text-muted-foreground text-xs">
-                    ({operator.city})
-                  </span>
-                )}
-              </span>
-            </SelectItem>
-          ))}
+          <SelectItem value={ALL_OPERATORS}>{ALL_OPERATORS_LABEL}</SelectItem>
+          {operators.map((operator) => {
+            const warning = feedWarning(operator);
+            return (
+              <SelectItem key={operator.id} value={operator.id}>
+                <span className="flex items-center gap-2" title={warning?.title}>
+                  {operator.name}
+                  {operator.city && (
+                    <span className="text-muted-foreground text-xs">
+                      ({operator.city})
+                    </span>
+                  )}
+                  {!operator.hasRealtime && (
+                    <span className="text-muted-foreground text-xs">· μόνο πρόγραμμα</span>
+                  )}
+                  {warning && <AlertTriangle className={`h-3 w-3 ${warning.className}`} />}
+                </span>
+              </SelectItem>
+            );
+          })}
         </SelectContent>
       </Select>
+      {selectedWarning && (
+        <span title={selectedWarning.title} aria-label={selectedWarning.title}>
+          <AlertTriangle className={`h-4 w-4 ${selectedWarning.className}`} />
+        </span>
+      )}
     </div>
   );
 }
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Timer } from "lucide-react";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOperatorName, useOtpAnalytics } from "@/hooks/useGtfsData";
+import type { OtpCounts, RouteInfo } from "@/types/gtfs";
+
+interface OtpDashboardProps {
+  operatorId?: string;
+  routeNamesMap?: Map<string, RouteInfo>;
+  enabled: boolean;
+}
+
+const PERIODS = [
+  { days: 1, label: 'Τελευταίες 24 ώρες' },
+  { days: 7, label: 'Τελευταίες 7 ημέρες' },
+  { days: 30, label: 'Τελευταίες 30 ημέρες' },
+];
+const EARLY_THRESHOLDS = [0, 60, 120];
+const LATE_THRESHOLDS = [180, 300, 600];
+const MAX_ROUTE_ROWS = 20;
+
+const chartConfig = {
+  early: { label: 'Νωρίς', color: 'hsl(var(--transit-early))' },
+  onTime: { label: 'Στην ώρα', color: 'hsl(var(--transit-ontime))' },
+  late: { label: 'Καθυστέρηση', color: 'hsl(var(--transit-delay))' },
+} satisfies ChartConfig;
+
+const percent = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 1000) / 10 : 0);
+
+const formatShare = (share: number | null) => (share === null ? '–' : `${Math.round(share * 100)}%`);
+
+// Shares of a group's stop events, for 100% stacked bars
+const toShares = (counts: OtpCounts) => ({
+  early: percent(counts.early, counts.total),
+  onTime: percent(counts.onTime, counts.total),
+  late: percent(counts.late, counts.total),
+  total: counts.total,
+});
+
+function SummaryCard({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="rounded-lg border border-border p-3">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className={`text-2xl font-bold font-mono ${className || ''}`}>{value}</div>
+    </div>
+  );
+}
+
+export function OtpDashboard({ operatorId, routeNamesMap, enabled }: OtpDashboardProps) {
+  const [days, setDays] = useState(7);
+  const [early, setEarly] = useState(60);
+  const [late, setLate] = useState(300);
+
+  const otpQuery = useOtpAnalytics(operatorId, days, { early, late }, enabled);
+  const operatorName = useOperatorName();
+  const report = otpQuery.data?.data;
+
+  const hourData = (report?.hours || []).map((hour) => ({
+    label: String(hour.hour).padStart(2, '0'),
+    ...toShares(hour),
+  }));
+  const operatorData = (report?.operators || []).map((operator) => ({
+    label: operatorName(operator.operatorId),
+    ...toShares(operator),
+  }));
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="p-4 border-b border-border flex flex-wrap items-center gap-2">
+        <Timer className="h-4 w-4 text-primary" />
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-[180px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period.days} value={String(period.days)}>{period.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={String(early)} onValueChange={(value) => setEarly(Number(value))}>
+          <SelectTrigger className="w-[150px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EARLY_THRESHOLDS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>Νωρίς: &gt;{seconds / 60}'</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={String(late)} onValueChange={(value) => setLate(Number(value))}>
+          <SelectTrigger className="w-[150px] h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LATE_THRESHOLDS.map((seconds) => (
+              <SelectItem key={seconds} value={String(seconds)}>Καθυστέρηση: &gt;{seconds / 60}'</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-auto scrollbar-thin p-4 space-y-6">
+        {otpQuery.isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : otpQuery.isError || !report ? (
+          <div className="flex items-center justify-center h-48 text-destructive">
+            Αποτυχία φόρτωσης στατιστικών ακρίβειας
+          </div>
+        ) : report.overall.total === 0 ? (
+          <div className="flex flex-col items-center justify-center h-48 text-muted-foreground">
+            <Timer className="h-12 w-12 mb-2 opacity-50" />
+            <p>Δεν υπάρχουν καταγεγραμμένες διελεύσεις για την περίοδο</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <SummaryCard label="Στην ώρα" value={formatShare(report.overall.onTimeShare)} className="text-transit-ontime" />
+              <SummaryCard label="Νωρίς" value={`${percent(report.overall.early, report.overall.total)}%`} className="text-transit-early" />
+              <SummaryCard label="Καθυστέρηση" value={`${percent(report.overall.late, report.overall.total)}%`} className="text-transit-delay" />
+              <SummaryCard label="Διελεύσεις στάσεων" value={report.overall.total.toLocaleString('el-GR')} />
+            </div>
+
+            <section>
+              <h3 className="text-sm font-semibold mb-2">Ανά ώρα της ημέρας (%)</h3>
+              <ChartContainer config={chartConfig} className="h-[260px] w-full aspect-auto">
+                <BarChart data={hourData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="early" stackId="otp" fill="var(--color-early)" />
+                  <Bar dataKey="onTime" stackId="otp" fill="var(--color-onTime)" />
+                  <Bar dataKey="late" stackId="otp" fill="var(--color-late)" />
+                </BarChart>
+              </ChartContainer>
+            </section>
+
+            {operatorData.length > 1 && (
+              <section>
+                <h3 className="text-sm font-semibold mb-2">Ανά φορέα (%)</h3>
+                <ChartContainer config={chartConfig} className="h-[220px] w-full aspect-auto">
+                  <BarChart data={operatorData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="early" stackId="otp" fill="var(--color-early)" />
+                    <Bar dataKey="onTime" stackId="otp" fill="var(--color-onTime)" />
+                    <Bar dataKey="late" stackId="otp" fill="var(--color-late)" />
+                  </BarChart>
+                </ChartContainer>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-sm font-semibold mb-2">Γραμμές με τη χαμηλότερη ακρίβεια</h3>
+              <div className="divide-y divide-border border border-border rounded-lg">
+                {report.routes.slice(0, MAX_ROUTE_ROWS).map((route) => {
+                  const routeInfo = route.routeId ? routeNamesMap?.get(route.routeId) : undefined;
+                  return (
+                    <div
+                      key={`${route.operatorId}-${route.routeId}-${route.directionId}`}
+                      className="p-3 flex items-center gap-3 text-sm"
+                    >
+                      <span
+                        className="font-bold px-2 py-0.5 rounded text-white text-xs min-w-[2.5rem] text-center"
+                        style={{ backgroundColor: routeInfo?.route_color ? `#${routeInfo.route_color}` : 'hsl(var(--primary))' }}
+                      >
+                        {routeInfo?.route_short_name || route.routeId || '?'}
+                      </span>
+                      <span className="flex-1 truncate text-muted-foreground">
+                        {routeInfo?.route_long_name}
+                        {route.directionId !== null && ` · Κατεύθυνση ${route.directionId}`}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{route.total} διελεύσεις</span>
+                      <span className="font-mono text-transit-early w-12 text-right">{percent(route.early, route.total)}%</span>
+                      <span className="font-mono text-transit-ontime w-12 text-right">{formatShare(route.onTimeShare)}</span>
+                      <span className="font-mono text-transit-delay w-12 text-right">{percent(route.late, route.total)}%</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useOperatorName } from "@/hooks/useGtfsData";
+
+interface PartialDataBannerProps {
+  operatorIds: string[];
+  onRetry?: () => void;
+}
+
+export function PartialDataBanner({ operatorIds, onRetry }: PartialDataBannerProps) {
+  const operatorName = useOperatorName();
+  const names = operatorIds.map(operatorName);
+
+  return (
+    <div className="bg-warning/10 border border-warning/30 rounded-lg p-4 mx-4 mt-4">
+      <div className="flex items-center gap-3">
+        <AlertTriangle className="h-5 w-5 text-warning flex-shrink-0" />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-warning">Ορισμένοι φορείς δεν είναι διαθέσιμοι</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Δεν ήταν δυνατή η φόρτωση δεδομένων για: {names.join(', ')}
+          </p>
+        </div>
+        {onRetry && (
+          <Button variant="outline" size="sm" onClick={onRetry} className="flex-shrink-0">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Επανάληψη
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
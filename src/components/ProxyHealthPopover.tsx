@@ -0,0 +1,119 @@
+import { Activity } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useOperatorName, useProxyHealth } from "@/hooks/useGtfsData";
+import type { HealthState, UpstreamHealth } from "@/types/gtfs";
+
+const HEALTH_STATUS: Record<HealthState, { label: string; className: string }> = {
+  ok: { label: 'Όλα λειτουργούν', className: 'text-success' },
+  degraded: { label: 'Μερική λειτουργία', className: 'text-warning' },
+  down: { label: 'Η πηγή δεδομένων δεν αποκρίνεται', className: 'text-destructive' },
+};
+
+const CACHE_LABELS: Record<string, string> = {
+  routes: 'Γραμμές',
+  stops: 'Στάσεις',
+  schedule: 'Πρόγραμμα',
+  metadata: 'Στοιχεία φορέα',
+};
+
+function formatAge(seconds: number) {
+  if (seconds < 60) return `${seconds}δ`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}λ`;
+  return `${Math.round(seconds / 3600)}ω`;
+}
+
+function UpstreamRow({ upstream }: { upstream: UpstreamHealth }) {
+  const operatorName = useOperatorName();
+  const lastSuccess = upstream.lastSuccessAt
+    ? formatAge(Math.round((Date.now() - upstream.lastSuccessAt) / 1000))
+    : '—';
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full ${upstream.ok ? 'bg-success' : 'bg-destructive'}`} />
+        <span className="flex-1 font-medium">{operatorName(upstream.operatorId)}</span>
+        <span className="text-muted-foreground">{upstream.latencyMs} ms</span>
+      </div>
+      <div className="pl-4 text-muted-foreground">
+        {upstream.entityCount !== undefined && `${upstream.entityCount} εγγραφές · `}
+        Επιτυχία πριν {lastSuccess}
+        {upstream.errorRate > 0 && ` · Σφάλματα ${Math.round(upstream.errorRate * 100)}%`}
+      </div>
+      {upstream.circuit === 'open' && (
+        <div className="pl-4 text-warning">Προσωρινή παύση αιτημάτων</div>
+      )}
+      {!upstream.ok && upstream.lastError && (
+        <div className="pl-4 text-destructive truncate" title={upstream.lastError}>{upstream.lastError}</div>
+      )}
+    </div>
+  );
+}
+
+export function ProxyHealthPopover() {
+  const healthQuery = useProxyHealth();
+  const operatorName = useOperatorName();
+  const health = healthQuery.data?.data;
+  const status = health ? HEALTH_STATUS[health.status] : undefined;
+  const caches = (health?.caches || []).filter((cache) => Object.keys(cache.ages).length > 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center ${healthQuery.isError ? 'text-destructive' : status?.className || 'text-muted-foreground'}`}
+          aria-label="Κατάσταση υπηρεσίας"
+        >
+          <Activity className="h-3.5 w-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 text-xs space-y-3">
+        {healthQuery.isError ? (
+          <p className="text-destructive">Αποτυχία φόρτωσης κατάστασης υπηρεσίας</p>
+        ) : !health || !status ? (
+          <p className="text-muted-foreground">Φόρτωση...</p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <span className={`font-semibold ${status.className}`}>{status.label}</span>
+              <span className="text-muted-foreground">Σε λειτουργία {formatAge(health.uptime)}</span>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium text-muted-foreground">Δεδομένα πραγματικού χρόνου</h4>
+              {health.realtime.length === 0 ? (
+                <p className="text-muted-foreground">Καμία λήψη ακόμη</p>
+              ) : (
+                health.realtime.map((upstream) => <UpstreamRow key={upstream.operatorId} upstream={upstream} />)
+              )}
+            </div>
+
+            {health.static.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-muted-foreground">Στατικά GTFS</h4>
+                {health.static.map((upstream) => <UpstreamRow key={upstream.operatorId} upstream={upstream} />)}
+              </div>
+            )}
+
+            {caches.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="font-medium text-muted-foreground">Ηλικία προσωρινής μνήμης</h4>
+                {caches.map((cache) => (
+                  <div key={cache.operatorId} className="flex justify-between gap-2">
+                    <span>{operatorName(cache.operatorId)}</span>
+                    <span className="text-muted-foreground">
+                      {Object.entries(cache.ages)
+                        .map(([kind, age]) => `${CACHE_LABELS[kind] || kind} ${formatAge(age)}`)
+                        .join(' · ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -3,6 +3,8 @@ import { ChevronUp, ChevronDown, X, Clock, Bus, ChevronLeft, ChevronRight, GripV
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useRouteHeadways } from "@/hooks/useGtfsData";
+import { HEADWAY_STATUS, formatHeadway } from "@/lib/headways";
 import type { Trip, Vehicle, StaticStop, RouteInfo, StopTimeUpdate } from "@/types/gtfs";
 
 interface RouteStopsPanelProps {
@@ -11,6 +13,7 @@ interface RouteStopsPanelProps {
   vehicles: Vehicle[];
   stops: StaticStop[];
   routeInfo?: RouteInfo;
+  operatorId?: string;
   onClose: () => void;
   onStopClick?: (stopId: string) => void;
 }
@@ -52,11 +55,13 @@ export function RouteStopsPanel({
   vehicles,
   stops,
   routeInfo,
+  operatorId,
   onClose,
   onStopClick,
 }: RouteStopsPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [currentPage, setCurrentPage] = useState(0);
+  const headwaysQuery = useRouteHeadways(30, operatorId, selectedRoute, selectedRoute !== 'all');
 
   // Find the first trip for this route that has stop time updates
   const activeTrip = useMemo(() => {
@@ -122,6 +127,9 @@ export function RouteStopsPanel({
   // Count active vehicles on this route
   const vehicleCount = vehicles.filter(v => v.routeId === selectedRoute).length;
 
+  // Headway status per direction with at least two vehicles to compare
+  const directionHeadways = (headwaysQuery.data?.data || []).filter(route => route.vehicles.length > 1);
+
   const routeColor = routeInfo?.route_color ? `#${routeInfo.route_color}` : 'hsl(var(--primary))';
 
   if (selectedRoute === 'all' || !activeTrip) return null;
@@ -158,6 +166,18 @@ export function RouteStopsPanel({
               <Bus className="h-3 w-3" />
               {vehicleCount}
             </span>
+            {directionHeadways.map(route => (
+              <Badge
+                key={`${route.operatorId}-${route.directionId}`}
+                className={`text-[10px] px-1.5 py-0 h-5 ${HEADWAY_STATUS[route.status].className}`}
+                title={route.scheduledHeadway ? `Προγραμματισμένη συχνότητα ${formatHeadway(route.scheduledHeadway)}` : undefined}
+              >
+                {HEADWAY_STATUS[route.status].label}
+                {route.status === 'bunched' && route.bunched > 1 && ` ×${route.bunched}`}
+                {route.status === 'gap' && route.gaps > 1 && ` ×${route.gaps}`}
+                {directionHeadways.length > 1 && route.directionId !== undefined && ` (${route.directionId})`}
+              </Badge>
+            ))}
           </div>
         </div>
 
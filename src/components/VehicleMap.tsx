@@ -4,14 +4,17 @@ import "leaflet/dist/leaflet.css";
 import "leaflet.markercluster/dist/MarkerCluster.css";
 import "leaflet.markercluster/dist/MarkerCluster.Default.css";
 import "leaflet.markercluster";
-import { X, Navigation, MapPin, Clock, LocateFixed, Search, Loader2, Settings, Layers, Volume2, Bell, Home, ZoomIn, ZoomOut, GripVertical, Route } from "lucide-react";
+import { X, Navigation, MapPin, Clock, LocateFixed, Search, Loader2, Settings, Layers, Volume2, Bell, Home, ZoomIn, ZoomOut, GripVertical, Route, EyeOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { RouteStopsPanel } from "@/components/RouteStopsPanel";
 import { RoutePlannerPanel } from "@/components/RoutePlannerPanel";
-import type { Vehicle, StaticStop, Trip, RouteInfo } from "@/types/gtfs";
+import { useQueryClient } from "@tanstack/react-query";
+import { decodePolyline } from "@/lib/polyline";
+import { stopDeparturesQueryOptions, useStopDepartures } from "@/hooks/useGtfsData";
+import type { Vehicle, StaticStop, Trip, RouteInfo, RouteShape, StopDeparture } from "@/types/gtfs";
 
 interface VehicleMapProps {
   vehicles: Vehicle[];
@@ -19,21 +22,26 @@ interface VehicleMapProps {
   stops?: StaticStop[];
   routeNamesMap?: Map<string, RouteInfo>;
   selectedRoute?: string;
+  routeShapes?: RouteShape[];
   onRouteClose?: () => void;
+  operatorId?: string;
   isLoading: boolean;
 }
 
-const createVehicleIcon = (bearing?: number, isFollowed?: boolean, routeColor?: string) => {
+const createVehicleIcon = (bearing?: number, isFollowed?: boolean, routeColor?: string, freshness?: Vehicle['freshness']) => {
   const rotation = bearing || 0;
   const ringClass = isFollowed ? 'animate-ping' : 'animate-pulse-ring';
-  const bgColor = routeColor ? `#${routeColor}` : 'hsl(var(--primary))';
-  const glowStyle = isFollowed ? 'box-shadow: 0 0 0 2px #facc15;' : '';
+  // Lost vehicles lose their route colour; stale ones fade behind a dashed outline
+  const bgColor = freshness === 'lost' ? '#6b7280' : routeColor ? `#${routeColor}` : 'hsl(var(--primary))';
+  const glowStyle = isFollowed ? 'box-shadow: 0 0 0 2px #facc15;' : freshness === 'stale' ? 'outline: 1px dashed white;' : '';
+  const opacity = freshness === 'lost' ? 0.4 : freshness === 'stale' ? 0.6 : 1;
+  const isLive = !freshness || freshness === 'fresh';
   
   return L.divIcon({
     className: 'vehicle-marker',
     html: `
-      <div class="relative" style="transform: rotate(${rotation}deg)">
-        <div class="absolute inset-0 rounded ${ringClass} opacity-50" style="background: ${bgColor}"></div>
+      <div class="relative" style="transform: rotate(${rotation}deg); opacity: ${opacity}">
+        ${isLive || isFollowed ? `<div class="absolute inset-0 rounded ${ringClass} opacity-50" style="background: ${bgColor}"></div>` : ''}
         <div class="relative flex flex-col items-center">
           <div style="width: 0; height: 0; border-left: 4px solid transparent; border-right: 4px solid transparent; border-bottom: 5px solid ${bgColor}; margin-bottom: -1px;"></div>
           <div class="w-5 h-4 rounded-sm flex items-center justify-center shadow-md" style="background: ${bgColor}; ${glowStyle}">
@@ -87,6 +95,40 @@ const formatSpeed = (speed?: number) => {
   return `${(speed * 3.6).toFixed(1)} km/h`;
 };
 
+const OCCUPANCY_LABELS: Record<string, string> = {
+  EMPTY: 'Άδειο',
+  MANY_SEATS_AVAILABLE: 'Πολλές θέσεις',
+  FEW_SEATS_AVAILABLE: 'Λίγες θέσεις',
+  STANDING_ROOM_ONLY: 'Μόνο όρθιοι',
+  CRUSHED_STANDING_ROOM_ONLY: 'Πολύ γεμάτο',
+  FULL: 'Γεμάτο',
+  NOT_ACCEPTING_PASSENGERS: 'Δεν δέχεται επιβάτες',
+  NOT_BOARDABLE: 'Χωρίς επιβίβαση',
+};
+
+const CONGESTION_LABELS: Record<string, string> = {
+  RUNNING_SMOOTHLY: 'Ομαλή κυκλοφορία',
+  STOP_AND_GO: 'Διακοπτόμενη κυκλοφορία',
+  CONGESTION: 'Κίνηση',
+  SEVERE_CONGESTION: 'Έντονη κίνηση',
+};
+
+const STALE_LABELS: Record<string, string> = {
+  old_position: 'Παλιά θέση',
+  not_moving: 'Ακινητοποιημένο',
+  parked: 'Σταθμευμένο χωρίς δρομολόγιο',
+};
+
+const formatOccupancy = (vehicle: Vehicle) => {
+  const label = vehicle.occupancyStatus ? OCCUPANCY_LABELS[vehicle.occupancyStatus] : undefined;
+  // occupancy_percentage may be above 100 when standing room is counted
+  const percentage = vehicle.occupancyPercentage !== undefined && vehicle.occupancyPercentage >= 0
+    ? `${vehicle.occupancyPercentage}%`
+    : undefined;
+  if (label && percentage) return `${label} (${percentage})`;
+  return label || percentage || null;
+};
+
 const formatETA = (arrivalTime?: number) => {
   if (!arrivalTime) return null;
   const date = new Date(arrivalTime * 1000);
@@ -105,13 +147,52 @@ const formatDelay = (delay?: number) => {
   return `(${minutes} λεπτά)`;
 };
 
-export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, selectedRoute = 'all', onRouteClose, isLoading }: VehicleMapProps) {
+const DEPARTURES_IN_POPUP = 5;
+
+const buildDeparturesHtml = (departures: StopDeparture[], routeNamesMap?: Map<string, RouteInfo>) => {
+  if (departures.length === 0) {
+    return '<div class="mt-2 pt-2 border-t border-border text-sm text-muted-foreground">Δεν υπάρχουν προγραμματισμένες αναχωρήσεις</div>';
+  }
+
+  return `
+    <div class="mt-3 pt-2 border-t border-border">
+      <div class="font-medium text-sm mb-2 flex items-center gap-1">
+        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
+        Επόμενες αναχωρήσεις
+      </div>
+      <div class="space-y-2">
+        ${departures.map(dep => {
+          const routeInfo = dep.routeId ? routeNamesMap?.get(dep.routeId) : undefined;
+          const routeColor = routeInfo?.route_color ? `#${routeInfo.route_color}` : '#0ea5e9';
+          const delayText = dep.cancelled
+            ? '<span class="text-red-500">Ακυρώθηκε</span>'
+            : dep.delay !== undefined && dep.delay !== 0
+              ? `<span class="${dep.delay > 0 ? 'text-red-500' : 'text-green-500'}">${formatDelay(dep.delay)}</span>`
+              : '';
+          return `
+            <div class="flex items-center gap-2 text-sm">
+              <span class="font-bold px-1.5 py-0.5 rounded text-white text-xs" style="background: ${routeColor}">${routeInfo?.route_short_name || dep.routeId || '?'}</span>
+              <span class="font-mono ${dep.predictedTime !== undefined ? 'text-primary' : 'text-muted-foreground'} ${dep.cancelled ? 'line-through' : ''}">${formatETA(dep.predictedTime ?? dep.scheduledTime)}</span>
+              ${delayText}
+              ${dep.headsign ? `<span class="text-xs truncate">${dep.headsign}</span>` : ''}
+              ${dep.vehicleLabel ? `<span class="text-muted-foreground text-xs">(${dep.vehicleLabel})</span>` : ''}
+            </div>
+          `;
+        }).join('')}
+      </div>
+    </div>
+  `;
+};
+
+export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, selectedRoute = 'all', routeShapes = [], onRouteClose, operatorId, isLoading }: VehicleMapProps) {
+  const queryClient = useQueryClient();
   const mapRef = useRef<L.Map | null>(null);
   const vehicleMarkersRef = useRef<L.MarkerClusterGroup | null>(null);
   const stopMarkersRef = useRef<L.MarkerClusterGroup | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [followedVehicleId, setFollowedVehicleId] = useState<string | null>(null);
   const [showStops, setShowStops] = useState(true);
+  const [hideStale, setHideStale] = useState(false);
   const [showRoutePanel, setShowRoutePanel] = useState(true);
   const [showRoutePlanner, setShowRoutePlanner] = useState(false);
   const markerMapRef = useRef<Map<string, L.Marker>>(new Map());
@@ -126,6 +207,7 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
   const [showSearchResults, setShowSearchResults] = useState(false);
   const routeMarkersRef = useRef<L.Marker[]>([]);
   const routeLineRef = useRef<L.Polyline | null>(null);
+  const routeShapeLinesRef = useRef<L.Polyline[]>([]);
 
   // Show route panel when route changes
   useEffect(() => {
@@ -211,6 +293,12 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
     return map;
   }, [trips]);
 
+  // Vehicles the proxy classified as stale or lost
+  const staleCount = useMemo(
+    () => vehicles.filter(v => v.freshness && v.freshness !== 'fresh').length,
+    [vehicles]
+  );
+
   // Create a map of stopId -> StaticStop for quick lookup
   const stopMap = useMemo(() => {
     const map = new Map<string, StaticStop>();
@@ -244,49 +332,6 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
     };
   };
 
-  // Get arrivals for a specific stop
-  const getArrivalsForStop = (stopId: string) => {
-    const arrivals: Array<{
-      tripId: string;
-      routeId?: string;
-      routeShortName?: string;
-      routeLongName?: string;
-      routeColor?: string;
-      vehicleLabel?: string;
-      vehicleId?: string;
-      arrivalTime?: number;
-      arrivalDelay?: number;
-    }> = [];
-
-    trips.forEach(trip => {
-      const stopUpdate = trip.stopTimeUpdates?.find(stu => stu.stopId === stopId);
-      if (stopUpdate && stopUpdate.arrivalTime) {
-        const routeInfo = trip.routeId && routeNamesMap ? routeNamesMap.get(trip.routeId) : null;
-        
-        // Find associated vehicle
-        const vehicle = vehicles.find(v => v.tripId === trip.tripId);
-        
-        arrivals.push({
-          tripId: trip.tripId || trip.id,
-          routeId: trip.routeId,
-          routeShortName: routeInfo?.route_short_name,
-          routeLongName: routeInfo?.route_long_name,
-          routeColor: routeInfo?.route_color,
-          vehicleLabel: vehicle?.label || trip.vehicleLabel,
-          vehicleId: vehicle?.vehicleId || trip.vehicleId,
-          arrivalTime: stopUpdate.arrivalTime,
-          arrivalDelay: stopUpdate.arrivalDelay,
-        });
-      }
-    });
-
-    // Sort by arrival time
-    arrivals.sort((a, b) => (a.arrivalTime || 0) - (b.arrivalTime || 0));
-    
-    // Return only next 5 arrivals
-    return arrivals.slice(0, 5);
-  };
-
   // Initialize map
   useEffect(() => {
     if (!containerRef.current || mapRef.current) return;
@@ -368,7 +413,8 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
     markerMapRef.current.clear();
 
     const validVehicles = vehicles.filter(
-      (v) => v.latitude !== undefined && v.longitude !== undefined
+      (v) => v.latitude !== undefined && v.longitude !== undefined &&
+        !(hideStale && v.freshness && v.freshness !== 'fresh')
     );
 
     validVehicles.forEach((vehicle) => {
@@ -382,9 +428,11 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
       
       // Get next stop info
       const nextStop = getNextStopInfo(vehicle);
+      const occupancy = formatOccupancy(vehicle);
+      const congestion = vehicle.congestionLevel ? CONGESTION_LABELS[vehicle.congestionLevel] : undefined;
       
       const marker = L.marker([vehicle.latitude!, vehicle.longitude!], {
-        icon: createVehicleIcon(vehicle.bearing, isFollowed, routeColor),
+        icon: createVehicleIcon(vehicle.bearing, isFollowed, routeColor, vehicle.freshness),
       });
 
       marker.on('click', () => {
@@ -416,6 +464,9 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
             <div class="flex justify-between"><span class="text-muted-foreground">Ταχύτητα:</span><span>${formatSpeed(vehicle.speed)}</span></div>
             ${vehicle.bearing !== undefined ? `<div class="flex justify-between"><span class="text-muted-foreground">Κατεύθυνση:</span><span>${vehicle.bearing.toFixed(0)}°</span></div>` : ''}
             ${vehicle.currentStatus ? `<div class="flex justify-between"><span class="text-muted-foreground">Κατάσταση:</span><span>${vehicle.currentStatus}</span></div>` : ''}
+            ${occupancy ? `<div class="flex justify-between"><span class="text-muted-foreground">Πληρότητα:</span><span>${occupancy}</span></div>` : ''}
+            ${congestion ? `<div class="flex justify-between"><span class="text-muted-foreground">Κυκλοφορία:</span><span>${congestion}</span></div>` : ''}
+            ${vehicle.staleReason ? `<div class="flex justify-between"><span class="text-muted-foreground">Προσοχή:</span><span class="text-transit-delay">${STALE_LABELS[vehicle.staleReason]}</span></div>` : ''}
             <div class="flex justify-between pt-1 border-t border-border mt-2"><span class="text-muted-foreground">Ενημ:</span><span class="text-xs">${formatTimestamp(vehicle.timestamp)}</span></div>
           </div>
           ${etaHtml}
@@ -435,7 +486,43 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
       );
       mapRef.current.fitBounds(bounds, { padding: [50, 50], maxZoom: 13 });
     }
-  }, [vehicles, followedVehicleId, routeNamesMap, tripMap, stopMap]);
+  }, [vehicles, followedVehicleId, routeNamesMap, tripMap, stopMap, hideStale]);
+
+  // Draw the geometry of the selected route
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    routeShapeLinesRef.current.forEach(line => mapRef.current?.removeLayer(line));
+    routeShapeLinesRef.current = [];
+
+    if (selectedRoute === 'all') return;
+
+    const routeInfo = routeNamesMap?.get(selectedRoute);
+    const color = routeInfo?.route_color ? `#${routeInfo.route_color}` : '#0ea5e9';
+
+    routeShapes
+      .filter(shape => shape.route_id === selectedRoute)
+      .forEach(shape => {
+        const points = decodePolyline(shape.polyline);
+        if (points.length < 2) return;
+
+        const line = L.polyline(points, {
+          color,
+          weight: 5,
+          opacity: 0.75,
+          // Stop-to-stop fallback lines are only approximate
+          dashArray: shape.source === 'stops' ? '8, 8' : undefined,
+        }).addTo(mapRef.current!);
+        line.bringToBack();
+        routeShapeLinesRef.current.push(line);
+      });
+
+    if (routeShapeLinesRef.current.length > 0) {
+      const bounds = L.latLngBounds([]);
+      routeShapeLinesRef.current.forEach(line => bounds.extend(line.getBounds()));
+      mapRef.current.fitBounds(bounds, { padding: [50, 50], maxZoom: 15 });
+    }
+  }, [routeShapes, selectedRoute, routeNamesMap]);
 
   // Get stops with vehicles currently stopped
   const stopsWithVehicles = useMemo(() => {
@@ -535,6 +622,9 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
     return nearest;
   }, [userLocation, stops]);
 
+  const nearestDeparturesQuery = useStopDepartures(30, operatorId, nearestStop?.stop.stop_id, 3);
+  const nearestDepartures = nearestDeparturesQuery.data?.data || [];
+
   // Update user location marker position
   useEffect(() => {
     if (!userLocation || !userLocationMarkerRef.current) return;
@@ -554,7 +644,6 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
 
     validStops.forEach((stop) => {
       const hasVehicleStopped = stopsWithVehicles.has(stop.stop_id);
-      const arrivals = getArrivalsForStop(stop.stop_id);
       
       const marker = L.marker([stop.stop_lat!, stop.stop_lon!], {
         icon: createStopIcon(hasVehicleStopped),
@@ -563,38 +652,7 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
       const statusColor = hasVehicleStopped ? '#22c55e' : '#f97316';
       const statusText = hasVehicleStopped ? '<div class="text-green-500 font-medium mt-2 pt-2 border-t border-border">🚌 Λεωφορείο στη στάση</div>' : '';
 
-      // Build arrivals HTML
-      let arrivalsHtml = '';
-      if (arrivals.length > 0) {
-        arrivalsHtml = `
-          <div class="mt-3 pt-2 border-t border-border">
-            <div class="font-medium text-sm mb-2 flex items-center gap-1">
-              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><polyline points="12 6 12 12 16 14"/></svg>
-              Επόμενες αφίξεις
-            </div>
-            <div class="space-y-2">
-              ${arrivals.map(arr => {
-                const routeColor = arr.routeColor ? `#${arr.routeColor}` : '#0ea5e9';
-                const delayText = arr.arrivalDelay !== undefined && arr.arrivalDelay !== 0 
-                  ? `<span class="${arr.arrivalDelay > 0 ? 'text-red-500' : 'text-green-500'}">${formatDelay(arr.arrivalDelay)}</span>` 
-                  : '';
-                return `
-                  <div class="flex items-center gap-2 text-sm">
-                    <span class="font-bold px-1.5 py-0.5 rounded text-white text-xs" style="background: ${routeColor}">${arr.routeShortName || arr.routeId || '?'}</span>
-                    <span class="font-mono text-primary">${formatETA(arr.arrivalTime)}</span>
-                    ${delayText}
-                    ${arr.vehicleLabel ? `<span class="text-muted-foreground text-xs">(${arr.vehicleLabel})</span>` : ''}
-                  </div>
-                `;
-              }).join('')}
-            </div>
-          </div>
-        `;
-      } else {
-        arrivalsHtml = '<div class="mt-2 pt-2 border-t border-border text-sm text-muted-foreground">Δεν υπάρχουν προγραμματισμένες αφίξεις</div>';
-      }
-
-      marker.bindPopup(`
+      const popupHtml = (departuresHtml: string) => `
         <div class="p-3 min-w-[220px] max-w-[300px]">
           <div class="font-semibold text-base mb-2 flex items-center gap-2">
             <span class="inline-block w-2 h-2 rounded-full" style="background: ${statusColor}"></span>
@@ -605,16 +663,29 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
             ${stop.stop_code ? `<div class="flex justify-between"><span class="text-muted-foreground">Κωδικός:</span><span class="font-mono">${stop.stop_code}</span></div>` : ''}
           </div>
           ${statusText}
-          ${arrivalsHtml}
+          ${departuresHtml}
         </div>
-      `, {
+      `;
+
+      marker.bindPopup(popupHtml('<div class="mt-2 pt-2 border-t border-border text-sm text-muted-foreground">Φόρτωση αναχωρήσεων...</div>'), {
         className: 'stop-popup',
         maxWidth: 320,
       });
 
+      // Departures are fetched from the proxy when the popup opens
+      marker.on('popupopen', () => {
+        queryClient.fetchQuery(stopDeparturesQueryOptions(operatorId, stop.stop_id, DEPARTURES_IN_POPUP))
+          .then((response) => {
+            marker.setPopupContent(popupHtml(buildDeparturesHtml(response.data, routeNamesMap)));
+          })
+          .catch(() => {
+            marker.setPopupContent(popupHtml('<div class="mt-2 pt-2 border-t border-border text-sm text-destructive">Αποτυχία φόρτωσης αναχωρήσεων</div>'));
+          });
+      });
+
       stopMarkersRef.current!.addLayer(marker);
     });
-  }, [stops, showStops, stopsWithVehicles, trips, vehicles, routeNamesMap]);
+  }, [stops, showStops, stopsWithVehicles, routeNamesMap, operatorId, queryClient]);
 
   // Follow the selected vehicle in realtime
   useEffect(() => {
@@ -807,6 +878,7 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
           vehicles={vehicles}
           stops={stops}
           routeInfo={selectedRouteInfo}
+          operatorId={operatorId}
           onClose={() => setShowRoutePanel(false)}
           onStopClick={handleStopClick}
         />
@@ -852,6 +924,14 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
                 <span className="text-primary font-medium">{formatSpeed(followedVehicle.speed)}</span>
               )}
             </div>
+
+            {/* Crowding */}
+            {formatOccupancy(followedVehicle) && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-muted-foreground">Πληρότητα:</span>
+                <span>{formatOccupancy(followedVehicle)}</span>
+              </div>
+            )}
             
             {/* Route info */}
             {followedRouteInfo && (
@@ -958,6 +1038,19 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
           </Label>
         </div>
 
+        {/* Stale vehicles toggle */}
+        <div className="glass-card rounded-lg px-3 py-2 flex items-center gap-2">
+          <Switch
+            id="hide-stale"
+            checked={hideStale}
+            onCheckedChange={setHideStale}
+          />
+          <Label htmlFor="hide-stale" className="text-xs cursor-pointer flex items-center gap-1">
+            <EyeOff className="h-3 w-3 text-muted-foreground" />
+            Απόκρυψη ανενεργών ({staleCount})
+          </Label>
+        </div>
+
         {/* Control buttons */}
         <div className="glass-card rounded-lg p-1 flex flex-col gap-1">
           <Button
@@ -1068,30 +1161,35 @@ export function VehicleMap({ vehicles, trips = [], stops = [], routeNamesMap, se
               ? `${Math.round(nearestStop.distance)} μέτρα` 
               : `${(nearestStop.distance / 1000).toFixed(1)} χλμ`}
           </div>
-          {(() => {
-            const arrivals = getArrivalsForStop(nearestStop.stop.stop_id);
-            if (arrivals.length === 0) return <div className="text-xs text-muted-foreground">Δεν υπάρχουν αφίξεις</div>;
-            return (
-              <div className="space-y-1 border-t border-border pt-2">
-                {arrivals.slice(0, 3).map((arr, idx) => (
-                  <div key={idx} className="flex items-center gap-2 text-xs">
+          {nearestDepartures.length === 0 ? (
+            <div className="text-xs text-muted-foreground">Δεν υπάρχουν αναχωρήσεις</div>
+          ) : (
+            <div className="space-y-1 border-t border-border pt-2">
+              {nearestDepartures.map((dep) => {
+                const routeInfo = dep.routeId ? routeNamesMap?.get(dep.routeId) : undefined;
+                return (
+                  <div key={`${dep.tripId}-${dep.serviceDate}`} className="flex items-center gap-2 text-xs">
                     <span 
                       className="font-bold px-1.5 py-0.5 rounded text-white"
-                      style={{ backgroundColor: arr.routeColor ? `#${arr.routeColor}` : '#0ea5e9' }}
+                      style={{ backgroundColor: routeInfo?.route_color ? `#${routeInfo.route_color}` : '#0ea5e9' }}
                     >
-                      {arr.routeShortName || arr.routeId || '?'}
+                      {routeInfo?.route_short_name || dep.routeId || '?'}
+                    </span>
+                    <span className={`font-mono text-primary ${dep.cancelled ? 'line-through' : ''}`}>
+                      {formatETA(dep.predictedTime ?? dep.scheduledTime)}
                     </span>
-                    <span className="font-mono text-primary">{formatETA(arr.arrivalTime)}</span>
-                    {arr.arrivalDelay !== undefined && arr.arrivalDelay !== 0 && (
-                      <span className={arr.arrivalDelay > 0 ? 'text-destructive' : 'text-green-500'}>
-                        {formatDelay(arr.arrivalDelay)}
+                    {dep.cancelled ? (
+                      <span className="text-destructive">Ακυρώθηκε</span>
+                    ) : dep.delay !== undefined && dep.delay !== 0 && (
+                      <span className={dep.delay > 0 ? 'text-destructive' : 'text-green-500'}>
+                        {formatDelay(dep.delay)}
                       </span>
                     )}
                   </div>
-                ))}
-              </div>
-            );
-          })()}
+                );
+              })}
+            </div>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -1,17 +1,43 @@
-import { useQuery } from "@tanstack/react-query";
-import type { Vehicle, Trip, Alert, GtfsResponse, RouteInfo, StaticStop } from "@/types/gtfs";
+import { useCallback } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { Vehicle, Trip, Alert, RealtimeSnapshot, RealtimeFilter, GtfsResponse, RouteInfo, StaticStop, ScheduledTrip, ScheduledStopTime, RouteShape, StopDeparture, OperatorValidation, OtpReport, OtpThresholds, RouteHeadways, ProxyHealth, OperatorInfo } from "@/types/gtfs";
+import { operatorName } from "@/lib/operators";
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 
-async function fetchFromProxy<T>(endpoint: string, operatorId?: string): Promise<GtfsResponse<T>> {
-  const params = operatorId && operatorId !== 'all' 
-    ? `?operator=${operatorId}` 
-    : '';
-  
-  const response = await fetch(`${SUPABASE_URL}/functions/v1/gtfs-proxy${endpoint}${params}`, {
-    headers: {
-      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-    },
+export function buildProxyUrl(
+  endpoint: string,
+  operatorId?: string,
+  query: Record<string, string | undefined> = {},
+): string {
+  const searchParams = new URLSearchParams();
+  if (operatorId && operatorId !== 'all') {
+    searchParams.set('operator', operatorId);
+  }
+  Object.entries(query).forEach(([key, value]) => {
+    if (value) searchParams.set(key, value);
+  });
+  const params = searchParams.toString() ? `?${searchParams}` : '';
+  return `${SUPABASE_URL}/functions/v1/gtfs-proxy${endpoint}${params}`;
+}
+
+// The app's own proxy API key, issued like a partner's with a higher limit
+const PROXY_API_KEY = import.meta.env.VITE_GTFS_PROXY_API_KEY;
+
+export function proxyHeaders(): Record<string, string> {
+  return {
+    'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+    ...(PROXY_API_KEY ? { 'x-api-key': PROXY_API_KEY } : {}),
+  };
+}
+
+async function fetchFromProxy<T>(
+  endpoint: string,
+  operatorId?: string,
+  query: Record<string, string | undefined> = {},
+): Promise<GtfsResponse<T>> {
+  const response = await fetch(buildProxyUrl(endpoint, operatorId, query), {
+    headers: proxyHeaders(),
   });
 
   if (!response.ok) {
@@ -21,33 +47,79 @@ async function fetchFromProxy<T>(endpoint: string, operatorId?: string): Promise
   return response.json();
 }
 
-export function useVehicles(refreshInterval: number, operatorId?: string) {
+export function filterQuery(filter: RealtimeFilter = {}): Record<string, string | undefined> {
+  return {
+    route: filter.routeId && filter.routeId !== 'all' ? filter.routeId : undefined,
+    trip: filter.tripId,
+    stop: filter.stopId,
+    bbox: filter.bbox?.map((value) => value.toFixed(5)).join(','),
+    near: filter.near && `${filter.near.lat.toFixed(5)},${filter.near.lon.toFixed(5)}`,
+    radius: filter.near?.radius?.toString(),
+  };
+}
+
+export function useVehicles(refreshInterval: number, operatorId?: string, filter?: RealtimeFilter) {
+  const query = filterQuery(filter);
   return useQuery({
-    queryKey: ['vehicles', operatorId],
-    queryFn: () => fetchFromProxy<Vehicle[]>('/vehicles', operatorId),
+    queryKey: ['vehicles', operatorId, query],
+    queryFn: () => fetchFromProxy<Vehicle[]>('/vehicles', operatorId, query),
     refetchInterval: refreshInterval * 1000,
     staleTime: (refreshInterval * 1000) / 2,
   });
 }
 
-export function useTrips(refreshInterval: number, operatorId?: string) {
+export function useTrips(refreshInterval: number, operatorId?: string, filter?: RealtimeFilter) {
+  const query = filterQuery(filter);
   return useQuery({
-    queryKey: ['trips', operatorId],
-    queryFn: () => fetchFromProxy<Trip[]>('/trips', operatorId),
+    queryKey: ['trips', operatorId, query],
+    queryFn: () => fetchFromProxy<Trip[]>('/trips', operatorId, query),
     refetchInterval: refreshInterval * 1000,
     staleTime: (refreshInterval * 1000) / 2,
   });
 }
 
-export function useAlerts(refreshInterval: number, operatorId?: string) {
+export function useAlerts(refreshInterval: number, operatorId?: string, filter?: RealtimeFilter) {
+  const query = filterQuery(filter);
   return useQuery({
-    queryKey: ['alerts', operatorId],
-    queryFn: () => fetchFromProxy<Alert[]>('/alerts', operatorId),
+    queryKey: ['alerts', operatorId, query],
+    queryFn: () => fetchFromProxy<Alert[]>('/alerts', operatorId, query),
     refetchInterval: refreshInterval * 1000,
     staleTime: (refreshInterval * 1000) / 2,
   });
 }
 
+export function snapshotQueryKey(operatorId?: string, filter?: RealtimeFilter) {
+  return ['snapshot', operatorId, filterQuery(filter)];
+}
+
+// While `isStreaming`, useRealtimeStream keeps the cache current and polling stops
+export function useRealtimeSnapshot(refreshInterval: number, operatorId?: string, filter?: RealtimeFilter, isStreaming = false) {
+  const query = filterQuery(filter);
+  return useQuery({
+    queryKey: snapshotQueryKey(operatorId, filter),
+    queryFn: () => fetchFromProxy<RealtimeSnapshot>('/snapshot', operatorId, query),
+    refetchInterval: isStreaming ? false : refreshInterval * 1000,
+    staleTime: (refreshInterval * 1000) / 2,
+    // Keep showing the previous selection while the new one loads
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Operators change rarely; the proxy reads them from the static feeds
+export function useOperators() {
+  return useQuery({
+    queryKey: ['operators'],
+    queryFn: () => fetchFromProxy<OperatorInfo[]>('/operators'),
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+}
+
+export function useOperatorName() {
+  const operatorsQuery = useOperators();
+  const operators = operatorsQuery.data?.data;
+  return useCallback((operatorId: string) => operatorName(operators, operatorId), [operators]);
+}
+
 export function useStaticRoutes(operatorId?: string) {
   return useQuery({
     queryKey: ['static-routes', operatorId],
@@ -65,3 +137,111 @@ export function useStaticStops(operatorId?: string) {
     gcTime: 24 * 60 * 60 * 1000, // 24 hours
   });
 }
+
+export function useRouteShapes(operatorId?: string, routeId?: string) {
+  return useQuery({
+    queryKey: ['route-shapes', operatorId, routeId],
+    queryFn: () => fetchFromProxy<RouteShape[]>('/shapes', operatorId, { route: routeId }),
+    enabled: !!routeId && routeId !== 'all',
+    staleTime: 60 * 60 * 1000, // 1 hour
+    gcTime: 24 * 60 * 60 * 1000, // 24 hours
+  });
+}
+
+export function useScheduledTrips(operatorId?: string, routeId?: string, serviceDate?: string) {
+  const route = routeId && routeId !== 'all' ? routeId : undefined;
+  return useQuery({
+    queryKey: ['scheduled-trips', operatorId, route, serviceDate],
+    queryFn: () => fetchFromProxy<ScheduledTrip[]>('/schedule/trips', operatorId, { route, date: serviceDate }),
+    staleTime: 60 * 60 * 1000, // 1 hour
+    gcTime: 24 * 60 * 60 * 1000, // 24 hours
+  });
+}
+
+export function useScheduledStopTimes(
+  operatorId?: string,
+  filter: { tripId?: string; stopId?: string } = {},
+  serviceDate?: string,
+) {
+  return useQuery({
+    queryKey: ['scheduled-stop-times', operatorId, filter.tripId, filter.stopId, serviceDate],
+    queryFn: () => fetchFromProxy<ScheduledStopTime[]>('/schedule/stop_times', operatorId, {
+      trip: filter.tripId,
+      stop: filter.stopId,
+      date: serviceDate,
+    }),
+    enabled: !!(filter.tripId || filter.stopId),
+    staleTime: 60 * 60 * 1000, // 1 hour
+    gcTime: 24 * 60 * 60 * 1000, // 24 hours
+  });
+}
+
+// Shared with imperative fetches (map popups) so both use the same cache entry
+export function stopDeparturesQueryOptions(operatorId: string | undefined, stopId: string, limit: number) {
+  return {
+    queryKey: ['stop-departures', operatorId, stopId, limit],
+    queryFn: () => fetchFromProxy<StopDeparture[]>(
+      `/stops/${encodeURIComponent(stopId)}/departures`,
+      operatorId,
+      { limit: String(limit) },
+    ),
+    staleTime: 15 * 1000,
+  };
+}
+
+export function useStopDepartures(refreshInterval: number, operatorId?: string, stopId?: string, limit = 10) {
+  return useQuery({
+    ...stopDeparturesQueryOptions(operatorId, stopId || '', limit),
+    enabled: !!stopId,
+    refetchInterval: refreshInterval * 1000,
+  });
+}
+
+export function useRouteHeadways(refreshInterval: number, operatorId?: string, routeId?: string, enabled = true) {
+  const route = routeId && routeId !== 'all' ? routeId : undefined;
+  return useQuery({
+    queryKey: ['route-headways', operatorId, route],
+    queryFn: () => fetchFromProxy<RouteHeadways[]>('/headways', operatorId, { route }),
+    enabled,
+    refetchInterval: refreshInterval * 1000,
+  });
+}
+
+// Validation runs against the static GTFS too, so it is only refreshed on demand
+export function useFeedValidation(operatorId?: string, enabled = true) {
+  return useQuery({
+    queryKey: ['feed-validation', operatorId],
+    queryFn: () => fetchFromProxy<OperatorValidation[]>('/validate', operatorId),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+export function useOtpAnalytics(operatorId: string | undefined, days: number, thresholds: OtpThresholds, enabled = true) {
+  return useQuery({
+    queryKey: ['otp-analytics', operatorId, days, thresholds.early, thresholds.late],
+    queryFn: () => fetchFromProxy<OtpReport>('/analytics/otp', operatorId, {
+      from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      early: String(thresholds.early),
+      late: String(thresholds.late),
+    }),
+    enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    placeholderData: keepPreviousData,
+  });
+}
+
+// /health answers 503 with the same report when the realtime feed is down
+export function useProxyHealth() {
+  return useQuery({
+    queryKey: ['proxy-health'],
+    queryFn: async (): Promise<GtfsResponse<ProxyHealth>> => {
+      const response = await fetch(buildProxyUrl('/health'), { headers: proxyHeaders() });
+      if (!response.ok && response.status !== 503) {
+        throw new Error(`Failed to fetch /health: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    refetchInterval: 30 * 1000,
+  });
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { buildProxyUrl, filterQuery, proxyHeaders, snapshotQueryKey } from "@/hooks/useGtfsData";
+import type { GtfsResponse, RealtimeFilter, RealtimeSnapshot, RealtimeStreamUpdate } from "@/types/gtfs";
+
+export type RealtimeStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'disabled';
+
+const MIN_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 30000;
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// One event block of a text/event-stream; comment and retry lines are ignored
+function parseEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+// Replace changed items in place, append new ones and drop removed ids
+function mergeList<T extends { id: string }>(items: T[], changed: T[], removed: string[]): T[] {
+  if (changed.length === 0 && removed.length === 0) return items;
+
+  const removedIds = new Set(removed);
+  const changedById = new Map(changed.map((item) => [item.id, item]));
+  const merged = items
+    .filter((item) => !removedIds.has(item.id))
+    .map((item) => {
+      const update = changedById.get(item.id);
+      changedById.delete(item.id);
+      return update || item;
+    });
+  return [...merged, ...changedById.values()];
+}
+
+function applyUpdate(
+  previous: GtfsResponse<RealtimeSnapshot>,
+  update: GtfsResponse<RealtimeStreamUpdate>,
+): GtfsResponse<RealtimeSnapshot> {
+  const { data, ...meta } = update;
+  return {
+    ...meta,
+    data: {
+      vehicles: mergeList(previous.data.vehicles, data.vehicles, data.removed.vehicles),
+      trips: mergeList(previous.data.trips, data.trips, data.removed.trips),
+      alerts: mergeList(previous.data.alerts, data.alerts, data.removed.alerts),
+      liveRouteIds: data.liveRouteIds ?? previous.data.liveRouteIds,
+    },
+  };
+}
+
+/**
+ * Keeps the realtime snapshot query current from the proxy's /stream
+ * endpoint. The stream is read with fetch rather than EventSource so the
+ * Authorization header can be sent. Reconnects with backoff when the stream
+ * drops; pass `isStreaming` to useRealtimeSnapshot so it polls meanwhile.
+ */
+export function useRealtimeStream(operatorId?: string, filter?: RealtimeFilter, enabled = true) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RealtimeStreamStatus>(enabled ? 'connecting' : 'disabled');
+  // The filter object changes identity on every render; reconnect only when its query does
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+  const queryJson = JSON.stringify(filterQuery(filter));
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('disabled');
+      return;
+    }
+
+    const streamQuery = JSON.parse(queryJson) as Record<string, string | undefined>;
+    const queryKey = snapshotQueryKey(operatorId, filterRef.current);
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    const handleEvent = ({ event, data }: ServerSentEvent) => {
+      if (event === 'snapshot') {
+        queryClient.setQueryData<GtfsResponse<RealtimeSnapshot>>(queryKey, JSON.parse(data));
+        attempt = 0;
+        setStatus('open');
+      } else if (event === 'update') {
+        const update: GtfsResponse<RealtimeStreamUpdate> = JSON.parse(data);
+        queryClient.setQueryData<GtfsResponse<RealtimeSnapshot>>(queryKey, (previous) =>
+          previous ? applyUpdate(previous, update) : previous
+        );
+      }
+    };
+
+    const connect = async () => {
+      setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+      try {
+        const response = await fetch(buildProxyUrl('/stream', operatorId, streamQuery), {
+          headers: { ...proxyHeaders(), 'Accept': 'text/event-stream' },
+          signal: controller.signal,
+        });
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to open stream: ${response.statusText}`);
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += value.replace(/\r\n?/g, '\n');
+
+          // Events end with a blank line
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            const event = parseEvent(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            if (event) handleEvent(event);
+            boundary = buffer.indexOf('\n\n');
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('Realtime stream interrupted:', error);
+      }
+
+      if (controller.signal.aborted) return;
+      setStatus('reconnecting');
+      const delay = Math.min(MAX_RECONNECT_DELAY, MIN_RECONNECT_DELAY * 2 ** attempt);
+      attempt++;
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [enabled, operatorId, queryJson, queryClient]);
+
+  return { status, isStreaming: status === 'open' };
+}
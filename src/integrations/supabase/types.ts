@@ -14,13 +14,187 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      api_key_usage: {
+        Row: {
+          day: string
+          key_id: string
+          last_used_at: string
+          rejected: number
+          requests: number
+        }
+        Insert: {
+          day: string
+          key_id: string
+          last_used_at?: string
+          rejected?: number
+          requests?: number
+        }
+        Update: {
+          day?: string
+          key_id?: string
+          last_used_at?: string
+          rejected?: number
+          requests?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_key_usage_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_keys: {
+        Row: {
+          created_at: string
+          daily_quota: number | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          name: string
+          rate_limit: number
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          daily_quota?: number | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          name: string
+          rate_limit?: number
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          daily_quota?: number | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          name?: string
+          rate_limit?: number
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
+      trip_updates: {
+        Row: {
+          delay: number | null
+          direction_id: number | null
+          operator_id: string
+          received_at: string
+          recorded_at: string
+          route_id: string | null
+          schedule_relationship: string | null
+          start_date: string
+          stop_time_updates: Json
+          trip_id: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          delay?: number | null
+          direction_id?: number | null
+          operator_id: string
+          received_at?: string
+          recorded_at: string
+          route_id?: string | null
+          schedule_relationship?: string | null
+          start_date?: string
+          stop_time_updates?: Json
+          trip_id: string
+          vehicle_id?: string | null
+        }
+        Update: {
+          delay?: number | null
+          direction_id?: number | null
+          operator_id?: string
+          received_at?: string
+          recorded_at?: string
+          route_id?: string | null
+          schedule_relationship?: string | null
+          start_date?: string
+          stop_time_updates?: Json
+          trip_id?: string
+          vehicle_id?: string | null
+        }
+        Relationships: []
+      }
+      vehicle_positions: {
+        Row: {
+          bearing: number | null
+          current_status: string | null
+          current_stop_sequence: number | null
+          direction_id: number | null
+          latitude: number
+          longitude: number
+          occupancy_status: string | null
+          operator_id: string
+          received_at: string
+          recorded_at: string
+          route_id: string | null
+          speed: number | null
+          start_date: string | null
+          stop_id: string | null
+          trip_id: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          bearing?: number | null
+          current_status?: string | null
+          current_stop_sequence?: number | null
+          direction_id?: number | null
+          latitude: number
+          longitude: number
+          occupancy_status?: string | null
+          operator_id: string
+          received_at?: string
+          recorded_at: string
+          route_id?: string | null
+          speed?: number | null
+          start_date?: string | null
+          stop_id?: string | null
+          trip_id?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          bearing?: number | null
+          current_status?: string | null
+          current_stop_sequence?: number | null
+          direction_id?: number | null
+          latitude?: number
+          longitude?: number
+          occupancy_status?: string | null
+          operator_id?: string
+          received_at?: string
+          recorded_at?: string
+          route_id?: string | null
+          speed?: number | null
+          start_date?: string | null
+          stop_id?: string | null
+          trip_id?: string | null
+          vehicle_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      issue_api_key: {
+        Args: {
+          key_daily_quota?: number
+          key_name: string
+          key_rate_limit?: number
+        }
+        Returns: string
+      }
+      prune_realtime_history: {
+        Args: { retention?: unknown }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,14 @@
+import type { HeadwayStatus } from "@/types/gtfs";
+
+// Labels and badge colours for the headway statuses reported by /headways
+export const HEADWAY_STATUS: Record<HeadwayStatus, { label: string; className: string }> = {
+  bunched: { label: 'Συνωστισμός', className: 'bg-transit-delay hover:bg-transit-delay text-white' },
+  gap: { label: 'Κενό', className: 'bg-transit-early hover:bg-transit-early text-white' },
+  regular: { label: 'Κανονικά', className: 'bg-transit-ontime hover:bg-transit-ontime text-white' },
+};
+
+// Seconds as whole minutes, e.g. 7'
+export function formatHeadway(seconds?: number): string {
+  if (seconds === undefined) return '–';
+  return `${Math.max(0, Math.round(seconds / 60))}'`;
+}
@@ -0,0 +1,23 @@
+import type { FeedValidity, OperatorInfo } from "@/types/gtfs";
+
+export const ALL_OPERATORS = 'all';
+export const ALL_OPERATORS_LABEL = 'Όλοι οι φορείς';
+
+// Display name of an operator id, falling back to the id until /operators loads
+export function operatorName(operators: OperatorInfo[] | undefined, operatorId: string): string {
+  if (operatorId === ALL_OPERATORS) return ALL_OPERATORS_LABEL;
+  return operators?.find((op) => op.id === operatorId)?.name || operatorId;
+}
+
+// Feeds the operator selector warns about
+export const FEED_VALIDITY_WARNINGS: Partial<Record<FeedValidity, { label: string; className: string }>> = {
+  expired: { label: 'Τα δεδομένα του φορέα έχουν λήξει', className: 'text-destructive' },
+  expiring: { label: 'Τα δεδομένα του φορέα λήγουν σύντομα', className: 'text-warning' },
+  not_yet_valid: { label: 'Τα δεδομένα του φορέα δεν ισχύουν ακόμη', className: 'text-warning' },
+};
+
+// YYYYMMDD as DD/MM/YYYY
+export function formatGtfsDate(date?: string): string {
+  if (!date || date.length !== 8) return '–';
+  return `${date.slice(6, 8)}/${date.slice(4, 6)}/${date.slice(0, 4)}`;
+}
@@ -1,13 +1,19 @@
 import { useState, useEffect, useMemo } from "react";
-import { Map as MapIcon, Route, MapPin, Bell } from "lucide-react";
+import { Map as MapIcon, Route, MapPin, Bell, Clock, ShieldCheck, Timer, Gauge } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Header } from "@/components/Header";
 import { ErrorBanner } from "@/components/ErrorBanner";
+import { PartialDataBanner } from "@/components/PartialDataBanner";
 import { VehicleMap } from "@/components/VehicleMap";
 import { TripsTable } from "@/components/TripsTable";
 import { StopsView } from "@/components/StopsView";
 import { AlertsList } from "@/components/AlertsList";
-import { useVehicles, useTrips, useAlerts, useStaticRoutes, useStaticStops } from "@/hooks/useGtfsData";
+import { DeparturesView } from "@/components/DeparturesView";
+import { DataQualityView } from "@/components/DataQualityView";
+import { HeadwaysView } from "@/components/HeadwaysView";
+import { OtpDashboard } from "@/components/OtpDashboard";
+import { useRealtimeSnapshot, useStaticRoutes, useStaticStops, useRouteShapes } from "@/hooks/useGtfsData";
+import { useRealtimeStream } from "@/hooks/useRealtimeStream";
 import type { RouteInfo } from "@/types/gtfs";
 
 const Index = () => {
@@ -18,11 +24,14 @@ const Index = () => {
   const [selectedRoute, setSelectedRoute] = useState("all");
   const [showLiveOnly, setShowLiveOnly] = useState(false);
 
-  const vehiclesQuery = useVehicles(refreshInterval, selectedOperator);
-  const tripsQuery = useTrips(refreshInterval, selectedOperator);
-  const alertsQuery = useAlerts(refreshInterval, selectedOperator);
+  // The proxy filters the realtime lists to the selected route. The stream
+  // keeps the snapshot current; polling takes over whenever it is down.
+  const realtimeFilter = { routeId: selectedRoute };
+  const realtimeStream = useRealtimeStream(selectedOperator, realtimeFilter);
+  const snapshotQuery = useRealtimeSnapshot(refreshInterval, selectedOperator, realtimeFilter, realtimeStream.isStreaming);
   const staticRoutesQuery = useStaticRoutes(selectedOperator);
   const staticStopsQuery = useStaticStops(selectedOperator);
+  const routeShapesQuery = useRouteShapes(selectedOperator, selectedRoute);
 
   // Create a map of route_id -> RouteInfo for quick lookup
   const routeNamesMap = useMemo(() => {
@@ -35,15 +44,18 @@ const Index = () => {
 
   // Get routes with active vehicles/trips
   const liveRoutes = useMemo(() => {
+    const liveRouteIds = snapshotQuery.data?.data?.liveRouteIds;
+    if (liveRouteIds) return new Set(liveRouteIds);
+
     const routeSet = new Set<string>();
-    vehiclesQuery.data?.data?.forEach(v => {
+    snapshotQuery.data?.data?.vehicles?.forEach(v => {
       if (v.routeId) routeSet.add(v.routeId);
     });
-    tripsQuery.data?.data?.forEach(t => {
+    snapshotQuery.data?.data?.trips?.forEach(t => {
       if (t.routeId) routeSet.add(t.routeId);
     });
     return routeSet;
-  }, [vehiclesQuery.data, tripsQuery.data]);
+  }, [snapshotQuery.data]);
 
   // Get all available routes from static data, or live routes only
   const availableRoutes = useMemo(() => {
@@ -67,40 +79,48 @@ const Index = () => {
     staticStopsQuery.refetch();
   }, [selectedOperator]);
 
-  // Filter data by selected route
+  // Filter data by selected route. The proxy already does this; filtering
+  // again covers the previous selection shown while the new one loads.
   const filteredVehicles = useMemo(() => {
-    const vehicles = vehiclesQuery.data?.data || [];
+    const vehicles = snapshotQuery.data?.data?.vehicles || [];
     if (selectedRoute === "all") return vehicles;
     return vehicles.filter(v => v.routeId === selectedRoute);
-  }, [vehiclesQuery.data, selectedRoute]);
+  }, [snapshotQuery.data, selectedRoute]);
 
   const filteredTrips = useMemo(() => {
-    const trips = tripsQuery.data?.data || [];
+    const trips = snapshotQuery.data?.data?.trips || [];
     if (selectedRoute === "all") return trips;
     return trips.filter(t => t.routeId === selectedRoute);
-  }, [tripsQuery.data, selectedRoute]);
+  }, [snapshotQuery.data, selectedRoute]);
 
   useEffect(() => {
     document.documentElement.classList.toggle("dark", isDark);
   }, [isDark]);
 
-  const isLoading = vehiclesQuery.isLoading || tripsQuery.isLoading || alertsQuery.isLoading;
-  const hasError = vehiclesQuery.isError || tripsQuery.isError || alertsQuery.isError;
-  const errorMessage = vehiclesQuery.error?.message || tripsQuery.error?.message || alertsQuery.error?.message;
+  const isLoading = snapshotQuery.isLoading;
+  const hasError = snapshotQuery.isError;
+  const errorMessage = snapshotQuery.error?.message;
 
-  const lastUpdate = Math.max(
-    vehiclesQuery.data?.timestamp || 0,
-    tripsQuery.data?.timestamp || 0,
-    alertsQuery.data?.timestamp || 0
-  );
+  const lastUpdate = snapshotQuery.data?.fetchedAt || snapshotQuery.data?.timestamp || 0;
+  const isStale = !!snapshotQuery.data?.stale;
 
   const handleRetry = () => {
-    vehiclesQuery.refetch();
-    tripsQuery.refetch();
-    alertsQuery.refetch();
+    snapshotQuery.refetch();
   };
 
-  const alertCount = alertsQuery.data?.data?.length || 0;
+  // Operators whose static data the proxy could not load
+  const failedOperators = useMemo(() => Array.from(new Set([
+    ...(staticRoutesQuery.data?.failedOperators || []),
+    ...(staticStopsQuery.data?.failedOperators || []),
+  ])), [staticRoutesQuery.data, staticStopsQuery.data]);
+
+  const handleStaticRetry = () => {
+    staticRoutesQuery.refetch();
+    staticStopsQuery.refetch();
+  };
+
+  const alerts = snapshotQuery.data?.data?.alerts || [];
+  const alertCount = alerts.length;
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
@@ -111,6 +131,7 @@ const Index = () => {
         onRefreshIntervalChange={setRefreshInterval}
         lastUpdate={lastUpdate || null}
         isLoading={isLoading}
+        isStale={isStale}
         selectedOperator={selectedOperator}
         onOperatorChange={setSelectedOperator}
         selectedRoute={selectedRoute}
@@ -127,9 +148,13 @@ const Index = () => {
         <ErrorBanner message={errorMessage || "Αποτυχία σύνδεσης"} onRetry={handleRetry} />
       )}
 
+      {failedOperators.length > 0 && (
+        <PartialDataBanner operatorIds={failedOperators} onRetry={handleStaticRetry} />
+      )}
+
       <main className="flex-1 container mx-auto px-4 py-6 mt-2">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
-          <TabsList className="grid w-full grid-cols-4 mb-4">
+          <TabsList className="grid w-full grid-cols-8 mb-4">
             <TabsTrigger value="map" className="flex items-center gap-2">
               <MapIcon className="h-4 w-4" />
               <span className="hidden sm:inline">Χάρτης</span>
@@ -142,6 +167,10 @@ const Index = () => {
               <MapPin className="h-4 w-4" />
               <span className="hidden sm:inline">Στάσεις</span>
             </TabsTrigger>
+            <TabsTrigger value="departures" className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              <span className="hidden sm:inline">Αναχωρήσεις</span>
+            </TabsTrigger>
             <TabsTrigger value="alerts" className="flex items-center gap-2 relative">
               <Bell className="h-4 w-4" />
               <span className="hidden sm:inline">Ειδοποιήσεις</span>
@@ -151,6 +180,18 @@ const Index = () => {
                 </span>
               )}
             </TabsTrigger>
+            <TabsTrigger value="headways" className="flex items-center gap-2">
+              <Gauge className="h-4 w-4" />
+              <span className="hidden sm:inline">Διαστήματα</span>
+            </TabsTrigger>
+            <TabsTrigger value="otp" className="flex items-center gap-2">
+              <Timer className="h-4 w-4" />
+              <span className="hidden sm:inline">Ακρίβεια</span>
+            </TabsTrigger>
+            <TabsTrigger value="quality" className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              <span className="hidden sm:inline">Ποιότητα δεδομένων</span>
+            </TabsTrigger>
           </TabsList>
 
           <div className="flex-1 min-h-0 glass-card rounded-lg overflow-hidden">
@@ -161,15 +202,17 @@ const Index = () => {
                 stops={staticStopsQuery.data?.data || []}
                 routeNamesMap={routeNamesMap}
                 selectedRoute={selectedRoute}
+                routeShapes={routeShapesQuery.data?.data || []}
                 onRouteClose={() => setSelectedRoute('all')}
-                isLoading={vehiclesQuery.isLoading}
+                operatorId={selectedOperator}
+                isLoading={snapshotQuery.isLoading}
               />
             </TabsContent>
 
             <TabsContent value="trips" className="h-[calc(100vh-220px)] m-0">
               <TripsTable
                 trips={filteredTrips}
-                isLoading={tripsQuery.isLoading}
+                isLoading={snapshotQuery.isLoading}
                 routeNames={routeNamesMap}
               />
             </TabsContent>
@@ -177,14 +220,47 @@ const Index = () => {
             <TabsContent value="stops" className="h-[calc(100vh-220px)] m-0">
               <StopsView
                 trips={filteredTrips}
-                isLoading={tripsQuery.isLoading}
+                isLoading={snapshotQuery.isLoading}
+              />
+            </TabsContent>
+
+            <TabsContent value="departures" className="h-[calc(100vh-220px)] m-0">
+              <DeparturesView
+                stops={staticStopsQuery.data?.data || []}
+                operatorId={selectedOperator}
+                routeNamesMap={routeNamesMap}
+                refreshInterval={refreshInterval}
               />
             </TabsContent>
 
             <TabsContent value="alerts" className="h-[calc(100vh-220px)] m-0 overflow-auto">
               <AlertsList
-                alerts={alertsQuery.data?.data || []}
-                isLoading={alertsQuery.isLoading}
+                alerts={alerts}
+                isLoading={snapshotQuery.isLoading}
+              />
+            </TabsContent>
+
+            <TabsContent value="headways" className="h-[calc(100vh-220px)] m-0">
+              <HeadwaysView
+                operatorId={selectedOperator}
+                routeNamesMap={routeNamesMap}
+                refreshInterval={refreshInterval}
+                enabled={activeTab === 'headways'}
+              />
+            </TabsContent>
+
+            <TabsContent value="otp" className="h-[calc(100vh-220px)] m-0">
+              <OtpDashboard
+                operatorId={selectedOperator}
+                routeNamesMap={routeNamesMap}
+                enabled={activeTab === 'otp'}
+              />
+            </TabsContent>
+
+            <TabsContent value="quality" className="h-[calc(100vh-220px)] m-0">
+              <DataQualityView
+                operatorId={selectedOperator}
+                enabled={activeTab === 'quality'}
               />
             </TabsContent>
           </div>
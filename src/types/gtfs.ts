@@ -1,19 +1,45 @@
+export interface CarriageDetails {
+  id?: string;
+  label?: string;
+  occupancyStatus?: string;
+  occupancyPercentage?: number;
+  carriageSequence?: number;
+}
+
 export interface Vehicle {
   id: string;
   vehicleId: string;
   label?: string;
   licensePlate?: string;
+  wheelchairAccessible?: string;
   tripId?: string;
   routeId?: string;
   directionId?: number;
+  startTime?: string;
+  startDate?: string;
   latitude?: number;
   longitude?: number;
   bearing?: number;
   speed?: number;
+  odometer?: number;
   currentStopSequence?: number;
   stopId?: string;
   currentStatus?: string;
+  congestionLevel?: string;
+  occupancyStatus?: string;
+  occupancyPercentage?: number;
+  multiCarriageDetails?: CarriageDetails[];
   timestamp?: number;
+  // Position age and movement across polls, classified by the proxy
+  freshness?: 'fresh' | 'stale' | 'lost';
+  staleReason?: 'old_position' | 'not_moving' | 'parked';
+}
+
+export interface StopTimeProperties {
+  assignedStopId?: string;
+  stopHeadsign?: string;
+  pickupType?: string;
+  dropOffType?: string;
 }
 
 export interface StopTimeUpdate {
@@ -21,9 +47,24 @@ export interface StopTimeUpdate {
   stopId?: string;
   arrivalDelay?: number;
   arrivalTime?: number;
+  arrivalScheduledTime?: number;
+  arrivalUncertainty?: number;
   departureDelay?: number;
   departureTime?: number;
+  departureScheduledTime?: number;
+  departureUncertainty?: number;
+  departureOccupancyStatus?: string;
   scheduleRelationship?: string;
+  stopTimeProperties?: StopTimeProperties;
+}
+
+export interface TripProperties {
+  tripId?: string;
+  startDate?: string;
+  startTime?: string;
+  shapeId?: string;
+  tripHeadsign?: string;
+  tripShortName?: string;
 }
 
 export interface Trip {
@@ -34,8 +75,14 @@ export interface Trip {
   startTime?: string;
   startDate?: string;
   scheduleRelationship?: string;
+  modifiedTrip?: {
+    modificationsId?: string;
+    affectedTripId?: string;
+  };
   vehicleId?: string;
   vehicleLabel?: string;
+  delay?: number;
+  tripProperties?: TripProperties;
   stopTimeUpdates: StopTimeUpdate[];
   timestamp?: number;
 }
@@ -49,26 +96,221 @@ export interface InformedEntity {
   agencyId?: string;
   routeId?: string;
   routeType?: number;
+  directionId?: number;
   tripId?: string;
   stopId?: string;
 }
 
+// Alert texts in one language; language is absent for untranslated text
+export interface AlertTranslation {
+  language?: string;
+  headerText?: string;
+  descriptionText?: string;
+  url?: string;
+  causeDetail?: string;
+  effectDetail?: string;
+}
+
 export interface Alert {
   id: string;
   activePeriods: ActivePeriod[];
   informedEntities: InformedEntity[];
   cause?: string;
   effect?: string;
+  // Language of the texts below, negotiated from Accept-Language or ?lang=
+  language?: string;
+  causeDetail?: string;
+  effectDetail?: string;
   headerText?: string;
   descriptionText?: string;
+  ttsHeaderText?: string;
+  ttsDescriptionText?: string;
   url?: string;
+  image?: {
+    url?: string;
+    mediaType?: string;
+  };
+  imageAlternativeText?: string;
+  translations?: AlertTranslation[];
   severityLevel?: string;
 }
 
+export interface RealtimeSnapshot {
+  vehicles: Vehicle[];
+  trips: Trip[];
+  alerts: Alert[];
+  // Routes with live data in the whole feed, regardless of filters
+  liveRouteIds?: string[];
+}
+
+// `update` event of the realtime stream: items changed since the previous
+// event, and ids of items that disappeared
+export interface RealtimeStreamUpdate {
+  vehicles: Vehicle[];
+  trips: Trip[];
+  alerts: Alert[];
+  removed: {
+    vehicles: string[];
+    trips: string[];
+    alerts: string[];
+  };
+  liveRouteIds?: string[];
+}
+
+// Server-side filters for the realtime endpoints
+export interface RealtimeFilter {
+  routeId?: string;
+  tripId?: string;
+  stopId?: string;
+  // [minLon, minLat, maxLon, maxLat]
+  bbox?: [number, number, number, number];
+  near?: { lat: number; lon: number; radius?: number };
+}
+
+// Next departure from a stop: the scheduled time with realtime predictions
+// attached where available. Times are unix seconds.
+export interface StopDeparture {
+  tripId: string;
+  routeId?: string;
+  directionId?: number;
+  headsign?: string;
+  stopSequence?: number;
+  serviceDate: string;
+  // Absent for trips only known to the realtime feed
+  scheduledTime?: number;
+  predictedTime?: number;
+  delay?: number;
+  realtime: boolean;
+  cancelled: boolean;
+  scheduleRelationship?: string;
+  vehicleId?: string;
+  vehicleLabel?: string;
+}
+
+export interface ValidationNotice {
+  // Rule code as in the MobilityData GTFS-Realtime validator, e.g. E003
+  code: string;
+  severity: 'ERROR' | 'WARNING';
+  title: string;
+  occurrences: number;
+  // Ids of the first entities breaking the rule
+  examples: string[];
+}
+
+export interface OperatorValidation {
+  operatorId: string;
+  feedTimestamp?: number;
+  fetchedAt?: number;
+  entityCount: number;
+  errors: number;
+  warnings: number;
+  // False when the static GTFS was unavailable and rules needing it were skipped
+  staticChecked: boolean;
+  notices: ValidationNotice[];
+  error?: string;
+}
+
+export interface OtpThresholds {
+  // Seconds ahead of / behind schedule before a stop event is early / late
+  early: number;
+  late: number;
+}
+
+export interface OtpCounts {
+  early: number;
+  onTime: number;
+  late: number;
+  total: number;
+  onTimeShare: number | null;
+}
+
+export interface OtpReport {
+  from: string;
+  to: string;
+  thresholds: OtpThresholds;
+  overall: OtpCounts;
+  operators: (OtpCounts & { operatorId: string })[];
+  // Lowest on-time share first
+  routes: (OtpCounts & { operatorId: string; routeId: string | null; directionId: number | null })[];
+  // Hours 0-23 in local time
+  hours: (OtpCounts & { hour: number })[];
+}
+
+// Headway regularity of live vehicles on one route and direction
+export type HeadwayStatus = 'regular' | 'bunched' | 'gap';
+
+export interface VehicleHeadway {
+  vehicleId: string;
+  label?: string;
+  tripId?: string;
+  // Meters from the start of the route
+  distance: number;
+  // To the vehicle ahead, in meters and seconds; absent for the leading vehicle
+  gapMeters?: number;
+  headway?: number;
+  status: HeadwayStatus;
+}
+
+export interface RouteHeadways {
+  operatorId: string;
+  routeId: string;
+  directionId?: number;
+  scheduledHeadway?: number;
+  // Leading vehicle first
+  vehicles: VehicleHeadway[];
+  bunched: number;
+  gaps: number;
+  status: HeadwayStatus;
+}
+
+// Proxy status from /health
+export type HealthState = 'ok' | 'degraded' | 'down';
+
+export interface UpstreamHealth {
+  source: 'realtime' | 'static';
+  // Operator, or 'all' for the combined realtime feed
+  operatorId: string;
+  attempts: number;
+  failures: number;
+  lastAttemptAt: number;
+  lastSuccessAt?: number;
+  lastError?: string;
+  latencyMs: number;
+  ok: boolean;
+  errorRate: number;
+  // Open while requests to a failing upstream are paused
+  circuit: 'closed' | 'open' | 'half_open';
+  // Realtime feeds only: seconds since downloaded, and entities in it
+  feedAge?: number;
+  entityCount?: number;
+}
+
+export interface ProxyHealth {
+  status: HealthState;
+  uptime: number;
+  realtime: UpstreamHealth[];
+  static: UpstreamHealth[];
+  // Seconds since each kind of static data was loaded, per operator
+  caches: { operatorId: string; ages: Partial<Record<'routes' | 'stops' | 'schedule' | 'metadata', number>> }[];
+}
+
 export interface GtfsResponse<T> {
   data: T;
   timestamp: number;
   feedTimestamp?: number;
+  serviceDate?: string;
+  // Realtime responses: when the upstream feed was downloaded, and whether
+  // it is a cached copy served during an upstream outage
+  fetchedAt?: number;
+  stale?: boolean;
+  staleReason?: string;
+  // Merged static responses: operators whose data could not be loaded
+  failedOperators?: string[];
+  // Pass as `since` to receive only entities changed after this response;
+  // such responses set `incremental` and list removed entity ids in `deleted`
+  sinceToken?: string;
+  incremental?: boolean;
+  deleted?: string[];
 }
 
 export interface StopInfo {
@@ -103,19 +345,77 @@ export interface StaticStop {
   parent_station?: string;
 }
 
+export interface ScheduledTrip {
+  trip_id: string;
+  route_id: string;
+  service_id: string;
+  trip_headsign?: string;
+  trip_short_name?: string;
+  direction_id?: number;
+  block_id?: string;
+  shape_id?: string;
+}
+
+export interface ScheduledStopTime {
+  trip_id: string;
+  // "HH:MM:SS"; absent on untimed stops
+  arrival_time?: string;
+  departure_time?: string;
+  stop_id: string;
+  stop_sequence: number;
+  stop_headsign?: string;
+  pickup_type?: number;
+  drop_off_type?: number;
+}
+
+export interface RouteShape {
+  route_id: string;
+  direction_id?: number;
+  shape_id?: string;
+  polyline: string;
+  source: 'shapes' | 'stops';
+}
+
+// Operators from /operators, with what their static feeds say about them
+export interface AgencyInfo {
+  id?: string;
+  name: string;
+  url: string;
+  timezone: string;
+  lang?: string;
+  phone?: string;
+  fareUrl?: string;
+  email?: string;
+}
+
+export interface FeedInfo {
+  publisherName: string;
+  publisherUrl: string;
+  lang: string;
+  version?: string;
+  startDate?: string;
+  endDate?: string;
+  contactEmail?: string;
+  contactUrl?: string;
+}
+
+export type FeedValidity = 'valid' | 'expiring' | 'expired' | 'not_yet_valid' | 'unknown';
+
 export interface OperatorInfo {
   id: string;
   name: string;
   city?: string;
+  // Whether the feed registry lists realtime URLs and a static archive
+  hasRealtime: boolean;
+  hasStatic: boolean;
+  // Absent when the operator's feed could not be loaded
+  agencies?: AgencyInfo[];
+  feedInfo?: FeedInfo;
+  // YYYYMMDD dates; validity compares them with the current service day
+  serviceStart?: string;
+  serviceEnd?: string;
+  validity: FeedValidity;
+  validFrom?: string;
+  validUntil?: string;
+  daysLeft?: number;
 }
-
-export const OPERATORS: OperatorInfo[] = [
-  { id: 'all', name: 'Όλοι οι φορείς' },
-  { id: '2', name: 'OSYPA', city: 'Πάφος' },
-  { id: '4', name: 'OSEA', city: 'Αμμόχωστος' },
-  { id: '5', name: 'Υπεραστικά' },
-  { id: '6', name: 'EMEL', city: 'Λεμεσός' },
-  { id: '9', name: 'NPT', city: 'Λευκωσία' },
-  { id: '10', name: 'LPT', city: 'Λάρνακα' },
-  { id: '11', name: 'PAME EXPRESS' },
-];
\ No newline at end of file
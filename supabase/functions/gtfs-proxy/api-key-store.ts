@@ -0,0 +1,77 @@
+// Postgres storage for API keys and their usage
+// Uses the same database as the realtime history. Keys are issued with
+// public.issue_api_key() (supabase/migrations); only their hashes are stored.
+
+import { Pool } from 'https://deno.land/x/postgres@v0.17.0/mod.ts';
+import type { ApiKeyRecord, UsageRow } from './api-keys.ts';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  rate_limit: number;
+  daily_quota: number | null;
+  // Postgres sums come back as bigint
+  requests_today: bigint;
+}
+
+const LOOKUP_STATEMENT = `
+  select k.id, k.name, k.rate_limit, k.daily_quota, coalesce(u.requests, 0) as requests_today
+  from public.api_keys k
+  left join public.api_key_usage u on u.key_id = k.id and u.day = $2::date
+  where k.key_hash = $1 and k.revoked_at is null`;
+
+// Counts are added to those already stored for the key and day
+const RECORD_USAGE_STATEMENT = `
+  insert into public.api_key_usage (key_id, day, requests, rejected, last_used_at)
+  select * from unnest($1::uuid[], $2::date[], $3::bigint[], $4::bigint[], $5::timestamptz[])
+  on conflict (key_id, day) do update set
+    requests = api_key_usage.requests + excluded.requests,
+    rejected = api_key_usage.rejected + excluded.rejected,
+    last_used_at = greatest(api_key_usage.last_used_at, excluded.last_used_at)`;
+
+export class ApiKeyStore {
+  private pool: Pool;
+
+  constructor(databaseUrl: string, poolSize = 1) {
+    // Lazy: connections are opened on first use
+    this.pool = new Pool(databaseUrl, poolSize, true);
+  }
+
+  // An active key by the SHA-256 hash of its value, or null
+  async findKey(keyHash: string, day: string): Promise<ApiKeyRecord | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.queryObject<ApiKeyRow>({ text: LOOKUP_STATEMENT, args: [keyHash, day] });
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        id: row.id,
+        name: row.name,
+        rateLimit: row.rate_limit,
+        dailyQuota: row.daily_quota,
+        requestsToday: Number(row.requests_today),
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  async recordUsage(rows: UsageRow[]): Promise<void> {
+    if (rows.length === 0) return;
+    const client = await this.pool.connect();
+    try {
+      await client.queryObject({
+        text: RECORD_USAGE_STATEMENT,
+        args: [
+          rows.map((row) => row.keyId),
+          rows.map((row) => row.day),
+          rows.map((row) => row.requests),
+          rows.map((row) => row.rejected),
+          rows.map((row) => row.lastUsedAt),
+        ],
+      });
+    } finally {
+      client.release();
+    }
+  }
+}
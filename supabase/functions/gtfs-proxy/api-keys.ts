@@ -0,0 +1,238 @@
+// API keys and per-key limits
+// Callers identify themselves with an issued key in the x-api-key header. Keys
+// are looked up by their SHA-256 hash and cached for a minute, so a revoked
+// key stops working within that time. The rate limit is a token bucket per
+// function instance; the daily quota is counted in the database.
+// API_KEY_MODE turns checking on: 'optional' limits requests that carry a key
+// and lets the others through, 'required' refuses requests without one.
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Requests per minute
+  rateLimit: number;
+  // Requests per UTC day; null for no quota
+  dailyQuota: number | null;
+}
+
+// A key as stored, with the requests already counted on the given day
+export interface ApiKeyRecord extends ApiKey {
+  requestsToday: number;
+}
+
+export type ApiKeyLookup = (keyHash: string, day: string) => Promise<ApiKeyRecord | null>;
+
+export type ApiKeyDecision =
+  | { allowed: true; key: ApiKey; limit: number; remaining: number }
+  | { allowed: false; reason: 'missing_key' | 'invalid_key' }
+  | { allowed: false; reason: 'rate_limited' | 'quota_exceeded'; key: ApiKey; limit: number; retryAfter: number };
+
+// Requests of one key on one day that are not in the store yet
+export interface UsageRow {
+  keyId: string;
+  day: string;
+  requests: number;
+  rejected: number;
+  lastUsedAt: Date;
+}
+
+export type ApiKeyMode = 'off' | 'optional' | 'required';
+
+const API_KEY_MODES: ApiKeyMode[] = ['off', 'optional', 'required'];
+
+export function parseApiKeyMode(value: string | undefined): ApiKeyMode {
+  if (!value) return 'off';
+  if (API_KEY_MODES.includes(value as ApiKeyMode)) return value as ApiKeyMode;
+  console.error(`Ignoring API_KEY_MODE: expected one of ${API_KEY_MODES.join(', ')}`);
+  return 'off';
+}
+
+export const API_KEY_CACHE_TTL = 60 * 1000; // 1 minute
+// Least recently loaded keys are dropped beyond this, so random keys cannot
+// grow the cache without bound
+const MAX_CACHED_KEYS = 1000;
+
+export async function hashApiKey(apiKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The UTC day usage is counted on, YYYY-MM-DD
+export function usageDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function secondsUntilNextDay(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - now) / 1000));
+}
+
+// Holds up to a minute's worth of requests and refills continuously
+export class TokenBucket {
+  readonly ratePerMinute: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(ratePerMinute: number, now = Date.now()) {
+    this.ratePerMinute = ratePerMinute;
+    this.tokens = ratePerMinute;
+    this.updatedAt = now;
+  }
+
+  // Takes a token if one is left; otherwise retryAfter is the seconds until
+  // the next one
+  take(now = Date.now()): { allowed: boolean; remaining: number; retryAfter: number } {
+    const perMillisecond = this.ratePerMinute / 60000;
+    this.tokens = Math.min(this.ratePerMinute, this.tokens + (now - this.updatedAt) * perMillisecond);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) {
+      return { allowed: false, remaining: 0, retryAfter: Math.max(1, Math.ceil((1 - this.tokens) / perMillisecond / 1000)) };
+    }
+    this.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(this.tokens), retryAfter: 0 };
+  }
+}
+
+export class UsageCounter {
+  private rows = new Map<string, UsageRow>();
+
+  record(keyId: string, day: string, rejected: boolean, now = Date.now()) {
+    const id = `${keyId}:${day}`;
+    let row = this.rows.get(id);
+    if (!row) {
+      row = { keyId, day, requests: 0, rejected: 0, lastUsedAt: new Date(now) };
+      this.rows.set(id, row);
+    }
+    if (rejected) {
+      row.rejected++;
+    } else {
+      row.requests++;
+    }
+    row.lastUsedAt = new Date(now);
+  }
+
+  // Accepted requests not yet handed to the store
+  pending(keyId: string, day: string): number {
+    return this.rows.get(`${keyId}:${day}`)?.requests ?? 0;
+  }
+
+  get size(): number {
+    return this.rows.size;
+  }
+
+  // Returns the counts to write and starts over
+  drain(): UsageRow[] {
+    const rows = Array.from(this.rows.values());
+    this.rows.clear();
+    return rows;
+  }
+
+  // Adds back drained counts that could not be written
+  restore(rows: UsageRow[]) {
+    for (const row of rows) {
+      const id = `${row.keyId}:${row.day}`;
+      const existing = this.rows.get(id);
+      if (!existing) {
+        this.rows.set(id, { ...row });
+        continue;
+      }
+      existing.requests += row.requests;
+      existing.rejected += row.rejected;
+      if (row.lastUsedAt > existing.lastUsedAt) existing.lastUsedAt = row.lastUsedAt;
+    }
+  }
+}
+
+interface CachedKey {
+  record: ApiKeyRecord | null;
+  loadedAt: number;
+  // Accepted requests on `day`, including those counted before loading
+  day: string;
+  used: number;
+}
+
+export class ApiKeyGate {
+  readonly usage = new UsageCounter();
+  private lookup: ApiKeyLookup;
+  private cacheTtl: number;
+  private cache = new Map<string, CachedKey>();
+  private loading = new Map<string, Promise<CachedKey>>();
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(lookup: ApiKeyLookup, cacheTtl = API_KEY_CACHE_TTL) {
+    this.lookup = lookup;
+    this.cacheTtl = cacheTtl;
+  }
+
+  // Checks a request's key against its limits and counts the request. Throws
+  // only when the key is not cached and the store cannot be reached.
+  async check(apiKey: string | null, now = Date.now()): Promise<ApiKeyDecision> {
+    if (!apiKey) return { allowed: false, reason: 'missing_key' };
+
+    const day = usageDay(now);
+    const entry = await this.load(await hashApiKey(apiKey), day, now);
+    if (!entry.record) return { allowed: false, reason: 'invalid_key' };
+
+    const { id, name, rateLimit, dailyQuota } = entry.record;
+    const key: ApiKey = { id, name, rateLimit, dailyQuota };
+    if (entry.day !== day) {
+      entry.day = day;
+      entry.used = 0;
+    }
+
+    if (dailyQuota !== null && entry.used >= dailyQuota) {
+      this.usage.record(id, day, true, now);
+      return { allowed: false, reason: 'quota_exceeded', key, limit: rateLimit, retryAfter: secondsUntilNextDay(now) };
+    }
+
+    let bucket = this.buckets.get(id);
+    if (!bucket || bucket.ratePerMinute !== rateLimit) {
+      bucket = new TokenBucket(rateLimit, now);
+      this.buckets.set(id, bucket);
+    }
+    const taken = bucket.take(now);
+    this.usage.record(id, day, !taken.allowed, now);
+    if (!taken.allowed) {
+      return { allowed: false, reason: 'rate_limited', key, limit: rateLimit, retryAfter: taken.retryAfter };
+    }
+
+    entry.used++;
+    return { allowed: true, key, limit: rateLimit, remaining: taken.remaining };
+  }
+
+  private async load(keyHash: string, day: string, now: number): Promise<CachedKey> {
+    const cached = this.cache.get(keyHash);
+    if (cached && now - cached.loadedAt < this.cacheTtl) return cached;
+
+    let loading = this.loading.get(keyHash);
+    if (!loading) {
+      loading = this.refresh(keyHash, day, now, cached).finally(() => this.loading.delete(keyHash));
+      this.loading.set(keyHash, loading);
+    }
+    return await loading;
+  }
+
+  private async refresh(keyHash: string, day: string, now: number, cached?: CachedKey): Promise<CachedKey> {
+    let record: ApiKeyRecord | null;
+    try {
+      record = await this.lookup(keyHash, day);
+    } catch (error) {
+      // Keep serving a known key while the store is down, and retry later
+      if (!cached) throw error;
+      cached.loadedAt = now;
+      return cached;
+    }
+
+    // The stored count does not include requests still waiting to be written
+    const used = record ? record.requestsToday + this.usage.pending(record.id, day) : 0;
+    const entry: CachedKey = { record, loadedAt: now, day, used };
+    this.cache.delete(keyHash);
+    if (this.cache.size >= MAX_CACHED_KEYS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(keyHash, entry);
+    return entry;
+  }
+}
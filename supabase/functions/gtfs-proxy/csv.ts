@@ -0,0 +1,191 @@
+// Streaming CSV reader for GTFS files
+// Follows RFC 4180 (https://www.rfc-editor.org/rfc/rfc4180): quoted fields may
+// contain commas, line breaks and "" escapes; records end with CRLF, LF or CR.
+// A UTF-8 byte order mark before the header is ignored, as GTFS allows.
+
+export interface CsvIssue {
+  // Physical line on which the record starts (1-based)
+  line: number;
+  message: string;
+}
+
+export interface CsvReadOptions {
+  // Called for each malformed record. The record is still returned where it
+  // can be recovered: missing fields read as '', extra fields are dropped.
+  onIssue?: (issue: CsvIssue) => void;
+}
+
+interface ParsedRecord {
+  fields: string[];
+  // Offset of the next record in the buffer
+  next: number;
+  // Line breaks consumed, including those inside quoted fields
+  lineBreaks: number;
+  error?: string;
+}
+
+const FIELD_END = /[,\r\n]/g;
+
+function countLineBreaks(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    // CRLF counts once, at the LF
+    if (char === 10 || (char === 13 && text.charCodeAt(i + 1) !== 10)) count++;
+  }
+  return count;
+}
+
+// Parses one record starting at `start`. Returns null when the buffer ends
+// before the record does and more input may follow.
+function parseRecord(text: string, start: number, final: boolean): ParsedRecord | null {
+  const fields: string[] = [];
+  let pos = start;
+  let lineBreaks = 0;
+  let error: string | undefined;
+
+  while (true) {
+    if (text[pos] === '"') {
+      let value = '';
+      let segmentStart = pos + 1;
+      pos = segmentStart;
+
+      while (true) {
+        const quote = text.indexOf('"', pos);
+        if (quote === -1 || (quote === text.length - 1 && !final)) {
+          // The closing quote (or the second half of a "" escape) may be in the next chunk
+          if (!final) return null;
+          error = error || 'Unterminated quoted field';
+          value += text.slice(segmentStart);
+          pos = text.length;
+          break;
+        }
+        if (text[quote + 1] === '"') {
+          value += text.slice(segmentStart, quote + 1);
+          pos = quote + 2;
+          segmentStart = pos;
+          continue;
+        }
+        value += text.slice(segmentStart, quote);
+        pos = quote + 1;
+        break;
+      }
+
+      // Anything between the closing quote and the delimiter is kept as-is
+      FIELD_END.lastIndex = pos;
+      const end = FIELD_END.exec(text);
+      const trailingEnd = end ? end.index : text.length;
+      if (trailingEnd > pos) {
+        if (!end && !final) return null;
+        error = error || 'Unexpected characters after closing quote';
+        value += text.slice(pos, trailingEnd);
+        pos = trailingEnd;
+      }
+
+      lineBreaks += countLineBreaks(value);
+      fields.push(value);
+    } else {
+      FIELD_END.lastIndex = pos;
+      const end = FIELD_END.exec(text);
+      if (!end && !final) return null;
+
+      const value = text.slice(pos, end ? end.index : text.length);
+      if (value.includes('"')) error = error || 'Quote inside an unquoted field';
+      fields.push(value);
+      pos = end ? end.index : text.length;
+    }
+
+    if (pos >= text.length) {
+      if (!final) return null;
+      return { fields, next: pos, lineBreaks, error };
+    }
+
+    const delimiter = text[pos];
+    if (delimiter === ',') {
+      pos++;
+      continue;
+    }
+    if (delimiter === '\r') {
+      if (pos + 1 >= text.length && !final) return null;
+      pos += text[pos + 1] === '\n' ? 2 : 1;
+    } else {
+      pos++;
+    }
+    return { fields, next: pos, lineBreaks: lineBreaks + 1, error };
+  }
+}
+
+async function* textChunks(source: ReadableStream<Uint8Array> | string): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+
+  const reader = source.pipeThrough(new TextDecoderStream()).getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Rows of a CSV file with a header line, keyed by column name. Field values
+// and column names are trimmed; blank lines are skipped.
+export async function* readCsv(
+  source: ReadableStream<Uint8Array> | string,
+  options: CsvReadOptions = {}
+): AsyncGenerator<Record<string, string>> {
+  let header: string[] | null = null;
+  let buffer = '';
+  let offset = 0;
+  let line = 1;
+  let final = false;
+
+  const chunks = textChunks(source);
+
+  while (!final) {
+    const next = await chunks.next();
+    if (next.done) {
+      final = true;
+    } else {
+      buffer = buffer.slice(offset) + next.value;
+      offset = 0;
+    }
+
+    while (offset < buffer.length) {
+      const record = parseRecord(buffer, offset, final);
+      if (!record) break;
+
+      const recordLine = line;
+      offset = record.next;
+      line += record.lineBreaks;
+
+      if (record.fields.length === 1 && record.fields[0].trim() === '') continue;
+
+      if (!header) {
+        header = record.fields.map((name, idx) => (idx === 0 ? name.replace(/^\uFEFF/, '') : name).trim());
+        if (record.error) options.onIssue?.({ line: recordLine, message: `Header: ${record.error}` });
+        continue;
+      }
+
+      if (record.error) {
+        options.onIssue?.({ line: recordLine, message: record.error });
+      } else if (record.fields.length !== header.length) {
+        options.onIssue?.({
+          line: recordLine,
+          message: `Expected ${header.length} fields, found ${record.fields.length}`,
+        });
+      }
+
+      const row: Record<string, string> = {};
+      header.forEach((column, idx) => {
+        row[column] = (record.fields[idx] ?? '').trim();
+      });
+      yield row;
+    }
+  }
+}
@@ -0,0 +1,272 @@
+// Stop departures: scheduled departures with realtime predictions attached.
+// Yesterday's trips are included since they can run past midnight; realtime
+// entities without a start date go to one run of a trip only. A stop without
+// an update takes the delay of the closest earlier one (GTFS-Realtime rules),
+// untimed stops are interpolated between timed ones, and trips only known to
+// the realtime feed are listed from their own stop time updates.
+
+import {
+  enumName,
+  type GtfsRealtimeFeed,
+  STOP_SCHEDULE_RELATIONSHIP,
+  type StopTimeUpdate,
+  TRIP_SCHEDULE_RELATIONSHIP,
+  type TripUpdate,
+  type VehiclePosition,
+} from './gtfs-realtime.ts';
+import {
+  getActiveServiceIds,
+  getServiceDate,
+  getServiceDayStart,
+  interpolateStopTimes,
+  type ScheduleData,
+  type ScheduledStopTime,
+  type StopTimeSeconds,
+} from './schedule.ts';
+
+export interface StopDeparture {
+  tripId: string;
+  routeId?: string;
+  directionId?: number;
+  headsign?: string;
+  stopSequence?: number;
+  serviceDate: string;
+  // Unix seconds; absent for trips only known to the realtime feed
+  scheduledTime?: number;
+  predictedTime?: number;
+  delay?: number;
+  realtime: boolean;
+  // Trip canceled or this stop skipped
+  cancelled: boolean;
+  scheduleRelationship?: string;
+  vehicleId?: string;
+  vehicleLabel?: string;
+}
+
+// Late vehicles can still be on their way well after the scheduled time
+const DEPARTURES_LOOKBACK = 2 * 3600;
+
+// Position of a stop time update in the trip, by stop sequence or else stop ID
+function findStopIndex(update: StopTimeUpdate, stopTimes: ScheduledStopTime[]): number {
+  return update.stopSequence !== undefined
+    ? stopTimes.findIndex((st) => st.stop_sequence === update.stopSequence)
+    : stopTimes.findIndex((st) => st.stop_id === update.stopId);
+}
+
+// Realtime prediction for one stop of a scheduled trip. Delays propagate
+// from the closest earlier stop time update, as the GTFS-RT spec describes.
+export function predictDeparture(
+  tripUpdate: TripUpdate,
+  stopTimes: ScheduledStopTime[],
+  times: StopTimeSeconds[],
+  index: number,
+  dayStart: number
+): { predictedTime?: number; delay?: number; skipped: boolean } {
+  const departure = times[index].departure;
+  if (departure === undefined) return { skipped: false };
+  const scheduled = dayStart + departure;
+  let closest: { update: StopTimeUpdate; index: number } | undefined;
+
+  for (const update of tripUpdate.stopTimeUpdate || []) {
+    const updateIndex = findStopIndex(update, stopTimes);
+    if (updateIndex === -1 || updateIndex > index) continue;
+    if (!closest || updateIndex >= closest.index) closest = { update, index: updateIndex };
+  }
+
+  if (!closest) {
+    const delay = tripUpdate.delay;
+    return delay !== undefined ? { predictedTime: scheduled + delay, delay, skipped: false } : { skipped: false };
+  }
+
+  const { update } = closest;
+  const relationship = enumName(STOP_SCHEDULE_RELATIONSHIP, update.scheduleRelationship);
+  if (relationship === 'SKIPPED' && closest.index === index) return { skipped: true };
+  if (relationship === 'NO_DATA') return { skipped: false };
+
+  // Departure at the update's stop, or its arrival when only that is given
+  const useDeparture = update.departure?.time !== undefined || update.departure?.delay !== undefined;
+  const event = useDeparture ? update.departure : update.arrival;
+  if (!event) return { skipped: false };
+
+  if (event.time !== undefined) {
+    const updateTime = times[closest.index];
+    const eventSeconds = useDeparture ? updateTime.departure : updateTime.arrival;
+    if (eventSeconds === undefined) return { skipped: false };
+    const delay = Number(event.time) - (dayStart + eventSeconds);
+    // A departure prediction for this very stop is used as given
+    const predictedTime = closest.index === index && useDeparture ? Number(event.time) : scheduled + delay;
+    return { predictedTime, delay, skipped: false };
+  }
+  if (event.delay !== undefined) {
+    return { predictedTime: scheduled + event.delay, delay: event.delay, skipped: false };
+  }
+  return { skipped: false };
+}
+
+interface ServiceDay {
+  serviceDate: string;
+  dayStart: number;
+}
+
+// Service day of a trip's realtime entities when they name none. Without a
+// start date an entity would fit both yesterday's and today's run of a trip
+// that runs daily, so it goes to the run scheduled closest to it: to an
+// absolute time it gives at one of the stops, or else to now.
+function closestServiceDate(
+  days: ServiceDay[],
+  tripUpdate: TripUpdate | undefined,
+  stopTimes: ScheduledStopTime[],
+  times: StopTimeSeconds[],
+  nowSeconds: number
+): string | undefined {
+  let anchor: { time: number; seconds: number } | undefined;
+  for (const update of tripUpdate?.stopTimeUpdate || []) {
+    const index = findStopIndex(update, stopTimes);
+    if (index === -1) continue;
+    if (update.departure?.time !== undefined && times[index].departure !== undefined) {
+      anchor = { time: Number(update.departure.time), seconds: times[index].departure };
+    } else if (update.arrival?.time !== undefined && times[index].arrival !== undefined) {
+      anchor = { time: Number(update.arrival.time), seconds: times[index].arrival };
+    }
+    if (anchor) break;
+  }
+
+  const timed = times.flatMap((time) => time.departure ?? time.arrival ?? []);
+  let closest: { serviceDate: string; distance: number } | undefined;
+  for (const { serviceDate, dayStart } of days) {
+    let distance: number;
+    if (anchor) {
+      distance = Math.abs(anchor.time - (dayStart + anchor.seconds));
+    } else if (timed.length > 0) {
+      // Zero while the run is under way
+      const start = dayStart + timed[0];
+      const end = dayStart + timed[timed.length - 1];
+      distance = Math.max(start - nowSeconds, nowSeconds - end, 0);
+    } else {
+      continue;
+    }
+    if (!closest || distance < closest.distance) closest = { serviceDate, distance };
+  }
+  return closest?.serviceDate;
+}
+
+// Upcoming departures from a stop, by expected time
+export function buildStopDepartures(
+  schedules: (ScheduleData | null)[],
+  feed: GtfsRealtimeFeed | undefined,
+  stopId: string,
+  limit: number,
+  now = Date.now()
+): StopDeparture[] {
+  const nowSeconds = Math.floor(now / 1000);
+  // Trips of the previous service day can run past midnight
+  const serviceDates = [getServiceDate(new Date(now - 24 * 3600 * 1000)), getServiceDate(new Date(now))];
+
+  const tripUpdates = new Map<string, TripUpdate>();
+  const vehicles = new Map<string, VehiclePosition>();
+  for (const entity of feed?.entity || []) {
+    if (entity.tripUpdate?.trip?.tripId) tripUpdates.set(entity.tripUpdate.trip.tripId, entity.tripUpdate);
+    if (entity.vehicle?.trip?.tripId) vehicles.set(entity.vehicle.trip.tripId, entity.vehicle);
+  }
+
+  const departures: StopDeparture[] = [];
+  const scheduledTripIds = new Set<string>();
+
+  for (const schedule of schedules) {
+    if (!schedule) continue;
+    const days = serviceDates.map((serviceDate) => ({
+      serviceDate,
+      dayStart: getServiceDayStart(serviceDate),
+      activeServiceIds: getActiveServiceIds(schedule, serviceDate),
+    }));
+
+    for (const trip of schedule.trips) {
+      const runningDays = days.filter((day) => day.activeServiceIds.has(trip.service_id));
+      if (runningDays.length === 0) continue;
+      scheduledTripIds.add(trip.trip_id);
+      const stopTimes = schedule.stopTimesByTrip.get(trip.trip_id) || [];
+      if (!stopTimes.some((st) => st.stop_id === stopId)) continue;
+      const times = interpolateStopTimes(stopTimes);
+
+      const tripUpdate = tripUpdates.get(trip.trip_id);
+      const vehiclePosition = vehicles.get(trip.trip_id);
+      let inferredDate: string | undefined;
+      if ((tripUpdate && !tripUpdate.trip?.startDate) || (vehiclePosition && !vehiclePosition.trip?.startDate)) {
+        inferredDate = closestServiceDate(runningDays, tripUpdate, stopTimes, times, nowSeconds);
+      }
+
+      for (const { serviceDate, dayStart } of runningDays) {
+        const update = tripUpdate && (tripUpdate.trip?.startDate || inferredDate) === serviceDate ? tripUpdate : undefined;
+        const vehicle = vehiclePosition && (vehiclePosition.trip?.startDate || inferredDate) === serviceDate
+          ? vehiclePosition
+          : undefined;
+
+        stopTimes.forEach((st, index) => {
+          // Departures only: not the last stop, nor stops without pickup
+          if (st.stop_id !== stopId || index === stopTimes.length - 1 || st.pickup_type === 1) return;
+
+          const departure = times[index].departure;
+          if (departure === undefined) return;
+          const scheduledTime = dayStart + departure;
+          if (scheduledTime < nowSeconds - DEPARTURES_LOOKBACK) return;
+
+          const tripRelationship = enumName(TRIP_SCHEDULE_RELATIONSHIP, update?.trip?.scheduleRelationship);
+          const prediction = update ? predictDeparture(update, stopTimes, times, index, dayStart) : { skipped: false };
+          const stopUpdate = update?.stopTimeUpdate?.find((stu) => stu.stopSequence === st.stop_sequence || stu.stopId === stopId);
+
+          departures.push({
+            tripId: trip.trip_id,
+            routeId: trip.route_id,
+            directionId: trip.direction_id,
+            headsign: stopUpdate?.stopTimeProperties?.stopHeadsign || update?.tripProperties?.tripHeadsign ||
+              st.stop_headsign || trip.trip_headsign,
+            stopSequence: st.stop_sequence,
+            serviceDate,
+            scheduledTime,
+            predictedTime: prediction.predictedTime,
+            delay: prediction.delay,
+            realtime: !!(update || vehicle),
+            cancelled: tripRelationship === 'CANCELED' || tripRelationship === 'DELETED' || prediction.skipped,
+            scheduleRelationship: tripRelationship,
+            vehicleId: vehicle?.vehicle?.id || update?.vehicle?.id,
+            vehicleLabel: vehicle?.vehicle?.label || update?.vehicle?.label,
+          });
+        });
+      }
+    }
+  }
+
+  // Trips only known to the realtime feed (added, replacement, duplicated)
+  for (const [tripId, tripUpdate] of tripUpdates) {
+    if (scheduledTripIds.has(tripId)) continue;
+
+    const stopUpdate = tripUpdate.stopTimeUpdate?.find((stu) => stu.stopId === stopId);
+    const time = stopUpdate?.departure?.time ?? stopUpdate?.arrival?.time;
+    if (!stopUpdate || time === undefined) continue;
+
+    const vehicle = vehicles.get(tripId);
+    const tripRelationship = enumName(TRIP_SCHEDULE_RELATIONSHIP, tripUpdate.trip?.scheduleRelationship);
+    departures.push({
+      tripId,
+      routeId: tripUpdate.trip?.routeId,
+      directionId: tripUpdate.trip?.directionId,
+      headsign: stopUpdate.stopTimeProperties?.stopHeadsign || tripUpdate.tripProperties?.tripHeadsign,
+      stopSequence: stopUpdate.stopSequence,
+      serviceDate: tripUpdate.trip?.startDate || serviceDates[1],
+      predictedTime: Number(time),
+      delay: stopUpdate.departure?.delay ?? stopUpdate.arrival?.delay,
+      realtime: true,
+      cancelled: tripRelationship === 'CANCELED' || tripRelationship === 'DELETED' ||
+        enumName(STOP_SCHEDULE_RELATIONSHIP, stopUpdate.scheduleRelationship) === 'SKIPPED',
+      scheduleRelationship: tripRelationship,
+      vehicleId: vehicle?.vehicle?.id || tripUpdate.vehicle?.id,
+      vehicleLabel: vehicle?.vehicle?.label || tripUpdate.vehicle?.label,
+    });
+  }
+
+  const expectedTime = (departure: StopDeparture) => departure.predictedTime ?? departure.scheduledTime ?? 0;
+  return departures
+    .filter((departure) => expectedTime(departure) >= nowSeconds)
+    .sort((a, b) => expectedTime(a) - expectedTime(b))
+    .slice(0, limit);
+}
@@ -0,0 +1,168 @@
+// Realtime filters by route, trip, stop, bounding box and distance
+// Vehicles and trip updates match on their own fields; alerts match through
+// their informed entities or the trips and routes kept, and stops, shapes and
+// trip modifications follow what they describe. Deleted entities always pass
+// so that differential clients learn about them.
+
+import { distanceMeters } from './geo.ts';
+import type { EntitySelector, FeedEntity, GtfsRealtimeFeed, TripUpdate, VehiclePosition } from './gtfs-realtime.ts';
+
+export interface FeedFilter {
+  routeId?: string;
+  tripId?: string;
+  stopId?: string;
+  // min_lon,min_lat,max_lon,max_lat
+  bbox?: [number, number, number, number];
+  // Circle around a point, radius in meters
+  near?: { lat: number; lon: number; radius: number };
+}
+
+const DEFAULT_NEAR_RADIUS = 500;
+const MAX_NEAR_RADIUS = 50000;
+
+// Returns null for a malformed bbox parameter
+export function parseBbox(value: string): FeedFilter['bbox'] | null {
+  const parts = value.split(',').map((part) => parseFloat(part));
+  if (parts.length !== 4 || parts.some((part) => !isFinite(part))) return null;
+  const [minLon, minLat, maxLon, maxLat] = parts;
+  if (minLon > maxLon || minLat > maxLat) return null;
+  return [minLon, minLat, maxLon, maxLat];
+}
+
+export function inBbox(bbox: [number, number, number, number], lat?: number, lon?: number): boolean {
+  if (lat === undefined || lon === undefined) return false;
+  return lon >= bbox[0] && lat >= bbox[1] && lon <= bbox[2] && lat <= bbox[3];
+}
+
+// Whether a point lies inside the filter's bbox and near circle, where given
+export function inArea(filter: FeedFilter, lat?: number, lon?: number): boolean {
+  if (lat === undefined || lon === undefined) return false;
+  if (filter.bbox && !inBbox(filter.bbox, lat, lon)) return false;
+  if (filter.near && distanceMeters(filter.near.lat, filter.near.lon, lat, lon) > filter.near.radius) return false;
+  return true;
+}
+
+export function hasSpatialFilter(filter: FeedFilter): boolean {
+  return !!(filter.bbox || filter.near);
+}
+
+// Realtime filters from the route, trip, stop, bbox and near/radius query
+// parameters. Returns an error message for malformed values.
+export function parseFeedFilter(params: URLSearchParams): { filter: FeedFilter; error?: string } {
+  const filter: FeedFilter = {
+    routeId: params.get('route') || undefined,
+    tripId: params.get('trip') || undefined,
+    stopId: params.get('stop') || undefined,
+  };
+
+  const bboxParam = params.get('bbox');
+  if (bboxParam) {
+    const bbox = parseBbox(bboxParam);
+    if (!bbox) return { filter, error: 'bbox must be min_lon,min_lat,max_lon,max_lat' };
+    filter.bbox = bbox;
+  }
+
+  const nearParam = params.get('near');
+  if (nearParam) {
+    const parts = nearParam.split(',').map((part) => parseFloat(part));
+    const [lat, lon] = parts;
+    if (parts.length !== 2 || !isFinite(lat) || !isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      return { filter, error: 'near must be lat,lon' };
+    }
+    const radiusParam = params.get('radius');
+    const radius = radiusParam ? parseFloat(radiusParam) : DEFAULT_NEAR_RADIUS;
+    if (!isFinite(radius) || radius <= 0 || radius > MAX_NEAR_RADIUS) {
+      return { filter, error: `radius must be between 0 and ${MAX_NEAR_RADIUS} meters` };
+    }
+    filter.near = { lat, lon, radius };
+  }
+
+  return { filter };
+}
+
+export function filterFeed(
+  feed: GtfsRealtimeFeed,
+  filter: FeedFilter,
+  stopCoords: Map<string, [number, number]>
+): GtfsRealtimeFeed {
+  const { routeId, tripId, stopId } = filter;
+  const spatial = hasSpatialFilter(filter);
+  if (!routeId && !tripId && !stopId && !spatial) return feed;
+
+  const entities = feed.entity || [];
+  const stopInArea = (id?: string) => {
+    const coords = id ? stopCoords.get(id) : undefined;
+    return !!coords && inArea(filter, coords[0], coords[1]);
+  };
+
+  // Trips whose vehicle is inside the area count as inside it
+  const tripsInArea = new Set<string>();
+  if (spatial) {
+    for (const entity of entities) {
+      const vehicleTripId = entity.vehicle?.trip?.tripId;
+      if (vehicleTripId && inArea(filter, entity.vehicle?.position?.latitude, entity.vehicle?.position?.longitude)) {
+        tripsInArea.add(vehicleTripId);
+      }
+    }
+  }
+
+  const vehicleMatches = (vehicle: VehiclePosition) =>
+    (!routeId || vehicle.trip?.routeId === routeId) &&
+    (!tripId || vehicle.trip?.tripId === tripId) &&
+    (!stopId || vehicle.stopId === stopId) &&
+    (!spatial || inArea(filter, vehicle.position?.latitude, vehicle.position?.longitude));
+
+  const tripUpdateMatches = (tripUpdate: TripUpdate) =>
+    (!routeId || tripUpdate.trip?.routeId === routeId) &&
+    (!tripId || tripUpdate.trip?.tripId === tripId) &&
+    (!stopId || !!tripUpdate.stopTimeUpdate?.some((stu) => stu.stopId === stopId)) &&
+    (!spatial || tripsInArea.has(tripUpdate.trip?.tripId || '') ||
+      !!tripUpdate.stopTimeUpdate?.some((stu) => stopInArea(stu.stopId)));
+
+  const kept: Set<FeedEntity> = new Set();
+  const keptTripIds = new Set<string>();
+  const keptRouteIds = new Set<string>();
+  const keptShapeIds = new Set<string>();
+
+  for (const entity of entities) {
+    const matches = entity.isDeleted ||
+      (entity.vehicle && vehicleMatches(entity.vehicle)) ||
+      (entity.tripUpdate && tripUpdateMatches(entity.tripUpdate));
+    if (!matches) continue;
+
+    kept.add(entity);
+    const trip = entity.vehicle?.trip || entity.tripUpdate?.trip;
+    if (trip?.tripId) keptTripIds.add(trip.tripId);
+    if (trip?.routeId) keptRouteIds.add(trip.routeId);
+    if (entity.tripUpdate?.tripProperties?.shapeId) keptShapeIds.add(entity.tripUpdate.tripProperties.shapeId);
+  }
+
+  // Alerts match per informed entity; network-wide alerts apply to every scope
+  const informedEntityMatches = (ie: EntitySelector) => {
+    const ieRouteId = ie.routeId || ie.trip?.routeId;
+    if (!ieRouteId && !ie.trip?.tripId && !ie.stopId) return true;
+    return (!routeId || ieRouteId === routeId) &&
+      (!tripId || ie.trip?.tripId === tripId || (!ie.trip?.tripId && keptRouteIds.has(ieRouteId || ''))) &&
+      (!stopId || ie.stopId === stopId) &&
+      (!spatial || stopInArea(ie.stopId) || (!ie.stopId && (
+        keptRouteIds.has(ieRouteId || '') || keptTripIds.has(ie.trip?.tripId || '')
+      )));
+  };
+
+  for (const entity of entities) {
+    if (entity.isDeleted) continue;
+    if (entity.alert?.informedEntity?.some(informedEntityMatches)) {
+      kept.add(entity);
+    } else if (entity.stop && !routeId && !tripId) {
+      if ((!stopId || entity.stop.stopId === stopId) && (!spatial || inArea(filter, entity.stop.stopLat, entity.stop.stopLon))) {
+        kept.add(entity);
+      }
+    } else if (entity.shape?.shapeId && keptShapeIds.has(entity.shape.shapeId)) {
+      kept.add(entity);
+    } else if (entity.tripModifications?.selectedTrips?.some((selected) => selected.tripIds.some((id) => keptTripIds.has(id)))) {
+      kept.add(entity);
+    }
+  }
+
+  return { header: feed.header, entity: entities.filter((entity) => kept.has(entity)) };
+}
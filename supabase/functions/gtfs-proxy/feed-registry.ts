@@ -0,0 +1,227 @@
+// Feed registry
+// Declares every feed the proxy serves: its realtime URLs (one feed, or
+// several split by entity type), its static GTFS archive, request headers and
+// refresh policy. A combined realtime feed carrying several operators at once
+// serves the 'all' view. Header values may reference environment variables as
+// ${NAME}, so credentials stay out of the registry itself.
+
+import type { GtfsRealtimeFeed } from './gtfs-realtime.ts';
+
+export interface RefreshPolicy {
+  // Seconds a realtime download is reused for
+  realtime: number;
+  // Seconds static data is cached for
+  static: number;
+}
+
+export interface FeedDefinition {
+  // Operator id used by the API and the app
+  id: string;
+  name: string;
+  city?: string;
+  // Empty for feeds without realtime data
+  realtime: string[];
+  static?: string;
+  headers: Record<string, string>;
+  refresh: RefreshPolicy;
+}
+
+export interface CombinedFeed {
+  realtime: string[];
+  headers: Record<string, string>;
+  // Feeds whose data the combined feed carries
+  covers: string[];
+  refresh: Pick<RefreshPolicy, 'realtime'>;
+}
+
+export interface FeedRegistry {
+  // In display order
+  feeds: FeedDefinition[];
+  combined?: CombinedFeed;
+}
+
+export interface RealtimeSource {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  realtime: 4,
+  static: 24 * 60 * 60,
+};
+
+export class FeedRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedRegistryError';
+  }
+}
+
+type Env = (name: string) => string | undefined;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parseUrl(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new FeedRegistryError(`${path} must be a URL`);
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new FeedRegistryError(`${path} is not a valid URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FeedRegistryError(`${path} must be an http or https URL`);
+  }
+  return value;
+}
+
+// A single URL or a list of them
+function parseUrls(value: unknown, path: string): string[] {
+  if (value === undefined) return [];
+  const urls = Array.isArray(value) ? value : [value];
+  return urls.map((url, i) => parseUrl(url, Array.isArray(value) ? `${path}[${i}]` : path));
+}
+
+function parseHeaders(value: unknown, path: string, env: Env, inherited: Record<string, string>): Record<string, string> {
+  if (value === undefined) return { ...inherited };
+  if (!isObject(value)) throw new FeedRegistryError(`${path} must be an object`);
+
+  const headers = { ...inherited };
+  for (const [name, template] of Object.entries(value)) {
+    if (typeof template !== 'string') throw new FeedRegistryError(`${path}.${name} must be a string`);
+    headers[name] = template.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable: string) => {
+      const resolved = env(variable);
+      if (resolved === undefined) throw new FeedRegistryError(`${path}.${name} references unset variable ${variable}`);
+      return resolved;
+    });
+  }
+  return headers;
+}
+
+function parseRefresh(value: unknown, path: string, inherited: RefreshPolicy): RefreshPolicy {
+  if (value === undefined) return { ...inherited };
+  if (!isObject(value)) throw new FeedRegistryError(`${path} must be an object`);
+
+  const refresh = { ...inherited };
+  for (const key of Object.keys(refresh) as (keyof RefreshPolicy)[]) {
+    const seconds = value[key];
+    if (seconds === undefined) continue;
+    if (typeof seconds !== 'number' || !(seconds > 0)) {
+      throw new FeedRegistryError(`${path}.${key} must be a positive number of seconds`);
+    }
+    refresh[key] = seconds;
+  }
+  return refresh;
+}
+
+// Validates a registry document. `defaults` applies headers and a refresh
+// policy to every feed; feeds override them key by key.
+export function parseFeedRegistry(input: unknown, env: Env): FeedRegistry {
+  if (!isObject(input)) throw new FeedRegistryError('The feed registry must be an object');
+  if (!Array.isArray(input.feeds) || input.feeds.length === 0) {
+    throw new FeedRegistryError('feeds must be a non-empty array');
+  }
+
+  const defaults = input.defaults === undefined ? {} : input.defaults;
+  if (!isObject(defaults)) throw new FeedRegistryError('defaults must be an object');
+  const defaultHeaders = parseHeaders(defaults.headers, 'defaults.headers', env, {});
+  const defaultRefresh = parseRefresh(defaults.refresh, 'defaults.refresh', DEFAULT_REFRESH_POLICY);
+
+  const ids = new Set<string>();
+  const feeds = input.feeds.map((feed: unknown, i: number): FeedDefinition => {
+    const path = `feeds[${i}]`;
+    if (!isObject(feed)) throw new FeedRegistryError(`${path} must be an object`);
+    if (typeof feed.id !== 'string' || !feed.id || feed.id === 'all') {
+      throw new FeedRegistryError(`${path}.id must be a non-empty string other than "all"`);
+    }
+    if (ids.has(feed.id)) throw new FeedRegistryError(`${path}.id ${feed.id} is used by another feed`);
+    ids.add(feed.id);
+    if (typeof feed.name !== 'string' || !feed.name) throw new FeedRegistryError(`${path}.name must be a non-empty string`);
+    if (feed.city !== undefined && typeof feed.city !== 'string') throw new FeedRegistryError(`${path}.city must be a string`);
+
+    const realtime = parseUrls(feed.realtime, `${path}.realtime`);
+    const staticUrl = feed.static === undefined ? undefined : parseUrl(feed.static, `${path}.static`);
+    if (realtime.length === 0 && !staticUrl) {
+      throw new FeedRegistryError(`${path} needs a realtime or a static URL`);
+    }
+
+    return {
+      id: feed.id,
+      name: feed.name,
+      city: feed.city,
+      realtime,
+      static: staticUrl,
+      headers: parseHeaders(feed.headers, `${path}.headers`, env, defaultHeaders),
+      refresh: parseRefresh(feed.refresh, `${path}.refresh`, defaultRefresh),
+    };
+  });
+
+  let combined: CombinedFeed | undefined;
+  if (input.combined !== undefined) {
+    if (!isObject(input.combined)) throw new FeedRegistryError('combined must be an object');
+    const covers = input.combined.covers === undefined ? Array.from(ids) : input.combined.covers;
+    if (!Array.isArray(covers) || covers.some((id) => typeof id !== 'string' || !ids.has(id))) {
+      throw new FeedRegistryError('combined.covers must list ids of feeds in the registry');
+    }
+    const realtime = parseUrls(input.combined.realtime, 'combined.realtime');
+    if (realtime.length === 0) throw new FeedRegistryError('combined.realtime is required');
+    combined = {
+      realtime,
+      headers: parseHeaders(input.combined.headers, 'combined.headers', env, defaultHeaders),
+      covers,
+      refresh: { realtime: parseRefresh(input.combined.refresh, 'combined.refresh', defaultRefresh).realtime },
+    };
+  }
+
+  return { feeds, combined };
+}
+
+// Realtime URLs to download for an operator, or for 'all': the combined feed
+// plus every feed it does not cover
+export function realtimeSourcesFor(registry: FeedRegistry, feedKey: string): RealtimeSource[] {
+  const sourcesOf = (feed: { realtime: string[]; headers: Record<string, string> }) =>
+    feed.realtime.map((url) => ({ url, headers: feed.headers }));
+
+  if (feedKey !== 'all') {
+    const feed = registry.feeds.find((candidate) => candidate.id === feedKey);
+    return feed ? sourcesOf(feed) : [];
+  }
+
+  const covered = new Set(registry.combined?.covers || []);
+  return [
+    ...(registry.combined ? sourcesOf(registry.combined) : []),
+    ...registry.feeds.filter((feed) => !covered.has(feed.id)).flatMap(sourcesOf),
+  ];
+}
+
+const FULL_DATASET = 0;
+
+// Merges full datasets downloaded from several realtime URLs into one; parts
+// that are DIFFERENTIAL must be applied to a FeedState of their own first.
+// Entity ids repeated across parts get the part's index appended so that no
+// entity replaces another.
+export function mergeFeeds(feeds: GtfsRealtimeFeed[]): GtfsRealtimeFeed {
+  if (feeds.length === 1) return feeds[0];
+
+  const timestamps = feeds.map((feed) => Number(feed.header?.timestamp || 0));
+  const seen = new Set<string>();
+  const entity = feeds.flatMap((feed, part) => (feed.entity || []).map((candidate) => {
+    const id = candidate.id || '';
+    if (!seen.has(id)) {
+      seen.add(id);
+      return candidate;
+    }
+    return { ...candidate, id: `${id}#${part}` };
+  }));
+
+  return {
+    header: {
+      ...feeds[0]?.header,
+      incrementality: FULL_DATASET,
+      timestamp: Math.max(0, ...timestamps) || undefined,
+    },
+    entity,
+  };
+}
@@ -0,0 +1,118 @@
+// Entity state for one upstream realtime feed
+// FULL_DATASET feeds replace the state; DIFFERENTIAL feeds update it entity by
+// entity, with `is_deleted` removing entities. Every entity remembers the
+// version at which it last changed, so clients holding a `since` token can be
+// sent only what changed after it.
+
+import { bigintReplacer, type FeedEntity, type GtfsRealtimeFeed } from './gtfs-realtime.ts';
+
+const FULL_DATASET = 0;
+const DIFFERENTIAL = 1;
+
+// How long deletions are remembered for since-token deltas
+const DELETION_RETENTION = 30 * 60 * 1000; // 30 minutes
+
+// Only entities with an id are kept in the state
+export type IdentifiedEntity = FeedEntity & { id: string };
+
+export interface FeedChanges {
+  // Entities added or changed since the token
+  entities: IdentifiedEntity[];
+  // Ids of entities removed since the token
+  deleted: string[];
+}
+
+interface EntityRecord {
+  entity: IdentifiedEntity;
+  serialized: string;
+  version: number;
+}
+
+export class FeedState {
+  // Distinguishes tokens from earlier instances, e.g. before a cold start
+  readonly epoch = crypto.randomUUID().slice(0, 8);
+  private version = 0;
+  private header: GtfsRealtimeFeed['header'];
+  private entities: Map<string, EntityRecord> = new Map();
+  private deletions: Map<string, { version: number; at: number }> = new Map();
+  // Tokens older than this version may have missed pruned deletions
+  private horizon = 0;
+
+  get token(): string {
+    return `${this.epoch}.${this.version}`;
+  }
+
+  apply(feed: GtfsRealtimeFeed, now = Date.now()): void {
+    this.version++;
+    this.header = feed.header;
+    const differential = feed.header?.incrementality === DIFFERENTIAL;
+    const seen = new Set<string>();
+
+    for (const entity of feed.entity || []) {
+      // Entities without an id cannot be tracked across feeds
+      const id = entity.id;
+      if (!id) continue;
+
+      if (entity.isDeleted) {
+        this.remove(id, now);
+        continue;
+      }
+
+      seen.add(id);
+      const serialized = JSON.stringify(entity, bigintReplacer);
+      const existing = this.entities.get(id);
+      if (existing?.serialized === serialized) continue;
+
+      this.entities.set(id, { entity: { ...entity, id }, serialized, version: this.version });
+      this.deletions.delete(id);
+    }
+
+    if (!differential) {
+      for (const id of Array.from(this.entities.keys())) {
+        if (!seen.has(id)) this.remove(id, now);
+      }
+    }
+
+    for (const [id, deletion] of this.deletions) {
+      if (now - deletion.at > DELETION_RETENTION) {
+        this.deletions.delete(id);
+        this.horizon = Math.max(this.horizon, deletion.version);
+      }
+    }
+  }
+
+  // The current state as a full dataset
+  toFeed(): GtfsRealtimeFeed {
+    return {
+      header: this.header && { ...this.header, incrementality: FULL_DATASET },
+      entity: Array.from(this.entities.values(), (record) => record.entity),
+    };
+  }
+
+  // Changes after the version in `token`, or null when the token is not from
+  // this state or too old, and the client needs the full dataset instead
+  changesSince(token: string): FeedChanges | null {
+    const [epoch, versionText] = token.split('.');
+    const since = Number(versionText);
+    if (epoch !== this.epoch || !Number.isInteger(since) || since > this.version || since < this.horizon) {
+      return null;
+    }
+
+    const entities: IdentifiedEntity[] = [];
+    for (const record of this.entities.values()) {
+      if (record.version > since) entities.push(record.entity);
+    }
+
+    const deleted: string[] = [];
+    for (const [id, deletion] of this.deletions) {
+      if (deletion.version > since) deleted.push(id);
+    }
+
+    return { entities, deleted };
+  }
+
+  private remove(id: string, now: number): void {
+    if (!this.entities.delete(id)) return;
+    this.deletions.set(id, { version: this.version, at: now });
+  }
+}
@@ -0,0 +1,13 @@
+// Geographic helpers shared by the feed filters, headways and vehicle freshness
+
+const EARTH_RADIUS = 6371000; // meters
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters (haversine)
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,1346 @@
+// GTFS-Realtime message parser and encoder
+// Based on the GTFS-RT specification: https://gtfs.org/realtime/reference/
+// Field numbers and types follow gtfs-realtime.proto; every field is read with
+// the accessor for its declared type (see protobuf.ts).
+
+import {
+  asBool,
+  asDouble,
+  asEnum,
+  asFloat,
+  asInt32,
+  asInt64,
+  asString,
+  asUint32,
+  asUint64,
+  type Int64,
+  parseProtobuf,
+  ProtobufWriter,
+} from './protobuf.ts';
+
+// Types for the parsed data
+export interface GtfsRealtimeFeed {
+  header?: FeedHeader;
+  entity?: FeedEntity[];
+}
+
+export interface FeedHeader {
+  gtfsRealtimeVersion?: string;
+  incrementality?: number;
+  timestamp?: Int64;
+  feedVersion?: string;
+}
+
+export interface FeedEntity {
+  id?: string;
+  isDeleted?: boolean;
+  vehicle?: VehiclePosition;
+  tripUpdate?: TripUpdate;
+  alert?: AlertData;
+  shape?: ShapeData;
+  stop?: StopData;
+  tripModifications?: TripModificationsData;
+}
+
+export interface VehiclePosition {
+  trip?: TripDescriptor;
+  position?: Position;
+  currentStopSequence?: number;
+  currentStatus?: number;
+  timestamp?: Int64;
+  congestionLevel?: number;
+  stopId?: string;
+  vehicle?: VehicleDescriptor;
+  occupancyStatus?: number;
+  occupancyPercentage?: number;
+  multiCarriageDetails?: CarriageDetails[];
+}
+
+export interface CarriageDetails {
+  id?: string;
+  label?: string;
+  occupancyStatus?: number;
+  occupancyPercentage?: number;
+  carriageSequence?: number;
+}
+
+export interface TripUpdate {
+  trip?: TripDescriptor;
+  vehicle?: VehicleDescriptor;
+  stopTimeUpdate?: StopTimeUpdate[];
+  timestamp?: Int64;
+  delay?: number;
+  tripProperties?: TripProperties;
+}
+
+export interface TripProperties {
+  tripId?: string;
+  startDate?: string;
+  startTime?: string;
+  shapeId?: string;
+  tripHeadsign?: string;
+  tripShortName?: string;
+}
+
+export interface StopTimeUpdate {
+  stopSequence?: number;
+  stopId?: string;
+  arrival?: StopTimeEvent;
+  departure?: StopTimeEvent;
+  departureOccupancyStatus?: number;
+  scheduleRelationship?: number;
+  stopTimeProperties?: StopTimeProperties;
+}
+
+export interface StopTimeEvent {
+  delay?: number;
+  time?: Int64;
+  uncertainty?: number;
+  scheduledTime?: Int64;
+}
+
+export interface StopTimeProperties {
+  assignedStopId?: string;
+  stopHeadsign?: string;
+  pickupType?: number;
+  dropOffType?: number;
+}
+
+export interface TimeRange {
+  start?: Int64;
+  end?: Int64;
+}
+
+export interface AlertData {
+  activePeriod?: TimeRange[];
+  informedEntity?: EntitySelector[];
+  cause?: number;
+  effect?: number;
+  url?: TranslatedString[];
+  headerText?: TranslatedString[];
+  descriptionText?: TranslatedString[];
+  ttsHeaderText?: TranslatedString[];
+  ttsDescriptionText?: TranslatedString[];
+  severityLevel?: number;
+  image?: LocalizedImage[];
+  imageAlternativeText?: TranslatedString[];
+  causeDetail?: TranslatedString[];
+  effectDetail?: TranslatedString[];
+}
+
+export interface TranslatedString {
+  text?: string;
+  language?: string;
+}
+
+export interface LocalizedImage {
+  url?: string;
+  mediaType?: string;
+  language?: string;
+}
+
+export interface ModifiedTripSelector {
+  modificationsId?: string;
+  affectedTripId?: string;
+}
+
+export interface TripDescriptor {
+  tripId?: string;
+  routeId?: string;
+  directionId?: number;
+  startTime?: string;
+  startDate?: string;
+  scheduleRelationship?: number;
+  modifiedTrip?: ModifiedTripSelector;
+}
+
+export interface VehicleDescriptor {
+  id?: string;
+  label?: string;
+  licensePlate?: string;
+  wheelchairAccessible?: number;
+}
+
+export interface Position {
+  latitude?: number;
+  longitude?: number;
+  bearing?: number;
+  odometer?: number;
+  speed?: number;
+}
+
+export interface EntitySelector {
+  agencyId?: string;
+  routeId?: string;
+  routeType?: number;
+  trip?: TripDescriptor;
+  stopId?: string;
+  directionId?: number;
+}
+
+export interface ShapeData {
+  shapeId?: string;
+  encodedPolyline?: string;
+}
+
+export interface StopData {
+  stopId?: string;
+  stopCode?: TranslatedString[];
+  stopName?: TranslatedString[];
+  ttsStopName?: TranslatedString[];
+  stopDesc?: TranslatedString[];
+  stopLat?: number;
+  stopLon?: number;
+  zoneId?: string;
+  stopUrl?: TranslatedString[];
+  parentStation?: string;
+  stopTimezone?: string;
+  wheelchairBoarding?: number;
+  levelId?: string;
+  platformCode?: TranslatedString[];
+}
+
+export interface StopSelector {
+  stopSequence?: number;
+  stopId?: string;
+}
+
+export interface ReplacementStop {
+  travelTimeToStop?: number;
+  stopId?: string;
+}
+
+export interface Modification {
+  startStopSelector?: StopSelector;
+  endStopSelector?: StopSelector;
+  propagatedModificationDelay?: number;
+  replacementStops?: ReplacementStop[];
+  serviceAlertId?: string;
+  lastModifiedTime?: Int64;
+}
+
+export interface SelectedTrips {
+  tripIds: string[];
+  shapeId?: string;
+}
+
+export interface TripModificationsData {
+  selectedTrips?: SelectedTrips[];
+  startTimes?: string[];
+  serviceDates?: string[];
+  modifications?: Modification[];
+}
+
+// Enum value names from gtfs-realtime.proto, used in the JSON endpoints
+export const INCREMENTALITY: Record<number, string> = {
+  0: 'FULL_DATASET',
+  1: 'DIFFERENTIAL',
+};
+
+export const VEHICLE_STOP_STATUS: Record<number, string> = {
+  0: 'INCOMING_AT',
+  1: 'STOPPED_AT',
+  2: 'IN_TRANSIT_TO',
+};
+
+export const CONGESTION_LEVEL: Record<number, string> = {
+  0: 'UNKNOWN_CONGESTION_LEVEL',
+  1: 'RUNNING_SMOOTHLY',
+  2: 'STOP_AND_GO',
+  3: 'CONGESTION',
+  4: 'SEVERE_CONGESTION',
+};
+
+export const OCCUPANCY_STATUS: Record<number, string> = {
+  0: 'EMPTY',
+  1: 'MANY_SEATS_AVAILABLE',
+  2: 'FEW_SEATS_AVAILABLE',
+  3: 'STANDING_ROOM_ONLY',
+  4: 'CRUSHED_STANDING_ROOM_ONLY',
+  5: 'FULL',
+  6: 'NOT_ACCEPTING_PASSENGERS',
+  7: 'NO_DATA_AVAILABLE',
+  8: 'NOT_BOARDABLE',
+};
+
+export const WHEELCHAIR_ACCESSIBLE: Record<number, string> = {
+  0: 'NO_VALUE',
+  1: 'UNKNOWN',
+  2: 'WHEELCHAIR_ACCESSIBLE',
+  3: 'WHEELCHAIR_INACCESSIBLE',
+};
+
+export const TRIP_SCHEDULE_RELATIONSHIP: Record<number, string> = {
+  0: 'SCHEDULED',
+  1: 'ADDED',
+  2: 'UNSCHEDULED',
+  3: 'CANCELED',
+  5: 'REPLACEMENT',
+  6: 'DUPLICATED',
+  7: 'DELETED',
+  8: 'NEW',
+};
+
+export const STOP_SCHEDULE_RELATIONSHIP: Record<number, string> = {
+  0: 'SCHEDULED',
+  1: 'SKIPPED',
+  2: 'NO_DATA',
+  3: 'UNSCHEDULED',
+};
+
+export const PICKUP_DROP_OFF_TYPE: Record<number, string> = {
+  0: 'REGULAR',
+  1: 'NONE',
+  2: 'PHONE_AGENCY',
+  3: 'COORDINATE_WITH_DRIVER',
+};
+
+export const ALERT_CAUSE: Record<number, string> = {
+  1: 'UNKNOWN_CAUSE',
+  2: 'OTHER_CAUSE',
+  3: 'TECHNICAL_PROBLEM',
+  4: 'STRIKE',
+  5: 'DEMONSTRATION',
+  6: 'ACCIDENT',
+  7: 'HOLIDAY',
+  8: 'WEATHER',
+  9: 'MAINTENANCE',
+  10: 'CONSTRUCTION',
+  11: 'POLICE_ACTIVITY',
+  12: 'MEDICAL_EMERGENCY',
+};
+
+export const ALERT_EFFECT: Record<number, string> = {
+  1: 'NO_SERVICE',
+  2: 'REDUCED_SERVICE',
+  3: 'SIGNIFICANT_DELAYS',
+  4: 'DETOUR',
+  5: 'ADDITIONAL_SERVICE',
+  6: 'MODIFIED_SERVICE',
+  7: 'OTHER_EFFECT',
+  8: 'UNKNOWN_EFFECT',
+  9: 'STOP_MOVED',
+  10: 'NO_EFFECT',
+  11: 'ACCESSIBILITY_ISSUE',
+};
+
+export const ALERT_SEVERITY_LEVEL: Record<number, string> = {
+  1: 'UNKNOWN_SEVERITY',
+  2: 'INFO',
+  3: 'WARNING',
+  4: 'SEVERE',
+};
+
+export function enumName(names: Record<number, string>, value?: number): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return names[value] ?? String(value);
+}
+
+function parseTranslatedString(data: Uint8Array): TranslatedString[] {
+  const translations: TranslatedString[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    if (field.fieldNumber !== 1 || !field.rawBytes) continue;
+    const translation: TranslatedString = {};
+    for (const tf of parseProtobuf(field.rawBytes)) {
+      if (tf.fieldNumber === 1) translation.text = asString(tf);
+      if (tf.fieldNumber === 2) translation.language = asString(tf);
+    }
+    translations.push(translation);
+  }
+
+  return translations;
+}
+
+function parseTranslatedImage(data: Uint8Array): LocalizedImage[] {
+  const images: LocalizedImage[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    if (field.fieldNumber !== 1 || !field.rawBytes) continue;
+    const image: LocalizedImage = {};
+    for (const imf of parseProtobuf(field.rawBytes)) {
+      if (imf.fieldNumber === 1) image.url = asString(imf);
+      if (imf.fieldNumber === 2) image.mediaType = asString(imf);
+      if (imf.fieldNumber === 3) image.language = asString(imf);
+    }
+    images.push(image);
+  }
+
+  return images;
+}
+
+function parseModifiedTripSelector(data: Uint8Array): ModifiedTripSelector {
+  const selector: ModifiedTripSelector = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        selector.modificationsId = asString(field);
+        break;
+      case 2:
+        selector.affectedTripId = asString(field);
+        break;
+    }
+  }
+
+  return selector;
+}
+
+function parseTripDescriptor(data: Uint8Array): TripDescriptor {
+  const trip: TripDescriptor = {};
+
+  // GTFS-RT TripDescriptor field numbers:
+  // 1: trip_id
+  // 2: start_time (e.g., "23:10:00")
+  // 3: start_date (e.g., "20251225")
+  // 4: schedule_relationship
+  // 5: route_id (e.g., "58")
+  // 6: direction_id
+  // 7: modified_trip
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        trip.tripId = asString(field);
+        break;
+      case 2:
+        trip.startTime = asString(field);
+        break;
+      case 3:
+        trip.startDate = asString(field);
+        break;
+      case 4:
+        trip.scheduleRelationship = asEnum(field);
+        break;
+      case 5:
+        trip.routeId = asString(field);
+        break;
+      case 6:
+        trip.directionId = asUint32(field);
+        break;
+      case 7:
+        if (field.rawBytes) trip.modifiedTrip = parseModifiedTripSelector(field.rawBytes);
+        break;
+    }
+  }
+
+  return trip;
+}
+
+function parseVehicleDescriptor(data: Uint8Array): VehicleDescriptor {
+  const vehicle: VehicleDescriptor = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        vehicle.id = asString(field);
+        break;
+      case 2:
+        vehicle.label = asString(field);
+        break;
+      case 3:
+        vehicle.licensePlate = asString(field);
+        break;
+      case 4:
+        vehicle.wheelchairAccessible = asEnum(field);
+        break;
+    }
+  }
+
+  return vehicle;
+}
+
+function parsePosition(data: Uint8Array): Position {
+  const position: Position = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        position.latitude = asFloat(field);
+        break;
+      case 2:
+        position.longitude = asFloat(field);
+        break;
+      case 3:
+        position.bearing = asFloat(field);
+        break;
+      case 4:
+        position.odometer = asDouble(field);
+        break;
+      case 5:
+        position.speed = asFloat(field);
+        break;
+    }
+  }
+
+  return position;
+}
+
+function parseCarriageDetails(data: Uint8Array): CarriageDetails {
+  const carriage: CarriageDetails = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        carriage.id = asString(field);
+        break;
+      case 2:
+        carriage.label = asString(field);
+        break;
+      case 3:
+        carriage.occupancyStatus = asEnum(field);
+        break;
+      case 4:
+        // int32, -1 when no data is available for the carriage
+        carriage.occupancyPercentage = asInt32(field);
+        break;
+      case 5:
+        carriage.carriageSequence = asUint32(field);
+        break;
+    }
+  }
+
+  return carriage;
+}
+
+function parseStopTimeEvent(data: Uint8Array): StopTimeEvent {
+  const event: StopTimeEvent = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        event.delay = asInt32(field);
+        break;
+      case 2:
+        event.time = asInt64(field);
+        break;
+      case 3:
+        event.uncertainty = asInt32(field);
+        break;
+      case 4:
+        event.scheduledTime = asInt64(field);
+        break;
+    }
+  }
+
+  return event;
+}
+
+function parseStopTimeProperties(data: Uint8Array): StopTimeProperties {
+  const properties: StopTimeProperties = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        properties.assignedStopId = asString(field);
+        break;
+      case 2:
+        properties.stopHeadsign = asString(field);
+        break;
+      case 3:
+        properties.pickupType = asEnum(field);
+        break;
+      case 4:
+        properties.dropOffType = asEnum(field);
+        break;
+    }
+  }
+
+  return properties;
+}
+
+function parseStopTimeUpdate(data: Uint8Array): StopTimeUpdate {
+  const stu: StopTimeUpdate = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        stu.stopSequence = asUint32(field);
+        break;
+      case 2:
+        if (field.rawBytes) stu.arrival = parseStopTimeEvent(field.rawBytes);
+        break;
+      case 3:
+        if (field.rawBytes) stu.departure = parseStopTimeEvent(field.rawBytes);
+        break;
+      case 4:
+        stu.stopId = asString(field);
+        break;
+      case 5:
+        stu.scheduleRelationship = asEnum(field);
+        break;
+      case 6:
+        if (field.rawBytes) stu.stopTimeProperties = parseStopTimeProperties(field.rawBytes);
+        break;
+      case 7:
+        stu.departureOccupancyStatus = asEnum(field);
+        break;
+    }
+  }
+
+  return stu;
+}
+
+function parseTripProperties(data: Uint8Array): TripProperties {
+  const properties: TripProperties = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        properties.tripId = asString(field);
+        break;
+      case 2:
+        properties.startDate = asString(field);
+        break;
+      case 3:
+        properties.startTime = asString(field);
+        break;
+      case 4:
+        properties.shapeId = asString(field);
+        break;
+      case 5:
+        properties.tripHeadsign = asString(field);
+        break;
+      case 6:
+        properties.tripShortName = asString(field);
+        break;
+    }
+  }
+
+  return properties;
+}
+
+function parseTripUpdate(data: Uint8Array): TripUpdate {
+  const tripUpdate: TripUpdate = {};
+  const stopTimeUpdates: StopTimeUpdate[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        if (field.rawBytes) tripUpdate.trip = parseTripDescriptor(field.rawBytes);
+        break;
+      case 2:
+        if (field.rawBytes) stopTimeUpdates.push(parseStopTimeUpdate(field.rawBytes));
+        break;
+      case 3:
+        if (field.rawBytes) tripUpdate.vehicle = parseVehicleDescriptor(field.rawBytes);
+        break;
+      case 4:
+        tripUpdate.timestamp = asUint64(field);
+        break;
+      case 5:
+        tripUpdate.delay = asInt32(field);
+        break;
+      case 6:
+        if (field.rawBytes) tripUpdate.tripProperties = parseTripProperties(field.rawBytes);
+        break;
+    }
+  }
+
+  if (stopTimeUpdates.length > 0) {
+    tripUpdate.stopTimeUpdate = stopTimeUpdates;
+  }
+
+  return tripUpdate;
+}
+
+function parseVehiclePosition(data: Uint8Array): VehiclePosition {
+  const vp: VehiclePosition = {};
+  const carriages: CarriageDetails[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        if (field.rawBytes) vp.trip = parseTripDescriptor(field.rawBytes);
+        break;
+      case 2:
+        if (field.rawBytes) vp.position = parsePosition(field.rawBytes);
+        break;
+      case 3:
+        vp.currentStopSequence = asUint32(field);
+        break;
+      case 4:
+        vp.currentStatus = asEnum(field);
+        break;
+      case 5:
+        vp.timestamp = asUint64(field);
+        break;
+      case 6:
+        vp.congestionLevel = asEnum(field);
+        break;
+      case 7:
+        vp.stopId = asString(field);
+        break;
+      case 8:
+        if (field.rawBytes) vp.vehicle = parseVehicleDescriptor(field.rawBytes);
+        break;
+      case 9:
+        vp.occupancyStatus = asEnum(field);
+        break;
+      case 10:
+        vp.occupancyPercentage = asUint32(field);
+        break;
+      case 11:
+        if (field.rawBytes) carriages.push(parseCarriageDetails(field.rawBytes));
+        break;
+    }
+  }
+
+  if (carriages.length > 0) vp.multiCarriageDetails = carriages;
+
+  return vp;
+}
+
+function parseTimeRange(data: Uint8Array): TimeRange {
+  const period: TimeRange = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        period.start = asUint64(field);
+        break;
+      case 2:
+        period.end = asUint64(field);
+        break;
+    }
+  }
+
+  return period;
+}
+
+function parseEntitySelector(data: Uint8Array): EntitySelector {
+  const selector: EntitySelector = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        selector.agencyId = asString(field);
+        break;
+      case 2:
+        selector.routeId = asString(field);
+        break;
+      case 3:
+        selector.routeType = asInt32(field);
+        break;
+      case 4:
+        if (field.rawBytes) selector.trip = parseTripDescriptor(field.rawBytes);
+        break;
+      case 5:
+        selector.stopId = asString(field);
+        break;
+      case 6:
+        selector.directionId = asUint32(field);
+        break;
+    }
+  }
+
+  return selector;
+}
+
+function parseAlert(data: Uint8Array): AlertData {
+  const alert: AlertData = {};
+  const activePeriods: TimeRange[] = [];
+  const informedEntities: EntitySelector[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        if (field.rawBytes) activePeriods.push(parseTimeRange(field.rawBytes));
+        break;
+      case 5:
+        if (field.rawBytes) informedEntities.push(parseEntitySelector(field.rawBytes));
+        break;
+      case 6:
+        alert.cause = asEnum(field);
+        break;
+      case 7:
+        alert.effect = asEnum(field);
+        break;
+      case 8:
+        if (field.rawBytes) alert.url = parseTranslatedString(field.rawBytes);
+        break;
+      case 10:
+        if (field.rawBytes) alert.headerText = parseTranslatedString(field.rawBytes);
+        break;
+      case 11:
+        if (field.rawBytes) alert.descriptionText = parseTranslatedString(field.rawBytes);
+        break;
+      case 12:
+        if (field.rawBytes) alert.ttsHeaderText = parseTranslatedString(field.rawBytes);
+        break;
+      case 13:
+        if (field.rawBytes) alert.ttsDescriptionText = parseTranslatedString(field.rawBytes);
+        break;
+      case 14:
+        alert.severityLevel = asEnum(field);
+        break;
+      case 15:
+        if (field.rawBytes) alert.image = parseTranslatedImage(field.rawBytes);
+        break;
+      case 16:
+        if (field.rawBytes) alert.imageAlternativeText = parseTranslatedString(field.rawBytes);
+        break;
+      case 17:
+        if (field.rawBytes) alert.causeDetail = parseTranslatedString(field.rawBytes);
+        break;
+      case 18:
+        if (field.rawBytes) alert.effectDetail = parseTranslatedString(field.rawBytes);
+        break;
+    }
+  }
+
+  if (activePeriods.length > 0) alert.activePeriod = activePeriods;
+  if (informedEntities.length > 0) alert.informedEntity = informedEntities;
+
+  return alert;
+}
+
+function parseShape(data: Uint8Array): ShapeData {
+  const shape: ShapeData = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        shape.shapeId = asString(field);
+        break;
+      case 2:
+        shape.encodedPolyline = asString(field);
+        break;
+    }
+  }
+
+  return shape;
+}
+
+function parseStop(data: Uint8Array): StopData {
+  const stop: StopData = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        stop.stopId = asString(field);
+        break;
+      case 2:
+        if (field.rawBytes) stop.stopCode = parseTranslatedString(field.rawBytes);
+        break;
+      case 3:
+        if (field.rawBytes) stop.stopName = parseTranslatedString(field.rawBytes);
+        break;
+      case 4:
+        if (field.rawBytes) stop.ttsStopName = parseTranslatedString(field.rawBytes);
+        break;
+      case 5:
+        if (field.rawBytes) stop.stopDesc = parseTranslatedString(field.rawBytes);
+        break;
+      case 6:
+        stop.stopLat = asFloat(field);
+        break;
+      case 7:
+        stop.stopLon = asFloat(field);
+        break;
+      case 8:
+        stop.zoneId = asString(field);
+        break;
+      case 9:
+        if (field.rawBytes) stop.stopUrl = parseTranslatedString(field.rawBytes);
+        break;
+      case 11:
+        stop.parentStation = asString(field);
+        break;
+      case 12:
+        stop.stopTimezone = asString(field);
+        break;
+      case 13:
+        stop.wheelchairBoarding = asEnum(field);
+        break;
+      case 14:
+        stop.levelId = asString(field);
+        break;
+      case 15:
+        if (field.rawBytes) stop.platformCode = parseTranslatedString(field.rawBytes);
+        break;
+    }
+  }
+
+  return stop;
+}
+
+function parseStopSelector(data: Uint8Array): StopSelector {
+  const selector: StopSelector = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        selector.stopSequence = asUint32(field);
+        break;
+      case 2:
+        selector.stopId = asString(field);
+        break;
+    }
+  }
+
+  return selector;
+}
+
+function parseReplacementStop(data: Uint8Array): ReplacementStop {
+  const replacement: ReplacementStop = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        replacement.travelTimeToStop = asInt32(field);
+        break;
+      case 2:
+        replacement.stopId = asString(field);
+        break;
+    }
+  }
+
+  return replacement;
+}
+
+function parseModification(data: Uint8Array): Modification {
+  const modification: Modification = {};
+  const replacementStops: ReplacementStop[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        if (field.rawBytes) modification.startStopSelector = parseStopSelector(field.rawBytes);
+        break;
+      case 2:
+        if (field.rawBytes) modification.endStopSelector = parseStopSelector(field.rawBytes);
+        break;
+      case 3:
+        modification.propagatedModificationDelay = asInt32(field);
+        break;
+      case 4:
+        if (field.rawBytes) replacementStops.push(parseReplacementStop(field.rawBytes));
+        break;
+      case 5:
+        modification.serviceAlertId = asString(field);
+        break;
+      case 6:
+        modification.lastModifiedTime = asUint64(field);
+        break;
+    }
+  }
+
+  if (replacementStops.length > 0) modification.replacementStops = replacementStops;
+
+  return modification;
+}
+
+function parseSelectedTrips(data: Uint8Array): SelectedTrips {
+  const selected: SelectedTrips = { tripIds: [] };
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1: {
+        const tripId = asString(field);
+        if (tripId !== undefined) selected.tripIds.push(tripId);
+        break;
+      }
+      case 2:
+        selected.shapeId = asString(field);
+        break;
+    }
+  }
+
+  return selected;
+}
+
+function parseTripModifications(data: Uint8Array): TripModificationsData {
+  const tripModifications: TripModificationsData = {};
+  const selectedTrips: SelectedTrips[] = [];
+  const startTimes: string[] = [];
+  const serviceDates: string[] = [];
+  const modifications: Modification[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    if (!field.rawBytes) continue;
+    switch (field.fieldNumber) {
+      case 1:
+        selectedTrips.push(parseSelectedTrips(field.rawBytes));
+        break;
+      case 2:
+        startTimes.push(asString(field) ?? '');
+        break;
+      case 3:
+        serviceDates.push(asString(field) ?? '');
+        break;
+      case 4:
+        modifications.push(parseModification(field.rawBytes));
+        break;
+    }
+  }
+
+  if (selectedTrips.length > 0) tripModifications.selectedTrips = selectedTrips;
+  if (startTimes.length > 0) tripModifications.startTimes = startTimes;
+  if (serviceDates.length > 0) tripModifications.serviceDates = serviceDates;
+  if (modifications.length > 0) tripModifications.modifications = modifications;
+
+  return tripModifications;
+}
+
+function parseFeedEntity(data: Uint8Array): FeedEntity {
+  const entity: FeedEntity = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        entity.id = asString(field);
+        break;
+      case 2:
+        entity.isDeleted = asBool(field);
+        break;
+      case 3:
+        if (field.rawBytes) entity.tripUpdate = parseTripUpdate(field.rawBytes);
+        break;
+      case 4:
+        if (field.rawBytes) entity.vehicle = parseVehiclePosition(field.rawBytes);
+        break;
+      case 5:
+        if (field.rawBytes) entity.alert = parseAlert(field.rawBytes);
+        break;
+      case 6:
+        if (field.rawBytes) entity.shape = parseShape(field.rawBytes);
+        break;
+      case 7:
+        if (field.rawBytes) entity.stop = parseStop(field.rawBytes);
+        break;
+      case 8:
+        if (field.rawBytes) entity.tripModifications = parseTripModifications(field.rawBytes);
+        break;
+    }
+  }
+
+  return entity;
+}
+
+function parseFeedHeader(data: Uint8Array): FeedHeader {
+  const header: FeedHeader = {};
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        header.gtfsRealtimeVersion = asString(field);
+        break;
+      case 2:
+        header.incrementality = asEnum(field);
+        break;
+      case 3:
+        header.timestamp = asUint64(field);
+        break;
+      case 4:
+        header.feedVersion = asString(field);
+        break;
+    }
+  }
+
+  return header;
+}
+
+export function parseFeedMessage(data: Uint8Array): GtfsRealtimeFeed {
+  const feed: GtfsRealtimeFeed = {};
+  const entities: FeedEntity[] = [];
+
+  for (const field of parseProtobuf(data)) {
+    switch (field.fieldNumber) {
+      case 1:
+        if (field.rawBytes) feed.header = parseFeedHeader(field.rawBytes);
+        break;
+      case 2:
+        if (field.rawBytes) entities.push(parseFeedEntity(field.rawBytes));
+        break;
+    }
+  }
+
+  feed.entity = entities;
+  return feed;
+}
+
+// Encoder: the inverse of the parsers above, writing fields in field-number
+// order like the reference implementations
+
+function encodeTranslatedString(translations: TranslatedString[] | undefined): Uint8Array | undefined {
+  if (!translations) return undefined;
+  const writer = new ProtobufWriter();
+  for (const translation of translations) {
+    writer.message(1, new ProtobufWriter()
+      .string(1, translation.text ?? '')
+      .string(2, translation.language)
+      .finish());
+  }
+  return writer.finish();
+}
+
+function encodeTranslatedImage(images: LocalizedImage[] | undefined): Uint8Array | undefined {
+  if (!images) return undefined;
+  const writer = new ProtobufWriter();
+  for (const image of images) {
+    writer.message(1, new ProtobufWriter()
+      .string(1, image.url ?? '')
+      .string(2, image.mediaType ?? '')
+      .string(3, image.language)
+      .finish());
+  }
+  return writer.finish();
+}
+
+function encodeTripDescriptor(trip: TripDescriptor | undefined): Uint8Array | undefined {
+  if (!trip) return undefined;
+  return new ProtobufWriter()
+    .string(1, trip.tripId)
+    .string(2, trip.startTime)
+    .string(3, trip.startDate)
+    .enum(4, trip.scheduleRelationship)
+    .string(5, trip.routeId)
+    .uint32(6, trip.directionId)
+    .message(7, trip.modifiedTrip && new ProtobufWriter()
+      .string(1, trip.modifiedTrip.modificationsId)
+      .string(2, trip.modifiedTrip.affectedTripId)
+      .finish())
+    .finish();
+}
+
+function encodeVehicleDescriptor(vehicle: VehicleDescriptor | undefined): Uint8Array | undefined {
+  if (!vehicle) return undefined;
+  return new ProtobufWriter()
+    .string(1, vehicle.id)
+    .string(2, vehicle.label)
+    .string(3, vehicle.licensePlate)
+    .enum(4, vehicle.wheelchairAccessible)
+    .finish();
+}
+
+function encodePosition(position: Position | undefined): Uint8Array | undefined {
+  if (!position) return undefined;
+  return new ProtobufWriter()
+    .float(1, position.latitude ?? 0)
+    .float(2, position.longitude ?? 0)
+    .float(3, position.bearing)
+    .double(4, position.odometer)
+    .float(5, position.speed)
+    .finish();
+}
+
+function encodeVehiclePosition(vp: VehiclePosition): Uint8Array {
+  const writer = new ProtobufWriter()
+    .message(1, encodeTripDescriptor(vp.trip))
+    .message(2, encodePosition(vp.position))
+    .uint32(3, vp.currentStopSequence)
+    .enum(4, vp.currentStatus)
+    .uint64(5, vp.timestamp)
+    .enum(6, vp.congestionLevel)
+    .string(7, vp.stopId)
+    .message(8, encodeVehicleDescriptor(vp.vehicle))
+    .enum(9, vp.occupancyStatus)
+    .uint32(10, vp.occupancyPercentage);
+
+  for (const carriage of vp.multiCarriageDetails || []) {
+    writer.message(11, new ProtobufWriter()
+      .string(1, carriage.id)
+      .string(2, carriage.label)
+      .enum(3, carriage.occupancyStatus)
+      .int32(4, carriage.occupancyPercentage)
+      .uint32(5, carriage.carriageSequence)
+      .finish());
+  }
+
+  return writer.finish();
+}
+
+function encodeStopTimeEvent(event: StopTimeEvent | undefined): Uint8Array | undefined {
+  if (!event) return undefined;
+  return new ProtobufWriter()
+    .int32(1, event.delay)
+    .int64(2, event.time)
+    .int32(3, event.uncertainty)
+    .int64(4, event.scheduledTime)
+    .finish();
+}
+
+function encodeStopTimeUpdate(stu: StopTimeUpdate): Uint8Array {
+  return new ProtobufWriter()
+    .uint32(1, stu.stopSequence)
+    .message(2, encodeStopTimeEvent(stu.arrival))
+    .message(3, encodeStopTimeEvent(stu.departure))
+    .string(4, stu.stopId)
+    .enum(5, stu.scheduleRelationship)
+    .message(6, stu.stopTimeProperties && new ProtobufWriter()
+      .string(1, stu.stopTimeProperties.assignedStopId)
+      .string(2, stu.stopTimeProperties.stopHeadsign)
+      .enum(3, stu.stopTimeProperties.pickupType)
+      .enum(4, stu.stopTimeProperties.dropOffType)
+      .finish())
+    .enum(7, stu.departureOccupancyStatus)
+    .finish();
+}
+
+function encodeTripUpdate(tripUpdate: TripUpdate): Uint8Array {
+  const writer = new ProtobufWriter()
+    .message(1, encodeTripDescriptor(tripUpdate.trip ?? {}));
+
+  for (const stu of tripUpdate.stopTimeUpdate || []) {
+    writer.message(2, encodeStopTimeUpdate(stu));
+  }
+
+  const properties = tripUpdate.tripProperties;
+  return writer
+    .message(3, encodeVehicleDescriptor(tripUpdate.vehicle))
+    .uint64(4, tripUpdate.timestamp)
+    .int32(5, tripUpdate.delay)
+    .message(6, properties && new ProtobufWriter()
+      .string(1, properties.tripId)
+      .string(2, properties.startDate)
+      .string(3, properties.startTime)
+      .string(4, properties.shapeId)
+      .string(5, properties.tripHeadsign)
+      .string(6, properties.tripShortName)
+      .finish())
+    .finish();
+}
+
+function encodeEntitySelector(selector: EntitySelector): Uint8Array {
+  return new ProtobufWriter()
+    .string(1, selector.agencyId)
+    .string(2, selector.routeId)
+    .int32(3, selector.routeType)
+    .message(4, encodeTripDescriptor(selector.trip))
+    .string(5, selector.stopId)
+    .uint32(6, selector.directionId)
+    .finish();
+}
+
+function encodeAlert(alert: AlertData): Uint8Array {
+  const writer = new ProtobufWriter();
+
+  for (const period of alert.activePeriod || []) {
+    writer.message(1, new ProtobufWriter().uint64(1, period.start).uint64(2, period.end).finish());
+  }
+  for (const selector of alert.informedEntity || []) {
+    writer.message(5, encodeEntitySelector(selector));
+  }
+
+  return writer
+    .enum(6, alert.cause)
+    .enum(7, alert.effect)
+    .message(8, encodeTranslatedString(alert.url))
+    .message(10, encodeTranslatedString(alert.headerText))
+    .message(11, encodeTranslatedString(alert.descriptionText))
+    .message(12, encodeTranslatedString(alert.ttsHeaderText))
+    .message(13, encodeTranslatedString(alert.ttsDescriptionText))
+    .enum(14, alert.severityLevel)
+    .message(15, encodeTranslatedImage(alert.image))
+    .message(16, encodeTranslatedString(alert.imageAlternativeText))
+    .message(17, encodeTranslatedString(alert.causeDetail))
+    .message(18, encodeTranslatedString(alert.effectDetail))
+    .finish();
+}
+
+function encodeShape(shape: ShapeData): Uint8Array {
+  return new ProtobufWriter()
+    .string(1, shape.shapeId)
+    .string(2, shape.encodedPolyline)
+    .finish();
+}
+
+function encodeStop(stop: StopData): Uint8Array {
+  return new ProtobufWriter()
+    .string(1, stop.stopId)
+    .message(2, encodeTranslatedString(stop.stopCode))
+    .message(3, encodeTranslatedString(stop.stopName))
+    .message(4, encodeTranslatedString(stop.ttsStopName))
+    .message(5, encodeTranslatedString(stop.stopDesc))
+    .float(6, stop.stopLat)
+    .float(7, stop.stopLon)
+    .string(8, stop.zoneId)
+    .message(9, encodeTranslatedString(stop.stopUrl))
+    .string(11, stop.parentStation)
+    .string(12, stop.stopTimezone)
+    .enum(13, stop.wheelchairBoarding)
+    .string(14, stop.levelId)
+    .message(15, encodeTranslatedString(stop.platformCode))
+    .finish();
+}
+
+function encodeStopSelector(selector: StopSelector | undefined): Uint8Array | undefined {
+  if (!selector) return undefined;
+  return new ProtobufWriter()
+    .uint32(1, selector.stopSequence)
+    .string(2, selector.stopId)
+    .finish();
+}
+
+function encodeModification(modification: Modification): Uint8Array {
+  const writer = new ProtobufWriter()
+    .message(1, encodeStopSelector(modification.startStopSelector))
+    .message(2, encodeStopSelector(modification.endStopSelector))
+    .int32(3, modification.propagatedModificationDelay);
+
+  for (const replacement of modification.replacementStops || []) {
+    writer.message(4, new ProtobufWriter()
+      .int32(1, replacement.travelTimeToStop)
+      .string(2, replacement.stopId)
+      .finish());
+  }
+
+  return writer
+    .string(5, modification.serviceAlertId)
+    .uint64(6, modification.lastModifiedTime)
+    .finish();
+}
+
+function encodeTripModifications(tripModifications: TripModificationsData): Uint8Array {
+  const writer = new ProtobufWriter();
+
+  for (const selected of tripModifications.selectedTrips || []) {
+    const selectedWriter = new ProtobufWriter();
+    for (const tripId of selected.tripIds) selectedWriter.string(1, tripId);
+    writer.message(1, selectedWriter.string(2, selected.shapeId).finish());
+  }
+  for (const startTime of tripModifications.startTimes || []) writer.string(2, startTime);
+  for (const serviceDate of tripModifications.serviceDates || []) writer.string(3, serviceDate);
+  for (const modification of tripModifications.modifications || []) {
+    writer.message(4, encodeModification(modification));
+  }
+
+  return writer.finish();
+}
+
+function encodeFeedEntity(entity: FeedEntity): Uint8Array {
+  return new ProtobufWriter()
+    .string(1, entity.id ?? '')
+    .bool(2, entity.isDeleted)
+    .message(3, entity.tripUpdate && encodeTripUpdate(entity.tripUpdate))
+    .message(4, entity.vehicle && encodeVehiclePosition(entity.vehicle))
+    .message(5, entity.alert && encodeAlert(entity.alert))
+    .message(6, entity.shape && encodeShape(entity.shape))
+    .message(7, entity.stop && encodeStop(entity.stop))
+    .message(8, entity.tripModifications && encodeTripModifications(entity.tripModifications))
+    .finish();
+}
+
+export function encodeFeedMessage(feed: GtfsRealtimeFeed): Uint8Array {
+  const header = feed.header ?? {};
+  const writer = new ProtobufWriter()
+    .message(1, new ProtobufWriter()
+      .string(1, header.gtfsRealtimeVersion ?? '2.0')
+      .enum(2, header.incrementality)
+      .uint64(3, header.timestamp)
+      .string(4, header.feedVersion)
+      .finish());
+
+  for (const entity of feed.entity || []) {
+    writer.message(2, encodeFeedEntity(entity));
+  }
+
+  return writer.finish();
+}
+
+// JSON.stringify replacer: 64-bit values beyond Number.MAX_SAFE_INTEGER are
+// serialised as decimal strings, as in the proto3 JSON mapping
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
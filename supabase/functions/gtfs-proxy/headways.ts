@@ -0,0 +1,202 @@
+// Headway regularity from live vehicle positions
+// Vehicles on the same route and direction are placed along the route's
+// geometry (shapes.txt, or the stop sequence when there is none) and ordered
+// by distance travelled. The distance to the vehicle ahead, at the route's
+// scheduled running speed, is the headway; it is compared with the scheduled
+// headway to flag bunching and gaps.
+
+import { distanceMeters, toRadians } from './geo.ts';
+
+export interface RouteLine {
+  routeId: string;
+  directionId?: number;
+  // [lat, lon] points from the first stop to the last
+  points: [number, number][];
+  // Typical scheduled running time from end to end, seconds
+  runTime?: number;
+  // Scheduled time between trips around now, seconds
+  scheduledHeadway?: number;
+}
+
+export interface HeadwayVehicle {
+  vehicleId: string;
+  label?: string;
+  tripId?: string;
+  routeId: string;
+  directionId?: number;
+  latitude: number;
+  longitude: number;
+}
+
+export type HeadwayStatus = 'regular' | 'bunched' | 'gap';
+
+export interface VehicleHeadway {
+  vehicleId: string;
+  label?: string;
+  tripId?: string;
+  // Meters from the start of the route
+  distance: number;
+  // To the vehicle ahead; absent for the leading vehicle
+  gapMeters?: number;
+  headway?: number;
+  status: HeadwayStatus;
+}
+
+export interface RouteHeadways {
+  routeId: string;
+  directionId?: number;
+  scheduledHeadway?: number;
+  // Leading vehicle first
+  vehicles: VehicleHeadway[];
+  bunched: number;
+  gaps: number;
+  // Bunching outranks gaps
+  status: HeadwayStatus;
+}
+
+export interface HeadwayThresholds {
+  // Bunched below this share of the scheduled headway...
+  bunchingRatio: number;
+  // ...or below this many seconds, whichever is larger
+  minHeadway: number;
+  // A gap above this multiple of the scheduled headway
+  gapRatio: number;
+}
+
+export const DEFAULT_HEADWAY_THRESHOLDS: HeadwayThresholds = { bunchingRatio: 0.25, minHeadway: 120, gapRatio: 2 };
+// Used when the schedule gives no running time
+export const DEFAULT_RUNNING_SPEED = 15 / 3.6; // 15 km/h in m/s
+// Vehicles further than this from the route geometry are left out
+export const MAX_OFF_ROUTE_DISTANCE = 250;
+// Buses lay over together at the terminals; they are not bunching
+export const TERMINAL_BUFFER = 200;
+// Trip starts within this window around now set the scheduled headway
+export const SCHEDULED_HEADWAY_WINDOW = 60 * 60;
+
+// Distance along the line of the closest point to (lat, lon), and how far
+// off the line the position is. Segments are treated as flat.
+export function projectOntoLine(points: [number, number][], lat: number, lon: number): { distance: number; offset: number } {
+  let best = { distance: 0, offset: Infinity };
+  let travelled = 0;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [lat1, lon1] = points[i];
+    const [lat2, lon2] = points[i + 1];
+    const scale = Math.cos(toRadians(lat1));
+    const dx = (lon2 - lon1) * scale;
+    const dy = lat2 - lat1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0
+      ? Math.max(0, Math.min(1, (((lon - lon1) * scale) * dx + (lat - lat1) * dy) / lengthSquared))
+      : 0;
+    const segment = distanceMeters(lat1, lon1, lat2, lon2);
+    const offset = distanceMeters(lat, lon, lat1 + t * (lat2 - lat1), lon1 + t * (lon2 - lon1));
+    if (offset < best.offset) best = { distance: travelled + t * segment, offset };
+    travelled += segment;
+  }
+
+  return best;
+}
+
+export function lineLength(points: [number, number][]): number {
+  let length = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    length += distanceMeters(points[i][0], points[i][1], points[i + 1][0], points[i + 1][1]);
+  }
+  return length;
+}
+
+export function median(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Median interval between trip starts (Unix seconds) within the window
+// around now; undefined with fewer than two starts
+export function scheduledHeadway(starts: number[], now: number, window = SCHEDULED_HEADWAY_WINDOW): number | undefined {
+  const nearby = starts.filter((start) => Math.abs(start - now) <= window).sort((a, b) => a - b);
+  return median(nearby.slice(1).map((start, i) => start - nearby[i]).filter((interval) => interval > 0));
+}
+
+function classify(headway: number, scheduled: number | undefined, thresholds: HeadwayThresholds): HeadwayStatus {
+  const bunchingLimit = Math.max(thresholds.minHeadway, (scheduled || 0) * thresholds.bunchingRatio);
+  if (headway < bunchingLimit) return 'bunched';
+  if (scheduled && headway > scheduled * thresholds.gapRatio) return 'gap';
+  return 'regular';
+}
+
+const STATUS_RANK: Record<HeadwayStatus, number> = { bunched: 0, gap: 1, regular: 2 };
+
+const lineKey = (routeId: string, directionId?: number) => `${routeId}:${directionId ?? ''}`;
+
+export function measureHeadways(
+  lines: RouteLine[],
+  vehicles: HeadwayVehicle[],
+  thresholds: HeadwayThresholds = DEFAULT_HEADWAY_THRESHOLDS,
+): RouteHeadways[] {
+  const vehiclesByLine: Map<string, HeadwayVehicle[]> = new Map();
+  for (const vehicle of vehicles) {
+    const key = lineKey(vehicle.routeId, vehicle.directionId);
+    const lineVehicles = vehiclesByLine.get(key);
+    if (lineVehicles) {
+      lineVehicles.push(vehicle);
+    } else {
+      vehiclesByLine.set(key, [vehicle]);
+    }
+  }
+
+  const results: RouteHeadways[] = [];
+  for (const line of lines) {
+    const lineVehicles = vehiclesByLine.get(lineKey(line.routeId, line.directionId));
+    if (!lineVehicles || line.points.length < 2) continue;
+
+    const length = lineLength(line.points);
+    const speed = line.runTime ? length / line.runTime : DEFAULT_RUNNING_SPEED;
+
+    const placed = lineVehicles
+      .map((vehicle) => ({ vehicle, ...projectOntoLine(line.points, vehicle.latitude, vehicle.longitude) }))
+      .filter((entry) => entry.offset <= MAX_OFF_ROUTE_DISTANCE)
+      .filter((entry) => entry.distance >= TERMINAL_BUFFER && entry.distance <= length - TERMINAL_BUFFER)
+      .sort((a, b) => b.distance - a.distance);
+    if (placed.length === 0) continue;
+
+    const measured: VehicleHeadway[] = placed.map((entry, i) => {
+      const base = {
+        vehicleId: entry.vehicle.vehicleId,
+        label: entry.vehicle.label,
+        tripId: entry.vehicle.tripId,
+        distance: Math.round(entry.distance),
+      };
+      if (i === 0) return { ...base, status: 'regular' };
+
+      const gapMeters = placed[i - 1].distance - entry.distance;
+      const headway = gapMeters / speed;
+      return {
+        ...base,
+        gapMeters: Math.round(gapMeters),
+        headway: Math.round(headway),
+        status: classify(headway, line.scheduledHeadway, thresholds),
+      };
+    });
+
+    const bunched = measured.filter((vehicle) => vehicle.status === 'bunched').length;
+    const gaps = measured.filter((vehicle) => vehicle.status === 'gap').length;
+    results.push({
+      routeId: line.routeId,
+      directionId: line.directionId,
+      scheduledHeadway: line.scheduledHeadway,
+      vehicles: measured,
+      bunched,
+      gaps,
+      status: bunched > 0 ? 'bunched' : gaps > 0 ? 'gap' : 'regular',
+    });
+  }
+
+  return results.sort((a, b) =>
+    STATUS_RANK[a.status] - STATUS_RANK[b.status]
+    || a.routeId.localeCompare(b.routeId, undefined, { numeric: true })
+    || (a.directionId ?? 0) - (b.directionId ?? 0)
+  );
+}
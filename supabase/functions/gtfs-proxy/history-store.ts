@@ -0,0 +1,206 @@
+// Postgres storage for the realtime history
+// Talks to Postgres directly rather than through PostgREST, so the recorder
+// works against the Supabase database (SUPABASE_DB_URL) as well as any local
+// Postgres with the migrations in supabase/migrations applied.
+
+import { Pool } from 'https://deno.land/x/postgres@v0.17.0/mod.ts';
+import type { HistoryQuery, TripUpdateRow, VehiclePositionRow } from './history.ts';
+import type { OtpBucket, OtpQuery } from './otp.ts';
+
+// Column name and Postgres type, in insert order
+type ColumnTypes<T> = [keyof T & string, string][];
+
+const VEHICLE_POSITION_COLUMNS: ColumnTypes<VehiclePositionRow> = [
+  ['operator_id', 'text'],
+  ['vehicle_id', 'text'],
+  ['recorded_at', 'timestamptz'],
+  ['trip_id', 'text'],
+  ['route_id', 'text'],
+  ['direction_id', 'smallint'],
+  ['start_date', 'text'],
+  ['latitude', 'double precision'],
+  ['longitude', 'double precision'],
+  ['bearing', 'real'],
+  ['speed', 'real'],
+  ['current_stop_sequence', 'integer'],
+  ['stop_id', 'text'],
+  ['current_status', 'text'],
+  ['occupancy_status', 'text'],
+];
+
+const TRIP_UPDATE_COLUMNS: ColumnTypes<TripUpdateRow> = [
+  ['operator_id', 'text'],
+  ['trip_id', 'text'],
+  ['start_date', 'text'],
+  ['recorded_at', 'timestamptz'],
+  ['route_id', 'text'],
+  ['direction_id', 'smallint'],
+  ['vehicle_id', 'text'],
+  ['delay', 'integer'],
+  ['schedule_relationship', 'text'],
+  ['stop_time_updates', 'jsonb'],
+];
+
+// Rows are sent as one array per column and expanded with unnest, so a batch
+// of any size is a single statement. Rows already recorded are skipped.
+function insertStatement<T>(table: string, columns: ColumnTypes<T>): string {
+  const names = columns.map(([name]) => name).join(', ');
+  const arrays = columns.map(([, type], i) => `$${i + 1}::${type}[]`).join(', ');
+  return `insert into public.${table} (${names}) select * from unnest(${arrays}) on conflict do nothing`;
+}
+
+function columnArrays<T>(rows: T[], columns: ColumnTypes<T>): unknown[] {
+  return columns.map(([name, type]) =>
+    rows.map((row) => (type === 'jsonb' ? JSON.stringify(row[name]) : row[name]))
+  );
+}
+
+// Optional equality filters; a null parameter matches every row
+const HISTORY_FILTERS = `
+  recorded_at > $1 and recorded_at <= $2
+  and ($3::text is null or operator_id = $3)
+  and ($4::text is null or vehicle_id = $4)
+  and ($5::text is null or route_id = $5)
+  and ($6::text is null or trip_id = $6)`;
+
+function filterArgs(query: HistoryQuery): unknown[] {
+  return [
+    query.from,
+    query.to,
+    query.operatorId ?? null,
+    query.vehicleId ?? null,
+    query.routeId ?? null,
+    query.tripId ?? null,
+    query.limit,
+  ];
+}
+
+// Stop events with the delay last recorded for each stop of each trip, counted
+// as early, on time or late per operator, route, direction and local hour.
+// Events without a time fall in the hour they were recorded. Skipped stops
+// and events still in the future are left out.
+const OTP_STATEMENT = `
+  with stop_events as (
+    select distinct on (t.operator_id, t.trip_id, t.start_date, u->>'stop_sequence', u->>'stop_id')
+      t.operator_id,
+      t.route_id,
+      t.direction_id,
+      coalesce((u->>'arrival_delay')::integer, (u->>'departure_delay')::integer) as delay,
+      coalesce((u->>'arrival_time')::bigint, (u->>'departure_time')::bigint, extract(epoch from t.recorded_at)::bigint) as event_time
+    from public.trip_updates t
+    cross join lateral jsonb_array_elements(t.stop_time_updates) u
+    where t.recorded_at > $1 and t.recorded_at <= $2
+      and ($3::text is null or t.operator_id = $3)
+      and ($4::text is null or t.route_id = $4)
+      and coalesce(u->>'schedule_relationship', 'SCHEDULED') = 'SCHEDULED'
+    order by t.operator_id, t.trip_id, t.start_date, u->>'stop_sequence', u->>'stop_id', t.recorded_at desc
+  )
+  select
+    operator_id,
+    route_id,
+    direction_id,
+    extract(hour from to_timestamp(event_time) at time zone $7::text)::integer as hour,
+    count(*) filter (where delay < -$5::integer) as early,
+    count(*) filter (where delay between -$5::integer and $6::integer) as on_time,
+    count(*) filter (where delay > $6::integer) as late
+  from stop_events
+  where delay is not null and event_time <= extract(epoch from $2::timestamptz)
+  group by 1, 2, 3, 4`;
+
+// Postgres counts come back as bigint
+type OtpCountRow = Omit<OtpBucket, 'early' | 'on_time' | 'late'> & { early: bigint; on_time: bigint; late: bigint };
+
+export class HistoryStore {
+  private pool: Pool;
+
+  constructor(databaseUrl: string, poolSize = 2) {
+    // Lazy: connections are opened on first use
+    this.pool = new Pool(databaseUrl, poolSize, true);
+  }
+
+  async recordVehiclePositions(rows: VehiclePositionRow[]): Promise<number> {
+    if (rows.length === 0) return 0;
+    return await this.execute(
+      insertStatement('vehicle_positions', VEHICLE_POSITION_COLUMNS),
+      columnArrays(rows, VEHICLE_POSITION_COLUMNS),
+    );
+  }
+
+  async recordTripUpdates(rows: TripUpdateRow[]): Promise<number> {
+    if (rows.length === 0) return 0;
+    return await this.execute(
+      insertStatement('trip_updates', TRIP_UPDATE_COLUMNS),
+      columnArrays(rows, TRIP_UPDATE_COLUMNS),
+    );
+  }
+
+  // Deletes history older than the retention period; returns the rows removed
+  async prune(retentionDays: number): Promise<number> {
+    const rows = await this.select<{ removed: bigint }>(
+      'select public.prune_realtime_history(make_interval(days => $1)) as removed',
+      [retentionDays],
+    );
+    return Number(rows[0]?.removed ?? 0);
+  }
+
+  // Positions in the query's time range, oldest first
+  vehiclePositions(query: HistoryQuery): Promise<VehiclePositionRow[]> {
+    return this.select<VehiclePositionRow>(
+      `select * from public.vehicle_positions where ${HISTORY_FILTERS}
+       order by recorded_at, vehicle_id limit $7`,
+      filterArgs(query),
+    );
+  }
+
+  // The last position of each vehicle at or before the end of the range
+  latestVehiclePositions(query: HistoryQuery): Promise<VehiclePositionRow[]> {
+    return this.select<VehiclePositionRow>(
+      `select distinct on (operator_id, vehicle_id) * from public.vehicle_positions where ${HISTORY_FILTERS}
+       order by operator_id, vehicle_id, recorded_at desc limit $7`,
+      filterArgs(query),
+    );
+  }
+
+  // Trip updates in the query's time range, oldest first
+  tripUpdates(query: HistoryQuery): Promise<TripUpdateRow[]> {
+    return this.select<TripUpdateRow>(
+      `select * from public.trip_updates where ${HISTORY_FILTERS}
+       order by recorded_at, trip_id limit $7`,
+      filterArgs(query),
+    );
+  }
+
+  // Early, on-time and late stop event counts for on-time performance
+  async otpBuckets(query: OtpQuery, timezone: string): Promise<OtpBucket[]> {
+    const rows = await this.select<OtpCountRow>(OTP_STATEMENT, [
+      query.from,
+      query.to,
+      query.operatorId ?? null,
+      query.routeId ?? null,
+      query.thresholds.early,
+      query.thresholds.late,
+      timezone,
+    ]);
+    return rows.map((row) => ({ ...row, early: Number(row.early), on_time: Number(row.on_time), late: Number(row.late) }));
+  }
+
+  private async execute(text: string, args: unknown[]): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.queryObject({ text, args });
+      return result.rowCount ?? 0;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async select<T>(text: string, args: unknown[]): Promise<T[]> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.queryObject<T>({ text, args });
+      return result.rows;
+    } finally {
+      client.release();
+    }
+  }
+}
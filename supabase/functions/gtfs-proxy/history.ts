@@ -0,0 +1,234 @@
+// Realtime history: rows recorded into the vehicle_positions and trip_updates
+// tables (supabase/migrations), and the query parameters of the /history
+// endpoints. Database access lives in history-store.ts.
+
+import {
+  enumName,
+  type GtfsRealtimeFeed,
+  OCCUPANCY_STATUS,
+  STOP_SCHEDULE_RELATIONSHIP,
+  TRIP_SCHEDULE_RELATIONSHIP,
+  VEHICLE_STOP_STATUS,
+} from './gtfs-realtime.ts';
+import {
+  getServiceDate,
+  getServiceDayStart,
+  interpolateStopTimes,
+  type ScheduleData,
+  type StopTimeSeconds,
+} from './schedule.ts';
+
+export interface VehiclePositionRow {
+  operator_id: string;
+  vehicle_id: string;
+  recorded_at: string;
+  trip_id: string | null;
+  route_id: string | null;
+  direction_id: number | null;
+  start_date: string | null;
+  latitude: number;
+  longitude: number;
+  bearing: number | null;
+  speed: number | null;
+  current_stop_sequence: number | null;
+  stop_id: string | null;
+  current_status: string | null;
+  occupancy_status: string | null;
+}
+
+// Delays the feed leaves out are worked out from the time and the schedule
+export interface StopTimeUpdateRecord {
+  stop_sequence?: number;
+  stop_id?: string;
+  arrival_delay?: number;
+  arrival_time?: number;
+  departure_delay?: number;
+  departure_time?: number;
+  schedule_relationship?: string;
+}
+
+export interface TripUpdateRow {
+  operator_id: string;
+  trip_id: string;
+  // '' when the feed does not name the service day; part of the primary key
+  start_date: string;
+  recorded_at: string;
+  route_id: string | null;
+  direction_id: number | null;
+  vehicle_id: string | null;
+  delay: number | null;
+  schedule_relationship: string | null;
+  stop_time_updates: StopTimeUpdateRecord[];
+}
+
+export interface HistoryQuery {
+  operatorId?: string;
+  vehicleId?: string;
+  routeId?: string;
+  tripId?: string;
+  from: Date;
+  to: Date;
+  limit: number;
+}
+
+export const DEFAULT_HISTORY_RANGE = 60 * 60 * 1000; // 1 hour
+export const MAX_HISTORY_RANGE = 24 * 60 * 60 * 1000; // 24 hours
+export const DEFAULT_HISTORY_LIMIT = 1000;
+export const MAX_HISTORY_LIMIT = 10000;
+// How far back `at` queries look for a vehicle's last position
+export const POSITION_AT_LOOKBACK = 10 * 60 * 1000; // 10 minutes
+
+// Entity timestamp, falling back to the feed header and then the download time
+function recordedAt(timestamp: number | bigint | undefined, feed: GtfsRealtimeFeed, fetchedAt: number): string {
+  const seconds = Number(timestamp || feed.header?.timestamp || 0);
+  return new Date(seconds > 0 ? seconds * 1000 : fetchedAt).toISOString();
+}
+
+export function vehiclePositionRows(operatorId: string, feed: GtfsRealtimeFeed, fetchedAt: number): VehiclePositionRow[] {
+  const rows: VehiclePositionRow[] = [];
+
+  for (const entity of feed.entity || []) {
+    const vehicle = entity.vehicle;
+    const position = vehicle?.position;
+    if (entity.isDeleted || !vehicle || !position) continue;
+
+    const { latitude, longitude } = position;
+    // Skip missing or null island fixes; they only pollute the history
+    if (latitude === undefined || longitude === undefined || (latitude === 0 && longitude === 0)) continue;
+
+    rows.push({
+      operator_id: operatorId,
+      vehicle_id: vehicle.vehicle?.id || entity.id || '',
+      recorded_at: recordedAt(vehicle.timestamp, feed, fetchedAt),
+      trip_id: vehicle.trip?.tripId || null,
+      route_id: vehicle.trip?.routeId || null,
+      direction_id: vehicle.trip?.directionId ?? null,
+      start_date: vehicle.trip?.startDate || null,
+      latitude,
+      longitude,
+      bearing: position.bearing ?? null,
+      speed: position.speed ?? null,
+      current_stop_sequence: vehicle.currentStopSequence ?? null,
+      stop_id: vehicle.stopId || null,
+      current_status: enumName(VEHICLE_STOP_STATUS, vehicle.currentStatus) || null,
+      occupancy_status: enumName(OCCUPANCY_STATUS, vehicle.occupancyStatus) || null,
+    });
+  }
+
+  return rows.filter((row) => row.vehicle_id);
+}
+
+// Delay of a stop event given only as a time, against the stop's scheduled
+// time. Without a start date, on whichever service day puts it closest.
+function scheduledDelay(time: number | undefined, seconds: number | undefined, startDate: string): number | undefined {
+  if (time === undefined || seconds === undefined) return undefined;
+  const serviceDates = startDate
+    ? [startDate]
+    : [getServiceDate(new Date((time - 24 * 3600) * 1000)), getServiceDate(new Date(time * 1000))];
+  return serviceDates
+    .map((serviceDate) => time - (getServiceDayStart(serviceDate) + seconds))
+    .reduce((closest, delay) => (Math.abs(delay) < Math.abs(closest) ? delay : closest));
+}
+
+export function tripUpdateRows(
+  operatorId: string,
+  feed: GtfsRealtimeFeed,
+  fetchedAt: number,
+  schedule?: ScheduleData | null
+): TripUpdateRow[] {
+  const rows: TripUpdateRow[] = [];
+
+  for (const entity of feed.entity || []) {
+    const tripUpdate = entity.tripUpdate;
+    const trip = tripUpdate?.trip;
+    if (entity.isDeleted || !tripUpdate || !trip?.tripId) continue;
+
+    const stopTimes = schedule?.stopTimesByTrip.get(trip.tripId) || [];
+    const times = interpolateStopTimes(stopTimes);
+    const scheduledTimes = (sequence?: number, stopId?: string): StopTimeSeconds | undefined =>
+      times[sequence !== undefined
+        ? stopTimes.findIndex((st) => st.stop_sequence === sequence)
+        : stopTimes.findIndex((st) => st.stop_id === stopId)];
+
+    rows.push({
+      operator_id: operatorId,
+      trip_id: trip.tripId,
+      start_date: trip.startDate || '',
+      recorded_at: recordedAt(tripUpdate.timestamp, feed, fetchedAt),
+      route_id: trip.routeId || null,
+      direction_id: trip.directionId ?? null,
+      vehicle_id: tripUpdate.vehicle?.id || null,
+      delay: tripUpdate.delay ?? null,
+      schedule_relationship: enumName(TRIP_SCHEDULE_RELATIONSHIP, trip.scheduleRelationship) || null,
+      stop_time_updates: (tripUpdate.stopTimeUpdate || []).map((update) => {
+        const arrivalTime = update.arrival?.time !== undefined ? Number(update.arrival.time) : undefined;
+        const departureTime = update.departure?.time !== undefined ? Number(update.departure.time) : undefined;
+        const scheduled = scheduledTimes(update.stopSequence, update.stopId);
+        return {
+          stop_sequence: update.stopSequence,
+          stop_id: update.stopId,
+          arrival_delay: update.arrival?.delay ?? scheduledDelay(arrivalTime, scheduled?.arrival, trip.startDate || ''),
+          arrival_time: arrivalTime,
+          departure_delay: update.departure?.delay ?? scheduledDelay(departureTime, scheduled?.departure, trip.startDate || ''),
+          departure_time: departureTime,
+          schedule_relationship: enumName(STOP_SCHEDULE_RELATIONSHIP, update.scheduleRelationship),
+        };
+      }),
+    });
+  }
+
+  return rows;
+}
+
+// ISO 8601 date-times or Unix seconds
+export function parseTimeParam(value: string): Date | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// History query from the operator, vehicle, route, trip, from/to, at and limit
+// parameters. `at` selects the POSITION_AT_LOOKBACK window before it.
+export function parseHistoryQuery(params: URLSearchParams, now = Date.now()): { query?: HistoryQuery; error?: string } {
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_HISTORY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return { error: `limit must be between 1 and ${MAX_HISTORY_LIMIT}` };
+  }
+
+  const times: Record<string, Date | undefined> = {};
+  for (const name of ['from', 'to', 'at']) {
+    const value = params.get(name);
+    if (!value) continue;
+    const time = parseTimeParam(value);
+    if (!time) return { error: `${name} must be an ISO 8601 time or Unix seconds` };
+    times[name] = time;
+  }
+
+  let from: Date;
+  let to: Date;
+  if (times.at) {
+    if (times.from || times.to) return { error: 'at cannot be combined with from or to' };
+    to = times.at;
+    from = new Date(to.getTime() - POSITION_AT_LOOKBACK);
+  } else {
+    to = times.to || new Date(now);
+    from = times.from || new Date(to.getTime() - DEFAULT_HISTORY_RANGE);
+  }
+  if (from > to) return { error: 'from must be before to' };
+  if (to.getTime() - from.getTime() > MAX_HISTORY_RANGE) {
+    return { error: `The time range cannot exceed ${MAX_HISTORY_RANGE / 3600000} hours` };
+  }
+
+  const operator = params.get('operator');
+  return {
+    query: {
+      operatorId: operator && operator !== 'all' ? operator : undefined,
+      vehicleId: params.get('vehicle') || undefined,
+      routeId: params.get('route') || undefined,
+      tripId: params.get('trip') || undefined,
+      from,
+      to,
+      limit,
+    },
+  };
+}
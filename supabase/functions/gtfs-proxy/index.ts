@@ -1,656 +1,538 @@
+import { timingSafeEqual } from "https://deno.land/std@0.168.0/crypto/timing_safe_equal.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { ApiKeyStore } from './api-key-store.ts';
+import { type ApiKeyDecision, ApiKeyGate, type ApiKeyMode, parseApiKeyMode } from './api-keys.ts';
+import { readCsv } from './csv.ts';
+import {
+  DEFAULT_REFRESH_POLICY,
+  type FeedDefinition,
+  type FeedRegistry,
+  mergeFeeds,
+  parseFeedRegistry,
+  realtimeSourcesFor,
+} from './feed-registry.ts';
+import { buildStopDepartures, type StopDeparture } from './departures.ts';
+import { filterFeed, type FeedFilter, hasSpatialFilter, parseFeedFilter } from './feed-filter.ts';
+import { FeedState } from './feed-state.ts';
+import {
+  ALERT_CAUSE,
+  ALERT_EFFECT,
+  ALERT_SEVERITY_LEVEL,
+  type AlertData,
+  bigintReplacer,
+  CONGESTION_LEVEL,
+  encodeFeedMessage,
+  enumName,
+  type GtfsRealtimeFeed,
+  OCCUPANCY_STATUS,
+  parseFeedMessage,
+  PICKUP_DROP_OFF_TYPE,
+  STOP_SCHEDULE_RELATIONSHIP,
+  TRIP_SCHEDULE_RELATIONSHIP,
+  VEHICLE_STOP_STATUS,
+  type VehiclePosition,
+  WHEELCHAIR_ACCESSIBLE,
+} from './gtfs-realtime.ts';
+import {
+  type HeadwayVehicle,
+  measureHeadways,
+  median,
+  type RouteHeadways,
+  type RouteLine,
+  scheduledHeadway,
+} from './headways.ts';
+import { parseHistoryQuery, tripUpdateRows, vehiclePositionRows } from './history.ts';
+import { HistoryStore } from './history-store.ts';
+import { MetricsRegistry } from './metrics.ts';
+import { feedValidity, type FeedValidityInfo, type OperatorMetadata, readOperatorMetadata } from './operators.ts';
+import { parseOtpQuery, summarizeOtp } from './otp.ts';
+import { isEmptyChange, SnapshotTracker } from './realtime-diff.ts';
+import { type StaticContext, validateRealtimeFeed, type ValidationNotice } from './realtime-validator.ts';
+import {
+  compareDepartureTimes,
+  getActiveServiceIds,
+  getServiceDate,
+  getServiceDayStart,
+  parseSchedule,
+  type ScheduleData,
+  type ScheduledStopTime,
+  type ScheduledTrip,
+  SERVICE_TIMEZONE,
+  timeToSeconds,
+} from './schedule.ts';
+import { buildRouteShapes, directionGeometry, groupTripsByDirection, type RouteShape } from './shapes.ts';
+import { type StaticValidationNotice, validateStaticFeed } from './static-validator.ts';
+import { getPreferredLanguages, groupAlertTranslations, selectTranslation } from './translations.ts';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  type CircuitState,
+  HttpStatusError,
+  isRetryable,
+  parseUpstreamOptions,
+  settleAll,
+  type UpstreamSourceOptions,
+  withRetry,
+} from './upstream.ts';
+import {
+  DEFAULT_FRESHNESS_THRESHOLDS,
+  type FreshnessThresholds,
+  parseFreshnessOverrides,
+  VehicleFreshnessTracker,
+} from './vehicle-freshness.ts';
+import { findZipEntries, openZipEntry } from './zip.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-api-key',
+  'Access-Control-Expose-Headers': 'Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining',
 };
 
-const GTFS_RT_BASE_URL = "http://20.19.98.194:8328/Api/api/gtfs-realtime";
+// Feeds served by the proxy (feed-registry.ts). The FEED_REGISTRY environment
+// variable replaces this default with a JSON document of the same shape.
+const MOTION_REALTIME_URL = 'http://20.19.98.194:8328/Api/api/gtfs-realtime';
+const MOTION_STATIC_URL = 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C';
 
-// GTFS-Realtime Protocol Buffer Parser
-// Based on the GTFS-RT specification: https://gtfs.org/realtime/reference/
+const DEFAULT_FEED_REGISTRY = {
+  // Motion publishes every operator in one feed, too
+  combined: { realtime: MOTION_REALTIME_URL },
+  feeds: [
+    {
+      id: '2', name: 'OSYPA', city: 'Πάφος',
+      realtime: `${MOTION_REALTIME_URL}/2`,
+      static: `${MOTION_STATIC_URL}2_google_transit.zip&rel=True`,
+    },
+    {
+      id: '4', name: 'OSEA', city: 'Αμμόχωστος',
+      realtime: `${MOTION_REALTIME_URL}/4`,
+      static: `${MOTION_STATIC_URL}4_google_transit.zip&rel=True`,
+    },
+    {
+      id: '5', name: 'Υπεραστικά',
+      realtime: `${MOTION_REALTIME_URL}/5`,
+      static: `${MOTION_STATIC_URL}5_google_transit.zip&rel=True`,
+    },
+    {
+      id: '6', name: 'EMEL', city: 'Λεμεσός',
+      realtime: `${MOTION_REALTIME_URL}/6`,
+      static: `${MOTION_STATIC_URL}6_google_transit.zip&rel=True`,
+    },
+    {
+      id: '9', name: 'NPT', city: 'Λευκωσία',
+      realtime: `${MOTION_REALTIME_URL}/9`,
+      static: `${MOTION_STATIC_URL}9_google_transit.zip&rel=True`,
+    },
+    {
+      id: '10', name: 'LPT', city: 'Λάρνακα',
+      realtime: `${MOTION_REALTIME_URL}/10`,
+      static: `${MOTION_STATIC_URL}10_google_transit.zip&rel=True`,
+    },
+    {
+      id: '11', name: 'PAME EXPRESS',
+      realtime: `${MOTION_REALTIME_URL}/11`,
+      static: `${MOTION_STATIC_URL}11_google_transit.zip&rel=True`,
+    },
+  ],
+};
 
-function readVarint(data: Uint8Array, offset: number): { value: number; bytesRead: number } {
-  let result = 0;
-  let shift = 0;
-  let bytesRead = 0;
-  
-  while (offset + bytesRead < data.length) {
-    const byte = data[offset + bytesRead];
-    result |= (byte & 0x7F) << shift;
-    bytesRead++;
-    if ((byte & 0x80) === 0) break;
-    shift += 7;
+let feedRegistry: FeedRegistry | null = null;
+
+function getFeedRegistry(): FeedRegistry {
+  if (feedRegistry) return feedRegistry;
+  const env = (name: string) => Deno.env.get(name);
+  const json = Deno.env.get('FEED_REGISTRY');
+  try {
+    feedRegistry = parseFeedRegistry(json ? JSON.parse(json) : DEFAULT_FEED_REGISTRY, env);
+  } catch (error) {
+    console.error('Ignoring FEED_REGISTRY:', error instanceof Error ? error.message : error);
+    feedRegistry = parseFeedRegistry(DEFAULT_FEED_REGISTRY, env);
   }
-  
-  return { value: result, bytesRead };
+  return feedRegistry;
 }
 
-function readFixed64(data: Uint8Array, offset: number): number {
-  const view = new DataView(data.buffer, data.byteOffset + offset, 8);
-  return view.getFloat64(0, true);
+function feedIds(): string[] {
+  return getFeedRegistry().feeds.map((feed) => feed.id);
 }
 
-function readFixed32(data: Uint8Array, offset: number): number {
-  const view = new DataView(data.buffer, data.byteOffset + offset, 4);
-  return view.getFloat32(0, true);
+function getFeed(opId: string): FeedDefinition | undefined {
+  return getFeedRegistry().feeds.find((feed) => feed.id === opId);
 }
 
-function readString(data: Uint8Array, offset: number, length: number): string {
-  const decoder = new TextDecoder();
-  return decoder.decode(data.slice(offset, offset + length));
+// How long static data of an operator is cached, milliseconds
+function staticCacheTtl(opId: string): number {
+  return (getFeed(opId)?.refresh.static ?? DEFAULT_REFRESH_POLICY.static) * 1000;
 }
 
-interface ParsedField {
-  fieldNumber: number;
-  wireType: number;
-  value: unknown;
-  rawBytes?: Uint8Array;
-}
+// Upstream health (/health) and Prometheus metrics (/metrics). Every download
+// from the realtime server and the static GTFS host is recorded here.
+const STARTED_AT = Date.now();
+const metrics = new MetricsRegistry();
+const upstreamRequests = metrics.counter('gtfs_upstream_requests_total', 'Upstream downloads by source, operator and outcome');
+const upstreamDuration = metrics.histogram('gtfs_upstream_request_duration_seconds', 'Upstream download time in seconds');
+const upstreamBytes = metrics.counter('gtfs_upstream_response_bytes_total', 'Bytes downloaded from upstream');
+const upstreamLastSuccess = metrics.gauge('gtfs_upstream_last_success_timestamp_seconds', 'Unix time of the last successful download');
+const realtimeParseErrors = metrics.counter('gtfs_realtime_parse_errors_total', 'Realtime feeds that could not be decoded');
+const realtimeEntities = metrics.gauge('gtfs_realtime_entities', 'Entities in the realtime state by feed and type');
+const realtimeCacheAge = metrics.gauge('gtfs_realtime_cache_age_seconds', 'Age of the last good realtime feed');
+const staticCacheAge = metrics.gauge('gtfs_static_cache_age_seconds', 'Age of the cached static GTFS data by operator and kind');
+const proxyRequests = metrics.counter('gtfs_proxy_requests_total', 'Proxy requests by endpoint and status');
+const proxyDuration = metrics.histogram('gtfs_proxy_request_duration_seconds', 'Proxy response time in seconds by endpoint');
+const proxyUptime = metrics.gauge('gtfs_proxy_uptime_seconds', 'Seconds since this instance started');
+const upstreamCircuitOpen = metrics.gauge('gtfs_upstream_circuit_open', 'Whether the circuit breaker of any upstream URL of the operator is open');
+const apiKeyRequests = metrics.counter('gtfs_api_key_requests_total', 'Requests by outcome of the API key check');
 
-function parseProtobuf(data: Uint8Array): ParsedField[] {
-  const fields: ParsedField[] = [];
-  let offset = 0;
-  
-  while (offset < data.length) {
-    const { value: tag, bytesRead: tagBytes } = readVarint(data, offset);
-    offset += tagBytes;
-    
-    const fieldNumber = tag >> 3;
-    const wireType = tag & 0x7;
-    
-    let value: unknown;
-    let rawBytes: Uint8Array | undefined;
-    
-    switch (wireType) {
-      case 0: { // Varint
-        const { value: v, bytesRead } = readVarint(data, offset);
-        value = v;
-        offset += bytesRead;
-        break;
-      }
-      case 1: { // 64-bit
-        value = readFixed64(data, offset);
-        offset += 8;
-        break;
-      }
-      case 2: { // Length-delimited
-        const { value: length, bytesRead } = readVarint(data, offset);
-        offset += bytesRead;
-        rawBytes = data.slice(offset, offset + length);
-        value = rawBytes;
-        offset += length;
-        break;
-      }
-      case 5: { // 32-bit
-        value = readFixed32(data, offset);
-        offset += 4;
-        break;
-      }
-      default:
-        console.log(`Unknown wire type: ${wireType} at offset ${offset}`);
-        return fields;
-    }
-    
-    fields.push({ fieldNumber, wireType, value, rawBytes });
-  }
-  
-  return fields;
-}
+type UpstreamSource = 'realtime' | 'static';
+type UpstreamOutcome = 'success' | 'http_error' | 'timeout' | 'network_error' | 'parse_error';
 
-interface TranslatedString {
-  text?: string;
-  language?: string;
+interface UpstreamStatus {
+  source: UpstreamSource;
+  // Operator, or 'all' for the combined realtime feed
+  operatorId: string;
+  attempts: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastAttemptAt: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  lastOutcome: UpstreamOutcome;
+  latencyMs: number;
+  bytes?: number;
 }
 
-function parseTranslatedString(data: Uint8Array): TranslatedString[] {
-  const fields = parseProtobuf(data);
-  const translations: TranslatedString[] = [];
-  
-  for (const field of fields) {
-    if (field.fieldNumber === 1 && field.rawBytes) {
-      const transFields = parseProtobuf(field.rawBytes);
-      const translation: TranslatedString = {};
-      for (const tf of transFields) {
-        if (tf.fieldNumber === 1 && tf.rawBytes) {
-          translation.text = readString(tf.rawBytes, 0, tf.rawBytes.length);
-        }
-        if (tf.fieldNumber === 2 && tf.rawBytes) {
-          translation.language = readString(tf.rawBytes, 0, tf.rawBytes.length);
-        }
-      }
-      translations.push(translation);
-    }
-  }
-  
-  return translations;
-}
+const upstreamStatus: Map<string, UpstreamStatus> = new Map();
 
-function parseTripDescriptor(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const trip: Record<string, unknown> = {};
-  
-  // GTFS-RT TripDescriptor field numbers:
-  // 1: trip_id
-  // 2: start_time (e.g., "23:10:00")
-  // 3: start_date (e.g., "20251225")
-  // 4: schedule_relationship
-  // 5: route_id (e.g., "58")
-  // 6: direction_id
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) trip.tripId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 2:
-        if (field.rawBytes) trip.startTime = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 3:
-        if (field.rawBytes) trip.startDate = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 4:
-        trip.scheduleRelationship = field.value;
-        break;
-      case 5:
-        if (field.rawBytes) trip.routeId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 6:
-        trip.directionId = field.value;
-        break;
-    }
-  }
-  
-  return trip;
+function upstreamOutcome(error: unknown): UpstreamOutcome {
+  if (error instanceof Error && error.name === 'AbortError') return 'timeout';
+  if (error instanceof HttpStatusError) return 'http_error';
+  return 'network_error';
 }
 
-function parseVehicleDescriptor(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const vehicle: Record<string, unknown> = {};
+function recordUpstream(
+  source: UpstreamSource,
+  operatorId: string,
+  outcome: UpstreamOutcome,
+  startedAt: number,
+  detail: { bytes?: number; error?: unknown } = {}
+) {
+  const now = Date.now();
+  const latencyMs = Math.round(performance.now() - startedAt);
+  const labels = { source, operator: operatorId };
   
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) vehicle.id = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 2:
-        if (field.rawBytes) vehicle.label = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 3:
-        if (field.rawBytes) vehicle.licensePlate = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-    }
-  }
+  upstreamRequests.inc({ ...labels, outcome });
+  upstreamDuration.observe(labels, latencyMs / 1000);
+  if (detail.bytes !== undefined) upstreamBytes.inc(labels, detail.bytes);
+  if (outcome === 'success') upstreamLastSuccess.set(labels, Math.floor(now / 1000));
   
-  return vehicle;
+  const key = `${source}:${operatorId}`;
+  const previous = upstreamStatus.get(key);
+  const failed = outcome !== 'success';
+  upstreamStatus.set(key, {
+    source,
+    operatorId,
+    attempts: (previous?.attempts || 0) + 1,
+    failures: (previous?.failures || 0) + (failed ? 1 : 0),
+    consecutiveFailures: failed ? (previous?.consecutiveFailures || 0) + 1 : 0,
+    lastAttemptAt: now,
+    lastSuccessAt: failed ? previous?.lastSuccessAt : now,
+    lastFailureAt: failed ? now : previous?.lastFailureAt,
+    lastError: failed
+      ? (detail.error instanceof Error ? detail.error.message : String(detail.error ?? outcome))
+      : previous?.lastError,
+    lastOutcome: outcome,
+    latencyMs,
+    bytes: detail.bytes ?? previous?.bytes,
+  });
 }
 
-function parsePosition(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const position: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        position.latitude = field.value;
-        break;
-      case 2:
-        position.longitude = field.value;
-        break;
-      case 3:
-        position.bearing = field.value;
-        break;
-      case 4:
-        position.odometer = field.value;
-        break;
-      case 5:
-        position.speed = field.value;
-        break;
-    }
-  }
-  
-  return position;
-}
+// Timeouts, retries and circuit breaker thresholds, per source
+let upstreamOptions: UpstreamSourceOptions | null = null;
 
-function parseStopTimeEvent(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const event: Record<string, number | undefined> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1: {
-        let delay = field.value as number;
-        // Handle signed varint for delay
-        if (delay > 0x7FFFFFFF) {
-          delay = delay - 0x100000000;
-        }
-        event.delay = delay;
-        break;
-      }
-      case 2:
-        event.time = field.value as number;
-        break;
-      case 3:
-        event.uncertainty = field.value as number;
-        break;
-    }
-  }
-  
-  return event;
+// One breaker per upstream URL, so one failing URL does not stop the
+// operator's other URLs
+interface UpstreamCircuit {
+  source: UpstreamSource;
+  operatorId: string;
+  breaker: CircuitBreaker;
 }
+const circuitBreakers: Map<string, UpstreamCircuit> = new Map();
 
-function parseStopTimeUpdate(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const stu: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        stu.stopSequence = field.value;
-        break;
-      case 2:
-        if (field.rawBytes) stu.arrival = parseStopTimeEvent(field.rawBytes);
-        break;
-      case 3:
-        if (field.rawBytes) stu.departure = parseStopTimeEvent(field.rawBytes);
-        break;
-      case 4:
-        if (field.rawBytes) stu.stopId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 5:
-        stu.scheduleRelationship = field.value;
-        break;
-    }
-  }
-  
-  return stu;
+function getUpstreamOptions(): UpstreamSourceOptions {
+  if (!upstreamOptions) upstreamOptions = parseUpstreamOptions(Deno.env.get('UPSTREAM_OPTIONS'));
+  return upstreamOptions;
 }
 
-function parseTripUpdate(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const tripUpdate: Record<string, unknown> = {};
-  const stopTimeUpdates: Record<string, unknown>[] = [];
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) tripUpdate.trip = parseTripDescriptor(field.rawBytes);
-        break;
-      case 2:
-        if (field.rawBytes) stopTimeUpdates.push(parseStopTimeUpdate(field.rawBytes));
-        break;
-      case 3:
-        if (field.rawBytes) tripUpdate.vehicle = parseVehicleDescriptor(field.rawBytes);
-        break;
-      case 4:
-        tripUpdate.timestamp = field.value;
-        break;
-      case 5:
-        tripUpdate.delay = field.value;
-        break;
-    }
+function getCircuitBreaker(source: UpstreamSource, operatorId: string, url: string): CircuitBreaker {
+  let circuit = circuitBreakers.get(url);
+  if (!circuit) {
+    const { failureThreshold, cooldown } = getUpstreamOptions()[source];
+    circuit = { source, operatorId, breaker: new CircuitBreaker(failureThreshold, cooldown) };
+    circuitBreakers.set(url, circuit);
   }
-  
-  if (stopTimeUpdates.length > 0) {
-    tripUpdate.stopTimeUpdate = stopTimeUpdates;
-  }
-  
-  return tripUpdate;
+  return circuit.breaker;
 }
 
-function parseVehiclePosition(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const vp: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) vp.trip = parseTripDescriptor(field.rawBytes);
-        break;
-      case 2:
-        if (field.rawBytes) vp.position = parsePosition(field.rawBytes);
-        break;
-      case 3:
-        vp.currentStopSequence = field.value;
-        break;
-      case 4:
-        vp.currentStatus = field.value;
-        break;
-      case 5:
-        vp.timestamp = field.value;
-        break;
-      case 6:
-        vp.congestionLevel = field.value;
-        break;
-      case 7:
-        if (field.rawBytes) vp.stopId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 8:
-        if (field.rawBytes) vp.vehicle = parseVehicleDescriptor(field.rawBytes);
-        break;
-    }
-  }
-  
-  return vp;
-}
+const CIRCUIT_SEVERITY: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
 
-function parseActivePeriod(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const period: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        period.start = field.value;
-        break;
-      case 2:
-        period.end = field.value;
-        break;
-    }
+// The worst state among the breakers of an operator's URLs
+function circuitState(source: UpstreamSource, operatorId: string, now = Date.now()): CircuitState {
+  let state: CircuitState = 'closed';
+  for (const circuit of circuitBreakers.values()) {
+    if (circuit.source !== source || circuit.operatorId !== operatorId) continue;
+    const current = circuit.breaker.state(now);
+    if (CIRCUIT_SEVERITY[current] > CIRCUIT_SEVERITY[state]) state = current;
   }
-  
-  return period;
+  return state;
 }
 
-function parseEntitySelector(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const selector: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) selector.agencyId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 2:
-        if (field.rawBytes) selector.routeId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 3:
-        selector.routeType = field.value;
-        break;
-      case 4:
-        if (field.rawBytes) selector.trip = parseTripDescriptor(field.rawBytes);
-        break;
-      case 5:
-        if (field.rawBytes) selector.stopId = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-    }
+// Downloads from an upstream endpoint with retries, behind the endpoint's
+// circuit breaker. `decode` runs inside each attempt so that a body that
+// cannot be decoded is recorded as a parse error; those are not retried.
+async function fetchUpstream<T>(
+  source: UpstreamSource,
+  operatorId: string,
+  url: string,
+  decode: (data: Uint8Array) => T,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const breaker = getCircuitBreaker(source, operatorId, url);
+  if (!breaker.allowRequest()) {
+    throw new CircuitOpenError(url, breaker.retryAt()!);
   }
   
-  return selector;
-}
-
-function parseAlert(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const alert: Record<string, unknown> = {};
-  const activePeriods: Record<string, unknown>[] = [];
-  const informedEntities: Record<string, unknown>[] = [];
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) activePeriods.push(parseActivePeriod(field.rawBytes));
-        break;
-      case 5:
-        if (field.rawBytes) informedEntities.push(parseEntitySelector(field.rawBytes));
-        break;
-      case 6:
-        alert.cause = field.value;
-        break;
-      case 7:
-        alert.effect = field.value;
-        break;
-      case 8:
-        if (field.rawBytes) alert.url = parseTranslatedString(field.rawBytes);
-        break;
-      case 10:
-        if (field.rawBytes) alert.headerText = parseTranslatedString(field.rawBytes);
-        break;
-      case 11:
-        if (field.rawBytes) alert.descriptionText = parseTranslatedString(field.rawBytes);
-        break;
-      case 14:
-        alert.severityLevel = field.value;
-        break;
-    }
+  let parsing = false;
+  try {
+    const result = await withRetry(async (signal, attempt) => {
+      const startedAt = performance.now();
+      parsing = false;
+      try {
+        if (attempt > 0) console.log(`Retrying ${url} (attempt ${attempt + 1})`);
+        const response = await fetch(url, {
+          signal,
+          headers: {
+            'Accept': '*/*',
+            ...headers,
+          },
+        });
+        if (!response.ok) {
+          throw new HttpStatusError(response.status);
+        }
+        
+        const data = new Uint8Array(await response.arrayBuffer());
+        parsing = true;
+        const decoded = decode(data);
+        recordUpstream(source, operatorId, 'success', startedAt, { bytes: data.length });
+        return decoded;
+      } catch (error) {
+        if (parsing && source === 'realtime') realtimeParseErrors.inc({ feed: operatorId });
+        recordUpstream(source, operatorId, parsing ? 'parse_error' : upstreamOutcome(error), startedAt, { error });
+        throw error;
+      }
+    }, getUpstreamOptions()[source], { retryable: (error) => !parsing && isRetryable(error) });
+    breaker.recordSuccess();
+    return result;
+  } catch (error) {
+    breaker.recordFailure();
+    throw error;
   }
-  
-  if (activePeriods.length > 0) alert.activePeriod = activePeriods;
-  if (informedEntities.length > 0) alert.informedEntity = informedEntities;
-  
-  return alert;
 }
 
-function parseFeedEntity(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const entity: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) entity.id = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 2:
-        entity.isDeleted = field.value === 1;
-        break;
-      case 3:
-        if (field.rawBytes) entity.tripUpdate = parseTripUpdate(field.rawBytes);
-        break;
-      case 4:
-        if (field.rawBytes) entity.vehicle = parseVehiclePosition(field.rawBytes);
-        break;
-      case 5:
-        if (field.rawBytes) entity.alert = parseAlert(field.rawBytes);
-        break;
-    }
-  }
-  
-  return entity;
-}
+// State of each part of a split feed, by URL
+const realtimePartStates: Map<string, FeedState> = new Map();
 
-function parseFeedHeader(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const header: Record<string, unknown> = {};
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) header.gtfsRealtimeVersion = readString(field.rawBytes, 0, field.rawBytes.length);
-        break;
-      case 2:
-        header.incrementality = field.value;
-        break;
-      case 3:
-        header.timestamp = field.value;
-        break;
-    }
+// A part as a full dataset: DIFFERENTIAL parts update only their own entities
+function fullPart(url: string, part: GtfsRealtimeFeed): GtfsRealtimeFeed {
+  let state = realtimePartStates.get(url);
+  if (!state) {
+    state = new FeedState();
+    realtimePartStates.set(url, state);
   }
-  
-  return header;
+  state.apply(part);
+  return state.toFeed();
 }
 
-function parseFeedMessage(data: Uint8Array): Record<string, unknown> {
-  const fields = parseProtobuf(data);
-  const feed: Record<string, unknown> = {};
-  const entities: Record<string, unknown>[] = [];
-  
-  for (const field of fields) {
-    switch (field.fieldNumber) {
-      case 1:
-        if (field.rawBytes) feed.header = parseFeedHeader(field.rawBytes);
-        break;
-      case 2:
-        if (field.rawBytes) entities.push(parseFeedEntity(field.rawBytes));
-        break;
-    }
+// Downloads an operator's realtime feed, or the feed for 'all', from the URLs
+// in the registry. Split feeds are downloaded concurrently and merged.
+async function fetchGtfsData(operatorId?: string): Promise<GtfsRealtimeFeed> {
+  const feedKey = operatorId && operatorId !== 'all' ? operatorId : 'all';
+  const sources = realtimeSourcesFor(getFeedRegistry(), feedKey);
+  if (sources.length === 0) {
+    throw new Error(`No realtime feed configured for operator ${feedKey}`);
   }
-  
-  feed.entity = entities;
-  return feed;
-}
-
-// Types for the parsed data
-interface GtfsRealtimeFeed {
-  header?: {
-    gtfsRealtimeVersion?: string;
-    incrementality?: number;
-    timestamp?: number;
-  };
-  entity?: FeedEntity[];
-}
-
-interface FeedEntity {
-  id?: string;
-  isDeleted?: boolean;
-  vehicle?: VehiclePosition;
-  tripUpdate?: TripUpdate;
-  alert?: AlertData;
-}
 
-interface VehiclePosition {
-  trip?: TripDescriptor;
-  position?: Position;
-  currentStopSequence?: number;
-  currentStatus?: number;
-  timestamp?: number;
-  stopId?: string;
-  vehicle?: VehicleDescriptor;
-}
-
-interface TripUpdate {
-  trip?: TripDescriptor;
-  vehicle?: VehicleDescriptor;
-  stopTimeUpdate?: StopTimeUpdate[];
-  timestamp?: number;
-  delay?: number;
-}
-
-interface StopTimeUpdate {
-  stopSequence?: number;
-  stopId?: string;
-  arrival?: StopTimeEvent;
-  departure?: StopTimeEvent;
-  scheduleRelationship?: number;
+  try {
+    const feeds = await Promise.all(sources.map(({ url, headers }) => {
+      console.log(`Fetching GTFS data from: ${url}`);
+      return fetchUpstream('realtime', feedKey, url, (data) => {
+        console.log(`Received ${data.length} bytes of protobuf data`);
+        return parseFeedMessage(data);
+      }, headers);
+    }));
+    const feed = feeds.length === 1
+      ? feeds[0]
+      : mergeFeeds(feeds.map((part, index) => fullPart(sources[index].url, part)));
+    
+    console.log(`Parsed ${feed.entity?.length || 0} entities`);
+    
+    return feed;
+  } catch (error) {
+    console.error("Error fetching GTFS data:", error);
+    throw error;
+  }
 }
 
-interface StopTimeEvent {
-  delay?: number;
-  time?: number;
-  uncertainty?: number;
-}
+// Shared realtime cache: concurrent and closely spaced requests for the same
+// operator are served from a single upstream download
+const REALTIME_STALE_MAX_AGE = 10 * 60 * 1000; // 10 minutes
 
-interface AlertData {
-  activePeriod?: { start?: number; end?: number }[];
-  informedEntity?: EntitySelector[];
-  cause?: number;
-  effect?: number;
-  url?: TranslatedString[];
-  headerText?: TranslatedString[];
-  descriptionText?: TranslatedString[];
-  severityLevel?: number;
+interface RealtimeCacheEntry {
+  // Full dataset after applying the latest upstream feed
+  feed: GtfsRealtimeFeed;
+  timestamp: number;
+  // since token matching `feed`
+  token: string;
+  // Latest feed as received from upstream, before merging into the state
+  upstream: GtfsRealtimeFeed;
 }
 
-interface TripDescriptor {
-  tripId?: string;
-  routeId?: string;
-  directionId?: number;
-  startTime?: string;
-  startDate?: string;
-  scheduleRelationship?: number;
-}
+const realtimeCache: Map<string, RealtimeCacheEntry> = new Map();
+const realtimeInflight: Map<string, Promise<GtfsRealtimeFeed>> = new Map();
+// Entity state per cache key; DIFFERENTIAL upstream feeds are applied to it
+const feedStates: Map<string, FeedState> = new Map();
+// Stale and lost vehicles, judged across the polls of every cache key
+const vehicleFreshness = new VehicleFreshnessTracker();
 
-interface VehicleDescriptor {
-  id?: string;
-  label?: string;
-  licensePlate?: string;
+interface RealtimeFeedResult {
+  feed: GtfsRealtimeFeed;
+  fetchedAt: number;
+  stale: boolean;
+  error?: string;
+  token: string;
+  state: FeedState;
+  upstream: GtfsRealtimeFeed;
 }
 
-interface Position {
-  latitude?: number;
-  longitude?: number;
-  bearing?: number;
-  odometer?: number;
-  speed?: number;
+// How long a realtime download is reused for, milliseconds
+function realtimeCacheTtl(cacheKey: string): number {
+  const registry = getFeedRegistry();
+  const refresh = cacheKey === 'all' ? registry.combined?.refresh : getFeed(cacheKey)?.refresh;
+  return (refresh?.realtime ?? DEFAULT_REFRESH_POLICY.realtime) * 1000;
 }
 
-interface EntitySelector {
-  agencyId?: string;
-  routeId?: string;
-  routeType?: number;
-  trip?: TripDescriptor;
-  stopId?: string;
+function getFeedState(cacheKey: string): FeedState {
+  let state = feedStates.get(cacheKey);
+  if (!state) {
+    state = new FeedState();
+    feedStates.set(cacheKey, state);
+  }
+  return state;
 }
 
-async function fetchGtfsData(operatorId?: string): Promise<GtfsRealtimeFeed> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 45000); // 45 second timeout
-
-  // Build URL with optional operator filter
-  const url = operatorId && operatorId !== 'all' 
-    ? `${GTFS_RT_BASE_URL}/${operatorId}` 
-    : GTFS_RT_BASE_URL;
-
-  console.log(`Fetching GTFS data from: ${url}`);
-
+async function getRealtimeFeed(operatorId?: string): Promise<RealtimeFeedResult> {
+  const cacheKey = operatorId && operatorId !== 'all' ? operatorId : 'all';
+  const state = getFeedState(cacheKey);
+  const cached = realtimeCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < realtimeCacheTtl(cacheKey)) {
+    return { feed: cached.feed, fetchedAt: cached.timestamp, stale: false, token: cached.token, state, upstream: cached.upstream };
+  }
+  
+  let inflight = realtimeInflight.get(cacheKey);
+  if (!inflight) {
+    inflight = fetchGtfsData(operatorId)
+      .then((upstream) => {
+        state.apply(upstream);
+        const feed = state.toFeed();
+        vehicleFreshness.update(feed, freshnessThresholdsResolver(cacheKey));
+        const entities = feed.entity || [];
+        realtimeEntities.set({ feed: cacheKey, type: 'vehicle' }, entities.filter((entity) => entity.vehicle).length);
+        realtimeEntities.set({ feed: cacheKey, type: 'trip_update' }, entities.filter((entity) => entity.tripUpdate).length);
+        realtimeEntities.set({ feed: cacheKey, type: 'alert' }, entities.filter((entity) => entity.alert).length);
+        realtimeCache.set(cacheKey, { feed, timestamp: Date.now(), token: state.token, upstream });
+        return feed;
+      })
+      .finally(() => {
+        realtimeInflight.delete(cacheKey);
+      });
+    realtimeInflight.set(cacheKey, inflight);
+  }
+  
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'Accept': '*/*',
-      },
-    });
-
-    clearTimeout(timeout);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const arrayBuffer = await response.arrayBuffer();
-    const data = new Uint8Array(arrayBuffer);
-    
-    console.log(`Received ${data.length} bytes of protobuf data`);
-    
-    const feed = parseFeedMessage(data) as GtfsRealtimeFeed;
-    
-    console.log(`Parsed ${feed.entity?.length || 0} entities`);
-    
-    return feed;
+    const feed = await inflight;
+    const entry = realtimeCache.get(cacheKey);
+    return {
+      feed,
+      fetchedAt: entry?.timestamp || Date.now(),
+      stale: false,
+      token: entry?.token || state.token,
+      state,
+      upstream: entry?.upstream || feed,
+    };
   } catch (error) {
-    clearTimeout(timeout);
-    console.error("Error fetching GTFS data:", error);
+    // Fall back to the last good feed during short upstream outages
+    const lastGood = realtimeCache.get(cacheKey);
+    if (lastGood && Date.now() - lastGood.timestamp < REALTIME_STALE_MAX_AGE) {
+      console.log(`Serving stale feed for ${cacheKey} from ${new Date(lastGood.timestamp).toISOString()}`);
+      return {
+        feed: lastGood.feed,
+        fetchedAt: lastGood.timestamp,
+        stale: true,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        token: lastGood.token,
+        state,
+        upstream: lastGood.upstream,
+      };
+    }
     throw error;
   }
 }
 
-function extractVehicles(feed: GtfsRealtimeFeed) {
-  if (!feed.entity) return [];
+function extractVehicles(feed: GtfsRealtimeFeed, filter: FeedFilter = {}) {
+  const { entity } = filterFeed(feed, filter, new Map());
+  if (!entity) return [];
   
-  return feed.entity
-    .filter((entity) => entity.vehicle)
+  return entity
+    .filter((entity) => entity.vehicle && !entity.isDeleted)
     .map((entity) => ({
       id: entity.id,
       vehicleId: entity.vehicle?.vehicle?.id || entity.id,
       label: entity.vehicle?.vehicle?.label,
       licensePlate: entity.vehicle?.vehicle?.licensePlate,
+      wheelchairAccessible: enumName(WHEELCHAIR_ACCESSIBLE, entity.vehicle?.vehicle?.wheelchairAccessible),
       tripId: entity.vehicle?.trip?.tripId,
       routeId: entity.vehicle?.trip?.routeId,
       directionId: entity.vehicle?.trip?.directionId,
+      startTime: entity.vehicle?.trip?.startTime,
+      startDate: entity.vehicle?.trip?.startDate,
+      ...vehicleFreshness.classification(entity.vehicle?.vehicle?.id || entity.id),
       latitude: entity.vehicle?.position?.latitude,
       longitude: entity.vehicle?.position?.longitude,
       bearing: entity.vehicle?.position?.bearing,
       speed: entity.vehicle?.position?.speed,
+      odometer: entity.vehicle?.position?.odometer,
       currentStopSequence: entity.vehicle?.currentStopSequence,
       stopId: entity.vehicle?.stopId,
-      currentStatus: entity.vehicle?.currentStatus,
+      currentStatus: enumName(VEHICLE_STOP_STATUS, entity.vehicle?.currentStatus),
+      congestionLevel: enumName(CONGESTION_LEVEL, entity.vehicle?.congestionLevel),
+      occupancyStatus: enumName(OCCUPANCY_STATUS, entity.vehicle?.occupancyStatus),
+      occupancyPercentage: entity.vehicle?.occupancyPercentage,
+      multiCarriageDetails: entity.vehicle?.multiCarriageDetails?.map((carriage) => ({
+        id: carriage.id,
+        label: carriage.label,
+        occupancyStatus: enumName(OCCUPANCY_STATUS, carriage.occupancyStatus),
+        occupancyPercentage: carriage.occupancyPercentage,
+        carriageSequence: carriage.carriageSequence,
+      })),
       timestamp: entity.vehicle?.timestamp,
     }));
 }
 
-function extractTrips(feed: GtfsRealtimeFeed) {
-  if (!feed.entity) return [];
+function extractTrips(feed: GtfsRealtimeFeed, filter: FeedFilter = {}, stopCoords: Map<string, [number, number]> = new Map()) {
+  const { entity } = filterFeed(feed, filter, stopCoords);
+  if (!entity) return [];
   
-  return feed.entity
-    .filter((entity) => entity.tripUpdate)
+  return entity
+    .filter((entity) => entity.tripUpdate && !entity.isDeleted)
     .map((entity) => ({
       id: entity.id,
       tripId: entity.tripUpdate?.trip?.tripId,
@@ -658,64 +540,179 @@ function extractTrips(feed: GtfsRealtimeFeed) {
       directionId: entity.tripUpdate?.trip?.directionId,
       startTime: entity.tripUpdate?.trip?.startTime,
       startDate: entity.tripUpdate?.trip?.startDate,
-      scheduleRelationship: entity.tripUpdate?.trip?.scheduleRelationship,
+      scheduleRelationship: enumName(TRIP_SCHEDULE_RELATIONSHIP, entity.tripUpdate?.trip?.scheduleRelationship),
+      modifiedTrip: entity.tripUpdate?.trip?.modifiedTrip,
       vehicleId: entity.tripUpdate?.vehicle?.id,
       vehicleLabel: entity.tripUpdate?.vehicle?.label,
+      delay: entity.tripUpdate?.delay,
+      tripProperties: entity.tripUpdate?.tripProperties,
       stopTimeUpdates: entity.tripUpdate?.stopTimeUpdate?.map((stu) => ({
         stopSequence: stu.stopSequence,
         stopId: stu.stopId,
         arrivalDelay: stu.arrival?.delay,
         arrivalTime: stu.arrival?.time,
+        arrivalScheduledTime: stu.arrival?.scheduledTime,
+        arrivalUncertainty: stu.arrival?.uncertainty,
         departureDelay: stu.departure?.delay,
         departureTime: stu.departure?.time,
-        scheduleRelationship: stu.scheduleRelationship,
+        departureScheduledTime: stu.departure?.scheduledTime,
+        departureUncertainty: stu.departure?.uncertainty,
+        departureOccupancyStatus: enumName(OCCUPANCY_STATUS, stu.departureOccupancyStatus),
+        scheduleRelationship: enumName(STOP_SCHEDULE_RELATIONSHIP, stu.scheduleRelationship),
+        stopTimeProperties: stu.stopTimeProperties && {
+          assignedStopId: stu.stopTimeProperties.assignedStopId,
+          stopHeadsign: stu.stopTimeProperties.stopHeadsign,
+          pickupType: enumName(PICKUP_DROP_OFF_TYPE, stu.stopTimeProperties.pickupType),
+          dropOffType: enumName(PICKUP_DROP_OFF_TYPE, stu.stopTimeProperties.dropOffType),
+        },
       })) || [],
       timestamp: entity.tripUpdate?.timestamp,
     }));
 }
 
-function extractAlerts(feed: GtfsRealtimeFeed) {
-  if (!feed.entity) return [];
+function getLiveRouteIds(feed: GtfsRealtimeFeed): string[] {
+  const routeIds = new Set<string>();
+  for (const entity of feed.entity || []) {
+    const routeId = entity.vehicle?.trip?.routeId || entity.tripUpdate?.trip?.routeId;
+    if (routeId) routeIds.add(routeId);
+  }
+  return Array.from(routeIds);
+}
+
+function extractAlerts(
+  feed: GtfsRealtimeFeed,
+  languages: string[] = [],
+  filter: FeedFilter = {},
+  stopCoords: Map<string, [number, number]> = new Map()
+) {
+  const { entity } = filterFeed(feed, filter, stopCoords);
+  if (!entity) return [];
   
-  return feed.entity
-    .filter((entity) => entity.alert)
-    .map((entity) => ({
-      id: entity.id,
-      activePeriods: entity.alert?.activePeriod?.map((ap) => ({
-        start: ap.start,
-        end: ap.end,
-      })) || [],
-      informedEntities: entity.alert?.informedEntity?.map((ie) => ({
-        agencyId: ie.agencyId,
-        routeId: ie.routeId,
-        routeType: ie.routeType,
-        tripId: ie.trip?.tripId,
-        stopId: ie.stopId,
-      })) || [],
-      cause: entity.alert?.cause,
-      effect: entity.alert?.effect,
-      headerText: entity.alert?.headerText?.[0]?.text,
-      descriptionText: entity.alert?.descriptionText?.[0]?.text,
-      url: entity.alert?.url?.[0]?.text,
-      severityLevel: entity.alert?.severityLevel,
-    }));
+  return entity
+    .filter((entity) => entity.alert && !entity.isDeleted)
+    .map((entity) => {
+      const alert = entity.alert as AlertData;
+      const header = selectTranslation(alert.headerText, languages);
+      const image = selectTranslation(alert.image, languages);
+      
+      return {
+        id: entity.id,
+        activePeriods: alert.activePeriod?.map((ap) => ({
+          start: ap.start,
+          end: ap.end,
+        })) || [],
+        informedEntities: alert.informedEntity?.map((ie) => ({
+          agencyId: ie.agencyId,
+          routeId: ie.routeId,
+          routeType: ie.routeType,
+          directionId: ie.directionId,
+          tripId: ie.trip?.tripId,
+          stopId: ie.stopId,
+        })) || [],
+        cause: enumName(ALERT_CAUSE, alert.cause),
+        effect: enumName(ALERT_EFFECT, alert.effect),
+        language: header?.language,
+        causeDetail: selectTranslation(alert.causeDetail, languages)?.text,
+        effectDetail: selectTranslation(alert.effectDetail, languages)?.text,
+        headerText: header?.text,
+        descriptionText: selectTranslation(alert.descriptionText, languages)?.text,
+        ttsHeaderText: selectTranslation(alert.ttsHeaderText, languages)?.text,
+        ttsDescriptionText: selectTranslation(alert.ttsDescriptionText, languages)?.text,
+        url: selectTranslation(alert.url, languages)?.text,
+        image: image && {
+          url: image.url,
+          mediaType: image.mediaType,
+        },
+        imageAlternativeText: selectTranslation(alert.imageAlternativeText, languages)?.text,
+        translations: groupAlertTranslations(alert),
+        severityLevel: enumName(ALERT_SEVERITY_LEVEL, alert.severityLevel),
+      };
+    });
 }
 
-// Static GTFS data URLs by operator
-const GTFS_STATIC_URLS: Record<string, string> = {
-  '2': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C2_google_transit.zip&rel=True', // OSYPA
-  '4': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C4_google_transit.zip&rel=True', // OSEA
-  '5': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C5_google_transit.zip&rel=True', // Intercity
-  '6': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C6_google_transit.zip&rel=True', // EMEL
-  '9': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C9_google_transit.zip&rel=True', // NPT
-  '10': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C10_google_transit.zip&rel=True', // LPT
-  '11': 'https://www.motionbuscard.org.cy/opendata/downloadfile?file=GTFS%5C11_google_transit.zip&rel=True', // PAME EXPRESS
+// Stale vehicle thresholds by operator, over DEFAULT_FRESHNESS_THRESHOLDS.
+// The VEHICLE_FRESHNESS_THRESHOLDS environment variable (JSON of the same
+// shape) takes precedence.
+const VEHICLE_FRESHNESS_THRESHOLDS: Record<string, Partial<FreshnessThresholds>> = {
+  // Intercity coaches lay over longer at the terminals
+  '5': { stationaryAfter: 20 * 60 },
 };
 
+let freshnessOverrides: Record<string, Partial<FreshnessThresholds>> | undefined;
+
+function getFreshnessThresholds(opId: string | undefined): FreshnessThresholds {
+  freshnessOverrides ??= parseFreshnessOverrides(Deno.env.get('VEHICLE_FRESHNESS_THRESHOLDS'));
+  if (!opId) return DEFAULT_FRESHNESS_THRESHOLDS;
+  return { ...DEFAULT_FRESHNESS_THRESHOLDS, ...VEHICLE_FRESHNESS_THRESHOLDS[opId], ...freshnessOverrides[opId] };
+}
+
+// Thresholds for the vehicles of one realtime feed. The combined feed does not
+// name operators; vehicles are matched to one through the routes already
+// loaded, and get the defaults otherwise.
+function freshnessThresholdsResolver(cacheKey: string): (vehicle: VehiclePosition) => FreshnessThresholds {
+  if (cacheKey !== 'all') {
+    const thresholds = getFreshnessThresholds(cacheKey);
+    return () => thresholds;
+  }
+  
+  const routeOperators = new Map<string, string>();
+  for (const opId of feedIds()) {
+    for (const route of routesCache.get(`routes_${opId}`)?.data || []) {
+      if (!routeOperators.has(route.route_id)) routeOperators.set(route.route_id, opId);
+    }
+  }
+  const byOperator = new Map<string | undefined, FreshnessThresholds>();
+  return (vehicle) => {
+    const opId = vehicle.trip?.routeId ? routeOperators.get(vehicle.trip.routeId) : undefined;
+    let thresholds = byOperator.get(opId);
+    if (!thresholds) {
+      thresholds = getFreshnessThresholds(opId);
+      byOperator.set(opId, thresholds);
+    }
+    return thresholds;
+  };
+}
+
 // Simple in-memory cache for routes and stops
 const routesCache: Map<string, { data: RouteInfo[]; timestamp: number }> = new Map();
 const stopsCache: Map<string, { data: StopInfo[]; timestamp: number }> = new Map();
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const metadataCache: Map<string, { data: OperatorMetadata; timestamp: number }> = new Map();
+
+// Downloads in progress, so routes, stops and schedule loaded together share
+// one download of an operator's archive
+const staticDownloads: Map<string, Promise<Uint8Array>> = new Map();
+
+function downloadStaticFeed(opId: string): Promise<Uint8Array> {
+  let download = staticDownloads.get(opId);
+  if (!download) {
+    const feed = getFeed(opId);
+    download = (feed?.static
+      ? fetchUpstream('static', opId, feed.static, (data) => data, feed.headers)
+      : Promise.reject(new Error(`No static GTFS configured for operator ${opId}`)))
+      .finally(() => {
+        staticDownloads.delete(opId);
+      });
+    staticDownloads.set(opId, download);
+  }
+  return download;
+}
+
+// Merged static data of several operators; operators whose data could not be
+// loaded are listed so that clients can tell a partial result from a full one
+interface OperatorResults<T> {
+  data: T[];
+  failedOperators: string[];
+}
+
+// Loads the requested operators concurrently
+async function collectOperators<T>(
+  operatorId: string | undefined,
+  load: (opId: string) => Promise<T[]>
+): Promise<OperatorResults<T>> {
+  const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+  const { values, failed } = await settleAll(operators, load);
+  return { data: values.flat(), failedOperators: failed };
+}
 
 interface RouteInfo {
   route_id: string;
@@ -736,337 +733,893 @@ interface StopInfo {
   parent_station?: string;
 }
 
-async function unzipAndParseRoutes(zipData: Uint8Array): Promise<RouteInfo[]> {
-  // Parse ZIP file manually (simplified approach for GTFS files)
-  // GTFS ZIP files contain routes.txt which is a CSV file
+const MAX_LOGGED_CSV_ISSUES = 10;
+
+// Stream the rows of one file in a GTFS archive, keyed by column name.
+// Malformed rows are logged with their line number; a missing file has no rows.
+async function* readGtfsFile(zipData: Uint8Array, fileName: string): AsyncGenerator<Record<string, string>> {
+  const entry = findZipEntries(zipData, [fileName]).get(fileName);
+  if (!entry) return;
   
-  // Find the routes.txt file in the ZIP
-  // ZIP file format: https://en.wikipedia.org/wiki/ZIP_(file_format)
+  let issueCount = 0;
+  yield* readCsv(openZipEntry(zipData, entry), {
+    onIssue: (issue) => {
+      issueCount++;
+      if (issueCount <= MAX_LOGGED_CSV_ISSUES) {
+        console.error(`${fileName}:${issue.line}: ${issue.message}`);
+      }
+    },
+  });
   
-  let offset = 0;
+  if (issueCount > MAX_LOGGED_CSV_ISSUES) {
+    console.error(`${fileName}: ${issueCount} malformed rows in total`);
+  }
+}
+
+async function parseRoutes(rows: AsyncIterable<Record<string, string>>): Promise<RouteInfo[]> {
   const routes: RouteInfo[] = [];
   
-  while (offset < zipData.length - 4) {
-    // Look for local file header signature (0x04034b50)
-    if (zipData[offset] === 0x50 && zipData[offset + 1] === 0x4b && 
-        zipData[offset + 2] === 0x03 && zipData[offset + 3] === 0x04) {
-      
-      const view = new DataView(zipData.buffer, zipData.byteOffset + offset);
-      const compressionMethod = view.getUint16(8, true);
-      const compressedSize = view.getUint32(18, true);
-      const uncompressedSize = view.getUint32(22, true);
-      const fileNameLength = view.getUint16(26, true);
-      const extraFieldLength = view.getUint16(28, true);
-      
-      const fileNameStart = offset + 30;
-      const fileName = new TextDecoder().decode(zipData.slice(fileNameStart, fileNameStart + fileNameLength));
-      
-      const dataStart = fileNameStart + fileNameLength + extraFieldLength;
-      
-      if (fileName === 'routes.txt') {
-        let fileContent: string;
-        
-        if (compressionMethod === 0) {
-          // Stored (no compression)
-          fileContent = new TextDecoder().decode(zipData.slice(dataStart, dataStart + uncompressedSize));
-        } else if (compressionMethod === 8) {
-          // Deflate - use DecompressionStream
-          try {
-            const compressedData = zipData.slice(dataStart, dataStart + compressedSize);
-            const ds = new DecompressionStream('deflate-raw');
-            const writer = ds.writable.getWriter();
-            const reader = ds.readable.getReader();
-            
-            writer.write(compressedData);
-            writer.close();
-            
-            const chunks: Uint8Array[] = [];
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              chunks.push(value);
-            }
-            
-            const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-            const decompressed = new Uint8Array(totalLength);
-            let position = 0;
-            for (const chunk of chunks) {
-              decompressed.set(chunk, position);
-              position += chunk.length;
-            }
-            
-            fileContent = new TextDecoder().decode(decompressed);
-          } catch (e) {
-            console.error('Failed to decompress routes.txt:', e);
-            break;
-          }
-        } else {
-          console.log(`Unsupported compression method: ${compressionMethod}`);
-          break;
-        }
-        
-        // Parse CSV
-        const lines = fileContent.split('\n');
-        if (lines.length > 0) {
-          const header = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-          const routeIdIdx = header.indexOf('route_id');
-          const shortNameIdx = header.indexOf('route_short_name');
-          const longNameIdx = header.indexOf('route_long_name');
-          const typeIdx = header.indexOf('route_type');
-          const colorIdx = header.indexOf('route_color');
-          const textColorIdx = header.indexOf('route_text_color');
-          
-          for (let i = 1; i < lines.length; i++) {
-            const line = lines[i].trim();
-            if (!line) continue;
-            
-            // Parse CSV line (handle quoted values)
-            const values: string[] = [];
-            let current = '';
-            let inQuotes = false;
-            for (const char of line) {
-              if (char === '"') {
-                inQuotes = !inQuotes;
-              } else if (char === ',' && !inQuotes) {
-                values.push(current.trim());
-                current = '';
-              } else {
-                current += char;
-              }
-            }
-            values.push(current.trim());
-            
-            if (values.length > routeIdIdx) {
-              routes.push({
-                route_id: values[routeIdIdx] || '',
-                route_short_name: shortNameIdx >= 0 ? values[shortNameIdx] || '' : '',
-                route_long_name: longNameIdx >= 0 ? values[longNameIdx] || '' : '',
-                route_type: typeIdx >= 0 && values[typeIdx] ? parseInt(values[typeIdx]) : undefined,
-                route_color: colorIdx >= 0 ? values[colorIdx] || undefined : undefined,
-                route_text_color: textColorIdx >= 0 ? values[textColorIdx] || undefined : undefined,
-              });
-            }
-          }
-        }
-        break;
-      }
-      
-      offset = dataStart + compressedSize;
-    } else {
-      offset++;
-    }
+  for await (const row of rows) {
+    if (row.route_id === undefined) continue;
+    
+    routes.push({
+      route_id: row.route_id || '',
+      route_short_name: row.route_short_name || '',
+      route_long_name: row.route_long_name || '',
+      route_type: row.route_type ? parseInt(row.route_type) : undefined,
+      route_color: row.route_color || undefined,
+      route_text_color: row.route_text_color || undefined,
+    });
   }
   
   return routes;
 }
 
-async function unzipAndParseStops(zipData: Uint8Array): Promise<StopInfo[]> {
-  let offset = 0;
+async function parseStops(rows: AsyncIterable<Record<string, string>>): Promise<StopInfo[]> {
   const stops: StopInfo[] = [];
   
-  while (offset < zipData.length - 4) {
-    if (zipData[offset] === 0x50 && zipData[offset + 1] === 0x4b && 
-        zipData[offset + 2] === 0x03 && zipData[offset + 3] === 0x04) {
-      
-      const view = new DataView(zipData.buffer, zipData.byteOffset + offset);
-      const compressionMethod = view.getUint16(8, true);
-      const compressedSize = view.getUint32(18, true);
-      const uncompressedSize = view.getUint32(22, true);
-      const fileNameLength = view.getUint16(26, true);
-      const extraFieldLength = view.getUint16(28, true);
-      
-      const fileNameStart = offset + 30;
-      const fileName = new TextDecoder().decode(zipData.slice(fileNameStart, fileNameStart + fileNameLength));
-      
-      const dataStart = fileNameStart + fileNameLength + extraFieldLength;
-      
-      if (fileName === 'stops.txt') {
-        let fileContent: string;
-        
-        if (compressionMethod === 0) {
-          fileContent = new TextDecoder().decode(zipData.slice(dataStart, dataStart + uncompressedSize));
-        } else if (compressionMethod === 8) {
-          try {
-            const compressedData = zipData.slice(dataStart, dataStart + compressedSize);
-            const ds = new DecompressionStream('deflate-raw');
-            const writer = ds.writable.getWriter();
-            const reader = ds.readable.getReader();
-            
-            writer.write(compressedData);
-            writer.close();
-            
-            const chunks: Uint8Array[] = [];
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-              chunks.push(value);
-            }
-            
-            const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-            const decompressed = new Uint8Array(totalLength);
-            let position = 0;
-            for (const chunk of chunks) {
-              decompressed.set(chunk, position);
-              position += chunk.length;
-            }
-            
-            fileContent = new TextDecoder().decode(decompressed);
-          } catch (e) {
-            console.error('Failed to decompress stops.txt:', e);
-            break;
-          }
-        } else {
-          console.log(`Unsupported compression method: ${compressionMethod}`);
-          break;
-        }
-        
-        // Parse CSV
-        const lines = fileContent.split('\n');
-        if (lines.length > 0) {
-          const header = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-          const stopIdIdx = header.indexOf('stop_id');
-          const stopNameIdx = header.indexOf('stop_name');
-          const stopLatIdx = header.indexOf('stop_lat');
-          const stopLonIdx = header.indexOf('stop_lon');
-          const stopCodeIdx = header.indexOf('stop_code');
-          const locationTypeIdx = header.indexOf('location_type');
-          const parentStationIdx = header.indexOf('parent_station');
-          
-          for (let i = 1; i < lines.length; i++) {
-            const line = lines[i].trim();
-            if (!line) continue;
-            
-            const values: string[] = [];
-            let current = '';
-            let inQuotes = false;
-            for (const char of line) {
-              if (char === '"') {
-                inQuotes = !inQuotes;
-              } else if (char === ',' && !inQuotes) {
-                values.push(current.trim());
-                current = '';
-              } else {
-                current += char;
-              }
-            }
-            values.push(current.trim());
-            
-            if (values.length > stopIdIdx && stopIdIdx >= 0) {
-              const lat = stopLatIdx >= 0 && values[stopLatIdx] ? parseFloat(values[stopLatIdx]) : undefined;
-              const lon = stopLonIdx >= 0 && values[stopLonIdx] ? parseFloat(values[stopLonIdx]) : undefined;
-              
-              // Only include stops with valid coordinates
-              if (lat && lon && !isNaN(lat) && !isNaN(lon)) {
-                stops.push({
-                  stop_id: values[stopIdIdx] || '',
-                  stop_name: stopNameIdx >= 0 ? values[stopNameIdx] || '' : '',
-                  stop_lat: lat,
-                  stop_lon: lon,
-                  stop_code: stopCodeIdx >= 0 ? values[stopCodeIdx] || undefined : undefined,
-                  location_type: locationTypeIdx >= 0 && values[locationTypeIdx] ? parseInt(values[locationTypeIdx]) : undefined,
-                  parent_station: parentStationIdx >= 0 ? values[parentStationIdx] || undefined : undefined,
-                });
-              }
-            }
-          }
-        }
-        break;
-      }
-      
-      offset = dataStart + compressedSize;
-    } else {
-      offset++;
+  for await (const row of rows) {
+    if (row.stop_id === undefined) continue;
+    
+    const lat = row.stop_lat ? parseFloat(row.stop_lat) : undefined;
+    const lon = row.stop_lon ? parseFloat(row.stop_lon) : undefined;
+    
+    // Only include stops with valid coordinates
+    if (lat && lon && !isNaN(lat) && !isNaN(lon)) {
+      stops.push({
+        stop_id: row.stop_id || '',
+        stop_name: row.stop_name || '',
+        stop_lat: lat,
+        stop_lon: lon,
+        stop_code: row.stop_code || undefined,
+        location_type: row.location_type ? parseInt(row.location_type) : undefined,
+        parent_station: row.parent_station || undefined,
+      });
     }
   }
   
   return stops;
 }
 
-async function fetchStaticRoutes(operatorId?: string): Promise<RouteInfo[]> {
-  const operators = operatorId && operatorId !== 'all' ? [operatorId] : Object.keys(GTFS_STATIC_URLS);
-  const allRoutes: RouteInfo[] = [];
+function unzipAndParseRoutes(zipData: Uint8Array): Promise<RouteInfo[]> {
+  return parseRoutes(readGtfsFile(zipData, 'routes.txt'));
+}
+
+function unzipAndParseStops(zipData: Uint8Array): Promise<StopInfo[]> {
+  return parseStops(readGtfsFile(zipData, 'stops.txt'));
+}
+
+// An expired copy keeps being served while the operator's upstream fails
+async function loadStaticRoutes(opId: string): Promise<RouteInfo[]> {
+  const cacheKey = `routes_${opId}`;
+  const cached = routesCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < staticCacheTtl(opId)) {
+    return cached.data;
+  }
+  
+  const url = getFeed(opId)?.static;
+  if (!url) return [];
   
-  for (const opId of operators) {
-    const cacheKey = `routes_${opId}`;
-    const cached = routesCache.get(cacheKey);
+  try {
+    console.log(`Fetching static GTFS for operator ${opId} from ${url}`);
+    const zipData = await downloadStaticFeed(opId);
     
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      allRoutes.push(...cached.data);
-      continue;
-    }
+    console.log(`Downloaded ${zipData.length} bytes for operator ${opId}`);
     
-    const url = GTFS_STATIC_URLS[opId];
-    if (!url) continue;
+    const routes = await unzipAndParseRoutes(zipData);
+    console.log(`Parsed ${routes.length} routes for operator ${opId}`);
     
+    routesCache.set(cacheKey, { data: routes, timestamp: Date.now() });
+    return routes;
+  } catch (error) {
+    console.error(`Error fetching static GTFS for operator ${opId}:`, error);
+    if (cached) return cached.data;
+    throw error;
+  }
+}
+
+async function loadStaticStops(opId: string): Promise<StopInfo[]> {
+  const cacheKey = `stops_${opId}`;
+  const cached = stopsCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < staticCacheTtl(opId)) {
+    return cached.data;
+  }
+  
+  const url = getFeed(opId)?.static;
+  if (!url) return [];
+  
+  try {
+    console.log(`Fetching static GTFS stops for operator ${opId}`);
+    const zipData = await downloadStaticFeed(opId);
+    
+    const stops = await unzipAndParseStops(zipData);
+    console.log(`Parsed ${stops.length} stops for operator ${opId}`);
+    
+    stopsCache.set(cacheKey, { data: stops, timestamp: Date.now() });
+    return stops;
+  } catch (error) {
+    console.error(`Error fetching static GTFS stops for operator ${opId}:`, error);
+    if (cached) return cached.data;
+    throw error;
+  }
+}
+
+async function loadOperatorMetadata(opId: string): Promise<OperatorMetadata> {
+  const cacheKey = `metadata_${opId}`;
+  const cached = metadataCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < staticCacheTtl(opId)) {
+    return cached.data;
+  }
+  
+  try {
+    console.log(`Fetching static GTFS metadata for operator ${opId}`);
+    const zipData = await downloadStaticFeed(opId);
+    
+    const metadata = await readOperatorMetadata((fileName) => readGtfsFile(zipData, fileName));
+    console.log(`Parsed ${metadata.agencies.length} agencies for operator ${opId}`);
+    
+    metadataCache.set(cacheKey, { data: metadata, timestamp: Date.now() });
+    return metadata;
+  } catch (error) {
+    console.error(`Error fetching static GTFS metadata for operator ${opId}:`, error);
+    if (cached) return cached.data;
+    throw error;
+  }
+}
+
+// Operator list for /operators: the feeds in the registry with what their
+// static data says about them. Operators whose feed cannot be loaded are still
+// listed, without feed details.
+type OperatorDetails = {
+  id: string;
+  name: string;
+  city?: string;
+  hasRealtime: boolean;
+  hasStatic: boolean;
+} & Partial<OperatorMetadata> & FeedValidityInfo;
+
+async function fetchOperators(operatorId?: string, today = getServiceDate()): Promise<OperatorResults<OperatorDetails>> {
+  const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+  const failed = new Set<string>();
+  
+  const feeds = operators.map(getFeed).filter((feed): feed is FeedDefinition => !!feed);
+  const data = await Promise.all(feeds.map(async (feed): Promise<OperatorDetails> => {
+    const operator = { id: feed.id, name: feed.name, city: feed.city, hasRealtime: feed.realtime.length > 0, hasStatic: !!feed.static };
+    if (!feed.static) return { ...operator, validity: 'unknown' };
     try {
-      console.log(`Fetching static GTFS for operator ${opId} from ${url}`);
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.error(`Failed to fetch GTFS for operator ${opId}: ${response.status}`);
-        continue;
+      const metadata = await loadOperatorMetadata(feed.id);
+      return { ...operator, ...metadata, ...feedValidity(metadata, today) };
+    } catch {
+      failed.add(feed.id);
+      return { ...operator, validity: 'unknown' };
+    }
+  }));
+  
+  return { data, failedOperators: operators.filter((opId) => failed.has(opId)) };
+}
+
+function fetchStaticRoutes(operatorId?: string): Promise<OperatorResults<RouteInfo>> {
+  return collectOperators(operatorId, loadStaticRoutes);
+}
+
+function fetchStaticStops(operatorId?: string): Promise<OperatorResults<StopInfo>> {
+  return collectOperators(operatorId, loadStaticStops);
+}
+
+// Scheduled timetable (schedule.ts)
+const scheduleCache: Map<string, { data: ScheduleData; timestamp: number }> = new Map();
+
+async function fetchStaticSchedule(opId: string): Promise<ScheduleData | null> {
+  const cacheKey = `schedule_${opId}`;
+  const cached = scheduleCache.get(cacheKey);
+  
+  if (cached && Date.now() - cached.timestamp < staticCacheTtl(opId)) {
+    return cached.data;
+  }
+  
+  const url = getFeed(opId)?.static;
+  if (!url) return null;
+  
+  try {
+    console.log(`Fetching static GTFS schedule for operator ${opId}`);
+    const zipData = await downloadStaticFeed(opId);
+    
+    const schedule = await parseSchedule((fileName) => readGtfsFile(zipData, fileName));
+    console.log(`Parsed ${schedule.trips.length} trips and ${schedule.stopTimesByTrip.size} stop time sequences for operator ${opId}`);
+    
+    scheduleCache.set(cacheKey, { data: schedule, timestamp: Date.now() });
+    return schedule;
+  } catch (error) {
+    console.error(`Error fetching static GTFS schedule for operator ${opId}:`, error);
+    return cached?.data || null;
+  }
+}
+
+// Schedule of an operator for the merged endpoints, which report it as failed
+async function requireSchedule(opId: string): Promise<ScheduleData> {
+  const schedule = await fetchStaticSchedule(opId);
+  if (!schedule) throw new Error(`Schedule unavailable for operator ${opId}`);
+  return schedule;
+}
+
+function fetchScheduledTrips(
+  operatorId: string | undefined,
+  serviceDate: string,
+  routeId?: string
+): Promise<OperatorResults<ScheduledTrip>> {
+  return collectOperators(operatorId, async (opId) => {
+    const schedule = await requireSchedule(opId);
+    const activeServiceIds = getActiveServiceIds(schedule, serviceDate);
+    return schedule.trips.filter((trip) =>
+      activeServiceIds.has(trip.service_id) && (!routeId || trip.route_id === routeId)
+    );
+  });
+}
+
+async function fetchScheduledStopTimes(
+  operatorId: string | undefined,
+  serviceDate: string,
+  filter: { tripId?: string; stopId?: string },
+): Promise<OperatorResults<ScheduledStopTime>> {
+  const results = await collectOperators(operatorId, async (opId) => {
+    const schedule = await requireSchedule(opId);
+    
+    if (filter.tripId) {
+      const tripStopTimes = schedule.stopTimesByTrip.get(filter.tripId) || [];
+      return tripStopTimes.filter((st) => !filter.stopId || st.stop_id === filter.stopId);
+    }
+    
+    // Stop lookups only return trips running on the requested service day
+    const activeServiceIds = getActiveServiceIds(schedule, serviceDate);
+    const stopTimes: ScheduledStopTime[] = [];
+    for (const trip of schedule.trips) {
+      if (!activeServiceIds.has(trip.service_id)) continue;
+      for (const st of schedule.stopTimesByTrip.get(trip.trip_id) || []) {
+        if (st.stop_id === filter.stopId) stopTimes.push(st);
       }
-      
-      const arrayBuffer = await response.arrayBuffer();
-      const zipData = new Uint8Array(arrayBuffer);
-      
-      console.log(`Downloaded ${zipData.length} bytes for operator ${opId}`);
-      
-      const routes = await unzipAndParseRoutes(zipData);
-      console.log(`Parsed ${routes.length} routes for operator ${opId}`);
-      
-      routesCache.set(cacheKey, { data: routes, timestamp: Date.now() });
-      allRoutes.push(...routes);
-    } catch (error) {
-      console.error(`Error fetching static GTFS for operator ${opId}:`, error);
     }
+    return stopTimes;
+  });
+  
+  if (!filter.tripId) {
+    results.data.sort(compareDepartureTimes);
+  }
+  
+  return results;
+}
+
+// Stop departures (departures.ts)
+const DEFAULT_DEPARTURES_LIMIT = 10;
+const MAX_DEPARTURES_LIMIT = 50;
+
+async function fetchStopDepartures(
+  operatorId: string | undefined,
+  stopId: string,
+  limit: number,
+  now = Date.now()
+): Promise<{ departures: StopDeparture[]; realtime?: RealtimeFeedResult }> {
+  const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+
+  let realtime: RealtimeFeedResult | undefined;
+  try {
+    realtime = await getRealtimeFeed(operatorId);
+  } catch (error) {
+    console.error('Realtime feed unavailable, departures from schedule only:', error);
+  }
+
+  const schedules = await Promise.all(operators.map((opId) => fetchStaticSchedule(opId)));
+  return { departures: buildStopDepartures(schedules, realtime?.feed, stopId, limit, now), realtime };
+}
+
+async function fetchRouteShapes(operatorId: string | undefined, routeId: string): Promise<RouteShape[]> {
+  const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+  const allShapes: RouteShape[] = [];
+  const schedules = await Promise.all(operators.map((opId) => fetchStaticSchedule(opId)));
+  
+  for (const [index, opId] of operators.entries()) {
+    const schedule = schedules[index];
+    if (!schedule || !schedule.trips.some((trip) => trip.route_id === routeId)) continue;
+    
+    const { data: stops } = await fetchStaticStops(opId);
+    allShapes.push(...buildRouteShapes(schedule, stops, routeId));
   }
   
-  return allRoutes;
+  return allShapes;
 }
 
-async function fetchStaticStops(operatorId?: string): Promise<StopInfo[]> {
-  const operators = operatorId && operatorId !== 'all' ? [operatorId] : Object.keys(GTFS_STATIC_URLS);
-  const allStops: StopInfo[] = [];
+// Headway regularity (/headways): live vehicles placed along their route's
+// geometry and compared with the trips scheduled around now
+async function fetchRouteHeadways(
+  operatorId: string | undefined,
+  routeId?: string,
+  now = Date.now()
+): Promise<(RouteHeadways & { operatorId: string })[]> {
+  const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+  const { feed } = await getRealtimeFeed(operatorId);
+  const liveVehicles = extractVehicles(feed);
+  const serviceDate = getServiceDate(new Date(now));
+  const dayStart = getServiceDayStart(serviceDate);
+  // Vehicles are measured with the first operator whose schedule knows them
+  const claimed = new Set<string>();
+  const results: (RouteHeadways & { operatorId: string })[] = [];
+  const schedules = await Promise.all(operators.map((opId) => fetchStaticSchedule(opId)));
   
-  for (const opId of operators) {
-    const cacheKey = `stops_${opId}`;
-    const cached = stopsCache.get(cacheKey);
+  for (const [index, opId] of operators.entries()) {
+    const schedule = schedules[index];
+    if (!schedule) continue;
     
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      allStops.push(...cached.data);
-      continue;
+    const tripsById = new Map(schedule.trips.map((trip) => [trip.trip_id, trip]));
+    const routeIds = new Set(schedule.trips.map((trip) => trip.route_id));
+    const vehicles: HeadwayVehicle[] = [];
+    for (const vehicle of liveVehicles) {
+      // Vehicles need an id to be told apart along the route
+      const { id, vehicleId } = vehicle;
+      if (!id || !vehicleId) continue;
+      const scheduledTrip = vehicle.tripId ? tripsById.get(vehicle.tripId) : undefined;
+      const vehicleRouteId = vehicle.routeId || scheduledTrip?.route_id;
+      if (claimed.has(id) || !vehicleRouteId || !routeIds.has(vehicleRouteId)) continue;
+      if (routeId && vehicleRouteId !== routeId) continue;
+      // Lost vehicles are not where the feed places them
+      if (vehicle.latitude === undefined || vehicle.longitude === undefined || vehicle.freshness === 'lost') continue;
+      
+      claimed.add(id);
+      vehicles.push({
+        vehicleId,
+        label: vehicle.label,
+        tripId: vehicle.tripId,
+        routeId: vehicleRouteId,
+        directionId: vehicle.directionId ?? scheduledTrip?.direction_id,
+        latitude: vehicle.latitude,
+        longitude: vehicle.longitude,
+      });
     }
+    if (vehicles.length === 0) continue;
     
-    const url = GTFS_STATIC_URLS[opId];
-    if (!url) continue;
+    const { data: stops } = await fetchStaticStops(opId);
+    const stopCoords = new Map(stops.map((stop) => [stop.stop_id, [stop.stop_lat!, stop.stop_lon!] as [number, number]]));
+    const activeServiceIds = getActiveServiceIds(schedule, serviceDate);
+    const lines: RouteLine[] = [];
     
-    try {
-      console.log(`Fetching static GTFS stops for operator ${opId}`);
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        console.error(`Failed to fetch GTFS for operator ${opId}: ${response.status}`);
-        continue;
+    for (const lineRouteId of new Set(vehicles.map((vehicle) => vehicle.routeId))) {
+      const routeTrips = schedule.trips.filter((trip) => trip.route_id === lineRouteId);
+      for (const [directionId, trips] of groupTripsByDirection(routeTrips)) {
+        const geometry = directionGeometry(schedule, trips, stopCoords);
+        if (!geometry) continue;
+        
+        const runTimes: number[] = [];
+        const starts: number[] = [];
+        for (const trip of trips) {
+          const tripStopTimes = schedule.stopTimesByTrip.get(trip.trip_id);
+          if (!activeServiceIds.has(trip.service_id) || !tripStopTimes || tripStopTimes.length < 2) continue;
+          const start = timeToSeconds(tripStopTimes[0].departure_time);
+          const end = timeToSeconds(tripStopTimes[tripStopTimes.length - 1].arrival_time);
+          if (start === undefined || end === undefined) continue;
+          runTimes.push(end - start);
+          starts.push(dayStart + start);
+        }
+        
+        lines.push({
+          routeId: lineRouteId,
+          directionId,
+          points: geometry.points,
+          runTime: median(runTimes.filter((runTime) => runTime > 0)),
+          scheduledHeadway: scheduledHeadway(starts, Math.floor(now / 1000)),
+        });
+      }
+    }
+    
+    results.push(...measureHeadways(lines, vehicles).map((route) => ({ operatorId: opId, ...route })));
+  }
+  
+  return results;
+}
+
+async function getStopCoords(operatorId: string | undefined): Promise<Map<string, [number, number]>> {
+  const coords: Map<string, [number, number]> = new Map();
+  try {
+    for (const stop of (await fetchStaticStops(operatorId)).data) {
+      if (stop.stop_lat !== undefined && stop.stop_lon !== undefined) {
+        coords.set(stop.stop_id, [stop.stop_lat, stop.stop_lon]);
       }
+    }
+  } catch (error) {
+    console.error('Error loading stops for area filter:', error);
+  }
+  return coords;
+}
+
+const INCREMENTALITY_DIFFERENTIAL = 1;
+
+interface FeedDelta {
+  // DIFFERENTIAL feed: changed entities, then deleted ones marked is_deleted
+  feed: GtfsRealtimeFeed;
+  deleted: string[];
+  token: string;
+}
+
+// Entities changed after a since token, scoped by the filter. Entities that
+// changed and no longer match the filter are reported as deleted. Returns null
+// when the token cannot be served and the full dataset must be sent instead.
+function getFeedDelta(
+  realtime: RealtimeFeedResult,
+  since: string,
+  filter: FeedFilter,
+  stopCoords: Map<string, [number, number]>
+): FeedDelta | null {
+  const changes = realtime.state.changesSince(since);
+  if (!changes) return null;
+  
+  const current = realtime.state.toFeed();
+  const inScope = new Set((filterFeed(current, filter, stopCoords).entity || []).map((entity) => entity.id));
+  const deleted = [...changes.deleted, ...changes.entities.filter((entity) => !inScope.has(entity.id)).map((entity) => entity.id)];
+  
+  return {
+    feed: {
+      header: current.header && { ...current.header, incrementality: INCREMENTALITY_DIFFERENTIAL },
+      entity: [
+        ...changes.entities.filter((entity) => inScope.has(entity.id)),
+        ...deleted.map((id) => ({ id, isDeleted: true })),
+      ],
+    },
+    deleted,
+    token: realtime.state.token,
+  };
+}
+
+// All realtime lists from a single feed download and parse
+function buildSnapshot(
+  feed: GtfsRealtimeFeed,
+  filter: FeedFilter,
+  stopCoords: Map<string, [number, number]>,
+  languages: string[]
+) {
+  const scoped = filterFeed(feed, filter, stopCoords);
+  return {
+    vehicles: extractVehicles(scoped),
+    trips: extractTrips(scoped),
+    alerts: extractAlerts(scoped, languages),
+    // Routes with live data across the whole feed, so route pickers
+    // keep their options while the lists are filtered
+    liveRouteIds: getLiveRouteIds(feed),
+  };
+}
+
+type Snapshot = ReturnType<typeof buildSnapshot>;
+
+// The change tracker needs a key for every item: entities without an id fall
+// back to their vehicle or trip id and are left out when they have neither
+function keyedItems<T extends { id?: string }>(items: T[], fallback: (item: T) => string | undefined): (T & { id: string })[] {
+  return items.flatMap((item) => {
+    const id = item.id || fallback(item);
+    return id ? [{ ...item, id }] : [];
+  });
+}
+
+function keyedSnapshot(snapshot: Snapshot) {
+  return {
+    ...snapshot,
+    vehicles: keyedItems(snapshot.vehicles, (vehicle) => vehicle.vehicleId),
+    trips: keyedItems(snapshot.trips, (trip) => trip.tripId),
+    alerts: keyedItems(snapshot.alerts, () => undefined),
+  };
+}
+
+type KeyedSnapshot = ReturnType<typeof keyedSnapshot>;
+
+// Server-Sent Events stream: a `snapshot` event with every list, then
+// `update` events with changed items and removed ids as the feed refreshes
+const STREAM_POLL_INTERVAL = 5000;
+const STREAM_HEARTBEAT_INTERVAL = 15000;
+const STREAM_RETRY_DELAY = 3000;
+
+function streamRealtime(
+  req: Request,
+  operatorId: string | undefined,
+  filter: FeedFilter,
+  stopCoords: Map<string, [number, number]>,
+  languages: string[]
+): Response {
+  const encoder = new TextEncoder();
+  const tracker = new SnapshotTracker<KeyedSnapshot['vehicles'][number], KeyedSnapshot['trips'][number], KeyedSnapshot['alerts'][number]>();
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  let lastFetchedAt = 0;
+  let polling = false;
+  let closed = false;
+  
+  const stop = () => {
+    closed = true;
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+  };
+  
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop();
+        }
+      };
+      const send = (event: string, payload: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(payload, bigintReplacer)}\n\n`);
+      };
       
-      const arrayBuffer = await response.arrayBuffer();
-      const zipData = new Uint8Array(arrayBuffer);
+      const poll = async () => {
+        if (polling || closed) return;
+        polling = true;
+        try {
+          const { feed, fetchedAt, stale, error: staleReason } = await getRealtimeFeed(operatorId);
+          if (fetchedAt === lastFetchedAt) return;
+          
+          const isFirst = lastFetchedAt === 0;
+          lastFetchedAt = fetchedAt;
+          const snapshot = keyedSnapshot(buildSnapshot(feed, filter, stopCoords, languages));
+          const changes = tracker.update(snapshot);
+          const meta = {
+            timestamp: Date.now(),
+            feedTimestamp: feed.header?.timestamp || undefined,
+            fetchedAt,
+            ...(stale ? { stale, staleReason } : {}),
+          };
+          
+          if (isFirst) {
+            send('snapshot', { data: snapshot, ...meta });
+          } else if (!isEmptyChange(changes)) {
+            send('update', { data: { ...changes, liveRouteIds: snapshot.liveRouteIds }, ...meta });
+          }
+        } catch (error) {
+          console.error('Error refreshing realtime stream:', error);
+          send('error', { message: error instanceof Error ? error.message : 'Unknown error', timestamp: Date.now() });
+        } finally {
+          polling = false;
+        }
+      };
       
-      const stops = await unzipAndParseStops(zipData);
-      console.log(`Parsed ${stops.length} stops for operator ${opId}`);
+      write(`retry: ${STREAM_RETRY_DELAY}\n\n`);
+      poll();
+      pollTimer = setInterval(poll, STREAM_POLL_INTERVAL);
+      // Comment lines keep proxies from closing an idle connection
+      heartbeatTimer = setInterval(() => write(': ping\n\n'), STREAM_HEARTBEAT_INTERVAL);
       
-      stopsCache.set(cacheKey, { data: stops, timestamp: Date.now() });
-      allStops.push(...stops);
-    } catch (error) {
-      console.error(`Error fetching static GTFS stops for operator ${opId}:`, error);
+      req.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+  
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Vary': 'Accept-Language',
+    },
+  });
+}
+
+// Feed validation (/validate): the latest upstream feed of each operator
+// checked against its static GTFS
+interface OperatorValidation {
+  operatorId: string;
+  feedTimestamp?: number | bigint;
+  fetchedAt?: number;
+  entityCount: number;
+  errors: number;
+  warnings: number;
+  // False when rules referencing the static GTFS were skipped
+  staticChecked: boolean;
+  notices: ValidationNotice[];
+  // Set when the realtime feed could not be fetched
+  error?: string;
+}
+
+async function buildStaticContext(opId: string): Promise<StaticContext | undefined> {
+  const [schedule, { data: stops }, { data: routes }] = await Promise.all([
+    fetchStaticSchedule(opId),
+    fetchStaticStops(opId),
+    fetchStaticRoutes(opId),
+  ]);
+  if (!schedule || stops.length === 0 || routes.length === 0) return undefined;
+
+  const trips = new Map(schedule.trips.map((trip) => [trip.trip_id, { routeId: trip.route_id, directionId: trip.direction_id }]));
+  const stopTypes = new Map(stops.map((stop) => [stop.stop_id, stop.location_type || 0]));
+  const lats = stops.map((stop) => stop.stop_lat!);
+  const lons = stops.map((stop) => stop.stop_lon!);
+  const stopSequences: Map<string, Map<number, string>> = new Map();
+
+  return {
+    routeIds: new Set(routes.map((route) => route.route_id)),
+    trips,
+    stops: stopTypes,
+    bounds: [Math.min(...lats), Math.min(...lons), Math.max(...lats), Math.max(...lons)],
+    getStopTimes: (tripId) => {
+      let sequences = stopSequences.get(tripId);
+      const stopTimes = schedule.stopTimesByTrip.get(tripId);
+      if (!sequences && stopTimes) {
+        sequences = new Map(stopTimes.map((stopTime) => [stopTime.stop_sequence, stopTime.stop_id]));
+        stopSequences.set(tripId, sequences);
+      }
+      return sequences;
+    },
+  };
+}
+
+async function validateOperator(opId: string, now = Date.now()): Promise<OperatorValidation> {
+  let realtime: RealtimeFeedResult;
+  try {
+    realtime = await getRealtimeFeed(opId);
+  } catch (error) {
+    return {
+      operatorId: opId,
+      entityCount: 0,
+      errors: 0,
+      warnings: 0,
+      staticChecked: false,
+      notices: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+
+  const context = await buildStaticContext(opId);
+  const notices = validateRealtimeFeed(realtime.upstream, { now, static: context });
+  const count = (severity: string) => notices
+    .filter((notice) => notice.severity === severity)
+    .reduce((total, notice) => total + notice.occurrences, 0);
+
+  return {
+    operatorId: opId,
+    feedTimestamp: realtime.upstream.header?.timestamp || undefined,
+    fetchedAt: realtime.fetchedAt,
+    entityCount: realtime.upstream.entity?.length || 0,
+    errors: count('ERROR'),
+    warnings: count('WARNING'),
+    staticChecked: context !== undefined,
+    notices,
+    ...(realtime.stale ? { error: realtime.error } : {}),
+  };
+}
+
+// Static feed validation (/static/validate): each operator's GTFS archive
+// checked file by file
+const STATIC_VALIDATION_TTL = 60 * 60 * 1000; // 1 hour
+
+interface StaticValidationReport {
+  operatorId: string;
+  validatedAt: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+  notices: StaticValidationNotice[];
+  // Set when the archive could not be downloaded or opened
+  error?: string;
+}
+
+const staticValidationCache: Map<string, StaticValidationReport> = new Map();
+
+async function validateStaticOperator(opId: string): Promise<StaticValidationReport> {
+  const cached = staticValidationCache.get(opId);
+  if (cached && Date.now() - cached.validatedAt < STATIC_VALIDATION_TTL) {
+    return cached;
+  }
+  
+  const report: StaticValidationReport = {
+    operatorId: opId,
+    validatedAt: Date.now(),
+    errors: 0,
+    warnings: 0,
+    infos: 0,
+    notices: [],
+  };
+  const url = getFeed(opId)?.static;
+  if (!url) {
+    return { ...report, error: `Unknown operator ${opId}` };
+  }
+  
+  try {
+    console.log(`Validating static GTFS for operator ${opId}`);
+    const zipData = await downloadStaticFeed(opId);
+    report.notices = await validateStaticFeed((fileName, onIssue) => {
+      const entry = findZipEntries(zipData, [fileName]).get(fileName);
+      return entry ? readCsv(openZipEntry(zipData, entry), { onIssue }) : null;
+    }, { today: getServiceDate() });
+  } catch (error) {
+    console.error(`Error validating static GTFS for operator ${opId}:`, error);
+    return { ...report, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  
+  for (const notice of report.notices) {
+    if (notice.severity === 'ERROR') report.errors += notice.occurrences;
+    if (notice.severity === 'WARNING') report.warnings += notice.occurrences;
+    if (notice.severity === 'INFO') report.infos += notice.occurrences;
+  }
+  console.log(`Static GTFS for operator ${opId}: ${report.errors} errors, ${report.warnings} warnings`);
+  
+  staticValidationCache.set(opId, report);
+  return report;
+}
+
+// Realtime history (/history): vehicle positions and trip updates recorded
+// into Postgres. A scheduler such as pg_cron calls POST /history/record every
+// minute with a duration, and the function samples the feeds until it ends.
+const HISTORY_RECORD_INTERVAL = 10 * 1000; // 10 seconds
+const MAX_HISTORY_RECORD_DURATION = 120 * 1000; // 2 minutes
+const DEFAULT_HISTORY_RETENTION_DAYS = 14;
+
+let historyStore: HistoryStore | null | undefined;
+
+// Null when no database is configured
+function getHistoryStore(): HistoryStore | null {
+  if (historyStore === undefined) {
+    const databaseUrl = Deno.env.get('HISTORY_DATABASE_URL') || Deno.env.get('SUPABASE_DB_URL');
+    historyStore = databaseUrl ? new HistoryStore(databaseUrl) : null;
+  }
+  return historyStore;
+}
+
+// Compares in constant time, so response times do not reveal how much of a
+// guessed secret was right
+function recorderSecretMatches(candidate: string | null, secret: string): boolean {
+  if (candidate === null) return false;
+  const encoder = new TextEncoder();
+  const given = encoder.encode(candidate);
+  const expected = encoder.encode(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+interface HistoryRecordResult {
+  passes: number;
+  vehiclePositions: number;
+  tripUpdates: number;
+  pruned: number;
+  failedOperators: string[];
+}
+
+async function recordHistory(store: HistoryStore, duration: number): Promise<HistoryRecordResult> {
+  const result: HistoryRecordResult = { passes: 0, vehiclePositions: 0, tripUpdates: 0, pruned: 0, failedOperators: [] };
+  const deadline = Date.now() + duration;
+  const failed = new Set<string>();
+
+  while (true) {
+    result.passes++;
+    for (const { id: opId } of getFeedRegistry().feeds.filter((feed) => feed.realtime.length > 0)) {
+      try {
+        const realtime = await getRealtimeFeed(opId);
+        // A stale feed was recorded when it was fresh
+        if (realtime.stale) continue;
+        result.vehiclePositions += await store.recordVehiclePositions(vehiclePositionRows(opId, realtime.feed, realtime.fetchedAt));
+        // The schedule gives delays to feeds that only send times
+        const schedule = await fetchStaticSchedule(opId);
+        result.tripUpdates += await store.recordTripUpdates(tripUpdateRows(opId, realtime.feed, realtime.fetchedAt, schedule));
+      } catch (error) {
+        console.error(`Error recording history for operator ${opId}:`, error);
+        failed.add(opId);
+      }
     }
+
+    if (Date.now() + HISTORY_RECORD_INTERVAL > deadline) break;
+    await new Promise((resolve) => setTimeout(resolve, HISTORY_RECORD_INTERVAL));
   }
+
+  const retentionDays = Number(Deno.env.get('HISTORY_RETENTION_DAYS')) || DEFAULT_HISTORY_RETENTION_DAYS;
+  result.pruned = await store.prune(retentionDays);
+  result.failedOperators = Array.from(failed);
+  console.log(`Recorded ${result.vehiclePositions} vehicle positions and ${result.tripUpdates} trip updates, pruned ${result.pruned} rows`);
+  return result;
+}
+
+// Cached static data age in seconds by kind; absent when not loaded
+function staticCacheAges(opId: string, now = Date.now()): Record<string, number> {
+  const ages: Record<string, number> = {};
+  const entries: [string, { timestamp: number } | undefined][] = [
+    ['routes', routesCache.get(`routes_${opId}`)],
+    ['stops', stopsCache.get(`stops_${opId}`)],
+    ['schedule', scheduleCache.get(`schedule_${opId}`)],
+    ['metadata', metadataCache.get(`metadata_${opId}`)],
+  ];
+  for (const [kind, entry] of entries) {
+    if (entry) ages[kind] = Math.round((now - entry.timestamp) / 1000);
+  }
+  return ages;
+}
+
+type HealthState = 'ok' | 'degraded' | 'down';
+
+// Down when every realtime feed tried is failing, degraded when any upstream
+// is failing
+function buildHealthReport(now = Date.now()) {
+  const upstreams = Array.from(upstreamStatus.values()).map((status) => {
+    const cached = status.source === 'realtime' ? realtimeCache.get(status.operatorId) : undefined;
+    const circuit = circuitState(status.source, status.operatorId, now);
+    return {
+      ...status,
+      ok: status.consecutiveFailures === 0,
+      errorRate: status.failures / status.attempts,
+      circuit,
+      ...(cached ? { feedAge: Math.round((now - cached.timestamp) / 1000), entityCount: cached.feed.entity?.length || 0 } : {}),
+    };
+  });
+  const realtime = upstreams.filter((upstream) => upstream.source === 'realtime');
+  const state: HealthState = realtime.length > 0 && realtime.every((upstream) => !upstream.ok)
+    ? 'down'
+    : upstreams.some((upstream) => !upstream.ok) ? 'degraded' : 'ok';
   
-  return allStops;
+  return {
+    status: state,
+    uptime: Math.round((now - STARTED_AT) / 1000),
+    realtime,
+    static: upstreams.filter((upstream) => upstream.source === 'static'),
+    caches: feedIds().map((opId) => ({ operatorId: opId, ages: staticCacheAges(opId, now) })),
+  };
 }
 
-serve(async (req) => {
+// Gauges derived from the caches are refreshed on every scrape
+function renderMetrics(now = Date.now()): string {
+  proxyUptime.set({}, Math.round((now - STARTED_AT) / 1000));
+  realtimeCacheAge.reset();
+  for (const [feed, entry] of realtimeCache) {
+    realtimeCacheAge.set({ feed }, Math.round((now - entry.timestamp) / 1000));
+  }
+  upstreamCircuitOpen.reset();
+  for (const { source, operatorId } of circuitBreakers.values()) {
+    upstreamCircuitOpen.set({ source, operator: operatorId }, circuitState(source, operatorId, now) === 'open' ? 1 : 0);
+  }
+  staticCacheAge.reset();
+  for (const opId of feedIds()) {
+    for (const [kind, age] of Object.entries(staticCacheAges(opId, now))) {
+      staticCacheAge.set({ operator: opId, kind }, age);
+    }
+  }
+  return metrics.render();
+}
+
+const AVAILABLE_ENDPOINTS = ['/feed', '/gtfs-rt', '/vehicles', '/trips', '/alerts', '/snapshot', '/stream', '/operators', '/routes', '/stops', '/stops/{stop_id}/departures', '/shapes', '/headways', '/validate', '/static/validate', '/history/vehicles', '/history/trip-updates', '/history/record', '/analytics/otp', '/schedule/trips', '/schedule/stop_times', '/health', '/metrics'];
+
+// Endpoint label for request metrics, bounded to the known endpoints
+function metricsEndpoint(path: string): string {
+  if (path === '') return '/feed';
+  if (/^\/stops\/[^/]+\/departures$/.test(path)) return '/stops/{stop_id}/departures';
+  return AVAILABLE_ENDPOINTS.includes(path) ? path : 'other';
+}
+
+// Endpoints returning realtime lists that accept the filter parameters
+const REALTIME_LIST_PATHS = ['/vehicles', '/trips', '/alerts', '/snapshot', '/stream'];
+
+async function handleRequest(req: Request): Promise<Response> {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -1079,12 +1632,92 @@ serve(async (req) => {
   console.log(`Request path: ${path}, operator: ${operatorId || 'all'}`);
 
   try {
+    const { filter, error: filterError } = parseFeedFilter(url.searchParams);
+    if (filterError && (path === '/gtfs-rt' || REALTIME_LIST_PATHS.includes(path))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid filter', message: filterError, timestamp: Date.now() }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+    
+    // Static-only feeds and unknown operators have nothing to serve in realtime
+    const realtimePath = path === '' || path === '/feed' || path === '/gtfs-rt' || REALTIME_LIST_PATHS.includes(path);
+    if (realtimePath && operatorId && operatorId !== 'all' && !getFeed(operatorId)?.realtime.length) {
+      return new Response(
+        JSON.stringify({
+          error: 'No realtime feed',
+          message: `Operator ${operatorId} has no realtime feed`,
+          timestamp: Date.now(),
+        }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Handle health and metrics endpoints
+    if (path === '/health') {
+      // A fresh instance has not talked to upstream yet; try the combined feed once
+      if (!Array.from(upstreamStatus.values()).some((status) => status.source === 'realtime')) {
+        await getRealtimeFeed().catch(() => undefined);
+      }
+      
+      const report = buildHealthReport();
+      return new Response(
+        JSON.stringify({
+          data: report,
+          timestamp: Date.now(),
+        }),
+        { 
+          status: report.status === 'down' ? 503 : 200,
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache',
+          } 
+        }
+      );
+    }
+    
+    if (path === '/metrics') {
+      return new Response(renderMetrics(), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+    
+    if (path === '/operators') {
+      const { data: operators, failedOperators } = await fetchOperators(operatorId);
+      return new Response(
+        JSON.stringify({
+          data: operators,
+          ...(failedOperators.length > 0 ? { failedOperators } : {}),
+          timestamp: Date.now(),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=3600',
+          } 
+        }
+      );
+    }
+    
     // Handle static routes endpoint separately
     if (path === '/routes') {
-      const routes = await fetchStaticRoutes(operatorId);
+      const { data: routes, failedOperators } = await fetchStaticRoutes(operatorId);
       return new Response(
         JSON.stringify({
           data: routes,
+          ...(failedOperators.length > 0 ? { failedOperators } : {}),
           timestamp: Date.now(),
         }),
         { 
@@ -1099,10 +1732,272 @@ serve(async (req) => {
     
     // Handle static stops endpoint
     if (path === '/stops') {
-      const stops = await fetchStaticStops(operatorId);
+      const { data: stops, failedOperators } = await fetchStaticStops(operatorId);
       return new Response(
         JSON.stringify({
           data: stops,
+          ...(failedOperators.length > 0 ? { failedOperators } : {}),
+          timestamp: Date.now(),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=3600',
+          } 
+        }
+      );
+    }
+
+    // Handle standard GTFS-Realtime binary output
+    if (path === '/gtfs-rt') {
+      const realtime = await getRealtimeFeed(operatorId);
+      const stopCoords = hasSpatialFilter(filter) ? await getStopCoords(operatorId) : new Map<string, [number, number]>();
+      // With a valid since token the response is a DIFFERENTIAL feed
+      const since = url.searchParams.get('since');
+      const delta = since ? getFeedDelta(realtime, since, filter, stopCoords) : null;
+      const output = delta ? delta.feed : filterFeed(realtime.feed, filter, stopCoords);
+      
+      // encodeFeedMessage returns a fresh array that owns its whole buffer
+      return new Response(encodeFeedMessage(output).buffer as ArrayBuffer, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/x-protobuf',
+          'Cache-Control': 'no-cache',
+          'Last-Modified': new Date(realtime.fetchedAt).toUTCString(),
+          'X-Since-Token': delta ? delta.token : realtime.token,
+          'Access-Control-Expose-Headers': `${corsHeaders['Access-Control-Expose-Headers']}, X-Since-Token, X-Feed-Stale`,
+          ...(realtime.stale ? { 'X-Feed-Stale': 'true' } : {}),
+        },
+      });
+    }
+
+    // Handle realtime change stream
+    if (path === '/stream') {
+      const stopCoords = hasSpatialFilter(filter) ? await getStopCoords(operatorId) : new Map<string, [number, number]>();
+      return streamRealtime(req, operatorId, filter, stopCoords, getPreferredLanguages(url, req));
+    }
+
+    // Handle stop departures endpoint
+    const departuresMatch = path.match(/^\/stops\/([^/]+)\/departures$/);
+    if (departuresMatch) {
+      const stopId = decodeURIComponent(departuresMatch[1]);
+      const limitParam = url.searchParams.get('limit');
+      const limit = limitParam ? parseInt(limitParam) : DEFAULT_DEPARTURES_LIMIT;
+      if (!(limit > 0 && limit <= MAX_DEPARTURES_LIMIT)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid limit', message: `limit must be between 1 and ${MAX_DEPARTURES_LIMIT}`, timestamp: Date.now() }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      
+      const { departures, realtime } = await fetchStopDepartures(operatorId, stopId, limit);
+      return new Response(
+        JSON.stringify({
+          data: departures,
+          timestamp: Date.now(),
+          fetchedAt: realtime?.fetchedAt,
+          ...(realtime?.stale ? { stale: true, staleReason: realtime.error } : {}),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache',
+          } 
+        }
+      );
+    }
+
+    // Handle feed validation endpoint
+    if (path === '/validate') {
+      const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+      const reports: OperatorValidation[] = await Promise.all(operators.map((opId) => validateOperator(opId)));
+      
+      return new Response(
+        JSON.stringify({
+          data: reports,
+          timestamp: Date.now(),
+        }, bigintReplacer),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache',
+          } 
+        }
+      );
+    }
+
+    // Handle static feed validation endpoint
+    if (path === '/static/validate') {
+      const operators = operatorId && operatorId !== 'all' ? [operatorId] : feedIds();
+      const reports: StaticValidationReport[] = await Promise.all(operators.map((opId) => validateStaticOperator(opId)));
+      
+      return new Response(
+        JSON.stringify({
+          data: reports,
+          timestamp: Date.now(),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=300',
+          } 
+        }
+      );
+    }
+
+    // Handle realtime history endpoints
+    if (path.startsWith('/history/')) {
+      const store = getHistoryStore();
+      if (!store) {
+        return new Response(
+          JSON.stringify({ error: 'History unavailable', message: 'No history database is configured', timestamp: Date.now() }),
+          { 
+            status: 503, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      
+      if (path === '/history/record') {
+        const secret = Deno.env.get('HISTORY_RECORDER_SECRET');
+        if (req.method !== 'POST' || !secret || !recorderSecretMatches(req.headers.get('x-recorder-secret'), secret)) {
+          return new Response(
+            JSON.stringify({ error: 'Forbidden', message: 'Recording requires POST with the recorder secret', timestamp: Date.now() }),
+            { 
+              status: 403, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
+        }
+        
+        const duration = Math.min(Number(url.searchParams.get('duration')) || 0, MAX_HISTORY_RECORD_DURATION / 1000) * 1000;
+        const result = await recordHistory(store, duration);
+        return new Response(
+          JSON.stringify({ data: result, timestamp: Date.now() }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      
+      if (path === '/history/vehicles' || path === '/history/trip-updates') {
+        const { query, error: queryError } = parseHistoryQuery(url.searchParams);
+        if (!query) {
+          return new Response(
+            JSON.stringify({ error: 'Invalid query', message: queryError, timestamp: Date.now() }),
+            { 
+              status: 400, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
+        }
+        
+        // With `at`, each vehicle's last known position at that time
+        const data = path === '/history/trip-updates'
+          ? await store.tripUpdates(query)
+          : url.searchParams.has('at')
+          ? await store.latestVehiclePositions(query)
+          : await store.vehiclePositions(query);
+        
+        return new Response(
+          JSON.stringify({
+            data,
+            from: query.from.toISOString(),
+            to: query.to.toISOString(),
+            timestamp: Date.now(),
+          }),
+          { 
+            headers: { 
+              ...corsHeaders, 
+              'Content-Type': 'application/json',
+              'Cache-Control': 'no-cache',
+            } 
+          }
+        );
+      }
+    }
+
+    // Handle on-time performance endpoint
+    if (path === '/analytics/otp') {
+      const store = getHistoryStore();
+      if (!store) {
+        return new Response(
+          JSON.stringify({ error: 'History unavailable', message: 'No history database is configured', timestamp: Date.now() }),
+          { 
+            status: 503, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      
+      const { query, error: queryError } = parseOtpQuery(url.searchParams);
+      if (!query) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid query', message: queryError, timestamp: Date.now() }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      
+      const buckets = await store.otpBuckets(query, SERVICE_TIMEZONE);
+      return new Response(
+        JSON.stringify({
+          data: summarizeOtp(buckets, query),
+          timestamp: Date.now(),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=300',
+          } 
+        }
+      );
+    }
+
+    // Handle headway regularity endpoint
+    if (path === '/headways') {
+      const routeId = url.searchParams.get('route');
+      const headways = await fetchRouteHeadways(operatorId, routeId && routeId !== 'all' ? routeId : undefined);
+      return new Response(
+        JSON.stringify({
+          data: headways,
+          timestamp: Date.now(),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'no-cache',
+          } 
+        }
+      );
+    }
+
+    // Handle route geometry endpoint
+    if (path === '/shapes') {
+      const routeId = url.searchParams.get('route');
+      if (!routeId) {
+        return new Response(
+          JSON.stringify({ error: 'Missing parameter', message: 'route is required', timestamp: Date.now() }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      
+      const shapes = await fetchRouteShapes(operatorId, routeId);
+      return new Response(
+        JSON.stringify({
+          data: shapes,
           timestamp: Date.now(),
         }),
         { 
@@ -1115,26 +2010,91 @@ serve(async (req) => {
       );
     }
 
-    const feed = await fetchGtfsData(operatorId);
+    // Handle scheduled timetable endpoints
+    if (path === '/schedule/trips' || path === '/schedule/stop_times') {
+      const serviceDate = url.searchParams.get('date') || getServiceDate();
+      if (!/^\d{8}$/.test(serviceDate)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid date', message: 'date must be in YYYYMMDD format', timestamp: Date.now() }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+      
+      let results: OperatorResults<unknown>;
+      if (path === '/schedule/trips') {
+        results = await fetchScheduledTrips(operatorId, serviceDate, url.searchParams.get('route') || undefined);
+      } else {
+        const tripId = url.searchParams.get('trip') || undefined;
+        const stopId = url.searchParams.get('stop') || undefined;
+        if (!tripId && !stopId) {
+          return new Response(
+            JSON.stringify({ error: 'Missing parameter', message: 'trip or stop is required', timestamp: Date.now() }),
+            { 
+              status: 400, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          );
+        }
+        results = await fetchScheduledStopTimes(operatorId, serviceDate, { tripId, stopId });
+      }
+      
+      return new Response(
+        JSON.stringify({
+          data: results.data,
+          ...(results.failedOperators.length > 0 ? { failedOperators: results.failedOperators } : {}),
+          serviceDate,
+          timestamp: Date.now(),
+        }),
+        { 
+          headers: { 
+            ...corsHeaders, 
+            'Content-Type': 'application/json',
+            'Cache-Control': 'public, max-age=3600',
+          } 
+        }
+      );
+    }
+
+    const realtime = await getRealtimeFeed(operatorId);
+    const { feed, fetchedAt, stale, error: staleReason } = realtime;
+    const languages = getPreferredLanguages(url, req);
+    // Stop locations place trip updates and alerts in an area; vehicles carry their own position
+    const stopCoords = hasSpatialFilter(filter) && path !== '/vehicles'
+      ? await getStopCoords(operatorId)
+      : new Map<string, [number, number]>();
+    
+    // A since token from an earlier response limits the lists to entities
+    // changed after it. Unknown or expired tokens get the full lists.
+    const since = url.searchParams.get('since');
+    const scope = path === '/feed' || path === '' ? {} : filter;
+    const delta = since ? getFeedDelta(realtime, since, scope, stopCoords) : null;
+    const source = delta ? delta.feed : feed;
+    const sourceFilter = delta ? {} : filter;
     let data: unknown;
 
     switch (path) {
       case '/feed':
       case '':
-        data = feed;
+        data = source;
         break;
       case '/vehicles':
-        data = extractVehicles(feed);
+        data = extractVehicles(source, sourceFilter);
         break;
       case '/trips':
-        data = extractTrips(feed);
+        data = extractTrips(source, sourceFilter, stopCoords);
         break;
       case '/alerts':
-        data = extractAlerts(feed);
+        data = extractAlerts(source, languages, sourceFilter, stopCoords);
+        break;
+      case '/snapshot':
+        data = { ...buildSnapshot(source, sourceFilter, stopCoords, languages), liveRouteIds: getLiveRouteIds(feed) };
         break;
       default:
         return new Response(
-          JSON.stringify({ error: 'Not found', availableEndpoints: ['/feed', '/vehicles', '/trips', '/alerts', '/routes'] }),
+          JSON.stringify({ error: 'Not found', availableEndpoints: AVAILABLE_ENDPOINTS }),
           { 
             status: 404, 
             headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -1146,13 +2106,18 @@ serve(async (req) => {
       JSON.stringify({
         data,
         timestamp: Date.now(),
-        feedTimestamp: (feed.header?.timestamp as number) || undefined,
-      }),
+        feedTimestamp: feed.header?.timestamp || undefined,
+        fetchedAt,
+        sinceToken: delta ? delta.token : realtime.token,
+        ...(delta ? { incremental: true, deleted: delta.deleted } : {}),
+        ...(stale ? { stale, staleReason } : {}),
+      }, bigintReplacer),
       { 
         headers: { 
           ...corsHeaders, 
           'Content-Type': 'application/json',
           'Cache-Control': 'no-cache',
+          'Vary': 'Accept-Language',
         } 
       }
     );
@@ -1171,4 +2136,155 @@ serve(async (req) => {
       }
     );
   }
-});
\ No newline at end of file
+}
+
+// API keys (api-keys.ts) are checked when API_KEY_MODE is 'optional' or
+// 'required' and a database is configured
+const API_KEY_USAGE_FLUSH_INTERVAL = 10 * 1000; // 10 seconds
+// Monitoring, and the recorder with its own secret
+const KEYLESS_PATHS = ['/health', '/metrics', '/history/record'];
+
+let apiKeys: { gate: ApiKeyGate; store: ApiKeyStore; mode: ApiKeyMode } | null | undefined;
+let usageFlushTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Null when API keys are off
+function getApiKeys(): { gate: ApiKeyGate; store: ApiKeyStore; mode: ApiKeyMode } | null {
+  if (apiKeys === undefined) {
+    const mode = parseApiKeyMode(Deno.env.get('API_KEY_MODE'));
+    const databaseUrl = Deno.env.get('API_KEYS_DATABASE_URL') || Deno.env.get('SUPABASE_DB_URL');
+    if (mode !== 'off' && !databaseUrl) {
+      console.error(`API_KEY_MODE is ${mode} but no database is configured; API keys are not checked`);
+    }
+    if (mode !== 'off' && databaseUrl) {
+      const store = new ApiKeyStore(databaseUrl);
+      const gate = new ApiKeyGate((keyHash, day) => store.findKey(keyHash, day));
+      flushUsageOnShutdown(gate, store);
+      apiKeys = { gate, store, mode };
+    } else {
+      apiKeys = null;
+    }
+  }
+  return apiKeys;
+}
+
+// Supabase's edge runtime keeps an instance alive for promises passed here
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+function runInBackground(promise: Promise<unknown>) {
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(promise);
+}
+
+// Usage counters are written in batches. Counts of a failed write go back into
+// the counter for the next one.
+async function flushUsage(gate: ApiKeyGate, store: ApiKeyStore): Promise<void> {
+  const rows = gate.usage.drain();
+  try {
+    await store.recordUsage(rows);
+  } catch (error) {
+    console.error('Error recording API key usage:', error);
+    gate.usage.restore(rows);
+    scheduleUsageFlush(gate, store);
+  }
+}
+
+function scheduleUsageFlush(gate: ApiKeyGate, store: ApiKeyStore) {
+  if (usageFlushTimer !== undefined) return;
+  usageFlushTimer = setTimeout(() => {
+    usageFlushTimer = undefined;
+    runInBackground(flushUsage(gate, store));
+  }, API_KEY_USAGE_FLUSH_INTERVAL);
+}
+
+// Writes what is still counted before the instance shuts down
+function flushUsageOnShutdown(gate: ApiKeyGate, store: ApiKeyStore) {
+  addEventListener('beforeunload', () => {
+    clearTimeout(usageFlushTimer);
+    usageFlushTimer = undefined;
+    if (gate.usage.size > 0) runInBackground(flushUsage(gate, store));
+  });
+}
+
+function apiKeyRejection(decision: Exclude<ApiKeyDecision, { allowed: true }>): Response {
+  if (!('key' in decision)) {
+    return new Response(
+      JSON.stringify({
+        error: 'Unauthorized',
+        message: decision.reason === 'missing_key'
+          ? 'An API key is required in the x-api-key header'
+          : 'Unknown or revoked API key',
+        timestamp: Date.now(),
+      }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      error: decision.reason === 'quota_exceeded' ? 'Quota exceeded' : 'Rate limit exceeded',
+      message: decision.reason === 'quota_exceeded'
+        ? `The daily quota of ${decision.key.dailyQuota} requests is used up`
+        : `The rate limit is ${decision.limit} requests per minute`,
+      retryAfter: decision.retryAfter,
+      timestamp: Date.now(),
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json',
+        'Retry-After': String(decision.retryAfter),
+        'X-RateLimit-Limit': String(decision.limit),
+        'X-RateLimit-Remaining': '0',
+      }
+    }
+  );
+}
+
+async function handleKeyedRequest(req: Request): Promise<Response> {
+  const path = new URL(req.url).pathname.replace('/gtfs-proxy', '');
+  const keys = getApiKeys();
+  if (req.method === 'OPTIONS' || !keys || KEYLESS_PATHS.includes(path)) {
+    return await handleRequest(req);
+  }
+
+  let decision: ApiKeyDecision;
+  try {
+    decision = await keys.gate.check(req.headers.get('x-api-key'));
+  } catch (error) {
+    console.error('Error checking API key:', error);
+    return new Response(
+      JSON.stringify({ error: 'API key check unavailable', message: 'API keys cannot be checked right now', timestamp: Date.now() }),
+      {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '30' }
+      }
+    );
+  }
+  if (keys.gate.usage.size > 0) scheduleUsageFlush(keys.gate, keys.store);
+  // /metrics needs no key, so key names stay out of the labels
+  apiKeyRequests.inc({ outcome: decision.allowed ? 'allowed' : decision.reason });
+
+  if (!decision.allowed) {
+    if (decision.reason === 'missing_key' && keys.mode === 'optional') {
+      return await handleRequest(req);
+    }
+    return apiKeyRejection(decision);
+  }
+
+  const response = await handleRequest(req);
+  response.headers.set('X-RateLimit-Limit', String(decision.limit));
+  response.headers.set('X-RateLimit-Remaining', String(decision.remaining));
+  return response;
+}
+
+serve(async (req) => {
+  const startedAt = performance.now();
+  const response = await handleKeyedRequest(req);
+  const endpoint = metricsEndpoint(new URL(req.url).pathname.replace('/gtfs-proxy', ''));
+  proxyRequests.inc({ endpoint, status: String(response.status) });
+  proxyDuration.observe({ endpoint }, (performance.now() - startedAt) / 1000);
+  return response;
+});
@@ -0,0 +1,150 @@
+// Prometheus-style metrics for /metrics
+// Counters, gauges and histograms keyed by label set, rendered in the text
+// exposition format:
+// https://prometheus.io/docs/instrumenting/exposition_formats/
+
+export type Labels = Record<string, string>;
+
+// Request and download durations, seconds
+export const DEFAULT_DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map((name) => `${name}="${escapeLabelValue(labels[name])}"`).join(',');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+abstract class Metric {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  readonly name: string;
+  readonly help: string;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  protected abstract samples(): string[];
+
+  render(): string {
+    const samples = this.samples();
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...samples].join('\n');
+  }
+}
+
+class ValueMetric extends Metric {
+  readonly type: 'counter' | 'gauge';
+  protected values: Map<string, number> = new Map();
+
+  constructor(type: 'counter' | 'gauge', name: string, help: string) {
+    super(name, help);
+    this.type = type;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${key ? `{${key}}` : ''} ${formatValue(value)}`);
+  }
+}
+
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string) {
+    super('counter', name, help);
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+}
+
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string) {
+    super('gauge', name, help);
+  }
+
+  set(labels: Labels, value: number) {
+    this.values.set(labelKey(labels), value);
+  }
+
+  // Drops every label set, for gauges recomputed on each scrape
+  reset() {
+    this.values.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private buckets: number[];
+  private series: Map<string, { counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, buckets = DEFAULT_DURATION_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      const withLe = (le: string) => `{${key ? `${key},` : ''}le="${le}"}`;
+      this.buckets.forEach((bound, i) => lines.push(`${this.name}_bucket${withLe(formatValue(bound))} ${series.counts[i]}`));
+      lines.push(`${this.name}_bucket${withLe('+Inf')} ${series.count}`);
+      lines.push(`${this.name}_sum${key ? `{${key}}` : ''} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${key ? `{${key}}` : ''} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  render(): string {
+    return this.metrics.map((metric) => metric.render()).join('\n\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
@@ -0,0 +1,118 @@
+// Operator metadata for /operators
+// agency.txt and feed_info.txt of each static feed give the contact details,
+// the feed version and the dates the feed is valid for. Feeds without
+// feed_info.txt dates fall back to the service period of their calendar.
+
+import { daysBetween, isValidDate } from './static-validator.ts';
+
+export interface AgencyInfo {
+  id?: string;
+  name: string;
+  url: string;
+  timezone: string;
+  lang?: string;
+  phone?: string;
+  fareUrl?: string;
+  email?: string;
+}
+
+export interface FeedInfo {
+  publisherName: string;
+  publisherUrl: string;
+  lang: string;
+  version?: string;
+  startDate?: string;
+  endDate?: string;
+  contactEmail?: string;
+  contactUrl?: string;
+}
+
+export interface OperatorMetadata {
+  agencies: AgencyInfo[];
+  feedInfo?: FeedInfo;
+  // First and last dates of calendar.txt and calendar_dates.txt, YYYYMMDD
+  serviceStart?: string;
+  serviceEnd?: string;
+}
+
+export type FeedValidity = 'valid' | 'expiring' | 'expired' | 'not_yet_valid' | 'unknown';
+
+export interface FeedValidityInfo {
+  validity: FeedValidity;
+  validFrom?: string;
+  validUntil?: string;
+  // Days from today to validUntil; negative once expired
+  daysLeft?: number;
+}
+
+// A feed ending within this many days counts as expiring
+export const FEED_EXPIRY_WARNING_DAYS = 7;
+
+export type MetadataFileReader = (fileName: string) => AsyncIterable<Record<string, string>>;
+
+const optional = (value: string | undefined) => value || undefined;
+
+export async function readOperatorMetadata(readFile: MetadataFileReader): Promise<OperatorMetadata> {
+  const agencies: AgencyInfo[] = [];
+  for await (const row of readFile('agency.txt')) {
+    if (!row.agency_name) continue;
+    agencies.push({
+      id: optional(row.agency_id),
+      name: row.agency_name,
+      url: row.agency_url || '',
+      timezone: row.agency_timezone || '',
+      lang: optional(row.agency_lang),
+      phone: optional(row.agency_phone),
+      fareUrl: optional(row.agency_fare_url),
+      email: optional(row.agency_email),
+    });
+  }
+
+  // feed_info.txt has a single record
+  let feedInfo: FeedInfo | undefined;
+  for await (const row of readFile('feed_info.txt')) {
+    feedInfo ??= {
+      publisherName: row.feed_publisher_name || '',
+      publisherUrl: row.feed_publisher_url || '',
+      lang: row.feed_lang || '',
+      version: optional(row.feed_version),
+      startDate: isValidDate(row.feed_start_date || '') ? row.feed_start_date : undefined,
+      endDate: isValidDate(row.feed_end_date || '') ? row.feed_end_date : undefined,
+      contactEmail: optional(row.feed_contact_email),
+      contactUrl: optional(row.feed_contact_url),
+    };
+  }
+
+  let serviceStart: string | undefined;
+  let serviceEnd: string | undefined;
+  const extend = (start: string | undefined, end: string | undefined) => {
+    if (start && isValidDate(start) && (!serviceStart || start < serviceStart)) serviceStart = start;
+    if (end && isValidDate(end) && (!serviceEnd || end > serviceEnd)) serviceEnd = end;
+  };
+  for await (const row of readFile('calendar.txt')) {
+    extend(row.start_date, row.end_date);
+  }
+  for await (const row of readFile('calendar_dates.txt')) {
+    // Removed dates do not extend the service period
+    if (row.exception_type === '1') extend(row.date, row.date);
+  }
+
+  return { agencies, feedInfo, serviceStart, serviceEnd };
+}
+
+export function feedValidity(metadata: OperatorMetadata, today: string): FeedValidityInfo {
+  const validFrom = metadata.feedInfo?.startDate || metadata.serviceStart;
+  const validUntil = metadata.feedInfo?.endDate || metadata.serviceEnd;
+  if (!validUntil) return { validity: 'unknown', validFrom };
+
+  const daysLeft = daysBetween(today, validUntil);
+  let validity: FeedValidity = 'valid';
+  if (daysLeft < 0) {
+    validity = 'expired';
+  } else if (validFrom && validFrom > today) {
+    validity = 'not_yet_valid';
+  } else if (daysLeft < FEED_EXPIRY_WARNING_DAYS) {
+    validity = 'expiring';
+  }
+  return { validity, validFrom, validUntil, daysLeft };
+}
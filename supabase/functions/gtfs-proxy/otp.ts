@@ -0,0 +1,157 @@
+// On-time performance from the recorded trip updates
+// A stop event is one stop of one trip on one service day; its delay is the
+// last one recorded for the stop before it dropped out of the feed. The
+// database counts events per operator, route, direction and hour of day
+// (history-store.ts); this module parses the query and rolls the counts up.
+
+import { parseTimeParam } from './history.ts';
+
+export interface OtpThresholds {
+  // Seconds ahead of schedule before an event counts as early
+  early: number;
+  // Seconds behind schedule before an event counts as late
+  late: number;
+}
+
+export interface OtpQuery {
+  operatorId?: string;
+  routeId?: string;
+  from: Date;
+  to: Date;
+  thresholds: OtpThresholds;
+}
+
+// Event counts for one operator, route, direction and hour of day
+export interface OtpBucket {
+  operator_id: string;
+  route_id: string | null;
+  direction_id: number | null;
+  hour: number;
+  early: number;
+  on_time: number;
+  late: number;
+}
+
+export interface OtpCounts {
+  early: number;
+  onTime: number;
+  late: number;
+  total: number;
+  // onTime / total, or null without events
+  onTimeShare: number | null;
+}
+
+export interface OtpReport {
+  from: string;
+  to: string;
+  thresholds: OtpThresholds;
+  overall: OtpCounts;
+  operators: (OtpCounts & { operatorId: string })[];
+  // Per route and direction, lowest on-time share first
+  routes: (OtpCounts & { operatorId: string; routeId: string | null; directionId: number | null })[];
+  // Hours 0-23 in the service timezone
+  hours: (OtpCounts & { hour: number })[];
+}
+
+// A common definition: up to 1 minute early and 5 minutes late is on time
+export const DEFAULT_OTP_THRESHOLDS: OtpThresholds = { early: 60, late: 300 };
+export const MAX_OTP_THRESHOLD = 3600;
+export const DEFAULT_OTP_RANGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const MAX_OTP_RANGE = 31 * 24 * 60 * 60 * 1000; // 31 days
+
+function emptyCounts(): OtpCounts {
+  return { early: 0, onTime: 0, late: 0, total: 0, onTimeShare: null };
+}
+
+function addBucket(counts: OtpCounts, bucket: OtpBucket) {
+  counts.early += bucket.early;
+  counts.onTime += bucket.on_time;
+  counts.late += bucket.late;
+  counts.total += bucket.early + bucket.on_time + bucket.late;
+  counts.onTimeShare = counts.total > 0 ? counts.onTime / counts.total : null;
+}
+
+// Counts of the buckets grouped by key, in first-seen order
+function groupCounts<T extends object>(buckets: OtpBucket[], keyOf: (bucket: OtpBucket) => T): (OtpCounts & T)[] {
+  const groups: Map<string, OtpCounts & T> = new Map();
+  for (const bucket of buckets) {
+    const key = keyOf(bucket);
+    const id = JSON.stringify(key);
+    let group = groups.get(id);
+    if (!group) {
+      group = { ...key, ...emptyCounts() };
+      groups.set(id, group);
+    }
+    addBucket(group, bucket);
+  }
+  return Array.from(groups.values());
+}
+
+export function summarizeOtp(buckets: OtpBucket[], query: OtpQuery): OtpReport {
+  const overall = emptyCounts();
+  buckets.forEach((bucket) => addBucket(overall, bucket));
+
+  const operators = groupCounts(buckets, (bucket) => ({ operatorId: bucket.operator_id }))
+    .sort((a, b) => a.operatorId.localeCompare(b.operatorId, undefined, { numeric: true }));
+
+  const routes = groupCounts(buckets, (bucket) => ({
+    operatorId: bucket.operator_id,
+    routeId: bucket.route_id,
+    directionId: bucket.direction_id,
+  })).sort((a, b) => (a.onTimeShare ?? 1) - (b.onTimeShare ?? 1) || b.total - a.total);
+
+  const byHour = new Map(groupCounts(buckets, (bucket) => ({ hour: bucket.hour })).map((group) => [group.hour, group]));
+  const hours = Array.from({ length: 24 }, (_, hour) => byHour.get(hour) || { hour, ...emptyCounts() });
+
+  return {
+    from: query.from.toISOString(),
+    to: query.to.toISOString(),
+    thresholds: query.thresholds,
+    overall,
+    operators,
+    routes,
+    hours,
+  };
+}
+
+// OTP query from the operator, route, from/to and early/late (seconds) parameters
+export function parseOtpQuery(params: URLSearchParams, now = Date.now()): { query?: OtpQuery; error?: string } {
+  const thresholds = { ...DEFAULT_OTP_THRESHOLDS };
+  for (const name of ['early', 'late'] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+    const seconds = Number(value);
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_OTP_THRESHOLD) {
+      return { error: `${name} must be a number of seconds between 0 and ${MAX_OTP_THRESHOLD}` };
+    }
+    thresholds[name] = seconds;
+  }
+
+  const times: Record<string, Date | undefined> = {};
+  for (const name of ['from', 'to']) {
+    const value = params.get(name);
+    if (!value) continue;
+    const time = parseTimeParam(value);
+    if (!time) return { error: `${name} must be an ISO 8601 time or Unix seconds` };
+    times[name] = time;
+  }
+
+  const to = times.to || new Date(now);
+  const from = times.from || new Date(to.getTime() - DEFAULT_OTP_RANGE);
+  if (from > to) return { error: 'from must be before to' };
+  if (to.getTime() - from.getTime() > MAX_OTP_RANGE) {
+    return { error: `The time range cannot exceed ${MAX_OTP_RANGE / (24 * 3600000)} days` };
+  }
+
+  const operator = params.get('operator');
+  const route = params.get('route');
+  return {
+    query: {
+      operatorId: operator && operator !== 'all' ? operator : undefined,
+      routeId: route && route !== 'all' ? route : undefined,
+      from,
+      to,
+      thresholds,
+    },
+  };
+}
@@ -0,0 +1,364 @@
+// Protocol Buffers wire format decoder
+// Encoding reference: https://protobuf.dev/programming-guides/encoding/
+//
+// parseProtobuf() only splits a message into fields. The wire format does not
+// say how a varint or fixed-width value should be interpreted, so callers pick
+// the field's declared proto type with the as*() accessors below.
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_START_GROUP = 3;
+export const WIRE_END_GROUP = 4;
+export const WIRE_FIXED32 = 5;
+
+export class ProtobufDecodeError extends Error {
+  offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} at offset ${offset}`);
+    this.name = 'ProtobufDecodeError';
+    this.offset = offset;
+  }
+}
+
+// 64-bit integers are returned as numbers while they are exactly representable
+// and as bigints beyond Number.MAX_SAFE_INTEGER
+export type Int64 = number | bigint;
+
+export interface ParsedField {
+  fieldNumber: number;
+  wireType: number;
+  // Varint payload (wire type 0)
+  value?: Int64;
+  // Payload of length-delimited (wire type 2) and fixed-width (wire types 1 and 5) fields
+  rawBytes?: Uint8Array;
+}
+
+const MAX_VARINT_BYTES = 10;
+
+export function readVarint(data: Uint8Array, offset: number): { value: Int64; bytesRead: number } {
+  let result = 0;
+  let multiplier = 1;
+
+  // Fast path: up to 7 bytes (49 bits) can be accumulated exactly in a double
+  for (let i = 0; i < 7; i++) {
+    if (offset + i >= data.length) throw new ProtobufDecodeError('Truncated varint', offset);
+    const byte = data[offset + i];
+    result += (byte & 0x7F) * multiplier;
+    if ((byte & 0x80) === 0) return { value: result, bytesRead: i + 1 };
+    multiplier *= 128;
+  }
+
+  let big = BigInt(result);
+  let shift = 49n;
+  for (let i = 7; i < MAX_VARINT_BYTES; i++) {
+    if (offset + i >= data.length) throw new ProtobufDecodeError('Truncated varint', offset);
+    const byte = data[offset + i];
+    big |= BigInt(byte & 0x7F) << shift;
+    if ((byte & 0x80) === 0) {
+      return { value: toSafeNumber(BigInt.asUintN(64, big)), bytesRead: i + 1 };
+    }
+    shift += 7n;
+  }
+
+  throw new ProtobufDecodeError('Varint longer than 10 bytes', offset);
+}
+
+function toSafeNumber(value: bigint): Int64 {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+function toBigInt(value: Int64): bigint {
+  return typeof value === 'bigint' ? value : BigInt(value);
+}
+
+function skipGroup(data: Uint8Array, offset: number, fieldNumber: number): number {
+  while (offset < data.length) {
+    const { value: tag, bytesRead } = readVarint(data, offset);
+    offset += bytesRead;
+    const wireType = Number(tag) & 0x7;
+
+    if (wireType === WIRE_END_GROUP) {
+      if (Math.floor(Number(tag) / 8) !== fieldNumber) {
+        throw new ProtobufDecodeError('Mismatched end group', offset);
+      }
+      return offset;
+    }
+    offset = skipField(data, offset, wireType, Math.floor(Number(tag) / 8));
+  }
+  throw new ProtobufDecodeError('Unterminated group', offset);
+}
+
+function skipField(data: Uint8Array, offset: number, wireType: number, fieldNumber: number): number {
+  switch (wireType) {
+    case WIRE_VARINT:
+      return offset + readVarint(data, offset).bytesRead;
+    case WIRE_FIXED64:
+      return offset + 8;
+    case WIRE_LENGTH_DELIMITED: {
+      const { value: length, bytesRead } = readVarint(data, offset);
+      return offset + bytesRead + Number(length);
+    }
+    case WIRE_START_GROUP:
+      return skipGroup(data, offset, fieldNumber);
+    case WIRE_FIXED32:
+      return offset + 4;
+    default:
+      throw new ProtobufDecodeError(`Unknown wire type ${wireType}`, offset);
+  }
+}
+
+export function parseProtobuf(data: Uint8Array): ParsedField[] {
+  const fields: ParsedField[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const tagOffset = offset;
+    const { value: tag, bytesRead: tagBytes } = readVarint(data, offset);
+    offset += tagBytes;
+
+    if (typeof tag === 'bigint' || tag > 0xFFFFFFFF) {
+      throw new ProtobufDecodeError('Field tag out of range', tagOffset);
+    }
+
+    const fieldNumber = Math.floor(tag / 8);
+    const wireType = tag & 0x7;
+
+    if (fieldNumber === 0) {
+      throw new ProtobufDecodeError('Invalid field number 0', tagOffset);
+    }
+
+    switch (wireType) {
+      case WIRE_VARINT: {
+        const { value, bytesRead } = readVarint(data, offset);
+        offset += bytesRead;
+        fields.push({ fieldNumber, wireType, value });
+        break;
+      }
+      case WIRE_FIXED64:
+      case WIRE_FIXED32: {
+        const size = wireType === WIRE_FIXED64 ? 8 : 4;
+        if (offset + size > data.length) {
+          throw new ProtobufDecodeError('Truncated fixed-width field', offset);
+        }
+        fields.push({ fieldNumber, wireType, rawBytes: data.subarray(offset, offset + size) });
+        offset += size;
+        break;
+      }
+      case WIRE_LENGTH_DELIMITED: {
+        const { value: length, bytesRead } = readVarint(data, offset);
+        offset += bytesRead;
+        if (Number(length) > data.length - offset) {
+          throw new ProtobufDecodeError('Length-delimited field exceeds message', offset);
+        }
+        fields.push({ fieldNumber, wireType, rawBytes: data.subarray(offset, offset + Number(length)) });
+        offset += Number(length);
+        break;
+      }
+      case WIRE_START_GROUP:
+        // Deprecated groups are not used by GTFS-RT; skip their contents
+        offset = skipGroup(data, offset, fieldNumber);
+        break;
+      default:
+        throw new ProtobufDecodeError(`Unknown wire type ${wireType}`, tagOffset);
+    }
+  }
+
+  return fields;
+}
+
+// Typed accessors. Each returns undefined when the field was encoded with a
+// wire type that does not match the requested proto type.
+
+export function asUint32(field: ParsedField): number | undefined {
+  if (field.wireType !== WIRE_VARINT || field.value === undefined) return undefined;
+  return typeof field.value === 'bigint' ? Number(BigInt.asUintN(32, field.value)) : field.value >>> 0;
+}
+
+export function asInt32(field: ParsedField): number | undefined {
+  // Negative int32 values are sign-extended to 64 bits on the wire
+  if (field.wireType !== WIRE_VARINT || field.value === undefined) return undefined;
+  return typeof field.value === 'bigint' ? Number(BigInt.asIntN(32, field.value)) : field.value | 0;
+}
+
+export function asSint32(field: ParsedField): number | undefined {
+  const n = asUint32(field);
+  if (n === undefined) return undefined;
+  return (n >>> 1) ^ -(n & 1);
+}
+
+export function asUint64(field: ParsedField): Int64 | undefined {
+  if (field.wireType !== WIRE_VARINT || field.value === undefined) return undefined;
+  return field.value;
+}
+
+export function asInt64(field: ParsedField): Int64 | undefined {
+  if (field.wireType !== WIRE_VARINT || field.value === undefined) return undefined;
+  if (typeof field.value === 'number') return field.value;
+  return toSafeNumber(BigInt.asIntN(64, field.value));
+}
+
+export function asSint64(field: ParsedField): Int64 | undefined {
+  if (field.wireType !== WIRE_VARINT || field.value === undefined) return undefined;
+  const n = toBigInt(field.value);
+  return toSafeNumber((n >> 1n) ^ -(n & 1n));
+}
+
+export function asBool(field: ParsedField): boolean | undefined {
+  if (field.wireType !== WIRE_VARINT || field.value === undefined) return undefined;
+  return field.value !== 0 && field.value !== 0n;
+}
+
+// Enums are encoded as int32
+export const asEnum = asInt32;
+
+function fixedView(field: ParsedField, wireType: number): DataView | undefined {
+  if (field.wireType !== wireType || !field.rawBytes) return undefined;
+  return new DataView(field.rawBytes.buffer, field.rawBytes.byteOffset, field.rawBytes.byteLength);
+}
+
+export function asFixed32(field: ParsedField): number | undefined {
+  return fixedView(field, WIRE_FIXED32)?.getUint32(0, true);
+}
+
+export function asSfixed32(field: ParsedField): number | undefined {
+  return fixedView(field, WIRE_FIXED32)?.getInt32(0, true);
+}
+
+export function asFloat(field: ParsedField): number | undefined {
+  return fixedView(field, WIRE_FIXED32)?.getFloat32(0, true);
+}
+
+export function asFixed64(field: ParsedField): Int64 | undefined {
+  const view = fixedView(field, WIRE_FIXED64);
+  return view ? toSafeNumber(view.getBigUint64(0, true)) : undefined;
+}
+
+export function asSfixed64(field: ParsedField): Int64 | undefined {
+  const view = fixedView(field, WIRE_FIXED64);
+  return view ? toSafeNumber(view.getBigInt64(0, true)) : undefined;
+}
+
+export function asDouble(field: ParsedField): number | undefined {
+  return fixedView(field, WIRE_FIXED64)?.getFloat64(0, true);
+}
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+export function asString(field: ParsedField): string | undefined {
+  if (field.wireType !== WIRE_LENGTH_DELIMITED || !field.rawBytes) return undefined;
+  return textDecoder.decode(field.rawBytes);
+}
+
+export function asBytes(field: ParsedField): Uint8Array | undefined {
+  if (field.wireType !== WIRE_LENGTH_DELIMITED) return undefined;
+  return field.rawBytes;
+}
+
+// Encoder for the same wire format. Fields are written in call order; unset
+// (undefined) values are skipped, so optional fields can be passed through.
+export class ProtobufWriter {
+  private bytes: number[] = [];
+
+  private varint(value: Int64) {
+    if (typeof value === 'number' && value >= 0 && Number.isSafeInteger(value)) {
+      while (value >= 0x80) {
+        this.bytes.push((value % 128) | 0x80);
+        value = Math.floor(value / 128);
+      }
+      this.bytes.push(value);
+      return;
+    }
+
+    // Negative values are written as 64-bit two's complement (ten bytes)
+    let big = BigInt.asUintN(64, BigInt(value));
+    while (big >= 0x80n) {
+      this.bytes.push(Number(big & 0x7Fn) | 0x80);
+      big >>= 7n;
+    }
+    this.bytes.push(Number(big));
+  }
+
+  private tag(fieldNumber: number, wireType: number) {
+    this.varint(fieldNumber * 8 + wireType);
+  }
+
+  private fixed(fieldNumber: number, wireType: number, size: number, write: (view: DataView) => void) {
+    this.tag(fieldNumber, wireType);
+    const buffer = new Uint8Array(size);
+    write(new DataView(buffer.buffer));
+    this.bytes.push(...buffer);
+  }
+
+  int32(fieldNumber: number, value: number | undefined): this {
+    if (value !== undefined) {
+      this.tag(fieldNumber, WIRE_VARINT);
+      this.varint(value);
+    }
+    return this;
+  }
+
+  uint32(fieldNumber: number, value: number | undefined): this {
+    return this.int32(fieldNumber, value === undefined ? undefined : value >>> 0);
+  }
+
+  int64(fieldNumber: number, value: Int64 | undefined): this {
+    if (value !== undefined) {
+      this.tag(fieldNumber, WIRE_VARINT);
+      this.varint(value);
+    }
+    return this;
+  }
+
+  uint64(fieldNumber: number, value: Int64 | undefined): this {
+    return this.int64(fieldNumber, value);
+  }
+
+  bool(fieldNumber: number, value: boolean | undefined): this {
+    return this.int32(fieldNumber, value === undefined ? undefined : value ? 1 : 0);
+  }
+
+  enum(fieldNumber: number, value: number | undefined): this {
+    return this.int32(fieldNumber, value);
+  }
+
+  float(fieldNumber: number, value: number | undefined): this {
+    if (value !== undefined) {
+      this.fixed(fieldNumber, WIRE_FIXED32, 4, (view) => view.setFloat32(0, value, true));
+    }
+    return this;
+  }
+
+  double(fieldNumber: number, value: number | undefined): this {
+    if (value !== undefined) {
+      this.fixed(fieldNumber, WIRE_FIXED64, 8, (view) => view.setFloat64(0, value, true));
+    }
+    return this;
+  }
+
+  bytesField(fieldNumber: number, value: Uint8Array | undefined): this {
+    if (value !== undefined) {
+      this.tag(fieldNumber, WIRE_LENGTH_DELIMITED);
+      this.varint(value.length);
+      for (const byte of value) this.bytes.push(byte);
+    }
+    return this;
+  }
+
+  string(fieldNumber: number, value: string | undefined): this {
+    return this.bytesField(fieldNumber, value === undefined ? undefined : textEncoder.encode(value));
+  }
+
+  // Embedded message, already encoded
+  message(fieldNumber: number, value: Uint8Array | undefined): this {
+    return this.bytesField(fieldNumber, value);
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
@@ -0,0 +1,71 @@
+// Change tracking for the realtime event stream
+// Each list (vehicles, trips, alerts) is tracked by item id. An item counts as
+// changed when its JSON serialization differs from the last one sent.
+
+import { bigintReplacer } from './gtfs-realtime.ts';
+
+export interface ListChanges<T> {
+  // Items added or changed since the previous update
+  changed: T[];
+  // Ids of items no longer present
+  removed: string[];
+}
+
+export class ListTracker<T extends { id: string }> {
+  private sent: Map<string, string> = new Map();
+
+  update(items: T[]): ListChanges<T> {
+    const next = new Map<string, string>();
+    const changed: T[] = [];
+
+    for (const item of items) {
+      const serialized = JSON.stringify(item, bigintReplacer);
+      next.set(item.id, serialized);
+      if (this.sent.get(item.id) !== serialized) changed.push(item);
+    }
+
+    const removed = Array.from(this.sent.keys()).filter((id) => !next.has(id));
+    this.sent = next;
+    return { changed, removed };
+  }
+}
+
+export interface SnapshotLists<V, T, A> {
+  vehicles: V[];
+  trips: T[];
+  alerts: A[];
+}
+
+export interface SnapshotChanges<V, T, A> {
+  vehicles: V[];
+  trips: T[];
+  alerts: A[];
+  removed: { vehicles: string[]; trips: string[]; alerts: string[] };
+}
+
+// Tracks the three realtime lists of one stream together
+export class SnapshotTracker<V extends { id: string }, T extends { id: string }, A extends { id: string }> {
+  private vehicles = new ListTracker<V>();
+  private trips = new ListTracker<T>();
+  private alerts = new ListTracker<A>();
+
+  // Changes since the previous call; the first call returns every item
+  update(snapshot: SnapshotLists<V, T, A>): SnapshotChanges<V, T, A> {
+    const vehicles = this.vehicles.update(snapshot.vehicles);
+    const trips = this.trips.update(snapshot.trips);
+    const alerts = this.alerts.update(snapshot.alerts);
+
+    return {
+      vehicles: vehicles.changed,
+      trips: trips.changed,
+      alerts: alerts.changed,
+      removed: { vehicles: vehicles.removed, trips: trips.removed, alerts: alerts.removed },
+    };
+  }
+}
+
+// True when an update carries nothing to send
+export function isEmptyChange(changes: SnapshotChanges<unknown, unknown, unknown>): boolean {
+  return changes.vehicles.length === 0 && changes.trips.length === 0 && changes.alerts.length === 0 &&
+    changes.removed.vehicles.length === 0 && changes.removed.trips.length === 0 && changes.removed.alerts.length === 0;
+}
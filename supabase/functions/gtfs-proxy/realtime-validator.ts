@@ -0,0 +1,386 @@
+// GTFS-Realtime feed validation
+// Rules and codes follow the MobilityData GTFS-Realtime validator
+// (https://github.com/MobilityData/gtfs-realtime-validator/blob/master/RULES.md).
+// Only rules that can be checked against a single feed are implemented; rules
+// referencing the static GTFS are skipped when no static context is given.
+
+import type { FeedEntity, GtfsRealtimeFeed, StopTimeUpdate, TripDescriptor } from './gtfs-realtime.ts';
+
+export type ValidationSeverity = 'ERROR' | 'WARNING';
+
+interface ValidationRule {
+  severity: ValidationSeverity;
+  title: string;
+}
+
+export const VALIDATION_RULES = {
+  E001: { severity: 'ERROR', title: 'Timestamp is not in POSIX time (seconds)' },
+  E002: { severity: 'ERROR', title: 'stop_time_updates are not sorted by stop_sequence' },
+  E003: { severity: 'ERROR', title: 'trip_id does not exist in the static GTFS' },
+  E004: { severity: 'ERROR', title: 'route_id does not exist in the static GTFS' },
+  E010: { severity: 'ERROR', title: 'stop_id does not reference a stop or platform (location_type 0)' },
+  E011: { severity: 'ERROR', title: 'stop_id does not exist in the static GTFS' },
+  E012: { severity: 'ERROR', title: 'Header timestamp is older than an entity timestamp' },
+  E020: { severity: 'ERROR', title: 'Invalid start_time format' },
+  E021: { severity: 'ERROR', title: 'Invalid start_date format' },
+  E022: { severity: 'ERROR', title: 'Stop time update times are not increasing' },
+  E024: { severity: 'ERROR', title: 'direction_id does not match the static GTFS' },
+  E025: { severity: 'ERROR', title: 'Stop time update arrival is after its departure' },
+  E026: { severity: 'ERROR', title: 'Invalid vehicle position' },
+  E027: { severity: 'ERROR', title: 'Invalid vehicle bearing' },
+  E028: { severity: 'ERROR', title: 'Vehicle position is outside the area served by the stops' },
+  E031: { severity: 'ERROR', title: 'Alert informed_entity route_id does not match its trip route_id' },
+  E032: { severity: 'ERROR', title: 'Alert has no informed_entity' },
+  E033: { severity: 'ERROR', title: 'Alert informed_entity has no specifiers' },
+  E035: { severity: 'ERROR', title: 'trip_id does not belong to route_id in the static GTFS' },
+  E036: { severity: 'ERROR', title: 'Sequential stop_time_updates have the same stop_sequence' },
+  E037: { severity: 'ERROR', title: 'Sequential stop_time_updates have the same stop_id' },
+  E039: { severity: 'ERROR', title: 'FULL_DATASET feed contains is_deleted entities' },
+  E040: { severity: 'ERROR', title: 'stop_time_update has neither stop_id nor stop_sequence' },
+  E041: { severity: 'ERROR', title: 'Trip update has no stop_time_updates' },
+  E043: { severity: 'ERROR', title: 'stop_time_update has neither arrival nor departure' },
+  E044: { severity: 'ERROR', title: 'Stop time event has neither delay nor time' },
+  E045: { severity: 'ERROR', title: 'stop_sequence and stop_id do not match the static GTFS' },
+  E048: { severity: 'ERROR', title: 'Header timestamp is not populated' },
+  E050: { severity: 'ERROR', title: 'Timestamp is in the future' },
+  E051: { severity: 'ERROR', title: 'stop_sequence does not exist in the static GTFS trip' },
+  E052: { severity: 'ERROR', title: 'vehicle.id is not unique' },
+  W001: { severity: 'WARNING', title: 'Entity timestamp is not populated' },
+  W002: { severity: 'WARNING', title: 'vehicle.id is not populated' },
+  W004: { severity: 'WARNING', title: 'Vehicle speed is unrealistic' },
+  W006: { severity: 'WARNING', title: 'Trip update has no trip_id' },
+  W008: { severity: 'WARNING', title: 'Header timestamp is older than 65 seconds' },
+} satisfies Record<string, ValidationRule>;
+
+export type ValidationCode = keyof typeof VALIDATION_RULES;
+
+export interface ValidationNotice {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  title: string;
+  // Number of times the rule was broken
+  occurrences: number;
+  // Ids of the first entities breaking the rule
+  examples: string[];
+}
+
+export interface StaticTrip {
+  routeId: string;
+  directionId?: number;
+}
+
+// The static GTFS the feed is checked against
+export interface StaticContext {
+  routeIds: Set<string>;
+  trips: Map<string, StaticTrip>;
+  // stop_id -> location_type
+  stops: Map<string, number>;
+  // Area served by the stops as [minLat, minLon, maxLat, maxLon]
+  bounds?: [number, number, number, number];
+  // stop_sequence -> stop_id for a trip in stop_times.txt
+  getStopTimes?: (tripId: string) => Map<number, string> | undefined;
+}
+
+export interface ValidationOptions {
+  now?: number;
+  static?: StaticContext;
+}
+
+const MAX_EXAMPLES = 5;
+// Allowed clock skew before a timestamp counts as in the future
+const FUTURE_TOLERANCE = 60; // seconds
+const MAX_HEADER_AGE = 65; // seconds
+// Anything above this is taken to be milliseconds rather than seconds
+const MAX_POSIX_SECONDS = 10_000_000_000;
+const MAX_REALISTIC_SPEED = 45; // m/s, about 160 km/h
+// Margin around the stops' bounding box for E028
+const COVERAGE_MARGIN = 0.05; // degrees
+
+const FULL_DATASET = 0;
+const TRIP_ADDED = 1;
+const TRIP_CANCELED = 3;
+const TRIP_DUPLICATED = 6;
+const TRIP_DELETED = 7;
+const STOP_SKIPPED = 1;
+const STOP_NO_DATA = 2;
+
+class NoticeCollector {
+  private notices: Map<ValidationCode, ValidationNotice> = new Map();
+
+  add(code: ValidationCode, entityId: string | undefined): void {
+    let notice = this.notices.get(code);
+    if (!notice) {
+      notice = { code, ...VALIDATION_RULES[code], occurrences: 0, examples: [] };
+      this.notices.set(code, notice);
+    }
+    notice.occurrences++;
+    const example = entityId || '(no id)';
+    if (notice.examples.length < MAX_EXAMPLES && !notice.examples.includes(example)) {
+      notice.examples.push(example);
+    }
+  }
+
+  // Errors before warnings, then by code
+  list(): ValidationNotice[] {
+    return Array.from(this.notices.values()).sort((a, b) =>
+      a.severity === b.severity ? a.code.localeCompare(b.code) : a.severity === 'ERROR' ? -1 : 1
+    );
+  }
+}
+
+function toNumber(value: number | bigint | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function isValidDate(value: string): boolean {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Checks shared by every timestamp in the feed
+function checkTimestamp(notices: NoticeCollector, entityId: string | undefined, timestamp: number, now: number) {
+  if (timestamp > MAX_POSIX_SECONDS) {
+    notices.add('E001', entityId);
+  } else if (timestamp > now + FUTURE_TOLERANCE) {
+    notices.add('E050', entityId);
+  }
+}
+
+function checkTripDescriptor(
+  notices: NoticeCollector,
+  entityId: string | undefined,
+  trip: TripDescriptor,
+  context: StaticContext | undefined,
+) {
+  if (trip.startTime !== undefined && !/^\d{2}:[0-5]\d:[0-5]\d$/.test(trip.startTime)) {
+    notices.add('E020', entityId);
+  }
+  if (trip.startDate !== undefined && !isValidDate(trip.startDate)) {
+    notices.add('E021', entityId);
+  }
+  if (!context) return;
+
+  if (trip.routeId && !context.routeIds.has(trip.routeId)) {
+    notices.add('E004', entityId);
+  }
+
+  // Added trips are not expected to be in trips.txt
+  const relationship = trip.scheduleRelationship;
+  if (!trip.tripId || relationship === TRIP_ADDED) return;
+  const staticTrip = context.trips.get(trip.tripId);
+  if (!staticTrip) {
+    if (relationship !== TRIP_DUPLICATED) notices.add('E003', entityId);
+    return;
+  }
+  if (trip.routeId && trip.routeId !== staticTrip.routeId) {
+    notices.add('E035', entityId);
+  }
+  if (trip.directionId !== undefined && staticTrip.directionId !== undefined && trip.directionId !== staticTrip.directionId) {
+    notices.add('E024', entityId);
+  }
+}
+
+function checkStopId(notices: NoticeCollector, entityId: string | undefined, stopId: string, context: StaticContext | undefined) {
+  if (!context) return;
+  const locationType = context.stops.get(stopId);
+  if (locationType === undefined) {
+    notices.add('E011', entityId);
+  } else if (locationType !== 0) {
+    notices.add('E010', entityId);
+  }
+}
+
+function checkStopTimeUpdates(
+  notices: NoticeCollector,
+  entity: FeedEntity,
+  updates: StopTimeUpdate[],
+  context: StaticContext | undefined,
+) {
+  const trip = entity.tripUpdate?.trip;
+  const scheduledStops = trip?.tripId && trip.scheduleRelationship !== TRIP_ADDED
+    ? context?.getStopTimes?.(trip.tripId)
+    : undefined;
+  let previous: StopTimeUpdate | undefined;
+  let previousTime: number | undefined;
+
+  for (const update of updates) {
+    if (update.stopSequence === undefined && !update.stopId) {
+      notices.add('E040', entity.id);
+    }
+    if (update.stopId) checkStopId(notices, entity.id, update.stopId, context);
+
+    if (scheduledStops && update.stopSequence !== undefined) {
+      const scheduledStopId = scheduledStops.get(update.stopSequence);
+      if (scheduledStopId === undefined) {
+        notices.add('E051', entity.id);
+      } else if (update.stopId && update.stopId !== scheduledStopId) {
+        notices.add('E045', entity.id);
+      }
+    }
+
+    if (previous) {
+      if (update.stopSequence !== undefined && previous.stopSequence !== undefined) {
+        if (update.stopSequence === previous.stopSequence) {
+          notices.add('E036', entity.id);
+        } else if (update.stopSequence < previous.stopSequence) {
+          notices.add('E002', entity.id);
+        }
+      }
+      if (update.stopId && update.stopId === previous.stopId) {
+        notices.add('E037', entity.id);
+      }
+    }
+    previous = update;
+
+    const skipped = update.scheduleRelationship === STOP_SKIPPED || update.scheduleRelationship === STOP_NO_DATA;
+    if (skipped) continue;
+    if (!update.arrival && !update.departure) {
+      notices.add('E043', entity.id);
+      continue;
+    }
+
+    const arrival = toNumber(update.arrival?.time);
+    const departure = toNumber(update.departure?.time);
+    for (const event of [update.arrival, update.departure]) {
+      if (event && event.delay === undefined && event.time === undefined) {
+        notices.add('E044', entity.id);
+      }
+    }
+    for (const time of [arrival, departure]) {
+      if (time !== undefined && time > MAX_POSIX_SECONDS) notices.add('E001', entity.id);
+    }
+    if (arrival !== undefined && departure !== undefined && arrival > departure) {
+      notices.add('E025', entity.id);
+    }
+
+    const first = arrival ?? departure;
+    if (first !== undefined && previousTime !== undefined && first < previousTime) {
+      notices.add('E022', entity.id);
+    }
+    previousTime = departure ?? arrival ?? previousTime;
+  }
+}
+
+/**
+ * Runs the rule set against one feed and returns a notice per broken rule,
+ * errors first. Timestamps are compared with `now` (ms since epoch).
+ */
+export function validateRealtimeFeed(feed: GtfsRealtimeFeed, options: ValidationOptions = {}): ValidationNotice[] {
+  const notices = new NoticeCollector();
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  const context = options.static;
+
+  const headerTimestamp = toNumber(feed.header?.timestamp);
+  if (!headerTimestamp) {
+    notices.add('E048', undefined);
+  } else {
+    checkTimestamp(notices, undefined, headerTimestamp, now);
+    if (headerTimestamp < now - MAX_HEADER_AGE) notices.add('W008', undefined);
+  }
+  const fullDataset = (feed.header?.incrementality ?? FULL_DATASET) === FULL_DATASET;
+  const vehicleIds = new Set<string>();
+
+  for (const entity of feed.entity || []) {
+    if (entity.isDeleted) {
+      if (fullDataset) notices.add('E039', entity.id);
+      continue;
+    }
+
+    const vehicle = entity.vehicle;
+    if (vehicle) {
+      const timestamp = toNumber(vehicle.timestamp);
+      if (timestamp === undefined) {
+        notices.add('W001', entity.id);
+      } else {
+        checkTimestamp(notices, entity.id, timestamp, now);
+        if (headerTimestamp && timestamp > headerTimestamp) notices.add('E012', entity.id);
+      }
+
+      const vehicleId = vehicle.vehicle?.id;
+      if (!vehicleId) {
+        notices.add('W002', entity.id);
+      } else if (vehicleIds.has(vehicleId)) {
+        notices.add('E052', entity.id);
+      } else {
+        vehicleIds.add(vehicleId);
+      }
+
+      const position = vehicle.position;
+      if (position) {
+        const { latitude, longitude, bearing, speed } = position;
+        // 0,0 is a missing GPS fix rather than a vehicle in the Gulf of Guinea
+        const invalid = latitude === undefined || longitude === undefined ||
+          !(Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) ||
+          (latitude === 0 && longitude === 0);
+        if (invalid) {
+          notices.add('E026', entity.id);
+        } else if (context?.bounds) {
+          const [minLat, minLon, maxLat, maxLon] = context.bounds;
+          if (
+            latitude < minLat - COVERAGE_MARGIN || latitude > maxLat + COVERAGE_MARGIN ||
+            longitude < minLon - COVERAGE_MARGIN || longitude > maxLon + COVERAGE_MARGIN
+          ) {
+            notices.add('E028', entity.id);
+          }
+        }
+        if (bearing !== undefined && !(bearing >= 0 && bearing < 360)) {
+          notices.add('E027', entity.id);
+        }
+        if (speed !== undefined && speed > MAX_REALISTIC_SPEED) {
+          notices.add('W004', entity.id);
+        }
+      }
+
+      if (vehicle.trip) checkTripDescriptor(notices, entity.id, vehicle.trip, context);
+      if (vehicle.stopId) checkStopId(notices, entity.id, vehicle.stopId, context);
+    }
+
+    const tripUpdate = entity.tripUpdate;
+    if (tripUpdate) {
+      const timestamp = toNumber(tripUpdate.timestamp);
+      if (timestamp === undefined) {
+        notices.add('W001', entity.id);
+      } else {
+        checkTimestamp(notices, entity.id, timestamp, now);
+        if (headerTimestamp && timestamp > headerTimestamp) notices.add('E012', entity.id);
+      }
+
+      const trip = tripUpdate.trip || {};
+      if (!trip.tripId) notices.add('W006', entity.id);
+      checkTripDescriptor(notices, entity.id, trip, context);
+
+      const updates = tripUpdate.stopTimeUpdate || [];
+      const cancelled = trip.scheduleRelationship === TRIP_CANCELED || trip.scheduleRelationship === TRIP_DELETED;
+      if (updates.length === 0 && !cancelled) {
+        notices.add('E041', entity.id);
+      }
+      checkStopTimeUpdates(notices, entity, updates, context);
+    }
+
+    const alert = entity.alert;
+    if (alert) {
+      const informed = alert.informedEntity || [];
+      if (informed.length === 0) notices.add('E032', entity.id);
+
+      for (const selector of informed) {
+        const hasSpecifier = selector.agencyId !== undefined || selector.routeId !== undefined ||
+          selector.routeType !== undefined || selector.trip !== undefined || selector.stopId !== undefined;
+        if (!hasSpecifier) notices.add('E033', entity.id);
+
+        if (selector.trip?.routeId && selector.routeId && selector.trip.routeId !== selector.routeId) {
+          notices.add('E031', entity.id);
+        }
+        if (selector.routeId && context && !context.routeIds.has(selector.routeId)) {
+          notices.add('E004', entity.id);
+        }
+        if (selector.trip) checkTripDescriptor(notices, entity.id, selector.trip, context);
+        if (selector.stopId) checkStopId(notices, entity.id, selector.stopId, context);
+      }
+    }
+  }
+
+  return notices.list();
+}
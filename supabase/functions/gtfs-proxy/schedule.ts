@@ -0,0 +1,268 @@
+// Scheduled timetable (trips.txt, stop_times.txt, calendar.txt,
+// calendar_dates.txt and shapes.txt) and the service days it runs on
+// Untimed stops (timepoint=0) may leave their times empty; they are kept
+// without times rather than as times of zero.
+
+export interface ScheduledTrip {
+  trip_id: string;
+  route_id: string;
+  service_id: string;
+  trip_headsign?: string;
+  trip_short_name?: string;
+  direction_id?: number;
+  block_id?: string;
+  shape_id?: string;
+}
+
+export interface ScheduledStopTime {
+  trip_id: string;
+  // "HH:MM:SS"; absent on untimed stops
+  arrival_time?: string;
+  departure_time?: string;
+  stop_id: string;
+  stop_sequence: number;
+  stop_headsign?: string;
+  pickup_type?: number;
+  drop_off_type?: number;
+}
+
+export interface CalendarInfo {
+  service_id: string;
+  // Indexed by day of week, Sunday = 0
+  days: boolean[];
+  start_date: string;
+  end_date: string;
+}
+
+export interface CalendarDateInfo {
+  service_id: string;
+  date: string;
+  exception_type: number; // 1 = service added, 2 = service removed
+}
+
+export interface ScheduleData {
+  trips: ScheduledTrip[];
+  stopTimesByTrip: Map<string, ScheduledStopTime[]>;
+  calendar: CalendarInfo[];
+  calendarDates: CalendarDateInfo[];
+  // shape_id -> [lat, lon] points ordered by shape_pt_sequence
+  shapes: Map<string, [number, number][]>;
+}
+
+// Rows of one file of the archive, keyed by column name; none when missing
+export type GtfsFileReader = (fileName: string) => AsyncIterable<Record<string, string>>;
+
+// Service days are evaluated in the operators' local timezone
+export const SERVICE_TIMEZONE = 'Europe/Nicosia';
+
+const WEEKDAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export async function parseSchedule(readFile: GtfsFileReader): Promise<ScheduleData> {
+  const trips: ScheduledTrip[] = [];
+  for await (const row of readFile('trips.txt')) {
+    if (!row.trip_id) continue;
+
+    trips.push({
+      trip_id: row.trip_id,
+      route_id: row.route_id || '',
+      service_id: row.service_id || '',
+      trip_headsign: row.trip_headsign || undefined,
+      trip_short_name: row.trip_short_name || undefined,
+      direction_id: row.direction_id ? parseInt(row.direction_id) : undefined,
+      block_id: row.block_id || undefined,
+      shape_id: row.shape_id || undefined,
+    });
+  }
+
+  const stopTimesByTrip = new Map<string, ScheduledStopTime[]>();
+  for await (const row of readFile('stop_times.txt')) {
+    if (!row.trip_id || !row.stop_id) continue;
+
+    const stopTime: ScheduledStopTime = {
+      trip_id: row.trip_id,
+      // GTFS allows arrival/departure to be omitted on untimed stops
+      arrival_time: row.arrival_time || row.departure_time || undefined,
+      departure_time: row.departure_time || row.arrival_time || undefined,
+      stop_id: row.stop_id,
+      stop_sequence: parseInt(row.stop_sequence) || 0,
+      stop_headsign: row.stop_headsign || undefined,
+      pickup_type: row.pickup_type ? parseInt(row.pickup_type) : undefined,
+      drop_off_type: row.drop_off_type ? parseInt(row.drop_off_type) : undefined,
+    };
+
+    const tripStopTimes = stopTimesByTrip.get(row.trip_id);
+    if (tripStopTimes) {
+      tripStopTimes.push(stopTime);
+    } else {
+      stopTimesByTrip.set(row.trip_id, [stopTime]);
+    }
+  }
+
+  for (const tripStopTimes of stopTimesByTrip.values()) {
+    tripStopTimes.sort((a, b) => a.stop_sequence - b.stop_sequence);
+  }
+
+  const calendar: CalendarInfo[] = [];
+  for await (const row of readFile('calendar.txt')) {
+    if (!row.service_id) continue;
+
+    calendar.push({
+      service_id: row.service_id,
+      days: WEEKDAY_COLUMNS.map((day) => row[day] === '1'),
+      start_date: row.start_date || '',
+      end_date: row.end_date || '',
+    });
+  }
+
+  const calendarDates: CalendarDateInfo[] = [];
+  for await (const row of readFile('calendar_dates.txt')) {
+    if (!row.service_id || !row.date) continue;
+
+    calendarDates.push({
+      service_id: row.service_id,
+      date: row.date,
+      exception_type: parseInt(row.exception_type) || 0,
+    });
+  }
+
+  const shapePoints = new Map<string, { sequence: number; lat: number; lon: number }[]>();
+  for await (const row of readFile('shapes.txt')) {
+    const lat = parseFloat(row.shape_pt_lat);
+    const lon = parseFloat(row.shape_pt_lon);
+    if (!row.shape_id || isNaN(lat) || isNaN(lon)) continue;
+
+    const point = { sequence: parseInt(row.shape_pt_sequence) || 0, lat, lon };
+    const points = shapePoints.get(row.shape_id);
+    if (points) {
+      points.push(point);
+    } else {
+      shapePoints.set(row.shape_id, [point]);
+    }
+  }
+
+  const shapes = new Map<string, [number, number][]>();
+  for (const [shapeId, points] of shapePoints) {
+    points.sort((a, b) => a.sequence - b.sequence);
+    shapes.set(shapeId, points.map((p) => [p.lat, p.lon]));
+  }
+
+  return { trips, stopTimesByTrip, calendar, calendarDates, shapes };
+}
+
+// GTFS times are "HH:MM:SS" and may exceed 24:00:00 for trips past midnight.
+// Undefined for untimed stops and malformed times.
+export function timeToSeconds(time: string | undefined): number | undefined {
+  const match = time?.trim().match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return undefined;
+  const [, hours, minutes, seconds] = match;
+  return parseInt(hours) * 3600 + parseInt(minutes) * 60 + (seconds ? parseInt(seconds) : 0);
+}
+
+// Seconds from the start of the service day
+export interface StopTimeSeconds {
+  arrival?: number;
+  departure?: number;
+}
+
+// Scheduled times of each stop of a trip. Untimed stops are spread evenly
+// between their timed neighbours; before the first or after the last timed
+// stop they stay without times.
+export function interpolateStopTimes(stopTimes: ScheduledStopTime[]): StopTimeSeconds[] {
+  const times: StopTimeSeconds[] = stopTimes.map((st) => ({
+    arrival: timeToSeconds(st.arrival_time),
+    departure: timeToSeconds(st.departure_time),
+  }));
+
+  let previous = -1;
+  times.forEach((time, index) => {
+    if (time.departure === undefined) return;
+    const from = previous === -1 ? undefined : times[previous].departure;
+    const to = time.arrival ?? time.departure;
+    if (from !== undefined && index - previous > 1) {
+      for (let i = previous + 1; i < index; i++) {
+        const seconds = Math.round(from + ((to - from) * (i - previous)) / (index - previous));
+        times[i] = { arrival: seconds, departure: seconds };
+      }
+    }
+    previous = index;
+  });
+
+  return times;
+}
+
+// Orders stop times of a stop by departure; untimed ones go last
+export function compareDepartureTimes(a: ScheduledStopTime, b: ScheduledStopTime): number {
+  const aSeconds = timeToSeconds(a.departure_time);
+  const bSeconds = timeToSeconds(b.departure_time);
+  if (aSeconds === undefined || bSeconds === undefined) {
+    return (aSeconds === undefined ? 1 : 0) - (bSeconds === undefined ? 1 : 0);
+  }
+  return aSeconds - bSeconds;
+}
+
+// Current service day as YYYYMMDD in the operators' timezone
+export function getServiceDate(date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: SERVICE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return `${part('year')}${part('month')}${part('day')}`;
+}
+
+// Seconds east of UTC in the service timezone at the given instant
+function getServiceTimezoneOffset(timestamp: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: SERVICE_TIMEZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0');
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((asUtc - timestamp) / 1000);
+}
+
+// Unix time that GTFS stop times on a service day count from: noon minus
+// 12h, which differs from midnight on daylight saving change days
+export function getServiceDayStart(serviceDate: string): number {
+  const year = parseInt(serviceDate.slice(0, 4));
+  const month = parseInt(serviceDate.slice(4, 6));
+  const day = parseInt(serviceDate.slice(6, 8));
+  const noon = Date.UTC(year, month - 1, day, 12);
+  return noon / 1000 - getServiceTimezoneOffset(noon) - 12 * 3600;
+}
+
+// Service IDs that run on the given service day (YYYYMMDD)
+export function getActiveServiceIds(schedule: Pick<ScheduleData, 'calendar' | 'calendarDates'>, serviceDate: string): Set<string> {
+  const year = parseInt(serviceDate.slice(0, 4));
+  const month = parseInt(serviceDate.slice(4, 6));
+  const day = parseInt(serviceDate.slice(6, 8));
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+  const active = new Set<string>();
+
+  for (const entry of schedule.calendar) {
+    if (entry.days[weekday] && entry.start_date <= serviceDate && serviceDate <= entry.end_date) {
+      active.add(entry.service_id);
+    }
+  }
+
+  // calendar_dates.txt exceptions override calendar.txt
+  for (const exception of schedule.calendarDates) {
+    if (exception.date !== serviceDate) continue;
+    if (exception.exception_type === 1) {
+      active.add(exception.service_id);
+    } else if (exception.exception_type === 2) {
+      active.delete(exception.service_id);
+    }
+  }
+
+  return active;
+}
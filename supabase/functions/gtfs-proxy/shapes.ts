@@ -0,0 +1,115 @@
+// Route geometry (shapes.txt, falling back to stop sequences)
+// Each direction of a route is drawn with the shape most of its trips use, or
+// through the stops of its longest trip when the feed has no shapes, and sent
+// as a Google encoded polyline.
+
+import type { ScheduleData, ScheduledStopTime, ScheduledTrip } from './schedule.ts';
+
+// The parts of stops.txt the stop sequence fallback needs
+export interface StopPoint {
+  stop_id: string;
+  stop_lat?: number;
+  stop_lon?: number;
+}
+
+export interface RouteShape {
+  route_id: string;
+  direction_id?: number;
+  shape_id?: string;
+  // Google encoded polyline, precision 5
+  polyline: string;
+  source: 'shapes' | 'stops';
+}
+
+// Encoded Polyline Algorithm Format:
+// https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+export function encodePolyline(points: [number, number][]): string {
+  let encoded = '';
+  let prevLat = 0;
+  let prevLon = 0;
+
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    while (v >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    encoded += String.fromCharCode(v + 63);
+  };
+
+  for (const [lat, lon] of points) {
+    const latE5 = Math.round(lat * 1e5);
+    const lonE5 = Math.round(lon * 1e5);
+    encodeValue(latE5 - prevLat);
+    encodeValue(lonE5 - prevLon);
+    prevLat = latE5;
+    prevLon = lonE5;
+  }
+
+  return encoded;
+}
+
+// Geometry of one direction of a route: the shape shared by most of its
+// trips, or the stops of its longest trip when there is no shapes.txt
+export function directionGeometry(
+  schedule: ScheduleData,
+  trips: ScheduledTrip[],
+  stopCoords: Map<string, [number, number]>
+): { shapeId?: string; points: [number, number][]; source: RouteShape['source'] } | null {
+  const shapeCounts = new Map<string, number>();
+  for (const trip of trips) {
+    if (trip.shape_id && schedule.shapes.has(trip.shape_id)) {
+      shapeCounts.set(trip.shape_id, (shapeCounts.get(trip.shape_id) || 0) + 1);
+    }
+  }
+  const [shapeId] = [...shapeCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+  if (shapeId) return { shapeId, points: schedule.shapes.get(shapeId)!, source: 'shapes' };
+
+  let longestStopTimes: ScheduledStopTime[] = [];
+  for (const trip of trips) {
+    const tripStopTimes = schedule.stopTimesByTrip.get(trip.trip_id) || [];
+    if (tripStopTimes.length > longestStopTimes.length) longestStopTimes = tripStopTimes;
+  }
+  const points = longestStopTimes
+    .map((st) => stopCoords.get(st.stop_id))
+    .filter((point): point is [number, number] => !!point);
+
+  return points.length >= 2 ? { points, source: 'stops' } : null;
+}
+
+export function groupTripsByDirection(trips: ScheduledTrip[]): Map<number | undefined, ScheduledTrip[]> {
+  const tripsByDirection = new Map<number | undefined, ScheduledTrip[]>();
+  for (const trip of trips) {
+    const directionTrips = tripsByDirection.get(trip.direction_id);
+    if (directionTrips) {
+      directionTrips.push(trip);
+    } else {
+      tripsByDirection.set(trip.direction_id, [trip]);
+    }
+  }
+  return tripsByDirection;
+}
+
+export function buildRouteShapes(schedule: ScheduleData, stops: StopPoint[], routeId: string): RouteShape[] {
+  const tripsByDirection = groupTripsByDirection(schedule.trips.filter((trip) => trip.route_id === routeId));
+  const stopCoords = new Map<string, [number, number]>();
+  for (const stop of stops) {
+    if (stop.stop_lat !== undefined && stop.stop_lon !== undefined) stopCoords.set(stop.stop_id, [stop.stop_lat, stop.stop_lon]);
+  }
+  const routeShapes: RouteShape[] = [];
+
+  for (const [directionId, trips] of tripsByDirection) {
+    const geometry = directionGeometry(schedule, trips, stopCoords);
+    if (!geometry) continue;
+
+    routeShapes.push({
+      route_id: routeId,
+      direction_id: directionId,
+      ...(geometry.shapeId ? { shape_id: geometry.shapeId } : {}),
+      polyline: encodePolyline(geometry.points),
+      source: geometry.source,
+    });
+  }
+
+  return routeShapes.sort((a, b) => (a.direction_id ?? 0) - (b.direction_id ?? 0));
+}
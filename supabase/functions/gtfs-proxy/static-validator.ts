@@ -0,0 +1,575 @@
+// Static GTFS feed validation
+// Notice codes follow the MobilityData GTFS validator
+// (https://gtfs-validator.mobilitydata.org/rules.html) where it has an
+// equivalent rule. Files are read one at a time and only the keys needed for
+// cross-file checks are kept, so large stop_times.txt files can be validated.
+
+import type { CsvIssue } from './csv.ts';
+
+export type StaticSeverity = 'ERROR' | 'WARNING' | 'INFO';
+
+interface StaticRule {
+  severity: StaticSeverity;
+  title: string;
+}
+
+export const STATIC_VALIDATION_RULES = {
+  missing_required_file: { severity: 'ERROR', title: 'A required file is missing' },
+  missing_calendar_and_calendar_date_files: { severity: 'ERROR', title: 'Both calendar.txt and calendar_dates.txt are missing' },
+  csv_parsing_failed: { severity: 'ERROR', title: 'A CSV record is malformed' },
+  missing_required_column: { severity: 'ERROR', title: 'A required column is missing' },
+  missing_required_field: { severity: 'ERROR', title: 'A required field is empty' },
+  duplicate_key: { severity: 'ERROR', title: 'The same key appears more than once' },
+  foreign_key_violation: { severity: 'ERROR', title: 'A reference points to an unknown record' },
+  invalid_color: { severity: 'ERROR', title: 'A color is not a six digit hexadecimal value' },
+  invalid_date: { severity: 'ERROR', title: 'A date is not a valid YYYYMMDD date' },
+  invalid_time: { severity: 'ERROR', title: 'A time is not in HH:MM:SS format' },
+  invalid_integer: { severity: 'ERROR', title: 'A value is not an integer' },
+  invalid_float: { severity: 'ERROR', title: 'A value is not a number' },
+  number_out_of_range: { severity: 'ERROR', title: 'A coordinate is out of range' },
+  point_near_origin: { severity: 'ERROR', title: 'A location is at 0,0' },
+  route_both_short_and_long_name_missing: { severity: 'ERROR', title: 'A route has neither a short nor a long name' },
+  start_and_end_range_out_of_order: { severity: 'ERROR', title: 'A calendar ends before it starts' },
+  stop_time_with_departure_before_arrival_time: { severity: 'ERROR', title: 'A stop time departs before it arrives' },
+  stop_time_with_arrival_before_previous_departure_time: { severity: 'ERROR', title: 'A stop time arrives before the previous departure' },
+  missing_trip_edge: { severity: 'ERROR', title: 'The first or last stop of a trip has no times' },
+  feed_expired: { severity: 'ERROR', title: 'feed_info.txt feed_end_date has passed' },
+  all_services_expired: { severity: 'ERROR', title: 'Every service has expired' },
+  expired_calendar: { severity: 'WARNING', title: 'A service has no dates from today on' },
+  feed_expiration_date7_days: { severity: 'WARNING', title: 'The feed expires within 7 days' },
+  feed_expiration_date30_days: { severity: 'WARNING', title: 'The feed expires within 30 days' },
+  missing_recommended_file: { severity: 'WARNING', title: 'A recommended file is missing' },
+  unusable_trip: { severity: 'WARNING', title: 'A trip has fewer than two stop times' },
+  unexpected_enum_value: { severity: 'WARNING', title: 'A value is not defined by the specification' },
+  unknown_column: { severity: 'INFO', title: 'A column is not defined by the specification' },
+} satisfies Record<string, StaticRule>;
+
+export type StaticNoticeCode = keyof typeof STATIC_VALIDATION_RULES;
+
+export interface StaticNoticeExample {
+  file: string;
+  // CSV record number, the header being row 1
+  row?: number;
+  field?: string;
+  value?: string;
+  message?: string;
+}
+
+export interface StaticValidationNotice {
+  code: StaticNoticeCode;
+  severity: StaticSeverity;
+  title: string;
+  occurrences: number;
+  examples: StaticNoticeExample[];
+}
+
+// Rows of one file of the feed, or null when the feed does not contain it
+export type GtfsFileReader = (
+  fileName: string,
+  onIssue: (issue: CsvIssue) => void,
+) => AsyncIterable<Record<string, string>> | null;
+
+export interface StaticValidationOptions {
+  // Current service day as YYYYMMDD, for expiry checks
+  today: string;
+}
+
+interface FileSpec {
+  columns: string[];
+  requiredColumns: string[];
+  // Columns that together identify a record
+  key?: string[];
+}
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const FILE_SPECS: Record<string, FileSpec> = {
+  'agency.txt': {
+    columns: [
+      'agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang', 'agency_phone',
+      'agency_fare_url', 'agency_email', 'cemv_support',
+    ],
+    requiredColumns: ['agency_name', 'agency_url', 'agency_timezone'],
+    key: ['agency_id'],
+  },
+  'stops.txt': {
+    columns: [
+      'stop_id', 'stop_code', 'stop_name', 'tts_stop_name', 'stop_desc', 'stop_lat', 'stop_lon', 'zone_id',
+      'stop_url', 'location_type', 'parent_station', 'stop_timezone', 'wheelchair_boarding', 'level_id',
+      'platform_code', 'stop_access',
+    ],
+    requiredColumns: ['stop_id'],
+    key: ['stop_id'],
+  },
+  'routes.txt': {
+    columns: [
+      'route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_desc', 'route_type', 'route_url',
+      'route_color', 'route_text_color', 'route_sort_order', 'continuous_pickup', 'continuous_drop_off',
+      'network_id', 'cemv_support',
+    ],
+    requiredColumns: ['route_id', 'route_type'],
+    key: ['route_id'],
+  },
+  'calendar.txt': {
+    columns: ['service_id', ...WEEKDAYS, 'start_date', 'end_date'],
+    requiredColumns: ['service_id', ...WEEKDAYS, 'start_date', 'end_date'],
+    key: ['service_id'],
+  },
+  'calendar_dates.txt': {
+    columns: ['service_id', 'date', 'exception_type'],
+    requiredColumns: ['service_id', 'date', 'exception_type'],
+    key: ['service_id', 'date'],
+  },
+  'shapes.txt': {
+    columns: ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence', 'shape_dist_traveled'],
+    requiredColumns: ['shape_id', 'shape_pt_lat', 'shape_pt_lon', 'shape_pt_sequence'],
+  },
+  'trips.txt': {
+    columns: [
+      'route_id', 'service_id', 'trip_id', 'trip_headsign', 'trip_short_name', 'direction_id', 'block_id',
+      'shape_id', 'wheelchair_accessible', 'bikes_allowed', 'cars_allowed',
+    ],
+    requiredColumns: ['route_id', 'service_id', 'trip_id'],
+    key: ['trip_id'],
+  },
+  'stop_times.txt': {
+    columns: [
+      'trip_id', 'arrival_time', 'departure_time', 'stop_id', 'location_group_id', 'location_id',
+      'stop_sequence', 'stop_headsign', 'start_pickup_drop_off_window', 'end_pickup_drop_off_window',
+      'pickup_type', 'drop_off_type', 'continuous_pickup', 'continuous_drop_off', 'shape_dist_traveled',
+      'timepoint', 'pickup_booking_rule_id', 'drop_off_booking_rule_id',
+    ],
+    requiredColumns: ['trip_id', 'stop_id', 'stop_sequence'],
+  },
+  'feed_info.txt': {
+    columns: [
+      'feed_publisher_name', 'feed_publisher_url', 'feed_lang', 'default_lang', 'feed_start_date',
+      'feed_end_date', 'feed_version', 'feed_contact_email', 'feed_contact_url',
+    ],
+    requiredColumns: ['feed_publisher_name', 'feed_publisher_url', 'feed_lang'],
+  },
+};
+
+const REQUIRED_FILES = ['agency.txt', 'stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+
+const MAX_EXAMPLES = 5;
+
+const SEVERITY_RANK: Record<StaticSeverity, number> = { ERROR: 0, WARNING: 1, INFO: 2 };
+
+// route_type values from the specification and the extended route types
+const BASIC_ROUTE_TYPES = new Set([0, 1, 2, 3, 4, 5, 6, 7, 11, 12]);
+const EXTENDED_ROUTE_TYPE_MIN = 100;
+const EXTENDED_ROUTE_TYPE_MAX = 1702;
+
+class NoticeCollector {
+  private notices: Map<StaticNoticeCode, StaticValidationNotice> = new Map();
+
+  add(code: StaticNoticeCode, example: StaticNoticeExample): void {
+    let notice = this.notices.get(code);
+    if (!notice) {
+      notice = { code, ...STATIC_VALIDATION_RULES[code], occurrences: 0, examples: [] };
+      this.notices.set(code, notice);
+    }
+    notice.occurrences++;
+    if (notice.examples.length < MAX_EXAMPLES) notice.examples.push(example);
+  }
+
+  // Errors first, then warnings, then info; most frequent first within each
+  list(): StaticValidationNotice[] {
+    return Array.from(this.notices.values()).sort((a, b) =>
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      b.occurrences - a.occurrences ||
+      a.code.localeCompare(b.code)
+    );
+  }
+}
+
+// YYYYMMDD, as used throughout GTFS
+export function isValidDate(value: string): boolean {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Whole days from one YYYYMMDD date to another
+export function daysBetween(from: string, to: string): number {
+  const toUtc = (date: string) => Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8));
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 3600 * 1000));
+}
+
+// Seconds since the start of the service day, or undefined for a malformed time
+function parseTime(value: string): number | undefined {
+  const match = value.match(/^(\d{1,3}):([0-5]\d):([0-5]\d)$/);
+  if (!match) return undefined;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+interface RowContext {
+  file: string;
+  row: number;
+}
+
+interface StopTimeRecord {
+  sequence: number;
+  arrival?: number;
+  departure?: number;
+  row: number;
+}
+
+class StaticFeedValidator {
+  private notices = new NoticeCollector();
+  private agencyIds: Set<string> = new Set();
+  private agencyCount = 0;
+  private stopIds: Set<string> = new Set();
+  private parentStations: { stopId: string; parent: string; row: number }[] = [];
+  private routeIds: Set<string> = new Set();
+  private serviceIds: Set<string> = new Set();
+  // service_id -> last date with service
+  private serviceEnds: Map<string, string> = new Map();
+  private shapeIds: Set<string> = new Set();
+  private hasShapes = false;
+  private tripIds: Set<string> = new Set();
+  private stopTimesByTrip: Map<string, StopTimeRecord[]> = new Map();
+  private readFile: GtfsFileReader;
+  private options: StaticValidationOptions;
+
+  constructor(readFile: GtfsFileReader, options: StaticValidationOptions) {
+    this.readFile = readFile;
+    this.options = options;
+  }
+
+  async run(): Promise<StaticValidationNotice[]> {
+    await this.scan('agency.txt', (row, at) => this.checkAgency(row, at));
+    await this.scan('stops.txt', (row, at) => this.checkStop(row, at));
+    this.checkParentStations();
+    await this.scan('routes.txt', (row, at) => this.checkRoute(row, at));
+
+    const hasCalendar = await this.scan('calendar.txt', (row, at) => this.checkCalendar(row, at));
+    const hasCalendarDates = await this.scan('calendar_dates.txt', (row, at) => this.checkCalendarDate(row, at));
+    if (!hasCalendar && !hasCalendarDates) {
+      this.notices.add('missing_calendar_and_calendar_date_files', { file: 'calendar.txt' });
+    }
+    this.checkExpiredServices();
+
+    this.hasShapes = await this.scan('shapes.txt', (row, at) => this.checkShapePoint(row, at));
+    await this.scan('trips.txt', (row, at) => this.checkTrip(row, at));
+    await this.scan('stop_times.txt', (row, at) => this.checkStopTime(row, at));
+    this.checkTrips();
+
+    const hasFeedInfo = await this.scan('feed_info.txt', (row, at) => this.checkFeedInfo(row, at));
+    if (!hasFeedInfo) this.notices.add('missing_recommended_file', { file: 'feed_info.txt' });
+
+    return this.notices.list();
+  }
+
+  // Runs the checks shared by every file and then `check` on each row.
+  // Returns false when the file is not in the feed.
+  private async scan(fileName: string, check: (row: Record<string, string>, at: RowContext) => void): Promise<boolean> {
+    const spec = FILE_SPECS[fileName];
+    const rows = this.readFile(fileName, (issue) => {
+      this.notices.add('csv_parsing_failed', { file: fileName, message: `Line ${issue.line}: ${issue.message}` });
+    });
+    if (!rows) {
+      if (REQUIRED_FILES.includes(fileName)) this.notices.add('missing_required_file', { file: fileName });
+      return false;
+    }
+
+    const keys: Set<string> = new Set();
+    let rowNumber = 1;
+    let headerChecked = false;
+
+    for await (const row of rows) {
+      rowNumber++;
+      const at = { file: fileName, row: rowNumber };
+
+      if (!headerChecked) {
+        headerChecked = true;
+        for (const column of spec.requiredColumns) {
+          if (!(column in row)) this.notices.add('missing_required_column', { file: fileName, field: column });
+        }
+        for (const column of Object.keys(row)) {
+          if (!spec.columns.includes(column)) this.notices.add('unknown_column', { file: fileName, field: column });
+        }
+      }
+
+      for (const column of spec.requiredColumns) {
+        if (column in row && !row[column]) this.missingField(at, column);
+      }
+
+      if (spec.key && spec.key.every((column) => row[column])) {
+        const key = spec.key.map((column) => row[column]).join('\u0000');
+        if (keys.has(key)) {
+          this.notices.add('duplicate_key', { ...at, field: spec.key.join(', '), value: spec.key.map((column) => row[column]).join(', ') });
+        }
+        keys.add(key);
+      }
+
+      check(row, at);
+    }
+
+    return true;
+  }
+
+  private missingField(at: RowContext, field: string) {
+    this.notices.add('missing_required_field', { ...at, field });
+  }
+
+  private foreignKey(at: RowContext, field: string, value: string) {
+    this.notices.add('foreign_key_violation', { ...at, field, value });
+  }
+
+  private checkColor(row: Record<string, string>, at: RowContext, field: string) {
+    const value = row[field];
+    if (value && !/^[0-9a-fA-F]{6}$/.test(value)) this.notices.add('invalid_color', { ...at, field, value });
+  }
+
+  private checkDate(row: Record<string, string>, at: RowContext, field: string): boolean {
+    const value = row[field];
+    if (!value) return false;
+    if (!isValidDate(value)) {
+      this.notices.add('invalid_date', { ...at, field, value });
+      return false;
+    }
+    return true;
+  }
+
+  // Latitude and longitude of a stop or shape point; reports malformed values
+  private checkCoordinates(row: Record<string, string>, at: RowContext, latField: string, lonField: string) {
+    const lat = Number(row[latField]);
+    const lon = Number(row[lonField]);
+    for (const [field, value] of [[latField, lat], [lonField, lon]] as const) {
+      if (row[field] && isNaN(value)) this.notices.add('invalid_float', { ...at, field, value: row[field] });
+    }
+    if (!row[latField] || !row[lonField] || isNaN(lat) || isNaN(lon)) return;
+
+    if (Math.abs(lat) > 90) this.notices.add('number_out_of_range', { ...at, field: latField, value: row[latField] });
+    if (Math.abs(lon) > 180) this.notices.add('number_out_of_range', { ...at, field: lonField, value: row[lonField] });
+    if (Math.abs(lat) < 1e-6 && Math.abs(lon) < 1e-6) this.notices.add('point_near_origin', { ...at, field: latField });
+  }
+
+  private serviceRunsUntil(serviceId: string, date: string) {
+    const end = this.serviceEnds.get(serviceId);
+    if (!end || date > end) this.serviceEnds.set(serviceId, date);
+  }
+
+  private checkAgency(row: Record<string, string>, at: RowContext) {
+    this.agencyCount++;
+    if (row.agency_id) this.agencyIds.add(row.agency_id);
+    // agency_id may only be left out when the feed has a single agency
+    if (this.agencyCount > 1 && !row.agency_id) this.missingField(at, 'agency_id');
+  }
+
+  private checkStop(row: Record<string, string>, at: RowContext) {
+    if (row.stop_id) this.stopIds.add(row.stop_id);
+
+    const locationType = row.location_type ? Number(row.location_type) : 0;
+    if (!Number.isInteger(locationType)) {
+      this.notices.add('invalid_integer', { ...at, field: 'location_type', value: row.location_type });
+    } else if (locationType < 0 || locationType > 4) {
+      this.notices.add('unexpected_enum_value', { ...at, field: 'location_type', value: row.location_type });
+    }
+
+    // Stops, stations and entrances need a name and a location
+    if (locationType <= 2) {
+      for (const field of ['stop_name', 'stop_lat', 'stop_lon']) {
+        if (!row[field]) this.missingField(at, field);
+      }
+    }
+    this.checkCoordinates(row, at, 'stop_lat', 'stop_lon');
+
+    if (row.parent_station && row.stop_id) {
+      this.parentStations.push({ stopId: row.stop_id, parent: row.parent_station, row: at.row });
+    }
+  }
+
+  private checkParentStations() {
+    for (const { parent, row } of this.parentStations) {
+      if (!this.stopIds.has(parent)) this.foreignKey({ file: 'stops.txt', row }, 'parent_station', parent);
+    }
+    this.parentStations = [];
+  }
+
+  private checkRoute(row: Record<string, string>, at: RowContext) {
+    if (row.route_id) this.routeIds.add(row.route_id);
+
+    if (!row.route_short_name && !row.route_long_name) {
+      this.notices.add('route_both_short_and_long_name_missing', { ...at, value: row.route_id });
+    }
+    this.checkColor(row, at, 'route_color');
+    this.checkColor(row, at, 'route_text_color');
+
+    if (row.route_type) {
+      const routeType = Number(row.route_type);
+      if (!Number.isInteger(routeType)) {
+        this.notices.add('invalid_integer', { ...at, field: 'route_type', value: row.route_type });
+      } else if (
+        !BASIC_ROUTE_TYPES.has(routeType) &&
+        !(routeType >= EXTENDED_ROUTE_TYPE_MIN && routeType <= EXTENDED_ROUTE_TYPE_MAX)
+      ) {
+        this.notices.add('unexpected_enum_value', { ...at, field: 'route_type', value: row.route_type });
+      }
+    }
+
+    if (row.agency_id && this.agencyIds.size > 0 && !this.agencyIds.has(row.agency_id)) {
+      this.foreignKey(at, 'agency_id', row.agency_id);
+    } else if (!row.agency_id && this.agencyCount > 1) {
+      this.missingField(at, 'agency_id');
+    }
+  }
+
+  private checkCalendar(row: Record<string, string>, at: RowContext) {
+    if (row.service_id) this.serviceIds.add(row.service_id);
+
+    for (const day of WEEKDAYS) {
+      if (row[day] && row[day] !== '0' && row[day] !== '1') {
+        this.notices.add('unexpected_enum_value', { ...at, field: day, value: row[day] });
+      }
+    }
+
+    const validStart = this.checkDate(row, at, 'start_date');
+    const validEnd = this.checkDate(row, at, 'end_date');
+    if (validStart && validEnd && row.end_date < row.start_date) {
+      this.notices.add('start_and_end_range_out_of_order', { ...at, field: 'end_date', value: row.end_date });
+    }
+    if (validEnd && row.service_id) this.serviceRunsUntil(row.service_id, row.end_date);
+  }
+
+  private checkCalendarDate(row: Record<string, string>, at: RowContext) {
+    if (row.service_id) this.serviceIds.add(row.service_id);
+
+    if (row.exception_type && row.exception_type !== '1' && row.exception_type !== '2') {
+      this.notices.add('unexpected_enum_value', { ...at, field: 'exception_type', value: row.exception_type });
+    }
+    if (this.checkDate(row, at, 'date') && row.exception_type === '1' && row.service_id) {
+      this.serviceRunsUntil(row.service_id, row.date);
+    }
+  }
+
+  private checkExpiredServices() {
+    const { today } = this.options;
+    let expired = 0;
+
+    for (const [serviceId, end] of this.serviceEnds) {
+      if (end < today) {
+        expired++;
+        this.notices.add('expired_calendar', { file: 'calendar.txt', field: 'service_id', value: serviceId, message: `Last service on ${end}` });
+      }
+    }
+
+    if (this.serviceEnds.size > 0 && expired === this.serviceEnds.size) {
+      this.notices.add('all_services_expired', { file: 'calendar.txt' });
+    }
+  }
+
+  private checkShapePoint(row: Record<string, string>, at: RowContext) {
+    if (row.shape_id) this.shapeIds.add(row.shape_id);
+    this.checkCoordinates(row, at, 'shape_pt_lat', 'shape_pt_lon');
+  }
+
+  private checkTrip(row: Record<string, string>, at: RowContext) {
+    if (row.trip_id) this.tripIds.add(row.trip_id);
+
+    if (row.route_id && !this.routeIds.has(row.route_id)) this.foreignKey(at, 'route_id', row.route_id);
+    if (row.service_id && !this.serviceIds.has(row.service_id)) this.foreignKey(at, 'service_id', row.service_id);
+    if (row.shape_id && !this.shapeIds.has(row.shape_id)) {
+      if (this.hasShapes) {
+        this.foreignKey(at, 'shape_id', row.shape_id);
+      } else {
+        this.notices.add('missing_required_file', { file: 'shapes.txt', message: `Referenced by trip ${row.trip_id}` });
+      }
+    }
+    if (row.direction_id && row.direction_id !== '0' && row.direction_id !== '1') {
+      this.notices.add('unexpected_enum_value', { ...at, field: 'direction_id', value: row.direction_id });
+    }
+  }
+
+  private checkStopTime(row: Record<string, string>, at: RowContext) {
+    if (row.trip_id && !this.tripIds.has(row.trip_id)) this.foreignKey(at, 'trip_id', row.trip_id);
+    if (row.stop_id && !this.stopIds.has(row.stop_id)) this.foreignKey(at, 'stop_id', row.stop_id);
+
+    const times: Record<string, number | undefined> = {};
+    for (const field of ['arrival_time', 'departure_time']) {
+      if (!row[field]) continue;
+      times[field] = parseTime(row[field]);
+      if (times[field] === undefined) this.notices.add('invalid_time', { ...at, field, value: row[field] });
+    }
+
+    if (!row.stop_sequence) return;
+    const sequence = Number(row.stop_sequence);
+    if (!Number.isInteger(sequence) || sequence < 0) {
+      this.notices.add('invalid_integer', { ...at, field: 'stop_sequence', value: row.stop_sequence });
+      return;
+    }
+    if (!row.trip_id || !this.tripIds.has(row.trip_id)) return;
+
+    let stopTimes = this.stopTimesByTrip.get(row.trip_id);
+    if (!stopTimes) {
+      stopTimes = [];
+      this.stopTimesByTrip.set(row.trip_id, stopTimes);
+    }
+    stopTimes.push({ sequence, arrival: times.arrival_time, departure: times.departure_time, row: at.row });
+  }
+
+  // Checks needing every stop time of a trip, in stop_sequence order
+  private checkTrips() {
+    const file = 'stop_times.txt';
+
+    for (const tripId of this.tripIds) {
+      const stopTimes = this.stopTimesByTrip.get(tripId) || [];
+      if (stopTimes.length < 2) {
+        this.notices.add('unusable_trip', { file: 'trips.txt', field: 'trip_id', value: tripId });
+        continue;
+      }
+
+      stopTimes.sort((a, b) => a.sequence - b.sequence);
+      for (const edge of [stopTimes[0], stopTimes[stopTimes.length - 1]]) {
+        if (edge.arrival === undefined && edge.departure === undefined) {
+          this.notices.add('missing_trip_edge', { file, row: edge.row, field: 'arrival_time', value: tripId });
+        }
+      }
+
+      let previousDeparture: number | undefined;
+      for (let i = 0; i < stopTimes.length; i++) {
+        const stopTime = stopTimes[i];
+        const at = { file, row: stopTime.row };
+        if (i > 0 && stopTime.sequence === stopTimes[i - 1].sequence) {
+          this.notices.add('duplicate_key', { ...at, field: 'trip_id, stop_sequence', value: `${tripId}, ${stopTime.sequence}` });
+        }
+        if (stopTime.arrival !== undefined && stopTime.departure !== undefined && stopTime.departure < stopTime.arrival) {
+          this.notices.add('stop_time_with_departure_before_arrival_time', { ...at, field: 'departure_time', value: tripId });
+        }
+        if (stopTime.arrival !== undefined && previousDeparture !== undefined && stopTime.arrival < previousDeparture) {
+          this.notices.add('stop_time_with_arrival_before_previous_departure_time', { ...at, field: 'arrival_time', value: tripId });
+        }
+        previousDeparture = stopTime.departure ?? stopTime.arrival ?? previousDeparture;
+      }
+    }
+
+    this.stopTimesByTrip.clear();
+  }
+
+  private checkFeedInfo(row: Record<string, string>, at: RowContext) {
+    this.checkDate(row, at, 'feed_start_date');
+    if (!this.checkDate(row, at, 'feed_end_date')) return;
+
+    const daysLeft = daysBetween(this.options.today, row.feed_end_date);
+    const example = { ...at, field: 'feed_end_date', value: row.feed_end_date };
+    if (daysLeft < 0) {
+      this.notices.add('feed_expired', example);
+    } else if (daysLeft < 7) {
+      this.notices.add('feed_expiration_date7_days', example);
+    } else if (daysLeft < 30) {
+      this.notices.add('feed_expiration_date30_days', example);
+    }
+  }
+}
+
+/**
+ * Validates a static GTFS feed read through `readFile` and returns a notice
+ * per broken rule, ranked by severity and then by number of occurrences.
+ */
+export function validateStaticFeed(readFile: GtfsFileReader, options: StaticValidationOptions): Promise<StaticValidationNotice[]> {
+  return new StaticFeedValidator(readFile, options).run();
+}
@@ -0,0 +1,125 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  ApiKeyGate,
+  type ApiKeyRecord,
+  hashApiKey,
+  parseApiKeyMode,
+  secondsUntilNextDay,
+  TokenBucket,
+  UsageCounter,
+} from '../api-keys.ts';
+
+const NOW = Date.UTC(2026, 9, 19, 23, 59, 0);
+
+const keyStore = (records: Record<string, ApiKeyRecord>) => {
+  const lookups: string[] = [];
+  const lookup = async (keyHash: string, day: string) => {
+    lookups.push(day);
+    for (const [apiKey, record] of Object.entries(records)) {
+      if (await hashApiKey(apiKey) === keyHash) return record;
+    }
+    return null;
+  };
+  return { lookup, lookups };
+};
+
+Deno.test('token bucket refills a minute of requests continuously', () => {
+  const bucket = new TokenBucket(60, 0);
+
+  for (let i = 0; i < 60; i++) assertEquals(bucket.take(0).allowed, true);
+  assertEquals(bucket.take(0), { allowed: false, remaining: 0, retryAfter: 1 });
+  assertEquals(bucket.take(500).allowed, false);
+  assertEquals(bucket.take(1000), { allowed: true, remaining: 0, retryAfter: 0 });
+  // Never more than a minute's worth
+  assertEquals(bucket.take(10 * 60000).remaining, 59);
+});
+
+Deno.test('usage is counted per key and day until drained', () => {
+  const usage = new UsageCounter();
+  usage.record('a', '2026-10-19', false, 1);
+  usage.record('a', '2026-10-19', false, 2);
+  usage.record('a', '2026-10-19', true, 3);
+  usage.record('b', '2026-10-20', false, 4);
+
+  assertEquals(usage.pending('a', '2026-10-19'), 2);
+  assertEquals(usage.drain(), [
+    { keyId: 'a', day: '2026-10-19', requests: 2, rejected: 1, lastUsedAt: new Date(3) },
+    { keyId: 'b', day: '2026-10-20', requests: 1, rejected: 0, lastUsedAt: new Date(4) },
+  ]);
+  assertEquals(usage.size, 0);
+});
+
+Deno.test('usage that could not be written is counted again', () => {
+  const usage = new UsageCounter();
+  usage.record('a', '2026-10-19', false, 1);
+  const failed = usage.drain();
+  usage.record('a', '2026-10-19', true, 2);
+
+  usage.restore(failed);
+  usage.restore([{ keyId: 'b', day: '2026-10-19', requests: 3, rejected: 0, lastUsedAt: new Date(0) }]);
+
+  assertEquals(usage.pending('a', '2026-10-19'), 1);
+  assertEquals(usage.drain(), [
+    { keyId: 'a', day: '2026-10-19', requests: 1, rejected: 1, lastUsedAt: new Date(2) },
+    { keyId: 'b', day: '2026-10-19', requests: 3, rejected: 0, lastUsedAt: new Date(0) },
+  ]);
+});
+
+Deno.test('requests need a known key within its rate limit', async () => {
+  const { lookup, lookups } = keyStore({
+    'web-key': { id: 'web', name: 'Web app', rateLimit: 2, dailyQuota: null, requestsToday: 0 },
+  });
+  const gate = new ApiKeyGate(lookup);
+
+  assertEquals(await gate.check(null, NOW), { allowed: false, reason: 'missing_key' });
+  assertEquals(await gate.check('stolen', NOW), { allowed: false, reason: 'invalid_key' });
+  assertEquals((await gate.check('web-key', NOW)).allowed, true);
+  const second = await gate.check('web-key', NOW);
+  assertEquals(second.allowed && second.remaining, 0);
+  const limited = await gate.check('web-key', NOW);
+  assertEquals(limited.allowed === false && limited.reason === 'rate_limited' && limited.retryAfter, 30);
+
+  // Lookups, including unknown keys, are cached
+  await gate.check('stolen', NOW + 1000);
+  assertEquals(lookups.length, 2);
+  assertEquals(gate.usage.drain().map(({ requests, rejected }) => [requests, rejected]), [[2, 1]]);
+});
+
+Deno.test('daily quotas include stored usage and reset at UTC midnight', async () => {
+  const record: ApiKeyRecord = { id: 'partner', name: 'Partner', rateLimit: 100, dailyQuota: 5, requestsToday: 3 };
+  const { lookup, lookups } = keyStore({ 'partner-key': record });
+  const gate = new ApiKeyGate(lookup, 60000);
+
+  assertEquals((await gate.check('partner-key', NOW)).allowed, true);
+  assertEquals((await gate.check('partner-key', NOW)).allowed, true);
+  const exceeded = await gate.check('partner-key', NOW);
+  assertEquals(exceeded.allowed === false && exceeded.reason === 'quota_exceeded' && exceeded.retryAfter, 60);
+  assertEquals(secondsUntilNextDay(NOW), 60);
+
+  // A new day starts from zero, and the next lookup asks for that day's usage
+  record.requestsToday = 0;
+  assertEquals((await gate.check('partner-key', NOW + 60000)).allowed, true);
+  assertEquals(lookups, ['2026-10-19', '2026-10-20']);
+});
+
+Deno.test('known keys keep working while the key store is down', async () => {
+  let down = false;
+  const gate = new ApiKeyGate(async () => {
+    if (down) throw new Error('connection refused');
+    return { id: 'web', name: 'Web app', rateLimit: 10, dailyQuota: null, requestsToday: 0 };
+  }, 1000);
+
+  assertEquals((await gate.check('web-key', NOW)).allowed, true);
+  down = true;
+  assertEquals((await gate.check('web-key', NOW + 5000)).allowed, true);
+  await assertRejects(() => gate.check('other-key', NOW + 5000), Error, 'connection refused');
+});
+
+Deno.test('API keys are off unless a known mode is set', () => {
+  assertEquals(parseApiKeyMode(undefined), 'off');
+  assertEquals(parseApiKeyMode(''), 'off');
+  assertEquals(parseApiKeyMode('optional'), 'optional');
+  assertEquals(parseApiKeyMode('required'), 'required');
+  assertEquals(parseApiKeyMode('true'), 'off');
+});
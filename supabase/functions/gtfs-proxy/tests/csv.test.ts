@@ -0,0 +1,80 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { type CsvIssue, readCsv } from '../csv.ts';
+
+async function readAll(source: ReadableStream<Uint8Array> | string) {
+  const issues: CsvIssue[] = [];
+  const rows: Record<string, string>[] = [];
+  for await (const row of readCsv(source, { onIssue: (issue) => issues.push(issue) })) {
+    rows.push(row);
+  }
+  return { rows, issues };
+}
+
+// Feeds the text in chunks of `size` bytes so records straddle chunk boundaries
+function chunked(text: string, size: number): ReadableStream<Uint8Array> {
+  const data = new TextEncoder().encode(text);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(data.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+const QUOTED_FILE = '\uFEFFstop_id,stop_name,stop_desc\r\n' +
+  '1,"Plateia ""Solomou""","Line one\r\nline two"\r\n' +
+  '2,"Comma, inside",\r\n' +
+  '\r\n' +
+  '3,Makariou,plain\r\n';
+
+const QUOTED_ROWS = [
+  { stop_id: '1', stop_name: 'Plateia "Solomou"', stop_desc: 'Line one\r\nline two' },
+  { stop_id: '2', stop_name: 'Comma, inside', stop_desc: '' },
+  { stop_id: '3', stop_name: 'Makariou', stop_desc: 'plain' },
+];
+
+Deno.test('strips the BOM and maps quoted fields, escapes and line breaks by header', async () => {
+  assertEquals(await readAll(QUOTED_FILE), { rows: QUOTED_ROWS, issues: [] });
+});
+
+Deno.test('gives the same rows however the stream is chunked', async () => {
+  for (const size of [1, 2, 3, 7, 64]) {
+    assertEquals(await readAll(chunked(QUOTED_FILE, size)), { rows: QUOTED_ROWS, issues: [] }, `chunk size ${size}`);
+  }
+});
+
+Deno.test('accepts LF and CR line endings and a missing final newline', async () => {
+  assertEquals((await readAll('route_id,route_short_name\n58,58\r30,30')).rows, [
+    { route_id: '58', route_short_name: '58' },
+    { route_id: '30', route_short_name: '30' },
+  ]);
+});
+
+Deno.test('reports malformed rows with the line they start on', async () => {
+  const text = 'trip_id,stop_id,stop_sequence\n' +
+    't1,"multi\nline",1\n' +
+    't1,S2\n' +
+    't1,S3,3,extra\n' +
+    't1,S"4,4\n' +
+    't1,"S5"x,5\n' +
+    't1,"S6,6\n';
+  const { rows, issues } = await readAll(text);
+
+  assertEquals(issues, [
+    { line: 4, message: 'Expected 3 fields, found 2' },
+    { line: 5, message: 'Expected 3 fields, found 4' },
+    { line: 6, message: 'Quote inside an unquoted field' },
+    { line: 7, message: 'Unexpected characters after closing quote' },
+    { line: 8, message: 'Unterminated quoted field' },
+  ]);
+  assertEquals(rows[1], { trip_id: 't1', stop_id: 'S2', stop_sequence: '' });
+  assertEquals(rows[2], { trip_id: 't1', stop_id: 'S3', stop_sequence: '3' });
+  assertEquals(rows[4].stop_id, 'S5x');
+  assertEquals(rows.length, 6);
+});
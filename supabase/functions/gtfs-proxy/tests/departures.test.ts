@@ -0,0 +1,167 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildStopDepartures } from '../departures.ts';
+import type { GtfsRealtimeFeed, TripUpdate } from '../gtfs-realtime.ts';
+import { getServiceDayStart, type ScheduleData, type ScheduledStopTime } from '../schedule.ts';
+
+// Monday 2026-10-19; the weekday service does not run on the Sunday before
+const SERVICE_DATE = '20261019';
+const DAY_START = getServiceDayStart(SERVICE_DATE);
+const at = (hours: number, minutes: number) => DAY_START + hours * 3600 + minutes * 60;
+
+const stopTime = (stop_id: string, stop_sequence: number, time?: string): ScheduledStopTime => ({
+  trip_id: 't1',
+  arrival_time: time,
+  departure_time: time,
+  stop_id,
+  stop_sequence,
+});
+
+const schedule = (stopTimes: ScheduledStopTime[]): ScheduleData => ({
+  trips: [{ trip_id: 't1', route_id: '58', service_id: 'weekday', trip_headsign: 'Center', direction_id: 0 }],
+  stopTimesByTrip: new Map([['t1', stopTimes]]),
+  calendar: [
+    { service_id: 'weekday', days: [false, true, true, true, true, true, false], start_date: '20261001', end_date: '20261031' },
+  ],
+  calendarDates: [],
+  shapes: new Map(),
+});
+
+const TIMED = [
+  stopTime('A', 1, '08:10:00'),
+  stopTime('B', 2, '08:20:00'),
+  stopTime('C', 3, '08:30:00'),
+  stopTime('D', 4, '08:40:00'),
+];
+
+const feed = (...tripUpdates: TripUpdate[]): GtfsRealtimeFeed => ({
+  entity: tripUpdates.map((tripUpdate, i) => ({ id: `tu${i}`, tripUpdate })),
+});
+
+const departuresAt = (stopId: string, stopTimes: ScheduledStopTime[], realtime?: GtfsRealtimeFeed, now = at(8, 0)) =>
+  buildStopDepartures([schedule(stopTimes)], realtime, stopId, 10, now * 1000);
+
+Deno.test('scheduled departures are listed without realtime data', () => {
+  const [departure, ...rest] = departuresAt('B', TIMED);
+  assertEquals(rest, []);
+  assertEquals(departure.tripId, 't1');
+  assertEquals(departure.serviceDate, SERVICE_DATE);
+  assertEquals(departure.scheduledTime, at(8, 20));
+  assertEquals(departure.predictedTime, undefined);
+  assertEquals(departure.realtime, false);
+  assertEquals(departure.cancelled, false);
+  // The last stop of a trip is not a departure
+  assertEquals(departuresAt('D', TIMED), []);
+});
+
+Deno.test('delays propagate from the closest earlier stop time update', () => {
+  const realtime = feed({
+    trip: { tripId: 't1', startDate: SERVICE_DATE },
+    stopTimeUpdate: [{ stopSequence: 1, departure: { delay: 120 } }],
+  });
+  const [departure] = departuresAt('B', TIMED, realtime);
+  assertEquals(departure.delay, 120);
+  assertEquals(departure.predictedTime, at(8, 22));
+  assertEquals(departure.realtime, true);
+
+  // An absolute time at an earlier stop sets the delay for later ones
+  const absolute = feed({
+    trip: { tripId: 't1', startDate: SERVICE_DATE },
+    stopTimeUpdate: [{ stopId: 'A', departure: { time: at(8, 13) } }],
+  });
+  const [late] = departuresAt('C', TIMED, absolute);
+  assertEquals(late.delay, 180);
+  assertEquals(late.predictedTime, at(8, 33));
+});
+
+Deno.test('skipped stops and cancelled trips are flagged', () => {
+  const skipped = feed({
+    trip: { tripId: 't1', startDate: SERVICE_DATE },
+    stopTimeUpdate: [{ stopSequence: 2, scheduleRelationship: 1 }],
+  });
+  assertEquals(departuresAt('B', TIMED, skipped)[0].cancelled, true);
+  // Only the skipped stop itself
+  assertEquals(departuresAt('C', TIMED, skipped)[0].cancelled, false);
+
+  const canceled = feed({ trip: { tripId: 't1', startDate: SERVICE_DATE, scheduleRelationship: 3 } });
+  const [departure] = departuresAt('C', TIMED, canceled);
+  assertEquals(departure.cancelled, true);
+  assertEquals(departure.scheduleRelationship, 'CANCELED');
+});
+
+Deno.test('trips only known to the realtime feed are listed from their updates', () => {
+  const added = feed({
+    trip: { tripId: 'extra-1', routeId: '58', startDate: SERVICE_DATE, scheduleRelationship: 1 },
+    tripProperties: { tripHeadsign: 'Stadium' },
+    stopTimeUpdate: [{ stopId: 'B', stopSequence: 2, departure: { time: at(8, 15) } }],
+  });
+  const [extra, scheduled] = departuresAt('B', TIMED, added);
+  assertEquals(extra.tripId, 'extra-1');
+  assertEquals(extra.scheduledTime, undefined);
+  assertEquals(extra.predictedTime, at(8, 15));
+  assertEquals(extra.headsign, 'Stadium');
+  assertEquals(extra.scheduleRelationship, 'ADDED');
+  assertEquals(scheduled.tripId, 't1');
+});
+
+Deno.test('untimed stops take times between their timed neighbours', () => {
+  const untimed = [
+    stopTime('Z', 0),
+    stopTime('A', 1, '08:10:00'),
+    stopTime('B', 2),
+    stopTime('C', 3),
+    stopTime('D', 4, '08:40:00'),
+  ];
+  assertEquals(departuresAt('B', untimed)[0].scheduledTime, at(8, 20));
+  assertEquals(departuresAt('C', untimed)[0].scheduledTime, at(8, 30));
+  // Nothing to interpolate from before the first timed stop
+  assertEquals(departuresAt('Z', untimed), []);
+
+  // Absolute times at an untimed stop are compared with its interpolated time
+  const realtime = feed({
+    trip: { tripId: 't1', startDate: SERVICE_DATE },
+    stopTimeUpdate: [{ stopId: 'B', arrival: { time: at(8, 23) } }],
+  });
+  const [departure] = departuresAt('C', untimed, realtime);
+  assertEquals(departure.delay, 180);
+  assertEquals(departure.predictedTime, at(8, 33));
+});
+
+Deno.test('updates without a start date go to the run closest to them after midnight', () => {
+  // Runs on Monday and Tuesday; at 00:05 on Tuesday both runs are listed
+  const night = [
+    stopTime('A', 1, '23:50:00'),
+    stopTime('B', 2, '24:10:00'),
+    stopTime('C', 3, '24:20:00'),
+  ];
+  const now = at(24, 5);
+  const realtime = feed({
+    trip: { tripId: 't1' },
+    stopTimeUpdate: [{ stopId: 'A', departure: { time: at(23, 53) } }],
+  });
+  const [monday, tuesday, ...rest] = departuresAt('B', night, realtime, now);
+  assertEquals(rest, []);
+  assertEquals(monday.serviceDate, SERVICE_DATE);
+  assertEquals(monday.delay, 180);
+  assertEquals(monday.predictedTime, at(24, 13));
+  assertEquals(tuesday.serviceDate, '20261020');
+  assertEquals(tuesday.realtime, false);
+  assertEquals(tuesday.predictedTime, undefined);
+
+  // Delays alone go to the run under way
+  const delayOnly = feed({ trip: { tripId: 't1' }, delay: 60 });
+  const [running, later] = departuresAt('B', night, delayOnly, now);
+  assertEquals(running.serviceDate, SERVICE_DATE);
+  assertEquals(running.delay, 60);
+  assertEquals(later.delay, undefined);
+});
+
+Deno.test('departures already gone are left out', () => {
+  assertEquals(departuresAt('B', TIMED, undefined, at(8, 21)), []);
+  // A late vehicle still counts until its predicted time
+  const late = feed({
+    trip: { tripId: 't1', startDate: SERVICE_DATE },
+    stopTimeUpdate: [{ stopSequence: 1, departure: { delay: 300 } }],
+  });
+  assertEquals(departuresAt('B', TIMED, late, at(8, 21))[0].predictedTime, at(8, 25));
+});
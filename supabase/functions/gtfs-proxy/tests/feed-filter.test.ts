@@ -0,0 +1,73 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { type FeedFilter, filterFeed, parseFeedFilter } from '../feed-filter.ts';
+import type { GtfsRealtimeFeed } from '../gtfs-realtime.ts';
+
+const STOP_COORDS = new Map<string, [number, number]>([
+  ['S1', [35, 33]],
+  ['S2', [35.1, 33.1]],
+]);
+
+const FEED: GtfsRealtimeFeed = {
+  header: { gtfsRealtimeVersion: '2.0' },
+  entity: [
+    { id: 'v1', vehicle: { trip: { tripId: 't1', routeId: 'r1' }, position: { latitude: 35.0005, longitude: 33.0005 }, stopId: 'S1' } },
+    { id: 'v2', vehicle: { trip: { tripId: 't2', routeId: 'r2' }, position: { latitude: 35.2, longitude: 33.2 } } },
+    { id: 'tu1', tripUpdate: { trip: { tripId: 't1', routeId: 'r1' }, stopTimeUpdate: [{ stopId: 'S1' }] } },
+    { id: 'tu3', tripUpdate: { trip: { tripId: 't3', routeId: 'r2' }, stopTimeUpdate: [{ stopId: 'S2' }] } },
+    { id: 'route-alert', alert: { informedEntity: [{ routeId: 'r1' }] } },
+    { id: 'trip-alert', alert: { informedEntity: [{ trip: { tripId: 't2' } }] } },
+    { id: 'stop-alert', alert: { informedEntity: [{ stopId: 'S2' }] } },
+    { id: 'network-alert', alert: { informedEntity: [{ agencyId: 'motion' }] } },
+    { id: 'gone', isDeleted: true },
+  ],
+};
+
+const ids = (filter: FeedFilter) => filterFeed(FEED, filter, STOP_COORDS).entity?.map((entity) => entity.id);
+const params = (query: string) => parseFeedFilter(new URLSearchParams(query));
+
+Deno.test('filter parameters are parsed and malformed ones rejected', () => {
+  assertEquals(params('route=r1&trip=t1&stop=S1&bbox=33,35,33.1,35.1&near=35,33'), {
+    filter: { routeId: 'r1', tripId: 't1', stopId: 'S1', bbox: [33, 35, 33.1, 35.1], near: { lat: 35, lon: 33, radius: 500 } },
+  });
+  assertEquals(params('near=35,33&radius=50000').filter.near?.radius, 50000);
+
+  assertEquals(params('bbox=33,35,33.1').error, 'bbox must be min_lon,min_lat,max_lon,max_lat');
+  assertEquals(params('bbox=33.1,35,33,35.1').error, 'bbox must be min_lon,min_lat,max_lon,max_lat');
+  assertEquals(params('bbox=a,b,c,d').error, 'bbox must be min_lon,min_lat,max_lon,max_lat');
+  assertEquals(params('near=91,33').error, 'near must be lat,lon');
+  assertEquals(params('near=35').error, 'near must be lat,lon');
+  assertEquals(params('near=35,33&radius=0').error, 'radius must be between 0 and 50000 meters');
+  assertEquals(params('near=35,33&radius=50001').error, 'radius must be between 0 and 50000 meters');
+});
+
+Deno.test('an empty filter returns the feed as it is', () => {
+  assertEquals(filterFeed(FEED, {}, STOP_COORDS), FEED);
+});
+
+Deno.test('route and trip filters keep their alerts and network-wide ones', () => {
+  assertEquals(ids({ routeId: 'r1' }), ['v1', 'tu1', 'route-alert', 'network-alert', 'gone']);
+  assertEquals(ids({ tripId: 't2' }), ['v2', 'trip-alert', 'network-alert', 'gone']);
+  // A route alert covers the trips of the route
+  assertEquals(ids({ tripId: 't1' }), ['v1', 'tu1', 'route-alert', 'network-alert', 'gone']);
+});
+
+Deno.test('a stop filter keeps updates and alerts for the stop', () => {
+  assertEquals(ids({ stopId: 'S2' }), ['tu3', 'stop-alert', 'network-alert', 'gone']);
+  assertEquals(ids({ stopId: 'S1' }), ['v1', 'tu1', 'network-alert', 'gone']);
+});
+
+Deno.test('area filters include their edges', () => {
+  // The bbox ends exactly at v1
+  assertEquals(ids({ bbox: [32.99, 34.99, 33.0005, 35.0005] }), ['v1', 'tu1', 'route-alert', 'network-alert', 'gone']);
+  // Without v1, its trip update still stops at S1 inside the box
+  assertEquals(ids({ bbox: [32.99, 34.99, 33.0004, 35.0004] }), ['tu1', 'route-alert', 'network-alert', 'gone']);
+  // S2 is 14 km from S1
+  assertEquals(ids({ near: { lat: 35.1, lon: 33.1, radius: 100 } }), ['tu3', 'stop-alert', 'network-alert', 'gone']);
+  assertEquals(ids({ near: { lat: 35, lon: 33, radius: 20000 } }), ['v1', 'tu1', 'tu3', 'route-alert', 'stop-alert', 'network-alert', 'gone']);
+});
+
+Deno.test('deleted entities pass every filter', () => {
+  assertEquals(ids({ routeId: 'none' }), ['network-alert', 'gone']);
+  assertEquals(ids({ near: { lat: 0, lon: 0, radius: 1 } }), ['network-alert', 'gone']);
+});
@@ -0,0 +1,111 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  DEFAULT_REFRESH_POLICY,
+  FeedRegistryError,
+  mergeFeeds,
+  parseFeedRegistry,
+  realtimeSourcesFor,
+} from '../feed-registry.ts';
+import { FeedState } from '../feed-state.ts';
+
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+const registryJson = {
+  defaults: { headers: { Authorization: 'Bearer ${FEED_TOKEN}' }, refresh: { realtime: 10 } },
+  combined: { realtime: 'https://rt.example/all', covers: ['city'] },
+  feeds: [
+    { id: 'city', name: 'City Bus', city: 'Nicosia', realtime: 'https://rt.example/city', static: 'https://static.example/city.zip' },
+    {
+      id: 'coast',
+      name: 'Coast',
+      realtime: ['https://coast.example/vehicle-positions', 'https://coast.example/trip-updates'],
+      headers: { 'X-Api-Key': 'k-${FEED_TOKEN}' },
+      refresh: { static: 3600 },
+    },
+    { id: 'rural', name: 'Rural', static: 'https://static.example/rural.zip' },
+  ],
+};
+
+Deno.test('feed registry applies defaults and resolves header variables', () => {
+  const registry = parseFeedRegistry(registryJson, env({ FEED_TOKEN: 'abc' }));
+
+  assertEquals(registry.feeds.map((feed) => feed.id), ['city', 'coast', 'rural']);
+  assertEquals(registry.feeds[0].realtime, ['https://rt.example/city']);
+  assertEquals(registry.feeds[0].headers, { Authorization: 'Bearer abc' });
+  assertEquals(registry.feeds[0].refresh, { realtime: 10, static: DEFAULT_REFRESH_POLICY.static });
+  assertEquals(registry.feeds[1].headers, { Authorization: 'Bearer abc', 'X-Api-Key': 'k-abc' });
+  assertEquals(registry.feeds[1].refresh, { realtime: 10, static: 3600 });
+  assertEquals(registry.feeds[2].realtime, []);
+  assertEquals(registry.combined, {
+    realtime: ['https://rt.example/all'],
+    headers: { Authorization: 'Bearer abc' },
+    covers: ['city'],
+    refresh: { realtime: 10 },
+  });
+});
+
+Deno.test('feed registry rejects invalid documents', () => {
+  const feed = { id: 'a', name: 'A', realtime: 'https://rt.example/a' };
+  const invalid: [unknown, string][] = [
+    [[], 'must be an object'],
+    [{ feeds: [] }, 'non-empty array'],
+    [{ feeds: [{ ...feed, id: 'all' }] }, 'other than "all"'],
+    [{ feeds: [feed, feed] }, 'used by another feed'],
+    [{ feeds: [{ ...feed, name: '' }] }, 'name must be'],
+    [{ feeds: [{ id: 'a', name: 'A' }] }, 'realtime or a static URL'],
+    [{ feeds: [{ ...feed, realtime: 'ftp://rt.example/a' }] }, 'http or https'],
+    [{ feeds: [{ ...feed, realtime: ['https://ok.example', 'nope'] }] }, 'feeds[0].realtime[1] is not a valid URL'],
+    [{ feeds: [{ ...feed, refresh: { realtime: 0 } }] }, 'positive number'],
+    [{ feeds: [{ ...feed, headers: { Authorization: '${MISSING}' } }] }, 'unset variable MISSING'],
+    [{ feeds: [feed], combined: { realtime: 'https://rt.example', covers: ['b'] } }, 'combined.covers'],
+    [{ feeds: [feed], combined: {} }, 'combined.realtime is required'],
+  ];
+
+  for (const [input, message] of invalid) {
+    assertThrows(() => parseFeedRegistry(input, env({})), FeedRegistryError, message);
+  }
+});
+
+Deno.test('the combined feed serves all operators it covers', () => {
+  const registry = parseFeedRegistry(registryJson, env({ FEED_TOKEN: 'abc' }));
+  const urls = (feedKey: string) => realtimeSourcesFor(registry, feedKey).map((source) => source.url);
+
+  assertEquals(urls('all'), [
+    'https://rt.example/all',
+    'https://coast.example/vehicle-positions',
+    'https://coast.example/trip-updates',
+  ]);
+  assertEquals(urls('city'), ['https://rt.example/city']);
+  assertEquals(urls('rural'), []);
+  assertEquals(urls('unknown'), []);
+  assertEquals(realtimeSourcesFor(registry, 'coast')[0].headers['X-Api-Key'], 'k-abc');
+
+  // Without a combined feed, 'all' downloads every feed
+  const separate = parseFeedRegistry({ feeds: registryJson.feeds }, env({ FEED_TOKEN: 'abc' }));
+  assertEquals(realtimeSourcesFor(separate, 'all').length, 3);
+});
+
+Deno.test('split realtime feeds merge into one', () => {
+  const merged = mergeFeeds([
+    { header: { gtfsRealtimeVersion: '2.0', incrementality: 0, timestamp: 100 }, entity: [{ id: '1', vehicle: {} }] },
+    { header: { gtfsRealtimeVersion: '2.0', incrementality: 0, timestamp: 120 }, entity: [{ id: '1', tripUpdate: { trip: {} } }, { id: '2' }] },
+  ]);
+
+  assertEquals(merged.header, { gtfsRealtimeVersion: '2.0', incrementality: 0, timestamp: 120 });
+  assertEquals(merged.entity?.map((entity) => entity.id), ['1', '1#1', '2']);
+});
+
+Deno.test('a DIFFERENTIAL part merges through its own feed state', () => {
+  const positions = new FeedState();
+  positions.apply({ header: { gtfsRealtimeVersion: '2.0', incrementality: 0 }, entity: [{ id: 'v1', vehicle: {} }, { id: 'v2', vehicle: {} }] });
+  positions.apply({ header: { gtfsRealtimeVersion: '2.0', incrementality: 1 }, entity: [{ id: 'v1', vehicle: { stopId: 'S' } }] });
+
+  const merged = mergeFeeds([
+    positions.toFeed(),
+    { header: { gtfsRealtimeVersion: '2.0', incrementality: 0 }, entity: [{ id: 't1', tripUpdate: { trip: {} } }] },
+  ]);
+
+  assertEquals(merged.header?.incrementality, 0);
+  assertEquals(merged.entity?.map((entity) => entity.id), ['v1', 'v2', 't1']);
+});
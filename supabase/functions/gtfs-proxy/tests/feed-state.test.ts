@@ -0,0 +1,86 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { FeedState } from '../feed-state.ts';
+import { type FeedEntity, parseFeedMessage } from '../gtfs-realtime.ts';
+import { DELETED_ENTITY } from './fixtures.ts';
+
+const vehicle = (id: string, latitude: number): FeedEntity => ({
+  id,
+  vehicle: { vehicle: { id }, position: { latitude, longitude: 33 } },
+});
+
+const full = (...entity: FeedEntity[]) => ({ header: { gtfsRealtimeVersion: '2.0', incrementality: 0 }, entity });
+const differential = (...entity: FeedEntity[]) => ({ header: { gtfsRealtimeVersion: '2.0', incrementality: 1 }, entity });
+
+const ids = (entities?: FeedEntity[]) => (entities || []).map((entity) => entity.id);
+
+Deno.test('full datasets replace the state', () => {
+  const state = new FeedState();
+  state.apply(full(vehicle('v1', 35), vehicle('v2', 35)));
+  state.apply(full(vehicle('v2', 35), vehicle('v3', 35)));
+  assertEquals(ids(state.toFeed().entity), ['v2', 'v3']);
+});
+
+Deno.test('entities without an id are skipped', () => {
+  const state = new FeedState();
+  state.apply(full(vehicle('v1', 35), { vehicle: { position: { latitude: 35, longitude: 33 } } }));
+  assertEquals(ids(state.toFeed().entity), ['v1']);
+});
+
+Deno.test('differential feeds update entities and apply is_deleted', () => {
+  const state = new FeedState();
+  state.apply(full(vehicle('v1', 35), vehicle('v2', 35)));
+  state.apply(parseFeedMessage(DELETED_ENTITY));
+  state.apply(differential(vehicle('v1', 36), vehicle('v3', 35)));
+
+  const feed = state.toFeed();
+  assertEquals(feed.header?.incrementality, 0);
+  assertEquals(ids(feed.entity), ['v1', 'v3']);
+  assertEquals(feed.entity?.[0].vehicle?.position?.latitude, 36);
+});
+
+Deno.test('since tokens return changed entities and deletions only', () => {
+  const state = new FeedState();
+  state.apply(full(vehicle('v1', 35), vehicle('v2', 35), vehicle('v3', 35)));
+  const token = state.token;
+
+  state.apply(full(vehicle('v1', 35), vehicle('v2', 35.5), vehicle('v4', 35)));
+  const changes = state.changesSince(token);
+  assertEquals(ids(changes?.entities), ['v2', 'v4']);
+  assertEquals(changes?.deleted, ['v3']);
+
+  assertEquals(state.changesSince(state.token), { entities: [], deleted: [] });
+});
+
+Deno.test('re-added entities are no longer reported as deleted', () => {
+  const state = new FeedState();
+  state.apply(full(vehicle('v1', 35)));
+  const token = state.token;
+  state.apply(full());
+  state.apply(full(vehicle('v1', 35)));
+  assertEquals(state.changesSince(token), { entities: [vehicle('v1', 35)], deleted: [] });
+});
+
+Deno.test('tokens from another state, from the future or malformed need a full dataset', () => {
+  const state = new FeedState();
+  state.apply(full(vehicle('v1', 35)));
+  const other = new FeedState();
+  other.apply(full(vehicle('v1', 35)));
+
+  assertEquals(state.changesSince(other.token), null);
+  assertEquals(state.changesSince(`${state.epoch}.99`), null);
+  assertEquals(state.changesSince('garbage'), null);
+});
+
+Deno.test('tokens older than pruned deletions need a full dataset', () => {
+  const state = new FeedState();
+  const start = Date.UTC(2026, 0, 1);
+  state.apply(full(vehicle('v1', 35), vehicle('v2', 35)), start);
+  const oldToken = state.token;
+  state.apply(full(vehicle('v1', 35)), start + 1000);
+  const recentToken = state.token;
+
+  state.apply(full(vehicle('v1', 35)), start + 60 * 60 * 1000);
+  assertEquals(state.changesSince(oldToken), null);
+  assertEquals(state.changesSince(recentToken), { entities: [], deleted: [] });
+});
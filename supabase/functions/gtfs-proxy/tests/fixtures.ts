@@ -0,0 +1,188 @@
+// Test fixtures: hand-encoded GTFS-Realtime feeds for the decoder conformance
+// tests, and small ZIP archives for the static feed reader.
+//
+// Protobuf fixtures list one tag/length or value per line; nested messages are
+// indented under their parent. The bytes match what protoc --encode produces
+// for the same message in text format.
+
+export function bytes(...chunks: string[]): Uint8Array {
+  return new Uint8Array(chunks.join(' ').trim().split(/\s+/).map((byte) => parseInt(byte, 16)));
+}
+
+const HEADER_V2 = [
+  '0a 05',                            // 1: header, 5 bytes
+  '0a 03 32 2e 30',                   //   1: gtfs_realtime_version "2.0"
+];
+
+// Header timestamp past 2038, which overflows 32-bit decoding
+export const DIFFERENTIAL_HEADER = bytes(
+  '0a 0d',                            // 1: header, 13 bytes
+  '0a 03 32 2e 30',                   //   1: gtfs_realtime_version "2.0"
+  '10 01',                            //   2: incrementality DIFFERENTIAL
+  '18 80 ae 99 a4 0f',                //   3: timestamp 4102444800 (2100-01-01T00:00:00Z)
+);
+
+// uint64 timestamp 2^63, beyond Number.MAX_SAFE_INTEGER
+export const UNSAFE_UINT64_HEADER = bytes(
+  '0a 10',                            // 1: header, 16 bytes
+  '0a 03 32 2e 30',                   //   1: gtfs_realtime_version "2.0"
+  '18 80 80 80 80 80 80 80 80 80 01', //   3: timestamp 9223372036854775808
+);
+
+export const VEHICLE_POSITION = bytes(
+  ...HEADER_V2,
+  '12 57',                            // 2: entity, 87 bytes
+  '0a 02 76 31',                      //   1: id "v1"
+  '22 51',                            //   4: vehicle, 81 bytes
+  '0a 0a',                            //     1: trip, 10 bytes
+  '0a 02 74 31',                      //       1: trip_id "t1"
+  '2a 02 35 38',                      //       5: route_id "58"
+  '30 01',                            //       6: direction_id 1
+  '12 1d',                            //     2: position, 29 bytes
+  '0d 00 80 0c 42',                   //       1: latitude (float) 35.125
+  '15 00 80 05 42',                   //       2: longitude (float) 33.375
+  '1d 00 00 b4 42',                   //       3: bearing (float) 90
+  '21 00 00 00 56 34 6f 9d 41',       //       4: odometer (double) 123456789.5
+  '2d 00 00 48 41',                   //       5: speed (float) 12.5
+  '18 07',                            //     3: current_stop_sequence 7
+  '28 80 ae 99 a4 0f',                //     5: timestamp 4102444800
+  '42 07',                            //     8: vehicle, 7 bytes
+  '0a 05 62 75 73 2d 31',             //       1: id "bus-1"
+  '50 80 bc c1 96 0b',                //     10: occupancy_percentage (uint32) 3000000000
+  '5a 0d',                            //     11: multi_carriage_details, 13 bytes
+  '20 ff ff ff ff ff ff ff ff ff 01', //       4: occupancy_percentage (int32) -1
+  '28 01',                            //       5: carriage_sequence 1
+);
+
+// Negative int32 values are sign-extended to ten-byte varints
+export const TRIP_UPDATE_NEGATIVE_DELAY = bytes(
+  ...HEADER_V2,
+  '12 3a',                            // 2: entity, 58 bytes
+  '0a 02 74 31',                      //   1: id "t1"
+  '1a 34',                            //   3: trip_update, 52 bytes
+  '0a 04',                            //     1: trip, 4 bytes
+  '0a 02 74 31',                      //       1: trip_id "t1"
+  '12 1b',                            //     2: stop_time_update, 27 bytes
+  '08 01',                            //       1: stop_sequence 1
+  '12 13',                            //       2: arrival, 19 bytes
+  '08 c4 ff ff ff ff ff ff ff ff 01', //         1: delay -60
+  '10 80 f2 d6 ca 06',                //         2: time 1767225600
+  '18 1e',                            //         3: uncertainty 30
+  '22 02 53 31',                      //       4: stop_id "S1"
+  '20 80 f2 d6 ca 06',                //     4: timestamp 1767225600
+  '28 88 ff ff ff ff ff ff ff ff 01', //     5: delay -120
+);
+
+// int64 event time -1
+export const TRIP_UPDATE_NEGATIVE_TIME = bytes(
+  ...HEADER_V2,
+  '12 1d',                            // 2: entity, 29 bytes
+  '0a 02 74 32',                      //   1: id "t2"
+  '1a 17',                            //   3: trip_update, 23 bytes
+  '0a 04',                            //     1: trip, 4 bytes
+  '0a 02 74 32',                      //       1: trip_id "t2"
+  '12 0f',                            //     2: stop_time_update, 15 bytes
+  '08 03',                            //       1: stop_sequence 3
+  '1a 0b',                            //       3: departure, 11 bytes
+  '10 ff ff ff ff ff ff ff ff ff 01', //         2: time -1
+);
+
+export const ALERT_TRANSLATIONS = bytes(
+  ...HEADER_V2,
+  '12 44',                            // 2: entity, 68 bytes
+  '0a 02 61 31',                      //   1: id "a1"
+  '2a 3e',                            //   5: alert, 62 bytes
+  '0a 0c',                            //     1: active_period, 12 bytes
+  '08 80 f2 d6 ca 06',                //       1: start 1767225600
+  '10 80 ae 99 a4 0f',                //       2: end 4102444800
+  '2a 04',                            //     5: informed_entity, 4 bytes
+  '12 02 35 38',                      //       2: route_id "58"
+  '30 04',                            //     6: cause STRIKE
+  '38 01',                            //     7: effect NO_SERVICE
+  '52 24',                            //     10: header_text, 36 bytes
+  '0a 0c',                            //       1: translation, 12 bytes
+  '0a 06 53 74 72 69 6b 65',          //         1: text "Strike"
+  '12 02 65 6e',                      //         2: language "en"
+  '0a 14',                            //       1: translation, 20 bytes
+  '0a 0e ce 91 cf 80 ce b5 cf 81 ce b3 ce af ce b1', // 1: text "Απεργία" (UTF-8)
+  '12 02 65 6c',                      //         2: language "el"
+);
+
+export const DELETED_ENTITY = bytes(
+  '0a 07',                            // 1: header, 7 bytes
+  '0a 03 32 2e 30',                   //   1: gtfs_realtime_version "2.0"
+  '10 01',                            //   2: incrementality DIFFERENTIAL
+  '12 06',                            // 2: entity, 6 bytes
+  '0a 02 76 32',                      //   1: id "v2"
+  '10 01',                            //   2: is_deleted true
+);
+
+// Extension fields the parser does not know about, including a deprecated group
+export const UNKNOWN_FIELDS = bytes(
+  '12 12',                            // 2: entity, 18 bytes
+  '0a 01 78',                         //   1: id "x"
+  'a0 06 05',                         //   100: varint 5
+  'ad 06 01 02 03 04',                //   101: fixed32 0x04030201
+  'b3 06',                            //   102: start group
+  '08 01',                            //     1: varint 1
+  'b4 06',                            //   102: end group
+);
+
+// Entity length runs past the end of the buffer
+export const TRUNCATED_FEED = bytes(
+  '12 57',                            // 2: entity, 87 bytes declared
+  '0a 02 76 31',                      //   1: id "v1" (then nothing)
+);
+
+// ZIP archives for the static feed reader, generated with Python's zipfile
+// (the ZIP64 archive is assembled field by field with struct.pack)
+export function base64(...chunks: string[]): Uint8Array {
+  return Uint8Array.from(atob(chunks.join('')), (char) => char.charCodeAt(0));
+}
+
+export const ROUTES_TXT = 'route_id,route_short_name\r\n58,58\r\n';
+export const STOPS_TXT = 'stop_id,stop_name\nPK\x03\x04,"Signature inside data"\n';
+
+// routes.txt and stops.txt, deflated
+export const ZIP_DEFLATED = base64(
+  'UEsDBBQAAAAIAMeCU13XbjRhIAAAACIAAAAKAAAAcm91dGVzLnR4dCvKLy1Jjc9M0SkCM4oz8otK',
+  '4vMSc1N5uUwtdEwteLkAUEsDBBQAAAAIAMeCU12c3V7DLgAAAC8AAAAJAAAAc3RvcHMudHh0Ky7J',
+  'L4jPTNEpBtF5ibmpXAHezCw6SsGZ6XmJJaVFqQqZecWZKakKKYkliUpcAFBLAQIUAxQAAAAIAMeC',
+  'U13XbjRhIAAAACIAAAAKAAAAAAAAAAAAAACAAQAAAAByb3V0ZXMudHh0UEsBAhQDFAAAAAgAx4JT',
+  'XZzdXsMuAAAALwAAAAkAAAAAAAAAAAAAAIABSAAAAHN0b3BzLnR4dFBLBQYAAAAAAgACAG8AAACd',
+  'AAAAAAA=',
+);
+
+// routes.txt written to a non-seekable stream: flag bit 3, zero sizes in the local header
+export const ZIP_DATA_DESCRIPTOR = base64(
+  'UEsDBBQACAAIAAAAIQAAAAAAAAAAAAAAAAAKAAAAcm91dGVzLnR4dCvKLy1Jjc9M0SkCM4oz8otK',
+  '4vMSc1N5uUwtdEwteLkAUEsHCNduNGEgAAAAIgAAAFBLAQIUAxQACAAIAAAAIQDXbjRhIAAAACIA',
+  'AAAKAAAAAAAAAAAAAACAAQAAAAByb3V0ZXMudHh0UEsFBgAAAAABAAEAOAAAAFgAAAAAAA==',
+);
+
+// stops.txt stored inside a gtfs/ folder; its data contains a local header signature
+export const ZIP_NESTED_STORED = base64(
+  'UEsDBBQAAAAAAMeCU10AAAAAAAAAAAAAAAAFAAAAZ3Rmcy9QSwMEFAAAAAAAx4JTXZzdXsMvAAAA',
+  'LwAAAA4AAABndGZzL3N0b3BzLnR4dHN0b3BfaWQsc3RvcF9uYW1lClBLAwQsIlNpZ25hdHVyZSBp',
+  'bnNpZGUgZGF0YSIKUEsBAhQDFAAAAAAAx4JTXQAAAAAAAAAAAAAAAAUAAAAAAAAAAAAQAP1BAAAA',
+  'AGd0ZnMvUEsBAhQDFAAAAAAAx4JTXZzdXsMvAAAALwAAAA4AAAAAAAAAAAAAAIABIwAAAGd0ZnMv',
+  'c3RvcHMudHh0UEsFBgAAAAACAAIAbwAAAH4AAAAAAA==',
+);
+
+// routes.txt with sizes and offset in the ZIP64 extra field and a ZIP64 end of central directory
+export const ZIP_ZIP64 = base64(
+  'UEsDBC0AAAAAAAAAAADXbjRhIgAAACIAAAAKAAAAcm91dGVzLnR4dHJvdXRlX2lkLHJvdXRlX3No',
+  'b3J0X25hbWUNCjU4LDU4DQpQSwECLQAtAAAAAAAAAAAA1240Yf//////////CgAcAAAAAAAAAAAA',
+  'AAD/////cm91dGVzLnR4dAEAGAAiAAAAAAAAACIAAAAAAAAAAAAAAAAAAABQSwYGLAAAAAAAAAAt',
+  'AC0AAAAAAAAAAAABAAAAAAAAAAEAAAAAAAAAVAAAAAAAAABKAAAAAAAAAFBLBgcAAAAAngAAAAAA',
+  'AAABAAAAUEsFBgAAAAD///////////////8AAA==',
+);
+
+// NESTED_STORED with one byte of stops.txt changed after compression
+export const ZIP_CORRUPT_CRC = base64(
+  'UEsDBBQAAAAAAMeCU10AAAAAAAAAAAAAAAAFAAAAZ3Rmcy9QSwMEFAAAAAAAx4JTXZzdXsMvAAAA',
+  'LwAAAA4AAABndGZzL3N0b3BzLnR4dHN0b3BfaWQsc3RvcF9uYW1lClBLAwQsInNpZ25hdHVyZSBp',
+  'bnNpZGUgZGF0YSIKUEsBAhQDFAAAAAAAx4JTXQAAAAAAAAAAAAAAAAUAAAAAAAAAAAAQAP1BAAAA',
+  'AGd0ZnMvUEsBAhQDFAAAAAAAx4JTXZzdXsMvAAAALwAAAA4AAAAAAAAAAAAAAIABIwAAAGd0ZnMv',
+  'c3RvcHMudHh0UEsFBgAAAAACAAIAbwAAAH4AAAAAAA==',
+);
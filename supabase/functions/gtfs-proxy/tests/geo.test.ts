@@ -0,0 +1,11 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { distanceMeters } from '../geo.ts';
+
+Deno.test('distances are great-circle meters', () => {
+  assertEquals(distanceMeters(35.1, 33.3, 35.1, 33.3), 0);
+  // One degree of latitude
+  assertEquals(Math.round(distanceMeters(35, 33, 36, 33)), 111195);
+  // Nicosia to Limassol
+  assertEquals(Math.round(distanceMeters(35.1856, 33.3823, 34.7071, 33.0226) / 1000), 62);
+});
@@ -0,0 +1,126 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { bigintReplacer, encodeFeedMessage, parseFeedMessage } from '../gtfs-realtime.ts';
+import { ProtobufDecodeError } from '../protobuf.ts';
+import {
+  ALERT_TRANSLATIONS,
+  DELETED_ENTITY,
+  DIFFERENTIAL_HEADER,
+  TRIP_UPDATE_NEGATIVE_DELAY,
+  TRIP_UPDATE_NEGATIVE_TIME,
+  TRUNCATED_FEED,
+  UNKNOWN_FIELDS,
+  UNSAFE_UINT64_HEADER,
+  VEHICLE_POSITION,
+} from './fixtures.ts';
+
+Deno.test('header: incrementality and a post-2038 timestamp', () => {
+  assertEquals(parseFeedMessage(DIFFERENTIAL_HEADER), {
+    header: { gtfsRealtimeVersion: '2.0', incrementality: 1, timestamp: 4102444800 },
+    entity: [],
+  });
+});
+
+Deno.test('header: uint64 beyond 2^53 is kept exact as a bigint', () => {
+  const feed = parseFeedMessage(UNSAFE_UINT64_HEADER);
+  assertEquals(feed.header?.timestamp, 9223372036854775808n);
+  assertEquals(
+    JSON.stringify(feed.header, bigintReplacer),
+    '{"gtfsRealtimeVersion":"2.0","timestamp":"9223372036854775808"}',
+  );
+});
+
+Deno.test('vehicle position: floats, double odometer, uint32 and int32 percentages', () => {
+  const feed = parseFeedMessage(VEHICLE_POSITION);
+  assertEquals(feed.entity, [{
+    id: 'v1',
+    vehicle: {
+      trip: { tripId: 't1', routeId: '58', directionId: 1 },
+      position: { latitude: 35.125, longitude: 33.375, bearing: 90, odometer: 123456789.5, speed: 12.5 },
+      currentStopSequence: 7,
+      timestamp: 4102444800,
+      vehicle: { id: 'bus-1' },
+      occupancyPercentage: 3000000000,
+      multiCarriageDetails: [{ occupancyPercentage: -1, carriageSequence: 1 }],
+    },
+  }]);
+});
+
+Deno.test('trip update: negative delays on the trip and stop time event', () => {
+  const feed = parseFeedMessage(TRIP_UPDATE_NEGATIVE_DELAY);
+  assertEquals(feed.entity, [{
+    id: 't1',
+    tripUpdate: {
+      trip: { tripId: 't1' },
+      stopTimeUpdate: [{
+        stopSequence: 1,
+        arrival: { delay: -60, time: 1767225600, uncertainty: 30 },
+        stopId: 'S1',
+      }],
+      timestamp: 1767225600,
+      delay: -120,
+    },
+  }]);
+});
+
+Deno.test('trip update: int64 event time is signed', () => {
+  const feed = parseFeedMessage(TRIP_UPDATE_NEGATIVE_TIME);
+  assertEquals(feed.entity?.[0].tripUpdate?.stopTimeUpdate?.[0], {
+    stopSequence: 3,
+    departure: { time: -1 },
+  });
+});
+
+Deno.test('alert: active period, enums and every translation', () => {
+  const feed = parseFeedMessage(ALERT_TRANSLATIONS);
+  assertEquals(feed.entity, [{
+    id: 'a1',
+    alert: {
+      activePeriod: [{ start: 1767225600, end: 4102444800 }],
+      informedEntity: [{ routeId: '58' }],
+      cause: 4,
+      effect: 1,
+      headerText: [
+        { text: 'Strike', language: 'en' },
+        { text: 'Απεργία', language: 'el' },
+      ],
+    },
+  }]);
+});
+
+Deno.test('entity: is_deleted is decoded as a bool', () => {
+  const feed = parseFeedMessage(DELETED_ENTITY);
+  assertEquals(feed.header?.incrementality, 1);
+  assertEquals(feed.entity, [{ id: 'v2', isDeleted: true }]);
+});
+
+Deno.test('unknown fields and groups are skipped', () => {
+  assertEquals(parseFeedMessage(UNKNOWN_FIELDS).entity, [{ id: 'x' }]);
+});
+
+Deno.test('truncated feed raises a decode error', () => {
+  assertThrows(() => parseFeedMessage(TRUNCATED_FEED), ProtobufDecodeError);
+});
+
+Deno.test('encoder reproduces each fixture byte for byte', () => {
+  const fixtures = {
+    DIFFERENTIAL_HEADER,
+    UNSAFE_UINT64_HEADER,
+    VEHICLE_POSITION,
+    TRIP_UPDATE_NEGATIVE_DELAY,
+    TRIP_UPDATE_NEGATIVE_TIME,
+    ALERT_TRANSLATIONS,
+    DELETED_ENTITY,
+  };
+  for (const [name, data] of Object.entries(fixtures)) {
+    assertEquals(encodeFeedMessage(parseFeedMessage(data)), data, name);
+  }
+});
+
+Deno.test('encoder drops unknown fields and fills required defaults', () => {
+  const encoded = encodeFeedMessage(parseFeedMessage(UNKNOWN_FIELDS));
+  assertEquals(parseFeedMessage(encoded), {
+    header: { gtfsRealtimeVersion: '2.0' },
+    entity: [{ id: 'x' }],
+  });
+});
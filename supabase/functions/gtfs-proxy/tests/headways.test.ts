@@ -0,0 +1,53 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { type HeadwayVehicle, lineLength, measureHeadways, projectOntoLine, type RouteLine, scheduledHeadway } from '../headways.ts';
+
+// About 4.5 km due east, run end to end in 15 minutes
+const LINE: RouteLine = {
+  routeId: '30',
+  directionId: 0,
+  points: [[35, 33], [35, 33.025], [35, 33.05]],
+  runTime: 900,
+  scheduledHeadway: 240,
+};
+
+const vehicle = (vehicleId: string, longitude: number, latitude = 35, directionId = 0): HeadwayVehicle => ({
+  vehicleId,
+  routeId: '30',
+  directionId,
+  latitude,
+  longitude,
+});
+
+Deno.test('positions project onto the route geometry', () => {
+  const length = lineLength(LINE.points);
+  const { distance, offset } = projectOntoLine(LINE.points, 35.001, 33.025);
+  assertEquals(Math.round(distance), Math.round(length / 2));
+  assertEquals(Math.round(offset), 111);
+});
+
+Deno.test('vehicles close behind the one ahead are bunched, far behind leave a gap', () => {
+  const [route] = measureHeadways([LINE], [
+    vehicle('C', 33.01),
+    vehicle('A', 33.04),
+    vehicle('B', 33.039),
+    // Laying over at the first stop
+    vehicle('D', 33.0005),
+    // A kilometre off the route
+    vehicle('E', 33.03, 35.01),
+    // The other direction
+    vehicle('F', 33.02, 35, 1),
+  ]);
+
+  assertEquals(route.vehicles.map((v) => [v.vehicleId, v.status]), [['A', 'regular'], ['B', 'bunched'], ['C', 'gap']]);
+  assertEquals(route.vehicles[0].headway, undefined);
+  assertEquals(route.vehicles[1].headway! < 30, true);
+  assertEquals(route.vehicles[2].headway! > 480, true);
+  assertEquals([route.bunched, route.gaps, route.status], [1, 1, 'bunched']);
+});
+
+Deno.test('scheduled headway is the median interval between nearby trip starts', () => {
+  const now = 1_800_000_000;
+  assertEquals(scheduledHeadway([now - 600, now, now + 300, now + 7200], now), 450);
+  assertEquals(scheduledHeadway([now], now), undefined);
+});
@@ -0,0 +1,113 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { GtfsRealtimeFeed } from '../gtfs-realtime.ts';
+import { parseHistoryQuery, POSITION_AT_LOOKBACK, tripUpdateRows, vehiclePositionRows } from '../history.ts';
+import type { ScheduleData } from '../schedule.ts';
+
+const FETCHED_AT = Date.UTC(2026, 0, 1, 8, 15);
+
+const FEED: GtfsRealtimeFeed = {
+  header: { gtfsRealtimeVersion: '2.0', timestamp: FETCHED_AT / 1000 - 5 },
+  entity: [
+    {
+      id: 'e1',
+      vehicle: {
+        trip: { tripId: 'T1', routeId: 'R1', directionId: 1 },
+        vehicle: { id: 'BUS-7' },
+        position: { latitude: 34.68, longitude: 33.04, bearing: 90 },
+        currentStatus: 2,
+        timestamp: FETCHED_AT / 1000 - 20,
+      },
+    },
+    { id: 'e2', vehicle: { vehicle: { id: 'BUS-8' }, position: { latitude: 0, longitude: 0 } } },
+    { id: 'e3', vehicle: { position: { latitude: 34.7, longitude: 33.1 } } },
+    {
+      id: 'e4',
+      tripUpdate: {
+        trip: { tripId: 'T1', startDate: '20260101', scheduleRelationship: 0 },
+        vehicle: { id: 'BUS-7' },
+        stopTimeUpdate: [{ stopSequence: 3, stopId: 'S3', arrival: { delay: 120, time: FETCHED_AT / 1000 + 60 } }],
+      },
+    },
+    { id: 'e5', tripUpdate: { trip: { routeId: 'R1' } } },
+  ],
+};
+
+Deno.test('vehicle positions skip 0,0 fixes and fall back to the entity id', () => {
+  const rows = vehiclePositionRows('6', FEED, FETCHED_AT);
+  assertEquals(rows.map((row) => row.vehicle_id), ['BUS-7', 'e3']);
+  assertEquals(rows[0].recorded_at, '2026-01-01T08:14:40.000Z');
+  assertEquals(rows[0].current_status, 'IN_TRANSIT_TO');
+  assertEquals(rows[0].direction_id, 1);
+  // No vehicle timestamp: the feed header time
+  assertEquals(rows[1].recorded_at, '2026-01-01T08:14:55.000Z');
+  assertEquals(rows[1].trip_id, null);
+});
+
+Deno.test('trip updates need a trip_id and keep their stop time updates', () => {
+  const rows = tripUpdateRows('6', FEED, FETCHED_AT);
+  assertEquals(rows.length, 1);
+  assertEquals(rows[0].start_date, '20260101');
+  assertEquals(rows[0].schedule_relationship, 'SCHEDULED');
+  assertEquals(rows[0].stop_time_updates, [{
+    stop_sequence: 3,
+    stop_id: 'S3',
+    arrival_delay: 120,
+    arrival_time: FETCHED_AT / 1000 + 60,
+    departure_delay: undefined,
+    departure_time: undefined,
+    schedule_relationship: undefined,
+  }]);
+});
+
+Deno.test('trip updates with only times get their delays from the schedule', () => {
+  // 10:00 to 10:20 in Nicosia (UTC+2), with an untimed stop in between
+  const schedule: ScheduleData = {
+    trips: [{ trip_id: 'T2', route_id: 'R1', service_id: 'daily' }],
+    stopTimesByTrip: new Map([['T2', [
+      { trip_id: 'T2', arrival_time: '10:00:00', departure_time: '10:00:00', stop_id: 'S1', stop_sequence: 1 },
+      { trip_id: 'T2', stop_id: 'S2', stop_sequence: 2 },
+      { trip_id: 'T2', arrival_time: '10:20:00', departure_time: '10:20:00', stop_id: 'S3', stop_sequence: 3 },
+    ]]]),
+    calendar: [],
+    calendarDates: [],
+    shapes: new Map(),
+  };
+  const feed: GtfsRealtimeFeed = {
+    entity: [{
+      id: 'e1',
+      tripUpdate: {
+        trip: { tripId: 'T2' },
+        stopTimeUpdate: [
+          { stopId: 'S2', departure: { time: Date.UTC(2026, 0, 1, 8, 11) / 1000 } },
+          { stopSequence: 3, arrival: { time: Date.UTC(2026, 0, 1, 8, 22) / 1000, delay: 90 } },
+          { stopId: 'S9', arrival: { time: Date.UTC(2026, 0, 1, 8, 30) / 1000 } },
+        ],
+      },
+    }],
+  };
+
+  const [row] = tripUpdateRows('6', feed, FETCHED_AT, schedule);
+  assertEquals(row.stop_time_updates.map((update) => update.departure_delay ?? update.arrival_delay), [60, 90, undefined]);
+  // Without the schedule the delays stay unknown
+  assertEquals(tripUpdateRows('6', feed, FETCHED_AT)[0].stop_time_updates[0].departure_delay, undefined);
+});
+
+Deno.test('history queries default to the last hour and accept at', () => {
+  const { query } = parseHistoryQuery(new URLSearchParams('operator=6&vehicle=BUS-7'), FETCHED_AT);
+  assertEquals(query?.to.getTime(), FETCHED_AT);
+  assertEquals(query?.from.getTime(), FETCHED_AT - 3600 * 1000);
+  assertEquals(query?.vehicleId, 'BUS-7');
+
+  const at = parseHistoryQuery(new URLSearchParams('at=2026-01-01T10:15:00%2B02:00'));
+  assertEquals(at.query?.to.getTime(), FETCHED_AT);
+  assertEquals(at.query?.from.getTime(), FETCHED_AT - POSITION_AT_LOOKBACK);
+});
+
+Deno.test('history queries reject bad times, ranges and limits', () => {
+  assertEquals(parseHistoryQuery(new URLSearchParams('from=yesterday')).error, 'from must be an ISO 8601 time or Unix seconds');
+  assertEquals(parseHistoryQuery(new URLSearchParams('from=1767258000&to=1767254400')).error, 'from must be before to');
+  assertEquals(parseHistoryQuery(new URLSearchParams('from=1767225600&to=1767398400')).error, 'The time range cannot exceed 24 hours');
+  assertEquals(parseHistoryQuery(new URLSearchParams('at=1767225600&to=1767225600')).error, 'at cannot be combined with from or to');
+  assertEquals(parseHistoryQuery(new URLSearchParams('limit=0')).error, 'limit must be between 1 and 10000');
+});
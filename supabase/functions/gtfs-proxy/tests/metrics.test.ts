@@ -0,0 +1,56 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { MetricsRegistry } from '../metrics.ts';
+
+Deno.test('counters and gauges render one sample per label set', () => {
+  const registry = new MetricsRegistry();
+  const requests = registry.counter('requests_total', 'Requests');
+  const uptime = registry.gauge('uptime_seconds', 'Uptime');
+
+  requests.inc({ operator: '6', outcome: 'success' });
+  requests.inc({ outcome: 'success', operator: '6' }, 2);
+  requests.inc({ operator: '2', outcome: 'error "500"' });
+  uptime.set({}, 42);
+
+  assertEquals(requests.get({ operator: '6', outcome: 'success' }), 3);
+  assertEquals(
+    registry.render(),
+    [
+      '# HELP requests_total Requests',
+      '# TYPE requests_total counter',
+      'requests_total{operator="6",outcome="success"} 3',
+      'requests_total{operator="2",outcome="error \\"500\\""} 1',
+      '',
+      '# HELP uptime_seconds Uptime',
+      '# TYPE uptime_seconds gauge',
+      'uptime_seconds 42',
+      '',
+    ].join('\n'),
+  );
+
+  uptime.reset();
+  assertEquals(uptime.get(), 0);
+});
+
+Deno.test('histograms render cumulative buckets, sum and count', () => {
+  const registry = new MetricsRegistry();
+  const duration = registry.histogram('duration_seconds', 'Duration', [1, 0.1]);
+
+  duration.observe({ source: 'static' }, 0.05);
+  duration.observe({ source: 'static' }, 0.5);
+  duration.observe({ source: 'static' }, 3);
+
+  assertEquals(registry.render().trim().split('\n').slice(2), [
+    'duration_seconds_bucket{source="static",le="0.1"} 1',
+    'duration_seconds_bucket{source="static",le="1"} 2',
+    'duration_seconds_bucket{source="static",le="+Inf"} 3',
+    'duration_seconds_sum{source="static"} 3.55',
+    'duration_seconds_count{source="static"} 3',
+  ]);
+});
+
+Deno.test('metric names are unique within a registry', () => {
+  const registry = new MetricsRegistry();
+  registry.counter('requests_total', 'Requests');
+  assertThrows(() => registry.gauge('requests_total', 'Requests'));
+});
@@ -0,0 +1,58 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { feedValidity, readOperatorMetadata } from '../operators.ts';
+
+const reader = (files: Record<string, Record<string, string>[]>) =>
+  async function* (fileName: string) {
+    yield* files[fileName] || [];
+  };
+
+Deno.test('operator metadata is read from agency.txt and feed_info.txt', async () => {
+  const metadata = await readOperatorMetadata(reader({
+    'agency.txt': [
+      { agency_id: 'EMEL', agency_name: 'EMEL Limassol', agency_url: 'https://emel.example', agency_timezone: 'Europe/Nicosia', agency_phone: '+357 77778121' },
+      { agency_id: 'X', agency_name: '' },
+    ],
+    'feed_info.txt': [
+      { feed_publisher_name: 'Motion', feed_publisher_url: 'https://motion.example', feed_lang: 'el', feed_version: '2026-09', feed_start_date: '20260901', feed_end_date: 'soon' },
+    ],
+    'calendar.txt': [
+      { service_id: 'WD', start_date: '20260901', end_date: '20261231' },
+      { service_id: 'WE', start_date: '20260815', end_date: '20261130' },
+    ],
+    'calendar_dates.txt': [
+      { service_id: 'WD', date: '20270105', exception_type: '2' },
+      { service_id: 'XMAS', date: '20270102', exception_type: '1' },
+    ],
+  }));
+
+  assertEquals(metadata.agencies, [{
+    id: 'EMEL',
+    name: 'EMEL Limassol',
+    url: 'https://emel.example',
+    timezone: 'Europe/Nicosia',
+    lang: undefined,
+    phone: '+357 77778121',
+    fareUrl: undefined,
+    email: undefined,
+  }]);
+  assertEquals(metadata.feedInfo?.version, '2026-09');
+  assertEquals(metadata.feedInfo?.endDate, undefined);
+  assertEquals([metadata.serviceStart, metadata.serviceEnd], ['20260815', '20270102']);
+});
+
+Deno.test('feed validity prefers feed_info.txt dates over the service period', () => {
+  const metadata = {
+    agencies: [],
+    feedInfo: { publisherName: 'Motion', publisherUrl: '', lang: 'el', startDate: '20260901', endDate: '20261020' },
+    serviceStart: '20260101',
+    serviceEnd: '20271231',
+  };
+
+  assertEquals(feedValidity(metadata, '20261001'), { validity: 'valid', validFrom: '20260901', validUntil: '20261020', daysLeft: 19 });
+  assertEquals(feedValidity(metadata, '20261018').validity, 'expiring');
+  assertEquals(feedValidity(metadata, '20261021'), { validity: 'expired', validFrom: '20260901', validUntil: '20261020', daysLeft: -1 });
+  assertEquals(feedValidity(metadata, '20260801').validity, 'not_yet_valid');
+  assertEquals(feedValidity({ agencies: [], serviceEnd: '20261231' }, '20261001').validUntil, '20261231');
+  assertEquals(feedValidity({ agencies: [] }, '20261001'), { validity: 'unknown', validFrom: undefined });
+});
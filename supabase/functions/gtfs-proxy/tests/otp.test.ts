@@ -0,0 +1,47 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { DEFAULT_OTP_THRESHOLDS, type OtpBucket, parseOtpQuery, summarizeOtp } from '../otp.ts';
+
+const NOW = Date.UTC(2026, 0, 8);
+
+const bucket = (operator_id: string, route_id: string, hour: number, early: number, on_time: number, late: number): OtpBucket => ({
+  operator_id,
+  route_id,
+  direction_id: 0,
+  hour,
+  early,
+  on_time,
+  late,
+});
+
+Deno.test('counts roll up per operator, route and hour', () => {
+  const { query } = parseOtpQuery(new URLSearchParams(), NOW);
+  const report = summarizeOtp([
+    bucket('6', '30', 8, 1, 8, 1),
+    bucket('6', '30', 9, 0, 5, 5),
+    bucket('6', '11', 8, 0, 10, 0),
+    bucket('10', '401', 17, 2, 2, 0),
+  ], query!);
+
+  assertEquals(report.overall, { early: 3, onTime: 25, late: 6, total: 34, onTimeShare: 25 / 34 });
+  assertEquals(report.operators.map((operator) => [operator.operatorId, operator.total]), [['6', 30], ['10', 4]]);
+  // Worst route first
+  assertEquals(report.routes.map((route) => [route.routeId, route.onTimeShare]), [['401', 0.5], ['30', 0.65], ['11', 1]]);
+  assertEquals(report.hours.length, 24);
+  assertEquals(report.hours[8].total, 20);
+  assertEquals(report.hours[0], { hour: 0, early: 0, onTime: 0, late: 0, total: 0, onTimeShare: null });
+});
+
+Deno.test('otp queries default to the last 7 days and standard thresholds', () => {
+  const { query } = parseOtpQuery(new URLSearchParams('operator=all&route=30'), NOW);
+  assertEquals(query?.operatorId, undefined);
+  assertEquals(query?.routeId, '30');
+  assertEquals(query?.from.toISOString(), '2026-01-01T00:00:00.000Z');
+  assertEquals(query?.thresholds, DEFAULT_OTP_THRESHOLDS);
+  assertEquals(parseOtpQuery(new URLSearchParams('early=120&late=600'), NOW).query?.thresholds, { early: 120, late: 600 });
+});
+
+Deno.test('otp queries reject bad thresholds and ranges', () => {
+  assertEquals(parseOtpQuery(new URLSearchParams('late=-5')).error, 'late must be a number of seconds between 0 and 3600');
+  assertEquals(parseOtpQuery(new URLSearchParams('from=1767225600&to=1772323200')).error, 'The time range cannot exceed 31 days');
+});
@@ -0,0 +1,155 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  asBool,
+  asDouble,
+  asFixed32,
+  asFixed64,
+  asFloat,
+  asInt32,
+  asInt64,
+  asSfixed32,
+  asSfixed64,
+  asSint32,
+  asSint64,
+  asString,
+  asUint32,
+  asUint64,
+  parseProtobuf,
+  ProtobufDecodeError,
+  ProtobufWriter,
+  readVarint,
+} from '../protobuf.ts';
+import { bytes } from './fixtures.ts';
+
+function field(hex: string) {
+  const fields = parseProtobuf(bytes(hex));
+  assertEquals(fields.length, 1);
+  return fields[0];
+}
+
+Deno.test('readVarint decodes single and multi-byte values', () => {
+  assertEquals(readVarint(bytes('00'), 0), { value: 0, bytesRead: 1 });
+  assertEquals(readVarint(bytes('96 01'), 0), { value: 150, bytesRead: 2 });
+  assertEquals(readVarint(bytes('ac 02'), 0), { value: 300, bytesRead: 2 });
+  assertEquals(readVarint(bytes('ff ff ff ff 0f'), 0), { value: 4294967295, bytesRead: 5 });
+  assertEquals(readVarint(bytes('80 80 80 80 10'), 0), { value: 4294967296, bytesRead: 5 });
+});
+
+Deno.test('readVarint returns safe integers as numbers and larger values as bigints', () => {
+  // 2^53 - 1
+  assertEquals(readVarint(bytes('ff ff ff ff ff ff ff 0f'), 0), { value: Number.MAX_SAFE_INTEGER, bytesRead: 8 });
+  // 2^53
+  assertEquals(readVarint(bytes('80 80 80 80 80 80 80 10'), 0), { value: 9007199254740992n, bytesRead: 8 });
+  // 2^64 - 1
+  assertEquals(readVarint(bytes('ff ff ff ff ff ff ff ff ff 01'), 0), { value: 18446744073709551615n, bytesRead: 10 });
+});
+
+Deno.test('readVarint rejects truncated and overlong varints', () => {
+  assertThrows(() => readVarint(bytes('ff ff'), 0), ProtobufDecodeError, 'Truncated varint');
+  assertThrows(() => readVarint(bytes('ff ff ff ff ff ff ff ff ff ff 01'), 0), ProtobufDecodeError, 'longer than 10 bytes');
+});
+
+Deno.test('int32 and int64 decode sign-extended negative values', () => {
+  const minusOne = field('08 ff ff ff ff ff ff ff ff ff 01');
+  assertEquals(asInt32(minusOne), -1);
+  assertEquals(asInt64(minusOne), -1);
+  assertEquals(asUint64(minusOne), 18446744073709551615n);
+
+  assertEquals(asInt32(field('08 80 80 80 80 f8 ff ff ff ff 01')), -2147483648);
+  assertEquals(asInt32(field('08 ff ff ff ff 07')), 2147483647);
+  // int64 minimum
+  assertEquals(asInt64(field('08 80 80 80 80 80 80 80 80 80 01')), -9223372036854775808n);
+});
+
+Deno.test('uint32 keeps values above 2^31 positive', () => {
+  assertEquals(asUint32(field('08 80 bc c1 96 0b')), 3000000000);
+  assertEquals(asUint32(field('08 ff ff ff ff 0f')), 4294967295);
+});
+
+Deno.test('sint32 and sint64 apply zigzag decoding', () => {
+  assertEquals(asSint32(field('08 00')), 0);
+  assertEquals(asSint32(field('08 01')), -1);
+  assertEquals(asSint32(field('08 02')), 1);
+  assertEquals(asSint32(field('08 03')), -2);
+  assertEquals(asSint32(field('08 fe ff ff ff 0f')), 2147483647);
+  assertEquals(asSint32(field('08 ff ff ff ff 0f')), -2147483648);
+
+  assertEquals(asSint64(field('08 01')), -1);
+  assertEquals(asSint64(field('08 fe ff ff ff ff ff ff ff ff 01')), 9223372036854775807n);
+  assertEquals(asSint64(field('08 ff ff ff ff ff ff ff ff ff 01')), -9223372036854775808n);
+});
+
+Deno.test('bool decodes any non-zero varint as true', () => {
+  assertEquals(asBool(field('08 00')), false);
+  assertEquals(asBool(field('08 01')), true);
+});
+
+Deno.test('fixed-width fields are interpreted by their declared type', () => {
+  // The same eight bytes read as double and as fixed64
+  const eight = field('09 00 00 00 00 00 00 f0 3f');
+  assertEquals(asDouble(eight), 1);
+  assertEquals(asFixed64(eight), 4607182418800017408n);
+
+  const big = field('09 ff ff ff ff ff ff ff ff');
+  assertEquals(asFixed64(big), 18446744073709551615n);
+  assertEquals(asSfixed64(big), -1);
+
+  const four = field('0d 00 00 80 3f');
+  assertEquals(asFloat(four), 1);
+  assertEquals(asFixed32(four), 1065353216);
+  assertEquals(asSfixed32(field('0d ff ff ff ff')), -1);
+});
+
+Deno.test('accessors return undefined for mismatched wire types', () => {
+  const varint = field('08 01');
+  assertEquals(asDouble(varint), undefined);
+  assertEquals(asFloat(varint), undefined);
+  assertEquals(asString(varint), undefined);
+  assertEquals(asInt32(field('0d 00 00 80 3f')), undefined);
+});
+
+Deno.test('parseProtobuf rejects malformed messages', () => {
+  assertThrows(() => parseProtobuf(bytes('0a 05 61 62')), ProtobufDecodeError, 'exceeds message');
+  assertThrows(() => parseProtobuf(bytes('09 00 00')), ProtobufDecodeError, 'Truncated fixed-width');
+  assertThrows(() => parseProtobuf(bytes('0e 00')), ProtobufDecodeError, 'Unknown wire type 6');
+  assertThrows(() => parseProtobuf(bytes('08')), ProtobufDecodeError, 'Truncated varint');
+  assertThrows(() => parseProtobuf(bytes('00 01')), ProtobufDecodeError, 'Invalid field number 0');
+});
+
+Deno.test('ProtobufWriter encodes each scalar type', () => {
+  const encoded = new ProtobufWriter()
+    .uint32(1, 300)
+    .int32(2, -1)
+    .uint64(3, 18446744073709551615n)
+    .int64(4, -9223372036854775808n)
+    .bool(5, true)
+    .float(6, 1)
+    .double(7, 1)
+    .string(8, 'Λ')
+    .uint32(9, undefined)
+    .finish();
+
+  assertEquals(encoded, bytes(
+    '08 ac 02',
+    '10 ff ff ff ff ff ff ff ff ff 01',
+    '18 ff ff ff ff ff ff ff ff ff 01',
+    '20 80 80 80 80 80 80 80 80 80 01',
+    '28 01',
+    '35 00 00 80 3f',
+    '39 00 00 00 00 00 00 f0 3f',
+    '42 02 ce 9b',
+  ));
+});
+
+Deno.test('ProtobufWriter output decodes back to the same values', () => {
+  const fields = parseProtobuf(new ProtobufWriter()
+    .int32(1, -2147483648)
+    .uint64(2, 4102444800)
+    .message(3, new ProtobufWriter().string(1, 'nested').finish())
+    .finish());
+
+  assertEquals(asInt32(fields[0]), -2147483648);
+  assertEquals(asUint64(fields[1]), 4102444800);
+  assertEquals(asString(parseProtobuf(fields[2].rawBytes!)[0]), 'nested');
+});
@@ -0,0 +1,48 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { isEmptyChange, ListTracker, SnapshotTracker } from '../realtime-diff.ts';
+
+Deno.test('first update returns every item', () => {
+  const tracker = new ListTracker<{ id: string; lat: number }>();
+  assertEquals(tracker.update([{ id: 'a', lat: 1 }, { id: 'b', lat: 2 }]), {
+    changed: [{ id: 'a', lat: 1 }, { id: 'b', lat: 2 }],
+    removed: [],
+  });
+});
+
+Deno.test('later updates return changed, added and removed items only', () => {
+  const tracker = new ListTracker<{ id: string; lat: number }>();
+  tracker.update([{ id: 'a', lat: 1 }, { id: 'b', lat: 2 }, { id: 'c', lat: 3 }]);
+  assertEquals(tracker.update([{ id: 'a', lat: 1 }, { id: 'b', lat: 2.5 }, { id: 'd', lat: 4 }]), {
+    changed: [{ id: 'b', lat: 2.5 }, { id: 'd', lat: 4 }],
+    removed: ['c'],
+  });
+  assertEquals(tracker.update([{ id: 'a', lat: 1 }, { id: 'b', lat: 2.5 }, { id: 'd', lat: 4 }]), {
+    changed: [],
+    removed: [],
+  });
+});
+
+Deno.test('bigint fields are compared by value', () => {
+  const tracker = new ListTracker<{ id: string; timestamp: bigint }>();
+  tracker.update([{ id: 'a', timestamp: 9223372036854775808n }]);
+  assertEquals(tracker.update([{ id: 'a', timestamp: 9223372036854775808n }]).changed, []);
+  assertEquals(tracker.update([{ id: 'a', timestamp: 9223372036854775809n }]).changed.length, 1);
+});
+
+Deno.test('snapshot tracker reports each list separately', () => {
+  const tracker = new SnapshotTracker<{ id: string }, { id: string; delay: number }, { id: string }>();
+  tracker.update({ vehicles: [{ id: 'v1' }], trips: [{ id: 't1', delay: 0 }], alerts: [{ id: 'a1' }] });
+
+  const unchanged = tracker.update({ vehicles: [{ id: 'v1' }], trips: [{ id: 't1', delay: 0 }], alerts: [{ id: 'a1' }] });
+  assertEquals(isEmptyChange(unchanged), true);
+
+  const changes = tracker.update({ vehicles: [{ id: 'v1' }], trips: [{ id: 't1', delay: 60 }], alerts: [] });
+  assertEquals(changes, {
+    vehicles: [],
+    trips: [{ id: 't1', delay: 60 }],
+    alerts: [],
+    removed: { vehicles: [], trips: [], alerts: ['a1'] },
+  });
+  assertEquals(isEmptyChange(changes), false);
+});
@@ -0,0 +1,98 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { FeedEntity, GtfsRealtimeFeed } from '../gtfs-realtime.ts';
+import { type StaticContext, validateRealtimeFeed } from '../realtime-validator.ts';
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+const NOW_SECONDS = NOW / 1000;
+
+const feed = (...entity: FeedEntity[]): GtfsRealtimeFeed => ({
+  header: { gtfsRealtimeVersion: '2.0', incrementality: 0, timestamp: NOW_SECONDS },
+  entity,
+});
+
+const vehicle = (id: string, latitude: number, longitude: number, tripId = 'T1'): FeedEntity => ({
+  id,
+  vehicle: {
+    trip: { tripId, routeId: 'R1' },
+    vehicle: { id },
+    position: { latitude, longitude },
+    timestamp: NOW_SECONDS - 10,
+  },
+});
+
+const context: StaticContext = {
+  routeIds: new Set(['R1']),
+  trips: new Map([['T1', { routeId: 'R1', directionId: 0 }]]),
+  stops: new Map([['S1', 0], ['S2', 0], ['S3', 0], ['STATION', 1]]),
+  bounds: [34.6, 32.3, 35.2, 34.0],
+  getStopTimes: (tripId) => tripId === 'T1' ? new Map([[1, 'S1'], [2, 'S2'], [3, 'S3']]) : undefined,
+};
+
+const codes = (notices: { code: string }[]) => notices.map((notice) => notice.code);
+
+Deno.test('a clean feed has no notices', () => {
+  assertEquals(validateRealtimeFeed(feed(vehicle('v1', 34.7, 33.0)), { now: NOW, static: context }), []);
+});
+
+Deno.test('vehicles at 0,0, outside the stops area or with a shared id are reported', () => {
+  const notices = validateRealtimeFeed(
+    feed(vehicle('v1', 0, 0), vehicle('v2', 40.6, 22.9), vehicle('v2', 34.7, 33.0)),
+    { now: NOW, static: context },
+  );
+  assertEquals(codes(notices), ['E026', 'E028', 'E052']);
+  assertEquals(notices[0].examples, ['v1']);
+});
+
+Deno.test('unknown trips and routes are checked only with a static context', () => {
+  const unknown = feed(vehicle('v1', 34.7, 33.0, 'MISSING'));
+  assertEquals(codes(validateRealtimeFeed(unknown, { now: NOW, static: context })), ['E003']);
+  assertEquals(validateRealtimeFeed(unknown, { now: NOW }), []);
+
+  const added = vehicle('v2', 34.7, 33.0, 'MISSING');
+  added.vehicle!.trip!.scheduleRelationship = 1;
+  assertEquals(validateRealtimeFeed(feed(added), { now: NOW, static: context }), []);
+});
+
+Deno.test('future and millisecond timestamps are reported', () => {
+  const future = vehicle('v1', 34.7, 33.0);
+  future.vehicle!.timestamp = NOW_SECONDS + 3600;
+  const millis = vehicle('v2', 34.7, 33.0);
+  millis.vehicle!.timestamp = NOW;
+
+  const notices = validateRealtimeFeed(feed(future, millis), { now: NOW });
+  assertEquals(codes(notices), ['E001', 'E012', 'E050']);
+  assertEquals(notices.find((notice) => notice.code === 'E012')?.occurrences, 2);
+});
+
+Deno.test('stop time updates out of order or not matching stop_times.txt are reported', () => {
+  const tripUpdate: FeedEntity = {
+    id: 'tu1',
+    tripUpdate: {
+      trip: { tripId: 'T1', startDate: '20260230' },
+      timestamp: NOW_SECONDS,
+      stopTimeUpdate: [
+        { stopSequence: 2, stopId: 'S2', arrival: { time: NOW_SECONDS + 120 } },
+        { stopSequence: 1, stopId: 'S3', arrival: { time: NOW_SECONDS + 60 } },
+        { stopSequence: 9, stopId: 'STATION', departure: {} },
+      ],
+    },
+  };
+
+  const notices = validateRealtimeFeed(feed(tripUpdate), { now: NOW, static: context });
+  assertEquals(codes(notices), ['E002', 'E010', 'E021', 'E022', 'E044', 'E045', 'E051']);
+  assertEquals(notices.every((notice) => notice.examples[0] === 'tu1'), true);
+});
+
+Deno.test('header problems and alerts without informed entities are reported', () => {
+  const stale: GtfsRealtimeFeed = {
+    header: { gtfsRealtimeVersion: '2.0', timestamp: NOW_SECONDS - 600 },
+    entity: [
+      { id: 'a1', alert: { informedEntity: [] } },
+      { id: 'a2', alert: { informedEntity: [{ routeId: 'R1', trip: { tripId: 'T1', routeId: 'R2' } }] } },
+      { id: 'gone', isDeleted: true },
+    ],
+  };
+  assertEquals(codes(validateRealtimeFeed(stale, { now: NOW })), ['E031', 'E032', 'E039', 'W008']);
+  assertEquals(codes(validateRealtimeFeed({ entity: [] }, { now: NOW })), ['E048']);
+});
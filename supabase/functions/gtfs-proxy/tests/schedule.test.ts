@@ -0,0 +1,80 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  compareDepartureTimes,
+  getActiveServiceIds,
+  type GtfsFileReader,
+  parseSchedule,
+  type ScheduledStopTime,
+  timeToSeconds,
+} from '../schedule.ts';
+
+const files = (contents: Record<string, Record<string, string>[]>): GtfsFileReader =>
+  async function* (fileName) {
+    yield* contents[fileName] || [];
+  };
+
+const weekdays = { monday: '1', tuesday: '1', wednesday: '1', thursday: '1', friday: '1', saturday: '0', sunday: '0' };
+
+const schedule = {
+  calendar: [
+    { service_id: 'weekday', days: [false, true, true, true, true, true, false], start_date: '20261001', end_date: '20261031' },
+    { service_id: 'weekend', days: [true, false, false, false, false, false, true], start_date: '20261001', end_date: '20261031' },
+  ],
+  calendarDates: [
+    // A holiday Monday runs the weekend service
+    { service_id: 'weekday', date: '20261026', exception_type: 2 },
+    { service_id: 'weekend', date: '20261026', exception_type: 1 },
+    // An extra day after the calendar ends
+    { service_id: 'weekday', date: '20261102', exception_type: 1 },
+  ],
+};
+
+const active = (serviceDate: string) => [...getActiveServiceIds(schedule, serviceDate)].sort();
+
+Deno.test('services run on their weekdays within the calendar dates', () => {
+  assertEquals(active('20261019'), ['weekday']);
+  assertEquals(active('20261018'), ['weekend']);
+  assertEquals(active('20261001'), ['weekday']);
+  assertEquals(active('20261031'), ['weekend']);
+  assertEquals(active('20260930'), []);
+  assertEquals(active('20261103'), []);
+});
+
+Deno.test('calendar_dates exceptions add and remove services', () => {
+  assertEquals(active('20261026'), ['weekend']);
+  assertEquals(active('20261102'), ['weekday']);
+});
+
+Deno.test('GTFS times count past midnight and untimed stops have none', () => {
+  assertEquals(timeToSeconds('08:05:30'), 29130);
+  assertEquals(timeToSeconds('5:00:00'), 18000);
+  assertEquals(timeToSeconds('25:10:00'), 90600);
+  assertEquals(timeToSeconds(''), undefined);
+  assertEquals(timeToSeconds(undefined), undefined);
+  assertEquals(timeToSeconds('soon'), undefined);
+});
+
+Deno.test('untimed stops are kept without times and sort after timed ones', async () => {
+  const parsed = await parseSchedule(files({
+    'trips.txt': [{ trip_id: 't1', route_id: 'r', service_id: 'weekday' }],
+    'stop_times.txt': [
+      { trip_id: 't1', stop_id: 'C', stop_sequence: '3', arrival_time: '08:20:00', departure_time: '' },
+      { trip_id: 't1', stop_id: 'A', stop_sequence: '1', arrival_time: '08:00:00', departure_time: '08:00:00' },
+      { trip_id: 't1', stop_id: 'B', stop_sequence: '2', arrival_time: '', departure_time: '', timepoint: '0' },
+    ],
+    'calendar.txt': [{ service_id: 'weekday', ...weekdays, start_date: '20261001', end_date: '20261031' }],
+  }));
+
+  const stopTimes = parsed.stopTimesByTrip.get('t1')!;
+  assertEquals(stopTimes.map((st) => [st.stop_id, st.arrival_time, st.departure_time]), [
+    ['A', '08:00:00', '08:00:00'],
+    ['B', undefined, undefined],
+    ['C', '08:20:00', '08:20:00'],
+  ]);
+  assertEquals(parsed.calendar[0].days, [false, true, true, true, true, true, false]);
+
+  const atStop = (departure_time?: string): ScheduledStopTime => ({ trip_id: 't', stop_id: 'S', stop_sequence: 1, departure_time });
+  const sorted = [atStop('09:00:00'), atStop(undefined), atStop('07:30:00'), atStop('08:00:00')].sort(compareDepartureTimes);
+  assertEquals(sorted.map((st) => st.departure_time), ['07:30:00', '08:00:00', '09:00:00', undefined]);
+});
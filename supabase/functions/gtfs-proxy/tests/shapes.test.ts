@@ -0,0 +1,76 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { ScheduleData, ScheduledStopTime } from '../schedule.ts';
+import { buildRouteShapes, encodePolyline } from '../shapes.ts';
+
+const stopTimes = (tripId: string, stopIds: string[]): ScheduledStopTime[] =>
+  stopIds.map((stopId, index) => ({ trip_id: tripId, stop_id: stopId, stop_sequence: index + 1 }));
+
+const schedule = (overrides: Partial<ScheduleData>): ScheduleData => ({
+  trips: [],
+  stopTimesByTrip: new Map(),
+  calendar: [],
+  calendarDates: [],
+  shapes: new Map(),
+  ...overrides,
+});
+
+const STOPS = [
+  { stop_id: 'A', stop_lat: 38.5, stop_lon: -120.2 },
+  { stop_id: 'B', stop_lat: 40.7, stop_lon: -120.95 },
+  { stop_id: 'C', stop_lat: 43.252, stop_lon: -126.453 },
+  { stop_id: 'D' },
+];
+
+Deno.test('polylines follow the encoded polyline algorithm', () => {
+  // The example from the format's documentation
+  assertEquals(encodePolyline([[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]]), '_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+  assertEquals(encodePolyline([]), '');
+});
+
+Deno.test('each direction uses the shape most of its trips share', () => {
+  const shapes = buildRouteShapes(schedule({
+    trips: [
+      { trip_id: 't1', route_id: '30', service_id: 's', direction_id: 1, shape_id: 'back' },
+      { trip_id: 't2', route_id: '30', service_id: 's', direction_id: 0, shape_id: 'short' },
+      { trip_id: 't3', route_id: '30', service_id: 's', direction_id: 0, shape_id: 'main' },
+      { trip_id: 't4', route_id: '30', service_id: 's', direction_id: 0, shape_id: 'main' },
+      { trip_id: 't5', route_id: '31', service_id: 's', direction_id: 0, shape_id: 'other' },
+    ],
+    shapes: new Map([
+      ['main', [[38.5, -120.2], [40.7, -120.95]]],
+      ['short', [[38.5, -120.2]]],
+      ['back', [[40.7, -120.95], [38.5, -120.2]]],
+      ['other', [[0, 0], [1, 1]]],
+    ]),
+  }), STOPS, '30');
+
+  assertEquals(shapes.map((shape) => [shape.direction_id, shape.shape_id, shape.source]), [
+    [0, 'main', 'shapes'],
+    [1, 'back', 'shapes'],
+  ]);
+  assertEquals(shapes[0].polyline, '_p~iF~ps|U_ulLnnqC');
+});
+
+Deno.test('without shapes.txt the stops of the longest trip are drawn', () => {
+  const shapes = buildRouteShapes(schedule({
+    trips: [
+      { trip_id: 'short', route_id: '30', service_id: 's' },
+      { trip_id: 'long', route_id: '30', service_id: 's' },
+      { trip_id: 'lonely', route_id: '40', service_id: 's' },
+    ],
+    stopTimesByTrip: new Map([
+      ['short', stopTimes('short', ['A', 'B'])],
+      // Stops without coordinates are left out
+      ['long', stopTimes('long', ['A', 'D', 'B', 'C'])],
+      ['lonely', stopTimes('lonely', ['A', 'D'])],
+    ]),
+  }), STOPS, '30');
+
+  assertEquals(shapes, [{ route_id: '30', direction_id: undefined, polyline: '_p~iF~ps|U_ulLnnqC_mqNvxq`@', source: 'stops' }]);
+  // A single located stop is no line
+  assertEquals(buildRouteShapes(schedule({
+    trips: [{ trip_id: 'lonely', route_id: '40', service_id: 's' }],
+    stopTimesByTrip: new Map([['lonely', stopTimes('lonely', ['A', 'D'])]]),
+  }), STOPS, '40'), []);
+});
@@ -0,0 +1,86 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { readCsv } from '../csv.ts';
+import { type GtfsFileReader, validateStaticFeed } from '../static-validator.ts';
+
+const TODAY = '20260115';
+
+const VALID_FEED: Record<string, string> = {
+  'agency.txt': 'agency_id,agency_name,agency_url,agency_timezone\nA,EMEL,https://example.com,Asia/Nicosia\n',
+  'stops.txt': 'stop_id,stop_name,stop_lat,stop_lon\nS1,Old Port,34.67,33.04\nS2,Castle,34.67,33.05\n',
+  'routes.txt': 'route_id,agency_id,route_short_name,route_type,route_color\nR1,A,30,3,FF0000\n',
+  'calendar.txt': 'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date\n' +
+    'WD,1,1,1,1,1,0,0,20260101,20261231\n',
+  'trips.txt': 'route_id,service_id,trip_id\nR1,WD,T1\n',
+  'stop_times.txt': 'trip_id,arrival_time,departure_time,stop_id,stop_sequence\n' +
+    'T1,08:00:00,08:00:00,S1,1\nT1,08:10:00,08:10:00,S2,2\n',
+  'feed_info.txt': 'feed_publisher_name,feed_publisher_url,feed_lang,feed_end_date\nCPT,https://example.com,el,20261231\n',
+};
+
+const reader = (files: Record<string, string>): GtfsFileReader => (fileName, onIssue) =>
+  files[fileName] === undefined ? null : readCsv(files[fileName], { onIssue });
+
+const validate = (overrides: Record<string, string | undefined>) => {
+  const files = { ...VALID_FEED, ...overrides };
+  for (const [name, content] of Object.entries(files)) {
+    if (content === undefined) delete files[name];
+  }
+  return validateStaticFeed(reader(files as Record<string, string>), { today: TODAY });
+};
+
+const codes = (notices: { code: string }[]) => notices.map((notice) => notice.code);
+
+Deno.test('a valid feed has no notices', async () => {
+  assertEquals(await validate({}), []);
+});
+
+Deno.test('missing required and recommended files are reported', async () => {
+  const notices = await validate({ 'stop_times.txt': undefined, 'feed_info.txt': undefined });
+  assertEquals(codes(notices), ['missing_required_file', 'missing_recommended_file', 'unusable_trip']);
+  assertEquals(notices[0].examples, [{ file: 'stop_times.txt' }]);
+});
+
+Deno.test('duplicate stops, stops without coordinates and bad colors are reported', async () => {
+  const notices = await validate({
+    'stops.txt': 'stop_id,stop_name,stop_lat,stop_lon\nS1,Old Port,34.67,33.04\nS2,Castle,,\nS1,Again,0,0\n',
+    'routes.txt': 'route_id,agency_id,route_short_name,route_type,route_color\nR1,A,30,3,red\n',
+  });
+  assertEquals(codes(notices), ['missing_required_field', 'duplicate_key', 'invalid_color', 'point_near_origin']);
+  assertEquals(notices[0].occurrences, 2);
+  assertEquals(notices[1].examples, [{ file: 'stops.txt', row: 4, field: 'stop_id', value: 'S1' }]);
+});
+
+Deno.test('references to unknown routes, services and stops are reported', async () => {
+  const notices = await validate({
+    'trips.txt': 'route_id,service_id,trip_id\nR1,WD,T1\nR9,XX,T2\n',
+    'stop_times.txt': 'trip_id,arrival_time,departure_time,stop_id,stop_sequence\n' +
+      'T1,08:00:00,08:00:00,S1,1\nT1,08:10:00,08:10:00,S9,2\nT2,08:00:00,08:00:00,S1,1\nT2,08:10:00,08:10:00,S2,2\n',
+  });
+  assertEquals(codes(notices), ['foreign_key_violation']);
+  assertEquals(notices[0].examples.map((example) => example.value), ['R9', 'XX', 'S9']);
+});
+
+Deno.test('expired calendars and feeds are reported', async () => {
+  const notices = await validate({
+    'calendar.txt': 'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date\n' +
+      'WD,1,1,1,1,1,0,0,20250101,20251231\n',
+    'calendar_dates.txt': 'service_id,date,exception_type\nXMAS,20251225,1\n',
+    'feed_info.txt': 'feed_publisher_name,feed_publisher_url,feed_lang,feed_end_date\nCPT,https://example.com,el,20260120\n',
+  });
+  assertEquals(codes(notices), ['all_services_expired', 'expired_calendar', 'feed_expiration_date7_days']);
+  assertEquals(notices[1].occurrences, 2);
+});
+
+Deno.test('stop times out of order and malformed rows are reported', async () => {
+  const notices = await validate({
+    'stop_times.txt': 'trip_id,arrival_time,departure_time,stop_id,stop_sequence\n' +
+      'T1,08:00:00,08:05:00,S1,1\nT1,08:03:00,08:02:00,S2,2\nT1,8:1:00,,S1,3,extra\nT1,,,S2,4\n',
+  });
+  assertEquals(codes(notices), [
+    'csv_parsing_failed',
+    'invalid_time',
+    'missing_trip_edge',
+    'stop_time_with_arrival_before_previous_departure_time',
+    'stop_time_with_departure_before_arrival_time',
+  ]);
+});
@@ -0,0 +1,43 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { getPreferredLanguages, groupAlertTranslations, parseAcceptLanguage, selectTranslation } from '../translations.ts';
+
+const texts = (...languages: (string | undefined)[]) => languages.map((language) => ({ text: `text ${language}`, language }));
+
+Deno.test('Accept-Language tags are ordered by quality', () => {
+  assertEquals(parseAcceptLanguage('en-GB;q=0.8, el, fr;q=0.9, *;q=0.5, de;q=0'), ['el', 'fr', 'en-gb']);
+  assertEquals(parseAcceptLanguage('EN-us'), ['en-us']);
+  assertEquals(parseAcceptLanguage(''), []);
+  assertEquals(parseAcceptLanguage(null), []);
+});
+
+Deno.test('the lang parameter takes precedence over Accept-Language', () => {
+  const req = new Request('https://proxy.example/alerts', { headers: { 'Accept-Language': 'el' } });
+  assertEquals(getPreferredLanguages(new URL('https://proxy.example/alerts?lang=EN, fr'), req), ['en', 'fr']);
+  assertEquals(getPreferredLanguages(new URL('https://proxy.example/alerts'), req), ['el']);
+});
+
+Deno.test('translations match exactly, then by primary subtag, then the default', () => {
+  const translations = texts('el', 'en-GB', undefined, 'fr');
+
+  assertEquals(selectTranslation(translations, ['en-gb'])?.language, 'en-GB');
+  assertEquals(selectTranslation(translations, ['en-us', 'el'])?.language, 'en-GB');
+  assertEquals(selectTranslation(translations, ['de', 'fr'])?.language, 'fr');
+  assertEquals(selectTranslation(translations, ['de'])?.language, undefined);
+  assertEquals(selectTranslation(texts('el', 'fr'), ['de'])?.language, 'el');
+  assertEquals(selectTranslation(undefined, ['el']), undefined);
+  assertEquals(selectTranslation([], ['el']), undefined);
+});
+
+Deno.test('alert translations are grouped by language with shared text in each', () => {
+  assertEquals(groupAlertTranslations({
+    headerText: [{ text: 'Εκτροπή', language: 'el' }, { text: 'Detour', language: 'en' }],
+    descriptionText: [{ text: 'Via the old road', language: 'en' }],
+    url: [{ text: 'https://operator.example/detour' }],
+  }), [
+    { language: 'el', headerText: 'Εκτροπή', url: 'https://operator.example/detour' },
+    { language: 'en', headerText: 'Detour', descriptionText: 'Via the old road', url: 'https://operator.example/detour' },
+  ]);
+  assertEquals(groupAlertTranslations({ headerText: [{ text: 'Detour' }] }), [{ headerText: 'Detour' }]);
+  assertEquals(groupAlertTranslations({}), []);
+});
@@ -0,0 +1,98 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  backoffDelay,
+  CircuitBreaker,
+  DEFAULT_UPSTREAM_OPTIONS,
+  HttpStatusError,
+  MAX_UPSTREAM_BUDGET,
+  parseUpstreamOptions,
+  settleAll,
+  type UpstreamOptions,
+  withRetry,
+} from '../upstream.ts';
+
+const OPTIONS: UpstreamOptions = { ...DEFAULT_UPSTREAM_OPTIONS.realtime, timeout: 1000, retries: 2 };
+
+Deno.test('withRetry retries transient failures with jittered backoff', async () => {
+  const delays: number[] = [];
+  let calls = 0;
+  const result = await withRetry(async () => {
+    calls++;
+    if (calls === 1) throw new TypeError('connection reset');
+    if (calls === 2) throw new HttpStatusError(503);
+    return 'feed';
+  }, OPTIONS, { sleep: async (ms) => { delays.push(ms); }, random: () => 0.5 });
+
+  assertEquals(result, 'feed');
+  assertEquals(calls, 3);
+  // Half of 500 ms, then half of 1000 ms
+  assertEquals(delays, [250, 500]);
+  assertEquals(backoffDelay(10, OPTIONS, () => 1), OPTIONS.backoffMax);
+});
+
+Deno.test('withRetry gives up on client errors and after the last retry', async () => {
+  let calls = 0;
+  await assertRejects(() => withRetry(async () => {
+    calls++;
+    throw new HttpStatusError(404);
+  }, OPTIONS, { sleep: async () => {} }), HttpStatusError, 'status: 404');
+  assertEquals(calls, 1);
+
+  calls = 0;
+  await assertRejects(() => withRetry(async () => {
+    calls++;
+    throw new HttpStatusError(502);
+  }, OPTIONS, { sleep: async () => {} }), HttpStatusError, 'status: 502');
+  assertEquals(calls, 3);
+});
+
+Deno.test('withRetry stops retrying when the time budget is spent', async () => {
+  let clock = 0;
+  let calls = 0;
+  const budgeted = { ...OPTIONS, timeout: 1000, retries: 5, budget: 2500 };
+  await assertRejects(() => withRetry(async () => {
+    calls++;
+    clock += 1000;
+    throw new HttpStatusError(503);
+  }, budgeted, { sleep: async (ms) => { clock += ms; }, random: () => 0.5, now: () => clock }), HttpStatusError);
+
+  // Attempts take 1000 ms; the backoff after the second would end past 2500 ms
+  assertEquals(calls, 2);
+});
+
+Deno.test('circuit breaker opens after repeated failures and lets one probe through', () => {
+  const breaker = new CircuitBreaker(2, 1000);
+  breaker.recordFailure(0);
+  assertEquals(breaker.allowRequest(10), true);
+  breaker.recordFailure(10);
+  assertEquals(breaker.state(10), 'open');
+  assertEquals(breaker.allowRequest(500), false);
+
+  // After the cooldown a single probe goes through; its failure reopens it
+  assertEquals(breaker.allowRequest(1010), true);
+  assertEquals(breaker.allowRequest(1010), false);
+  breaker.recordFailure(1020);
+  assertEquals(breaker.state(1500), 'open');
+
+  assertEquals(breaker.allowRequest(2020), true);
+  breaker.recordSuccess();
+  assertEquals(breaker.state(2020), 'closed');
+  assertEquals(breaker.allowRequest(2020), true);
+});
+
+Deno.test('settleAll keeps successful loads and lists the failed keys', async () => {
+  const result = await settleAll(['2', '4', '6'], async (key) => {
+    if (key === '4') throw new Error('timeout');
+    return [`route-${key}`];
+  });
+  assertEquals(result, { values: [['route-2'], ['route-6']], failed: ['4'] });
+});
+
+Deno.test('parseUpstreamOptions overrides the defaults per source', () => {
+  const options = parseUpstreamOptions('{"realtime": {"timeout": 20000, "retries": 0, "bogus": 1}, "static": {"cooldown": -1}}');
+  assertEquals(options.realtime, { ...DEFAULT_UPSTREAM_OPTIONS.realtime, timeout: 20000, retries: 0 });
+  assertEquals(options.static, DEFAULT_UPSTREAM_OPTIONS.static);
+  assertEquals(parseUpstreamOptions('not json'), DEFAULT_UPSTREAM_OPTIONS);
+  assertEquals(parseUpstreamOptions('{"static": {"budget": 600000}}').static.budget, MAX_UPSTREAM_BUDGET);
+});
@@ -0,0 +1,65 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { GtfsRealtimeFeed } from '../gtfs-realtime.ts';
+import {
+  classifyVehicle,
+  DEFAULT_FRESHNESS_THRESHOLDS,
+  parseFreshnessOverrides,
+  VehicleFreshnessTracker,
+} from '../vehicle-freshness.ts';
+
+const START = Date.UTC(2026, 0, 1, 8);
+const MINUTE = 60 * 1000;
+
+// One vehicle on a trip reporting a fresh timestamp at a position, and one
+// parked without a trip
+const feedAt = (now: number, longitude: number): GtfsRealtimeFeed => ({
+  header: { gtfsRealtimeVersion: '2.0', timestamp: now / 1000 },
+  entity: [
+    {
+      id: 'e1',
+      vehicle: {
+        trip: { tripId: 'T1', routeId: '30' },
+        vehicle: { id: 'BUS-1' },
+        position: { latitude: 35.17, longitude },
+        timestamp: now / 1000 - 10,
+      },
+    },
+    { id: 'e2', vehicle: { vehicle: { id: 'BUS-2' }, position: { latitude: 35.1, longitude: 33.3 } } },
+  ],
+});
+
+Deno.test('old positions make a vehicle stale, then lost', () => {
+  const thresholds = DEFAULT_FRESHNESS_THRESHOLDS;
+  assertEquals(classifyVehicle(thresholds, 30, 0, true), { freshness: 'fresh' });
+  assertEquals(classifyVehicle(thresholds, 240, 0, true), { freshness: 'stale', staleReason: 'old_position' });
+  assertEquals(classifyVehicle(thresholds, 3600, 0, true), { freshness: 'lost', staleReason: 'old_position' });
+  assertEquals(classifyVehicle(thresholds, undefined, 0, true), { freshness: 'fresh' });
+});
+
+Deno.test('vehicles that stop moving across polls are flagged', () => {
+  const tracker = new VehicleFreshnessTracker();
+  const thresholdsFor = () => DEFAULT_FRESHNESS_THRESHOLDS;
+
+  tracker.update(feedAt(START, 33.36), thresholdsFor, START);
+  assertEquals(tracker.classification('BUS-1'), { freshness: 'fresh' });
+  assertEquals(tracker.classification('BUS-2'), { freshness: 'fresh' });
+
+  // Moving a few metres is GPS jitter
+  tracker.update(feedAt(START + 11 * MINUTE, 33.3601), thresholdsFor, START + 11 * MINUTE);
+  assertEquals(tracker.classification('BUS-1'), { freshness: 'stale', staleReason: 'not_moving' });
+  assertEquals(tracker.classification('BUS-2'), { freshness: 'lost', staleReason: 'parked' });
+
+  tracker.update(feedAt(START + 12 * MINUTE, 33.37), thresholdsFor, START + 12 * MINUTE);
+  assertEquals(tracker.classification('BUS-1'), { freshness: 'fresh' });
+  assertEquals(tracker.classification('UNKNOWN'), undefined);
+});
+
+Deno.test('threshold overrides keep known positive values only', () => {
+  assertEquals(
+    parseFreshnessOverrides('{"5": {"stationaryAfter": 1200, "staleAfter": -1, "other": 3}, "6": 7}'),
+    { '5': { stationaryAfter: 1200 } },
+  );
+  assertEquals(parseFreshnessOverrides('not json'), {});
+  assertEquals(parseFreshnessOverrides(undefined), {});
+});
@@ -0,0 +1,48 @@
+// Run with: deno test supabase/functions/gtfs-proxy/tests
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { crc32, extractZipFiles, readZipDirectory, ZipError } from '../zip.ts';
+import {
+  ROUTES_TXT,
+  STOPS_TXT,
+  ZIP_CORRUPT_CRC,
+  ZIP_DATA_DESCRIPTOR,
+  ZIP_DEFLATED,
+  ZIP_NESTED_STORED,
+  ZIP_ZIP64,
+} from './fixtures.ts';
+
+Deno.test('crc32 matches the standard check value', () => {
+  assertEquals(crc32(new TextEncoder().encode('123456789')), 0xCBF43926);
+});
+
+Deno.test('reads deflated entries listed in the central directory', async () => {
+  const files = await extractZipFiles(ZIP_DEFLATED, ['routes.txt', 'stops.txt', 'trips.txt']);
+  assertEquals(files, new Map([['routes.txt', ROUTES_TXT], ['stops.txt', STOPS_TXT]]));
+});
+
+Deno.test('uses central directory sizes when the local header defers to a data descriptor', async () => {
+  const [entry] = readZipDirectory(ZIP_DATA_DESCRIPTOR);
+  assertEquals(entry.flags & 0x8, 0x8);
+  assertEquals((await extractZipFiles(ZIP_DATA_DESCRIPTOR, ['routes.txt'])).get('routes.txt'), ROUTES_TXT);
+});
+
+Deno.test('finds files inside a folder and ignores signatures inside file data', async () => {
+  const files = await extractZipFiles(ZIP_NESTED_STORED, ['stops.txt']);
+  assertEquals(files.get('stops.txt'), STOPS_TXT);
+});
+
+Deno.test('reads ZIP64 sizes, offsets and end of central directory', async () => {
+  const [entry] = readZipDirectory(ZIP_ZIP64);
+  assertEquals(entry.compressedSize, ROUTES_TXT.length);
+  assertEquals(entry.localHeaderOffset, 0);
+  assertEquals((await extractZipFiles(ZIP_ZIP64, ['routes.txt'])).get('routes.txt'), ROUTES_TXT);
+});
+
+Deno.test('rejects entries whose CRC-32 does not match', async () => {
+  await assertRejects(() => extractZipFiles(ZIP_CORRUPT_CRC, ['stops.txt']), ZipError, 'CRC-32 mismatch');
+});
+
+Deno.test('reports archives without a central directory', () => {
+  assertThrows(() => readZipDirectory(new TextEncoder().encode('<html>Not found</html>')), ZipError, 'Not a ZIP archive');
+  assertThrows(() => readZipDirectory(ZIP_DEFLATED.subarray(0, 100)), ZipError);
+});
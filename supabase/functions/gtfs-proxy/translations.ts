@@ -0,0 +1,91 @@
+// Translated alert text
+// GTFS-Realtime carries alert text in several languages. Clients get the best
+// match for their preferred languages, plus every translation grouped by
+// language.
+
+import type { AlertData, TranslatedString } from './gtfs-realtime.ts';
+
+// Language negotiation: `lang` query parameter (comma separated) first, then
+// the Accept-Language header
+export function parseAcceptLanguage(header: string | null): string[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='));
+      return { tag: tag.trim().toLowerCase(), q: q ? parseFloat(q.slice(2)) : 1 };
+    })
+    .filter((entry) => entry.tag && entry.tag !== '*' && entry.q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map((entry) => entry.tag);
+}
+
+export function getPreferredLanguages(url: URL, req: Request): string[] {
+  const lang = url.searchParams.get('lang');
+  if (lang) {
+    return lang.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+  }
+  return parseAcceptLanguage(req.headers.get('accept-language'));
+}
+
+// Best translation for the preferred languages: exact tag, then primary
+// subtag ("en-GB" matches "en"), then the feed's untranslated default
+export function selectTranslation<T extends { language?: string }>(translations: T[] | undefined, languages: string[]): T | undefined {
+  if (!translations || translations.length === 0) return undefined;
+
+  for (const language of languages) {
+    const exact = translations.find((t) => t.language?.toLowerCase() === language);
+    if (exact) return exact;
+
+    const primary = language.split('-')[0];
+    const partial = translations.find((t) => t.language?.toLowerCase().split('-')[0] === primary);
+    if (partial) return partial;
+  }
+
+  return translations.find((t) => !t.language) || translations[0];
+}
+
+export interface AlertTranslation {
+  language?: string;
+  headerText?: string;
+  descriptionText?: string;
+  url?: string;
+  causeDetail?: string;
+  effectDetail?: string;
+}
+
+// All translated alert texts grouped by language, in feed order. Text without
+// a language applies to every language (typically a shared URL).
+export function groupAlertTranslations(alert: AlertData): AlertTranslation[] {
+  const byLanguage: Map<string, AlertTranslation> = new Map();
+  const untranslated: AlertTranslation = {};
+  const fields: [keyof Omit<AlertTranslation, 'language'>, TranslatedString[] | undefined][] = [
+    ['headerText', alert.headerText],
+    ['descriptionText', alert.descriptionText],
+    ['url', alert.url],
+    ['causeDetail', alert.causeDetail],
+    ['effectDetail', alert.effectDetail],
+  ];
+
+  for (const [key, translations] of fields) {
+    for (const translation of translations || []) {
+      if (!translation.language) {
+        untranslated[key] = translation.text;
+        continue;
+      }
+      let entry = byLanguage.get(translation.language);
+      if (!entry) {
+        entry = { language: translation.language };
+        byLanguage.set(translation.language, entry);
+      }
+      entry[key] = translation.text;
+    }
+  }
+
+  if (byLanguage.size === 0) {
+    return Object.keys(untranslated).length > 0 ? [untranslated] : [];
+  }
+  return Array.from(byLanguage.values()).map((entry) => ({ language: entry.language, ...untranslated, ...entry }));
+}
@@ -0,0 +1,206 @@
+// Resilient upstream downloads
+// Every attempt runs with its own timeout; network errors, timeouts and 5xx
+// or 429 responses are retried with jittered exponential backoff. A circuit
+// breaker per upstream endpoint stops hammering a server that keeps failing
+// and lets a single probe through once its cooldown has passed. All attempts
+// and backoff together stay within a time budget, so a download gives up
+// before the edge function reaches its wall-clock limit.
+
+export interface UpstreamOptions {
+  // Per attempt, milliseconds
+  timeout: number;
+  // Attempts after the first
+  retries: number;
+  // Backoff before retry n is random in [0, min(backoffMax, backoffBase * 2^n)]
+  backoffBase: number;
+  backoffMax: number;
+  // Consecutive failures that open the circuit...
+  failureThreshold: number;
+  // ...and how long it stays open, milliseconds
+  cooldown: number;
+  // Total time for all attempts and backoff, milliseconds
+  budget: number;
+}
+
+export type UpstreamSourceOptions = Record<'realtime' | 'static', UpstreamOptions>;
+
+// Edge functions are stopped after 150 seconds; budgets leave time to respond
+export const MAX_UPSTREAM_BUDGET = 120 * 1000;
+
+export const DEFAULT_UPSTREAM_OPTIONS: UpstreamSourceOptions = {
+  realtime: { timeout: 15000, retries: 2, backoffBase: 500, backoffMax: 4000, failureThreshold: 5, cooldown: 30000, budget: 30000 },
+  static: { timeout: 120000, retries: 2, backoffBase: 2000, backoffMax: 15000, failureThreshold: 3, cooldown: 5 * 60000, budget: MAX_UPSTREAM_BUDGET },
+};
+
+export class HttpStatusError extends Error {
+  readonly status: number;
+
+  constructor(status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+export class CircuitOpenError extends Error {
+  // Unix milliseconds when the next probe is allowed
+  readonly retryAt: number;
+
+  constructor(endpoint: string, retryAt: number) {
+    super(`Circuit open for ${endpoint} until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+// Overrides from the UPSTREAM_OPTIONS environment variable, e.g.
+// {"realtime": {"timeout": 20000, "retries": 1}}. Unknown keys and negative
+// values are ignored.
+export function parseUpstreamOptions(json: string | undefined): UpstreamSourceOptions {
+  const options: UpstreamSourceOptions = {
+    realtime: { ...DEFAULT_UPSTREAM_OPTIONS.realtime },
+    static: { ...DEFAULT_UPSTREAM_OPTIONS.static },
+  };
+  if (!json) return options;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.error('Ignoring UPSTREAM_OPTIONS: not valid JSON');
+    return options;
+  }
+  if (!parsed || typeof parsed !== 'object') return options;
+
+  for (const source of Object.keys(options) as (keyof UpstreamSourceOptions)[]) {
+    const values = (parsed as Record<string, unknown>)[source];
+    if (!values || typeof values !== 'object') continue;
+    for (const key of Object.keys(options[source]) as (keyof UpstreamOptions)[]) {
+      const value = (values as Record<string, unknown>)[key];
+      if (typeof value === 'number' && value >= 0) options[source][key] = value;
+    }
+    options[source].budget = Math.min(options[source].budget, MAX_UPSTREAM_BUDGET);
+  }
+  return options;
+}
+
+export function backoffDelay(retry: number, options: UpstreamOptions, random = Math.random): number {
+  return Math.round(random() * Math.min(options.backoffMax, options.backoffBase * 2 ** retry));
+}
+
+// Timeouts, network failures, server errors and rate limiting are transient
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpStatusError) return error.status >= 500 || error.status === 429;
+  if (!(error instanceof Error)) return false;
+  return error.name === 'AbortError' || error.name === 'TimeoutError' || error instanceof TypeError;
+}
+
+export interface RetryHooks {
+  retryable?: (error: unknown) => boolean;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+  now?: () => number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Runs `attempt` until it succeeds, fails with a non-retryable error, or the
+// retries or the budget run out. Each attempt gets a signal that aborts at the
+// timeout or at the end of the budget, whichever comes first.
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal, attemptNumber: number) => Promise<T>,
+  options: UpstreamOptions,
+  hooks: RetryHooks = {},
+): Promise<T> {
+  const retryable = hooks.retryable || isRetryable;
+  const now = hooks.now || Date.now;
+  const deadline = now() + options.budget;
+
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), Math.min(options.timeout, Math.max(0, deadline - now())));
+    let delay: number;
+    try {
+      return await attempt(controller.signal, attemptNumber);
+    } catch (error) {
+      if (attemptNumber >= options.retries || !retryable(error)) throw error;
+      delay = backoffDelay(attemptNumber, options, hooks.random);
+      // No retry that would start after the budget is spent
+      if (now() + delay >= deadline) throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+    await (hooks.sleep || sleep)(delay);
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private cooldown: number;
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(failureThreshold: number, cooldown: number) {
+    this.failureThreshold = failureThreshold;
+    this.cooldown = cooldown;
+  }
+
+  state(now = Date.now()): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return now - this.openedAt >= this.cooldown ? 'half_open' : 'open';
+  }
+
+  // Unix milliseconds when an open circuit lets the next probe through
+  retryAt(): number | null {
+    return this.openedAt === null ? null : this.openedAt + this.cooldown;
+  }
+
+  // Whether a request may go upstream now. Once the cooldown has passed only
+  // one probe at a time is let through until it succeeds or fails.
+  allowRequest(now = Date.now()): boolean {
+    const state = this.state(now);
+    if (state === 'closed') return true;
+    if (state === 'open' || this.probing) return false;
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  recordFailure(now = Date.now()) {
+    this.consecutiveFailures++;
+    // A failed probe reopens the circuit for another cooldown
+    if (this.probing || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = now;
+    }
+    this.probing = false;
+  }
+}
+
+export interface SettledResults<T> {
+  values: T[];
+  // Keys whose load failed, in input order
+  failed: string[];
+}
+
+// Loads every key concurrently and keeps the results that succeeded
+export async function settleAll<T>(keys: string[], load: (key: string) => Promise<T>): Promise<SettledResults<T>> {
+  const settled = await Promise.allSettled(keys.map((key) => load(key)));
+  const values: T[] = [];
+  const failed: string[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      values.push(result.value);
+    } else {
+      failed.push(keys[i]);
+    }
+  });
+  return { values, failed };
+}
@@ -0,0 +1,138 @@
+// Stale and ghost vehicle detection
+// A vehicle is stale when its position is old or has not moved for a while
+// although it is on a trip, and lost when the position is very old or the
+// vehicle is parked without a trip (typically at a depot). Movement is judged
+// across upstream polls, so the tracker keeps the last position of every
+// vehicle and when it was first seen there.
+
+import { distanceMeters } from './geo.ts';
+import type { GtfsRealtimeFeed, VehiclePosition } from './gtfs-realtime.ts';
+
+export type VehicleFreshness = 'fresh' | 'stale' | 'lost';
+export type StaleReason = 'old_position' | 'not_moving' | 'parked';
+
+export interface FreshnessThresholds {
+  // Position age, seconds, after which a vehicle is stale...
+  staleAfter: number;
+  // ...and lost
+  lostAfter: number;
+  // Seconds without moving before a vehicle on a trip is stale
+  stationaryAfter: number;
+  // Seconds without moving before a vehicle with no trip is lost
+  parkedAfter: number;
+}
+
+export interface VehicleClassification {
+  freshness: VehicleFreshness;
+  staleReason?: StaleReason;
+}
+
+export const DEFAULT_FRESHNESS_THRESHOLDS: FreshnessThresholds = {
+  staleAfter: 3 * 60,
+  lostAfter: 15 * 60,
+  stationaryAfter: 10 * 60,
+  parkedAfter: 10 * 60,
+};
+
+// GPS jitter below this distance does not count as movement
+export const MOVEMENT_TOLERANCE = 30; // meters
+// Vehicles missing from the feeds for this long are forgotten
+const TRACKING_RETENTION = 60 * 60 * 1000; // 1 hour
+
+// Per-operator overrides, e.g. from the VEHICLE_FRESHNESS_THRESHOLDS
+// environment variable: {"5": {"stationaryAfter": 1200}}. Unknown keys and
+// non-positive values are ignored.
+export function parseFreshnessOverrides(json: string | undefined): Record<string, Partial<FreshnessThresholds>> {
+  if (!json) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.error('Ignoring VEHICLE_FRESHNESS_THRESHOLDS: not valid JSON');
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object') return {};
+
+  const overrides: Record<string, Partial<FreshnessThresholds>> = {};
+  for (const [operatorId, values] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!values || typeof values !== 'object') continue;
+    const thresholds: Partial<FreshnessThresholds> = {};
+    for (const key of Object.keys(DEFAULT_FRESHNESS_THRESHOLDS) as (keyof FreshnessThresholds)[]) {
+      const value = (values as Record<string, unknown>)[key];
+      if (typeof value === 'number' && value > 0) thresholds[key] = value;
+    }
+    overrides[operatorId] = thresholds;
+  }
+  return overrides;
+}
+
+export function classifyVehicle(
+  thresholds: FreshnessThresholds,
+  age: number | undefined,
+  stationaryFor: number,
+  hasTrip: boolean,
+): VehicleClassification {
+  if (age !== undefined && age >= thresholds.lostAfter) return { freshness: 'lost', staleReason: 'old_position' };
+  if (!hasTrip && stationaryFor >= thresholds.parkedAfter) return { freshness: 'lost', staleReason: 'parked' };
+  if (age !== undefined && age >= thresholds.staleAfter) return { freshness: 'stale', staleReason: 'old_position' };
+  if (hasTrip && stationaryFor >= thresholds.stationaryAfter) return { freshness: 'stale', staleReason: 'not_moving' };
+  return { freshness: 'fresh' };
+}
+
+interface TrackedPosition {
+  latitude: number;
+  longitude: number;
+  // When the vehicle was first seen at this position
+  since: number;
+  seenAt: number;
+  classification: VehicleClassification;
+}
+
+export class VehicleFreshnessTracker {
+  private positions: Map<string, TrackedPosition> = new Map();
+
+  // Records the vehicle positions of a newly fetched feed and classifies them
+  update(
+    feed: GtfsRealtimeFeed,
+    thresholdsFor: (vehicle: VehiclePosition) => FreshnessThresholds,
+    now = Date.now(),
+  ): void {
+    const headerTimestamp = Number(feed.header?.timestamp || 0);
+
+    for (const entity of feed.entity || []) {
+      const vehicle = entity.vehicle;
+      const position = vehicle?.position;
+      if (entity.isDeleted || !vehicle || position?.latitude === undefined || position.longitude === undefined) continue;
+
+      // Vehicles without an id cannot be followed across polls
+      const id = vehicle.vehicle?.id || entity.id;
+      if (!id) continue;
+      const previous = this.positions.get(id);
+      // The first position seen in place anchors it, so slow drift adds up
+      const anchor = previous &&
+          distanceMeters(previous.latitude, previous.longitude, position.latitude, position.longitude) <= MOVEMENT_TOLERANCE
+        ? previous
+        : { latitude: position.latitude, longitude: position.longitude, since: now };
+
+      const timestamp = Number(vehicle.timestamp || 0) || headerTimestamp;
+      const age = timestamp > 0 ? Math.max(0, now / 1000 - timestamp) : undefined;
+      const hasTrip = !!(vehicle.trip?.tripId || vehicle.trip?.routeId);
+
+      this.positions.set(id, {
+        latitude: anchor.latitude,
+        longitude: anchor.longitude,
+        since: anchor.since,
+        seenAt: now,
+        classification: classifyVehicle(thresholdsFor(vehicle), age, (now - anchor.since) / 1000, hasTrip),
+      });
+    }
+
+    for (const [id, tracked] of this.positions) {
+      if (now - tracked.seenAt > TRACKING_RETENTION) this.positions.delete(id);
+    }
+  }
+
+  classification(vehicleId: string | undefined): VehicleClassification | undefined {
+    return vehicleId ? this.positions.get(vehicleId)?.classification : undefined;
+  }
+}
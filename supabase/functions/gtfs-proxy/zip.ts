@@ -0,0 +1,284 @@
+// ZIP archive reader for static GTFS feeds
+// Format reference: https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+//
+// Entries are located through the central directory at the end of the archive,
+// which holds the authoritative sizes even when the local headers defer them to
+// a data descriptor (flag bit 3). ZIP64 sizes and offsets are supported.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipEntry {
+  name: string;
+  flags: number;
+  compressionMethod: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const utf8Decoder = new TextDecoder();
+const latin1Decoder = new TextDecoder('latin1');
+
+function view(data: Uint8Array, offset: number, length: number): DataView {
+  if (offset < 0 || offset + length > data.length) {
+    throw new ZipError(`Truncated archive: need ${length} bytes at offset ${offset}, archive is ${data.length} bytes`);
+  }
+  return new DataView(data.buffer, data.byteOffset + offset, length);
+}
+
+function getUint64(dataView: DataView, offset: number): number {
+  const value = dataView.getBigUint64(offset, true);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new ZipError(`ZIP64 value ${value} is too large`);
+  }
+  return Number(value);
+}
+
+// The end of central directory record sits in the last 22 bytes plus an
+// optional archive comment of up to 65535 bytes
+function findEndOfCentralDirectory(data: Uint8Array): number {
+  const minOffset = Math.max(0, data.length - 22 - 0xFFFF);
+  for (let offset = data.length - 22; offset >= minOffset; offset--) {
+    if (data[offset] === 0x50 && data[offset + 1] === 0x4b &&
+        view(data, offset, 4).getUint32(0, true) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ZipError('Not a ZIP archive: end of central directory record not found');
+}
+
+export function readZipDirectory(data: Uint8Array): ZipEntry[] {
+  const eocdOffset = findEndOfCentralDirectory(data);
+  const eocd = view(data, eocdOffset, 22);
+  let entryCount = eocd.getUint16(10, true);
+  let directorySize = eocd.getUint32(12, true);
+  let directoryOffset = eocd.getUint32(16, true);
+
+  if (entryCount === 0xFFFF || directorySize === 0xFFFFFFFF || directoryOffset === 0xFFFFFFFF) {
+    const locatorOffset = eocdOffset - 20;
+    const locator = view(data, locatorOffset, 20);
+    if (locator.getUint32(0, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      throw new ZipError('ZIP64 end of central directory locator not found');
+    }
+    const zip64Offset = getUint64(locator, 8);
+    const zip64 = view(data, zip64Offset, 56);
+    if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new ZipError(`Invalid ZIP64 end of central directory record at offset ${zip64Offset}`);
+    }
+    entryCount = getUint64(zip64, 32);
+    directorySize = getUint64(zip64, 40);
+    directoryOffset = getUint64(zip64, 48);
+  }
+
+  if (directoryOffset + directorySize > data.length) {
+    throw new ZipError(`Central directory (${directorySize} bytes at offset ${directoryOffset}) lies outside the archive`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    const header = view(data, offset, 46);
+    if (header.getUint32(0, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipError(`Invalid central directory header for entry ${i} at offset ${offset}`);
+    }
+
+    const flags = header.getUint16(8, true);
+    const nameLength = header.getUint16(28, true);
+    const extraLength = header.getUint16(30, true);
+    const commentLength = header.getUint16(32, true);
+    const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength);
+
+    const entry: ZipEntry = {
+      name: (flags & FLAG_UTF8 ? utf8Decoder : latin1Decoder).decode(nameBytes),
+      flags,
+      compressionMethod: header.getUint16(10, true),
+      crc32: header.getUint32(16, true),
+      compressedSize: header.getUint32(20, true),
+      uncompressedSize: header.getUint32(24, true),
+      localHeaderOffset: header.getUint32(42, true),
+    };
+
+    // ZIP64 extended information: only the fields saturated in the header are present, in this order
+    const extraStart = offset + 46 + nameLength;
+    let extraOffset = extraStart;
+    while (extraOffset + 4 <= extraStart + extraLength) {
+      const extra = view(data, extraOffset, 4);
+      const id = extra.getUint16(0, true);
+      const size = extra.getUint16(2, true);
+      if (id === ZIP64_EXTRA_FIELD_ID) {
+        const zip64 = view(data, extraOffset + 4, size);
+        let position = 0;
+        if (entry.uncompressedSize === 0xFFFFFFFF) {
+          entry.uncompressedSize = getUint64(zip64, position);
+          position += 8;
+        }
+        if (entry.compressedSize === 0xFFFFFFFF) {
+          entry.compressedSize = getUint64(zip64, position);
+          position += 8;
+        }
+        if (entry.localHeaderOffset === 0xFFFFFFFF) {
+          entry.localHeaderOffset = getUint64(zip64, position);
+        }
+      }
+      extraOffset += 4 + size;
+    }
+
+    entries.push(entry);
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// CRC-32 (IEEE 802.3), as used by ZIP
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array, previous = 0): number {
+  const table = getCrcTable();
+  let crc = previous ^ 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Passes data through unchanged and fails the stream at the end if the CRC-32
+// or length does not match the central directory
+function verifyEntry(entry: ZipEntry): TransformStream<Uint8Array, Uint8Array> {
+  let crc = 0;
+  let size = 0;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      controller.enqueue(chunk);
+    },
+    flush(controller) {
+      if (size !== entry.uncompressedSize) {
+        controller.error(new ZipError(`${entry.name}: expected ${entry.uncompressedSize} bytes, got ${size}`));
+      } else if (crc !== entry.crc32) {
+        controller.error(new ZipError(
+          `${entry.name}: CRC-32 mismatch (expected ${entry.crc32.toString(16)}, got ${crc.toString(16)})`
+        ));
+      }
+    },
+  });
+}
+
+// Decompressed, CRC-checked contents of one entry as a byte stream
+export function openZipEntry(data: Uint8Array, entry: ZipEntry): ReadableStream<Uint8Array> {
+  if (entry.flags & FLAG_ENCRYPTED) {
+    throw new ZipError(`${entry.name}: encrypted entries are not supported`);
+  }
+
+  const local = view(data, entry.localHeaderOffset, 30);
+  if (local.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new ZipError(`${entry.name}: invalid local file header at offset ${entry.localHeaderOffset}`);
+  }
+
+  // Sizes come from the central directory; the local header may hold zeros
+  // when a data descriptor follows the data
+  const dataStart = entry.localHeaderOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+  if (dataStart + entry.compressedSize > data.length) {
+    throw new ZipError(`${entry.name}: compressed data runs past the end of the archive`);
+  }
+  const compressed = data.subarray(dataStart, dataStart + entry.compressedSize);
+
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(compressed);
+      controller.close();
+    },
+  });
+
+  let stream: ReadableStream<Uint8Array>;
+  switch (entry.compressionMethod) {
+    case METHOD_STORED:
+      stream = source;
+      break;
+    case METHOD_DEFLATE:
+      stream = source.pipeThrough(new DecompressionStream('deflate-raw'));
+      break;
+    default:
+      throw new ZipError(`${entry.name}: unsupported compression method ${entry.compressionMethod}`);
+  }
+
+  return stream.pipeThrough(verifyEntry(entry));
+}
+
+// GTFS archives are sometimes packed inside a folder; match on the file name
+function baseName(name: string): string {
+  return name.slice(name.lastIndexOf('/') + 1);
+}
+
+// Entries for the requested file names, keyed by requested name. Files missing
+// from the archive are omitted.
+export function findZipEntries(data: Uint8Array, fileNames: string[]): Map<string, ZipEntry> {
+  const wanted = new Set(fileNames);
+  const found = new Map<string, ZipEntry>();
+
+  for (const entry of readZipDirectory(data)) {
+    if (entry.name.endsWith('/')) continue;
+    const name = wanted.has(entry.name) ? entry.name : baseName(entry.name);
+    if (wanted.has(name) && !found.has(name)) found.set(name, entry);
+  }
+
+  return found;
+}
+
+async function readStreamText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  let text = '';
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+  }
+  return text;
+}
+
+// Extract the named text files from a ZIP archive
+export async function extractZipFiles(data: Uint8Array, fileNames: string[]): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+
+  for (const [name, entry] of findZipEntries(data, fileNames)) {
+    files.set(name, await readStreamText(openZipEntry(data, entry)));
+  }
+
+  return files;
+}
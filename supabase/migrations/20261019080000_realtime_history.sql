@@ -0,0 +1,80 @@
+-- Realtime history recorded by the gtfs-proxy function (POST /history/record)
+
+create table if not exists public.vehicle_positions (
+  operator_id text not null,
+  vehicle_id text not null,
+  -- Position timestamp reported by the vehicle
+  recorded_at timestamptz not null,
+  trip_id text,
+  route_id text,
+  direction_id smallint,
+  start_date text,
+  latitude double precision not null,
+  longitude double precision not null,
+  bearing real,
+  speed real,
+  current_stop_sequence integer,
+  stop_id text,
+  current_status text,
+  occupancy_status text,
+  received_at timestamptz not null default now(),
+  primary key (operator_id, vehicle_id, recorded_at)
+);
+
+create index if not exists vehicle_positions_recorded_at_idx
+  on public.vehicle_positions (recorded_at);
+create index if not exists vehicle_positions_route_idx
+  on public.vehicle_positions (operator_id, route_id, recorded_at);
+create index if not exists vehicle_positions_trip_idx
+  on public.vehicle_positions (trip_id, recorded_at);
+
+create table if not exists public.trip_updates (
+  operator_id text not null,
+  trip_id text not null,
+  -- '' when the feed does not name the service day
+  start_date text not null default '',
+  recorded_at timestamptz not null,
+  route_id text,
+  direction_id smallint,
+  vehicle_id text,
+  delay integer,
+  schedule_relationship text,
+  stop_time_updates jsonb not null default '[]'::jsonb,
+  received_at timestamptz not null default now(),
+  primary key (operator_id, trip_id, start_date, recorded_at)
+);
+
+create index if not exists trip_updates_recorded_at_idx
+  on public.trip_updates (recorded_at);
+create index if not exists trip_updates_route_idx
+  on public.trip_updates (operator_id, route_id, recorded_at);
+create index if not exists trip_updates_vehicle_idx
+  on public.trip_updates (vehicle_id, recorded_at);
+
+-- History is public transit data: anyone may read it, only the recorder
+-- (connecting as the database owner) writes it
+alter table public.vehicle_positions enable row level security;
+alter table public.trip_updates enable row level security;
+
+create policy "Vehicle positions are readable by everyone"
+  on public.vehicle_positions for select using (true);
+create policy "Trip updates are readable by everyone"
+  on public.trip_updates for select using (true);
+
+-- Deletes history older than the retention period and returns the number of
+-- rows removed. Called by the recorder after each run.
+create or replace function public.prune_realtime_history(retention interval default interval '14 days')
+returns bigint
+language plpgsql
+as $$
+declare
+  removed_positions bigint;
+  removed_updates bigint;
+begin
+  delete from public.vehicle_positions where recorded_at < now() - retention;
+  get diagnostics removed_positions = row_count;
+  delete from public.trip_updates where recorded_at < now() - retention;
+  get diagnostics removed_updates = row_count;
+  return removed_positions + removed_updates;
+end;
+$$;
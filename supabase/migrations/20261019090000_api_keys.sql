@@ -0,0 +1,58 @@
+-- API keys for callers of the gtfs-proxy function, with their limits and
+-- daily usage. Issue a key with
+--   select public.issue_api_key('Partner name', 120, 50000);
+-- and revoke it by setting revoked_at.
+
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.api_keys (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- SHA-256 of the key, hex; the key itself is only shown when issued
+  key_hash text not null unique,
+  -- Start of the key, to tell keys apart without revealing them
+  key_prefix text not null,
+  -- Requests per minute
+  rate_limit integer not null default 60 check (rate_limit > 0),
+  -- Requests per UTC day; null for no quota
+  daily_quota integer check (daily_quota > 0),
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create table if not exists public.api_key_usage (
+  key_id uuid not null references public.api_keys (id) on delete cascade,
+  -- UTC day
+  day date not null,
+  requests bigint not null default 0,
+  -- Requests refused by the rate limit or the quota
+  rejected bigint not null default 0,
+  last_used_at timestamptz not null default now(),
+  primary key (key_id, day)
+);
+
+-- Only the proxy (connecting as the database owner) reads keys and usage
+alter table public.api_keys enable row level security;
+alter table public.api_key_usage enable row level security;
+
+-- Creates a key and returns it. Only its hash is stored, so the returned
+-- value cannot be recovered later.
+create or replace function public.issue_api_key(
+  key_name text,
+  key_rate_limit integer default 60,
+  key_daily_quota integer default null
+)
+returns text
+language plpgsql
+as $$
+declare
+  api_key text := 'gtfs_' || encode(extensions.gen_random_bytes(24), 'hex');
+begin
+  insert into public.api_keys (name, key_hash, key_prefix, rate_limit, daily_quota)
+  values (key_name, encode(extensions.digest(api_key, 'sha256'), 'hex'), left(api_key, 12), key_rate_limit, key_daily_quota);
+  return api_key;
+end;
+$$;
+
+-- Not callable through the API
+revoke execute on function public.issue_api_key(text, integer, integer) from public, anon, authenticated;